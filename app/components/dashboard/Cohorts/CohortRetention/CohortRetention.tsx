@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Spinner,
+  Select,
+} from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import {
+  COHORT_MONTH_OPTIONS,
+  DEFAULT_COHORT_MONTHS,
+  formatCohortMonthLabel,
+  type Cohort,
+  type CohortCell,
+  type CohortMetric,
+  type CohortRetention as CohortRetentionData,
+} from "../../../../utils/cohorts";
+import {
+  DashboardSegmentModal,
+  type DashboardSegmentData,
+} from "../../DashboardSegmentModal";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
+
+interface CohortRetentionResponse extends Partial<CohortRetentionData> {
+  error?: string;
+}
+
+interface SelectedCell {
+  cohort: Cohort;
+  cell: CohortCell;
+}
+
+const metricOptions: Array<{ label: string; value: CohortMetric }> = [
+  { label: "Customer retention", value: "retention" },
+  { label: "Revenue retention", value: "revenueRetention" },
+];
+
+const monthOptions = COHORT_MONTH_OPTIONS.map((months) => ({
+  label: `Last ${months} months`,
+  value: String(months),
+}));
+
+/**
+ * Background color of a heatmap cell (darker green = higher %)
+ */
+function getCellColor(percentage: number | null): string {
+  if (percentage === null) {
+    return "transparent";
+  }
+  const intensity = Math.min(percentage, 100) / 100;
+  return `rgba(0, 128, 96, ${(0.08 + intensity * 0.82).toFixed(2)})`;
+}
+
+function formatPercentage(percentage: number | null): string {
+  if (percentage === null) {
+    return "–";
+  }
+  return `${percentage >= 10 ? Math.round(percentage) : percentage.toFixed(1)}%`;
+}
+
+/**
+ * Cohort Retention Component
+ *
+ * Heatmap table of customers grouped by first-order month: each row is a cohort,
+ * each column the months after its first order. Cells show the % of the cohort
+ * ordering again that month, or the cohort's revenue as a % of its first month.
+ * Clicking a cell lists the customers behind it.
+ * Fetches its own data independently.
+ */
+export function CohortRetention() {
+  const fetcher = useFetcher<CohortRetentionResponse>();
+  const customersListFetcher = useFetcher<DashboardSegmentData>();
+  const [months, setMonths] = useState(DEFAULT_COHORT_MONTHS);
+  const [metric, setMetric] = useState<CohortMetric>("retention");
+  const [data, setData] = useState<CohortRetentionData | null>(null);
+  const [showAccessModal, setShowAccessModal] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<SelectedCell | null>(null);
+
+  const { load: loadRetention } = fetcher;
+
+  useEffect(() => {
+    setData(null);
+    setSelectedCell(null);
+    loadRetention(`/api/dashboard/cohorts/retention?months=${months}`);
+  }, [months, loadRetention]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setData(null);
+      } else if (fetcher.data.error) {
+        console.error("[Cohort Retention] Error:", fetcher.data.error);
+        setData(null);
+      } else if (Array.isArray(fetcher.data.cohorts)) {
+        setData(fetcher.data as CohortRetentionData);
+      }
+    }
+  }, [fetcher.data]);
+
+  const handleCellClick = (cohort: Cohort, cell: CohortCell) => {
+    setSelectedCell({ cohort, cell });
+    customersListFetcher.load(
+      `/api/dashboard/cohorts/retention/list?cohort=${cohort.month}&offset=${cell.offset}&months=${months}`,
+    );
+  };
+
+  const getCellTitle = ({ cohort, cell }: SelectedCell) =>
+    cell.offset === 0
+      ? `${formatCohortMonthLabel(cohort.month)} cohort`
+      : `${formatCohortMonthLabel(cohort.month)} cohort - month ${cell.offset}`;
+
+  // Export handlers
+  const getExportFilename = () => {
+    const dateStr = new Date().toISOString().split("T")[0];
+    return `cohort-${selectedCell?.cohort.month}-month-${selectedCell?.cell.offset}-${dateStr}`;
+  };
+
+  const handleExportCSV = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToCSV({ customers, filename: getExportFilename() });
+  };
+
+  const handleExportPDF = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0 || !selectedCell) return;
+    exportToPDF({
+      customers,
+      filename: getExportFilename(),
+      title: `${getCellTitle(selectedCell)} Export`,
+    });
+  };
+
+  const handleExportExcel = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToExcel({ customers, filename: getExportFilename() });
+  };
+
+  const hasData = data && data.cohorts.some((cohort) => cohort.size > 0);
+  const cellStyle = {
+    padding: "6px 8px",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+    borderBottom: "1px solid #e1e3e5",
+  };
+
+  return (
+    <>
+      <Card padding="400">
+        <BlockStack gap="300">
+          <InlineStack align="space-between" blockAlign="center" gap="200">
+            <Text as="h3" variant="headingMd">
+              Cohort Retention
+            </Text>
+            <InlineStack gap="200">
+              <Select
+                label="Metric"
+                labelHidden
+                options={metricOptions}
+                value={metric}
+                onChange={(value) => setMetric(value as CohortMetric)}
+              />
+              <Select
+                label="Cohorts"
+                labelHidden
+                options={monthOptions}
+                value={String(months)}
+                onChange={(value) => setMonths(Number(value))}
+              />
+            </InlineStack>
+          </InlineStack>
+
+          {!data && fetcher.state === "loading" ? (
+            <BlockStack gap="300" align="center">
+              <Spinner size="large" />
+              <Text as="p" tone="subdued">Loading cohorts...</Text>
+            </BlockStack>
+          ) : hasData ? (
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", width: "100%", fontSize: "13px" }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...cellStyle, textAlign: "left" }}>Cohort</th>
+                    <th style={cellStyle}>Customers</th>
+                    {Array.from({ length: data.months }, (_, offset) => (
+                      <th key={offset} style={cellStyle}>
+                        Month {offset}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.cohorts.map((cohort) => (
+                    <tr key={cohort.month}>
+                      <td style={{ ...cellStyle, textAlign: "left" }}>
+                        {formatCohortMonthLabel(cohort.month)}
+                      </td>
+                      <td style={cellStyle}>{cohort.size}</td>
+                      {Array.from({ length: data.months }, (_, offset) => {
+                        const cell = cohort.cells[offset];
+                        if (!cell || cohort.size === 0) {
+                          return <td key={offset} style={cellStyle} />;
+                        }
+
+                        const percentage = cell[metric];
+                        return (
+                          <td
+                            key={offset}
+                            style={{
+                              ...cellStyle,
+                              backgroundColor: getCellColor(percentage),
+                              color: (percentage ?? 0) > 50 ? "white" : undefined,
+                              cursor: cell.customers > 0 ? "pointer" : "default",
+                            }}
+                            title={`${cell.customers} customer${cell.customers !== 1 ? "s" : ""}, ${cell.revenue.toFixed(2)}${data.currencyCode ? ` ${data.currencyCode}` : ""}`}
+                            onClick={
+                              cell.customers > 0
+                                ? () => handleCellClick(cohort, cell)
+                                : undefined
+                            }
+                          >
+                            {formatPercentage(percentage)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No first orders in the last {months} months.
+            </Text>
+          )}
+
+          {hasData && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              {metric === "retention"
+                ? "Customers grouped by first-order month: % of each cohort ordering again in each month after"
+                : "Customers grouped by first-order month: each month's revenue as a % of the cohort's first month"}
+              . Click a cell to see its customers.
+            </Text>
+          )}
+        </BlockStack>
+      </Card>
+
+      <DashboardSegmentModal
+        open={selectedCell !== null}
+        onClose={() => setSelectedCell(null)}
+        title={selectedCell ? getCellTitle(selectedCell) : "Cohort"}
+        data={customersListFetcher.data || null}
+        isLoading={customersListFetcher.state === "loading"}
+        onExportCSV={handleExportCSV}
+        onExportPDF={handleExportPDF}
+        onExportExcel={handleExportExcel}
+        featureName="Cohort Retention"
+      />
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="order"
+        featureName="Cohort Retention"
+      />
+    </>
+  );
+}
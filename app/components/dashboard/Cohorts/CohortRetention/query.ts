@@ -0,0 +1,144 @@
+import {
+  fetchOrdersInRange,
+  type AdminGraphQL,
+  type CreatedNode,
+  type DashboardCustomerNode,
+  type MoneyNode,
+} from "../../../../services/dashboard.server";
+import { DEFAULT_TIMEZONE } from "../../../../utils/dateRange";
+import {
+  getCohortWindow,
+  buildCohortRetention,
+  getCohortCellCustomerIds,
+  DEFAULT_COHORT_MONTHS,
+  type CohortOrder,
+  type CohortRetention,
+} from "../../../../utils/cohorts";
+
+interface CohortOrderNode extends CreatedNode {
+  cancelledAt: string | null;
+  totalPriceSet: { shopMoney: MoneyNode } | null;
+  customer: DashboardCustomerNode | null;
+}
+
+/**
+ * Cohort Retention Query Logic
+ *
+ * Pages the orders of the cohort window (the last N months) once and groups their
+ * customers by first-order month (see utils/cohorts).
+ *
+ * The window only shows orders since its start, so a customer counts as new in it
+ * when their lifetime order count (numberOfOrders) matches the orders seen in the window.
+ *
+ * NOTE:
+ * - Requires `read_orders` and `read_customers` scopes.
+ * - If your app isn't approved for protected order data, Shopify will return an error
+ *   and we'll throw PROTECTED_ORDER_DATA_ACCESS_DENIED.
+ */
+async function fetchCohortOrders(
+  admin: AdminGraphQL,
+  months: number,
+  timezone: string,
+  customerFields: string = ""
+) {
+  const { startDate, endDate } = getCohortWindow(months, timezone);
+  const orders = await fetchOrdersInRange<CohortOrderNode>(
+    admin,
+    startDate,
+    endDate,
+    `
+      cancelledAt
+      totalPriceSet {
+        shopMoney {
+          amount
+          currencyCode
+        }
+      }
+      customer {
+        id
+        numberOfOrders
+        ${customerFields}
+      }
+    `
+  );
+
+  const ordersInWindow = new Map<string, number>();
+  orders.forEach((order) => {
+    const customerId = order.customer?.id;
+    if (customerId) {
+      ordersInWindow.set(customerId, (ordersInWindow.get(customerId) || 0) + 1);
+    }
+  });
+
+  // Customers with orders before the window belong to an older cohort
+  const cohortOrders = orders.filter(
+    (order): order is CohortOrderNode & { customer: DashboardCustomerNode } =>
+      !!order.customer?.id &&
+      !order.cancelledAt &&
+      Number(order.customer.numberOfOrders || 0) <= ordersInWindow.get(order.customer.id)!
+  );
+
+  return {
+    orders: cohortOrders,
+    cohortOrders: cohortOrders.map(
+      (order): CohortOrder => ({
+        customerId: order.customer.id,
+        createdAt: order.createdAt,
+        revenue: parseFloat(order.totalPriceSet?.shopMoney?.amount || "0"),
+      })
+    ),
+    currencyCode:
+      cohortOrders.find((order) => order.totalPriceSet?.shopMoney?.currencyCode)
+        ?.totalPriceSet?.shopMoney.currencyCode ?? null,
+  };
+}
+
+/**
+ * Get the cohort retention table for the last `months` months
+ */
+export async function getCohortRetentionQuery(
+  admin: AdminGraphQL,
+  months: number = DEFAULT_COHORT_MONTHS,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<CohortRetention> {
+  const { cohortOrders, currencyCode } = await fetchCohortOrders(admin, months, timezone);
+  return buildCohortRetention(cohortOrders, months, timezone, currencyCode);
+}
+
+/**
+ * Get the customers behind a cohort table cell, with their profile fields
+ */
+export async function getCohortCellCustomersQuery(
+  admin: AdminGraphQL,
+  cohortMonth: string,
+  offset: number,
+  months: number = DEFAULT_COHORT_MONTHS,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<DashboardCustomerNode[]> {
+  const { orders, cohortOrders } = await fetchCohortOrders(
+    admin,
+    months,
+    timezone,
+    `
+      displayName
+      email
+      createdAt
+      amountSpent {
+        amount
+        currencyCode
+      }
+    `
+  );
+
+  const customerIds = new Set(
+    getCohortCellCustomerIds(cohortOrders, cohortMonth, offset, timezone)
+  );
+  const customers = new Map<string, DashboardCustomerNode>();
+  orders.forEach((order) => {
+    if (customerIds.has(order.customer.id) && !customers.has(order.customer.id)) {
+      customers.set(order.customer.id, order.customer);
+    }
+  });
+
+  return Array.from(customers.values());
+}
@@ -0,0 +1,22 @@
+import { Layout, BlockStack, Text } from "@shopify/polaris";
+import { CohortRetention } from "./CohortRetention/CohortRetention";
+
+/**
+ * Cohorts Section Component
+ *
+ * Renders the cohort retention analysis. Cohorts are first-order months, so the
+ * section has its own window instead of following the dashboard date range.
+ * Each component fetches its own data independently.
+ */
+export function Cohorts() {
+  return (
+    <Layout.Section>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingLg">
+          Cohorts
+        </Text>
+        <CohortRetention />
+      </BlockStack>
+    </Layout.Section>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import {
+  Popover,
+  Button,
+  DatePicker,
+  BlockStack,
+  InlineStack,
+  Box,
+} from "@shopify/polaris";
+import { CalendarIcon } from "@shopify/polaris-icons";
+import {
+  buildCustomDateRange,
+  parseCustomDateRange,
+  formatCustomDateRange,
+} from "./dashboardUtils";
+
+interface CustomDateRangePickerProps {
+  open: boolean;
+  value: string | null; // Current custom dateRange value, if any
+  onOpen: () => void;
+  onClose: () => void;
+  onApply: (dateRange: string) => void;
+}
+
+/**
+ * Format a date as a YYYY-MM-DD day in local time
+ */
+function toDayString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Custom Date Range Picker Component
+ *
+ * Popover with a start/end calendar for the "Custom range" option of Dashboard Controls.
+ * Applies the range as a custom dateRange value (see buildCustomDateRange).
+ */
+export function CustomDateRangePicker({
+  open,
+  value,
+  onOpen,
+  onClose,
+  onApply,
+}: CustomDateRangePickerProps) {
+  const today = new Date();
+  const initialRange = (value && parseCustomDateRange(value)) || {
+    startDate: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6),
+    endDate: today,
+  };
+
+  const [selected, setSelected] = useState({
+    start: initialRange.startDate,
+    end: initialRange.endDate,
+  });
+  const [{ month, year }, setVisibleMonth] = useState({
+    month: initialRange.startDate.getMonth(),
+    year: initialRange.startDate.getFullYear(),
+  });
+
+  // Start from the applied range each time the picker opens
+  useEffect(() => {
+    if (open) {
+      setSelected({ start: initialRange.startDate, end: initialRange.endDate });
+      setVisibleMonth({
+        month: initialRange.startDate.getMonth(),
+        year: initialRange.startDate.getFullYear(),
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, value]);
+
+  const handleApply = () => {
+    onApply(buildCustomDateRange(toDayString(selected.start), toDayString(selected.end)));
+  };
+
+  const activator = (
+    <Button icon={CalendarIcon} onClick={open ? onClose : onOpen} disclosure>
+      {(value && formatCustomDateRange(value)) || "Select dates"}
+    </Button>
+  );
+
+  return (
+    <Popover
+      active={open}
+      activator={activator}
+      onClose={onClose}
+      preferredAlignment="left"
+      fluidContent
+    >
+      <Box padding="400">
+        <BlockStack gap="400">
+          <DatePicker
+            month={month}
+            year={year}
+            onChange={(range) => setSelected({ start: range.start, end: range.end || range.start })}
+            onMonthChange={(newMonth, newYear) => setVisibleMonth({ month: newMonth, year: newYear })}
+            selected={selected}
+            disableDatesAfter={today}
+            allowRange
+            multiMonth
+          />
+          <InlineStack align="end" gap="200">
+            <Button onClick={onClose}>Cancel</Button>
+            <Button variant="primary" onClick={handleApply}>
+              Apply
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      </Box>
+    </Popover>
+  );
+}
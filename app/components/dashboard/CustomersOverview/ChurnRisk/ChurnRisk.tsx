@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Badge,
+  Button,
+} from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import type { ChurnRiskSummary } from "../../../../utils/churn";
+import type { FilterData } from "../../../filter-audience/types";
+import { SaveListModal } from "../../../filter-audience/SaveListModal";
+import { InsightCardSkeleton } from "../../InsightCardSkeleton";
+import {
+  DashboardSegmentModal,
+  type DashboardSegmentData,
+} from "../../DashboardSegmentModal";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
+
+interface ChurnRiskData {
+  bands?: ChurnRiskSummary[];
+  error?: string;
+}
+
+interface ChurnRiskProps {
+  onShowToast?: (message: string) => void;
+}
+
+/**
+ * Churn Risk Card Component
+ *
+ * Shows how many customers are at Low, Medium or High churn risk, scored on how
+ * overdue their next order is compared to their own usual interval between orders
+ * (see utils/churn). Clicking a band lists its customers, which can be exported or
+ * saved as a customer list for win-back campaigns.
+ * Churn risk is measured from today, so the card doesn't follow the date range.
+ * Fetches its own data independently.
+ */
+export function ChurnRisk({ onShowToast }: ChurnRiskProps) {
+  const fetcher = useFetcher<ChurnRiskData>();
+  const customersListFetcher = useFetcher<DashboardSegmentData>();
+  const [bands, setBands] = useState<ChurnRiskSummary[] | null>(null);
+  const [showAccessModal, setShowAccessModal] = useState(false);
+  const [selectedBand, setSelectedBand] = useState<ChurnRiskSummary | null>(null);
+  const [showSaveListModal, setShowSaveListModal] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+  const [saveListError, setSaveListError] = useState<string | null>(null);
+
+  const { load: loadBands } = fetcher;
+
+  useEffect(() => {
+    loadBands("/api/dashboard/customers-overview/churn-risk");
+  }, [loadBands]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setBands([]);
+      } else if (fetcher.data.error) {
+        console.error("[Churn Risk] Error:", fetcher.data.error);
+        setBands([]);
+      } else if (Array.isArray(fetcher.data.bands)) {
+        setBands(fetcher.data.bands);
+      }
+    }
+  }, [fetcher.data]);
+
+  const handleBandClick = (band: ChurnRiskSummary) => {
+    setSelectedBand(band);
+    customersListFetcher.load(
+      `/api/dashboard/customers-overview/churn-risk/list?band=${band.id}`,
+    );
+  };
+
+  // Export handlers
+  const getExportFilename = () => {
+    const dateStr = new Date().toISOString().split("T")[0];
+    return `churn-risk-${selectedBand?.id}-${dateStr}`;
+  };
+
+  const handleExportCSV = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToCSV({ customers, filename: getExportFilename() });
+  };
+
+  const handleExportPDF = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToPDF({
+      customers,
+      filename: getExportFilename(),
+      title: `${selectedBand?.label} Churn Risk Export`,
+    });
+  };
+
+  const handleExportExcel = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToExcel({ customers, filename: getExportFilename() });
+  };
+
+  // Save the band's current customers as a list
+  const handleSaveListSubmit = async (listName: string) => {
+    const customers = customersListFetcher.data?.customers || [];
+    setIsSavingList(true);
+    setSaveListError(null);
+
+    try {
+      // Keep the band as a filter so the list can be regenerated as risk changes
+      const filters: FilterData = {
+        location: [],
+        products: [],
+        timing: [],
+        device: [],
+        payment: [],
+        delivery: [],
+        churnRisk: selectedBand ? [selectedBand.id] : [],
+      };
+
+      const formData = new FormData();
+      formData.append("listName", listName);
+      formData.append("filters", JSON.stringify(filters));
+      formData.append("source", "manual");
+      formData.append(
+        "customerIds",
+        JSON.stringify(customers.map((customer) => customer.id)),
+      );
+
+      const response = await fetch("/api/filter-audience/save-list", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.error) {
+        setSaveListError(data.error);
+        return;
+      }
+
+      setShowSaveListModal(false);
+      onShowToast?.(`List "${listName}" saved with ${customers.length} customers`);
+    } catch (error) {
+      console.error("[Churn Risk] Error saving list:", error);
+      setSaveListError((error instanceof Error && error.message) || "Failed to save list");
+    } finally {
+      setIsSavingList(false);
+    }
+  };
+
+  // Show skeleton while loading or if we don't have data yet
+  if (!bands) {
+    return <InsightCardSkeleton />;
+  }
+
+  const highRisk = bands.find((band) => band.id === "high");
+  const scoredCustomers = bands.reduce((sum, band) => sum + band.customers, 0);
+
+  return (
+    <>
+      <div style={{ height: "100%" }}>
+        <Card padding="400">
+          <BlockStack gap="300">
+            <InlineStack align="space-between">
+              <Text as="h3" variant="headingMd">
+                Churn Risk
+              </Text>
+              {highRisk && highRisk.customers > 0 && (
+                <Badge tone="critical">{`${highRisk.share.toFixed(0)}% high`}</Badge>
+              )}
+            </InlineStack>
+
+            <Text as="p" variant="heading2xl">
+              {highRisk?.customers ?? 0}
+            </Text>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Customers at high risk of churning, out of {scoredCustomers} with orders
+            </Text>
+
+            <BlockStack gap="100">
+              {bands.map((band) => (
+                <InlineStack key={band.id} align="space-between" blockAlign="center">
+                  <InlineStack gap="200" blockAlign="center">
+                    <Badge tone={band.tone}>{band.label}</Badge>
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      {band.description}
+                    </Text>
+                  </InlineStack>
+                  <Button
+                    variant="plain"
+                    disabled={band.customers === 0}
+                    onClick={() => handleBandClick(band)}
+                  >
+                    {String(band.customers)}
+                  </Button>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          </BlockStack>
+        </Card>
+      </div>
+
+      <DashboardSegmentModal
+        open={selectedBand !== null && !showSaveListModal}
+        onClose={() => setSelectedBand(null)}
+        title={selectedBand ? `${selectedBand.label} Churn Risk` : "Churn Risk"}
+        data={customersListFetcher.data || null}
+        isLoading={customersListFetcher.state === "loading"}
+        onExportCSV={handleExportCSV}
+        onExportPDF={handleExportPDF}
+        onExportExcel={handleExportExcel}
+        onSaveList={() => {
+          setSaveListError(null);
+          setShowSaveListModal(true);
+        }}
+        featureName="Churn Risk"
+      />
+
+      <SaveListModal
+        open={showSaveListModal}
+        onClose={() => setShowSaveListModal(false)}
+        onSave={handleSaveListSubmit}
+        isLoading={isSavingList}
+        error={saveListError}
+        initialListName={selectedBand ? `Win-back - ${selectedBand.label} churn risk` : ""}
+      />
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="customer"
+        featureName="Churn Risk"
+      />
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+import type {
+  AdminGraphQL,
+  DashboardCustomerNode,
+} from "../../../../services/dashboard.server";
+import {
+  summarizeChurnRisk,
+  getChurnRiskCustomerIds,
+  type ChurnCustomer,
+  type ChurnRiskBand,
+  type ChurnRiskSummary,
+} from "../../../../utils/churn";
+
+interface ChurnCustomerNode extends DashboardCustomerNode {
+  lastOrder: { createdAt: string } | null;
+  firstOrder: { nodes: { createdAt: string }[] } | null;
+}
+
+/**
+ * Churn Risk Query Logic
+ *
+ * Pages every customer with at least one order and scores how overdue their next
+ * order is from their first and last order dates (see utils/churn).
+ * Churn risk doesn't follow the dashboard date range: it's measured from today.
+ *
+ * NOTE:
+ * - Requires `read_customers` and `read_orders` scopes.
+ * - If your app isn't approved for protected customer data,
+ *   Shopify will return an error and we'll throw PROTECTED_CUSTOMER_DATA_ACCESS_DENIED.
+ */
+async function fetchChurnCustomers(
+  admin: AdminGraphQL,
+  customerFields: string = ""
+): Promise<{ customers: ChurnCustomer[]; nodes: ChurnCustomerNode[] }> {
+  const nodes: ChurnCustomerNode[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  try {
+    while (hasNextPage) {
+      const after: string = cursor ? `, after: "${cursor}"` : "";
+      const response = await admin.graphql(`
+        query {
+          customers(first: 250${after}, query: "orders_count:>0") {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              numberOfOrders
+              lastOrder {
+                createdAt
+              }
+              firstOrder: orders(first: 1, sortKey: CREATED_AT) {
+                nodes {
+                  createdAt
+                }
+              }
+              ${customerFields}
+            }
+          }
+        }
+      `);
+      const json = await response.json();
+
+      if (json.errors && json.errors.length > 0) {
+        const accessError = json.errors.find(
+          (error: { message?: string }) =>
+            error.message?.includes("not approved") ||
+            error.message?.includes("protected customer data") ||
+            error.message?.includes("Customer")
+        );
+        if (accessError) {
+          throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+        }
+        throw new Error(json.errors[0].message || "Unknown GraphQL error");
+      }
+
+      nodes.push(...(json.data?.customers?.nodes || []));
+      hasNextPage = json.data?.customers?.pageInfo?.hasNextPage || false;
+      cursor = json.data?.customers?.pageInfo?.endCursor || null;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (
+      message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" ||
+      message.includes("not approved") ||
+      message.includes("protected")
+    ) {
+      throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+    }
+    throw error;
+  }
+
+  const customers = nodes.map((node) => ({
+    id: node.id,
+    orderCount: Number(node.numberOfOrders || 0),
+    firstOrderDate: node.firstOrder?.nodes?.[0]?.createdAt || null,
+    lastOrderDate: node.lastOrder?.createdAt || null,
+  }));
+
+  return { customers, nodes };
+}
+
+/**
+ * Get the number of customers in each churn risk band
+ */
+export async function getChurnRiskQuery(
+  admin: AdminGraphQL
+): Promise<{ bands: ChurnRiskSummary[] }> {
+  const { customers } = await fetchChurnCustomers(admin);
+  return { bands: summarizeChurnRisk(customers) };
+}
+
+/**
+ * Get the customers of a churn risk band, with their profile fields
+ */
+export async function getChurnRiskCustomersQuery(
+  admin: AdminGraphQL,
+  band: ChurnRiskBand
+): Promise<DashboardCustomerNode[]> {
+  const { customers, nodes } = await fetchChurnCustomers(
+    admin,
+    `
+      displayName
+      email
+      createdAt
+      amountSpent {
+        amount
+        currencyCode
+      }
+      defaultAddress {
+        country
+      }
+    `
+  );
+
+  const customerIds = new Set(getChurnRiskCustomerIds(customers, band));
+  return nodes.filter((node) => customerIds.has(node.id));
+}
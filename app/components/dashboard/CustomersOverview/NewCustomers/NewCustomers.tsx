@@ -2,7 +2,16 @@ import { useEffect, useState, useMemo } from "react";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import {
   DashboardSegmentModal,
   type DashboardSegmentData,
@@ -12,11 +21,13 @@ import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
 interface NewCustomersData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface NewCustomersProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
 }
@@ -46,7 +57,7 @@ function getPeriodLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -142,12 +153,13 @@ function getDateRangeLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
 export function NewCustomers({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
   onShowToast,
 }: NewCustomersProps) {
@@ -161,9 +173,9 @@ export function NewCustomers({
     setData(null);
     setShowCustomersModal(false); // Close customers modal when date range changes
     fetcher.load(
-      `/api/dashboard/customers-overview/new-customers?dateRange=${dateRange}`,
+      `/api/dashboard/customers-overview/new-customers?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -173,6 +185,7 @@ export function NewCustomers({
         // Set data if it has count (dataPoints might be empty array)
         const newData = {
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints)
             ? fetcher.data.dataPoints
             : [],
@@ -196,7 +209,8 @@ export function NewCustomers({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -279,7 +293,8 @@ export function NewCustomers({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           const isUpwardTrend = endCount > startCount;
@@ -299,13 +314,7 @@ export function NewCustomers({
               : "rgba(128, 128, 128, 0.2)"; // Gray with transparency
 
           return {
-            labels: data.dataPoints.map((point) => {
-              // Format date as "MM/DD" (e.g., "01/15", "01/22")
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -396,6 +405,7 @@ export function NewCustomers({
       <InsightCard
         title="New Customers"
         value={data.count}
+        comparison={data.comparison}
         status={status}
         description={description}
         showViewButton={true}
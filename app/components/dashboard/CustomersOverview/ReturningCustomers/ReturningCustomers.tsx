@@ -2,7 +2,16 @@ import { useEffect, useState, useMemo } from "react";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import {
   DashboardSegmentModal,
   type DashboardSegmentData,
@@ -13,11 +22,13 @@ import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
 interface ReturningCustomersData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface ReturningCustomersProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
 }
@@ -47,7 +58,7 @@ function getDateRangeLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -74,7 +85,7 @@ function getPeriodLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -149,6 +160,7 @@ function getStatusFromGrowth(
  */
 export function ReturningCustomers({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
   onShowToast,
 }: ReturningCustomersProps) {
@@ -163,9 +175,9 @@ export function ReturningCustomers({
     setShowAccessModal(false);
     setShowCustomersModal(false); // Close customers modal when date range changes
     fetcher.load(
-      `/api/dashboard/customers-overview/returning-customers?dateRange=${dateRange}`,
+      `/api/dashboard/customers-overview/returning-customers?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -175,6 +187,7 @@ export function ReturningCustomers({
       } else if (typeof fetcher.data.count === "number") {
         const newData = {
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints)
             ? fetcher.data.dataPoints
             : [],
@@ -197,7 +210,8 @@ export function ReturningCustomers({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -276,7 +290,8 @@ export function ReturningCustomers({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           const isUpwardTrend = endCount > startCount;
@@ -296,13 +311,7 @@ export function ReturningCustomers({
               : "rgba(128, 128, 128, 0.2)"; // Gray with transparency
 
           return {
-            labels: data.dataPoints.map((point) => {
-              // Format date as "MM/DD" (e.g., "01/15", "01/22")
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -390,6 +399,7 @@ export function ReturningCustomers({
       <InsightCard
         title="Returning Customers"
         value={data.count}
+        comparison={data.comparison}
         status={status}
         description={description}
         showViewButton={true}
@@ -1,4 +1,11 @@
 import type { AdminGraphQL } from "../../../../services/dashboard.server";
+import { resolveDateRange, DEFAULT_TIMEZONE } from "../../../../utils/dateRange";
+import {
+  getTimeBuckets,
+  getBucketIndex,
+  buildCountSeries,
+  getEmptySeries,
+} from "../../../../utils/timeSeries";
 
 /**
  * Returning Customers Query Logic - OPTIMIZED VERSION
@@ -7,72 +14,16 @@ import type { AdminGraphQL } from "../../../../services/dashboard.server";
  * 1. Single query to fetch ALL orders (with pagination)
  * 2. In-memory processing instead of multiple API calls per customer
  * 3. Efficient data structures for O(1) lookups
+ * 4. Chart data points (per day, or per week beyond 90 days) bucketed from the same orders
  */
 export async function getReturningCustomersQuery(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const dataPoints: Array<{ date: string; count: number }> = [];
-
-  const now = new Date();
-  let startDate: Date;
-  let endDate = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-    23,
-    59,
-    59,
-    999
-  );
-
-  switch (dateRange) {
-    case "today":
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-      endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-      break;
-    case "yesterday":
-      startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-      break;
-    case "7days":
-    case "last7Days":
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "30days":
-    case "last30Days":
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "90days":
-    case "last90Days":
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "thisMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
-    case "lastMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      endDate = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        0,
-        23,
-        59,
-        59,
-        999
-      );
-      break;
-    default:
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-  }
-
-  const dates = dateRange === "today" ? [endDate] : [startDate, endDate];
+  const range = resolveDateRange(dateRange, timezone);
+  const { startDate, endDate } = range;
+  const buckets = getTimeBuckets(range);
 
   /**
    * OPTIMIZATION: Fetch ALL orders once with pagination
@@ -189,23 +140,20 @@ export async function getReturningCustomersQuery(
     }
 
     // 1) Build dataPoints (for chart)
-    for (const date of dates) {
-      let returningCount = 0;
-
-      // Count customers who have multiple orders up to this date
-      for (const [customerId, orders] of customerOrders.entries()) {
-        const ordersUpToDate = orders.filter((orderDate) => orderDate <= date);
-        if (ordersUpToDate.length > 1) {
-          returningCount++;
-        }
-      }
-
-      const dateString = date.toISOString().split("T")[0];
-      dataPoints.push({
-        date: dateString,
-        count: returningCount,
-      });
-    }
+    // Customers who ordered in each bucket and had already ordered before it
+    const returningOrders = allOrders.filter((order) => {
+      const index = getBucketIndex(buckets, new Date(order.createdAt));
+      return (
+        index !== -1 &&
+        customerOrders.get(order.customerId)![0] < buckets[index].startDate
+      );
+    });
+    const dataPoints = buildCountSeries(
+      buckets,
+      returningOrders,
+      (order) => order.createdAt,
+      (order) => order.customerId
+    );
 
     // 2) Final total count for whole dateRange
     // Count customers who placed orders in the range AND have orders before the range
@@ -242,10 +190,7 @@ export async function getReturningCustomersQuery(
     // Return default values on error
     return {
       count: 0,
-      dataPoints: dates.map((date) => ({
-        date: date.toISOString().split("T")[0],
-        count: 0,
-      })),
+      dataPoints: getEmptySeries(buckets),
     };
   }
 }
\ No newline at end of file
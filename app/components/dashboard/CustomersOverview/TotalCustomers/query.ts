@@ -1,4 +1,13 @@
-import type { AdminGraphQL } from "../../../../services/dashboard.server";
+import {
+  fetchCustomersInRange,
+  type AdminGraphQL,
+} from "../../../../services/dashboard.server";
+import { resolveDateRange, DEFAULT_TIMEZONE } from "../../../../utils/dateRange";
+import {
+  getTimeBuckets,
+  buildCountSeries,
+  toCumulativeSeries,
+} from "../../../../utils/timeSeries";
 
 /**
  * Total Customers Query Logic - OPTIMIZED VERSION
@@ -6,59 +15,18 @@ import type { AdminGraphQL } from "../../../../services/dashboard.server";
  * Optimizations:
  * 1. Batch all queries using Promise.all for parallel execution
  * 2. Consolidated error handling to reduce code duplication
- * 3. Single data structure for all results
+ * 3. Single paginated pass over the customers created in the range for the chart
  * 
- * Note: Total customers count is always the current total, but we query historical
- * counts by filtering customers created up to specific dates to approximate
- * what the total was at that point in time.
+ * Note: Total customers count is always the current total. The chart shows the running
+ * total at the end of each day (or week beyond 90 days): customers created before the
+ * range plus those created in the range up to that point.
  */
 export async function getTotalCustomersQuery(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const now = new Date();
-  let startDate: Date;
-  let endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-
-  // Handle different date range values
-  switch (dateRange) {
-    case 'today':
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      break;
-    case 'yesterday':
-      startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-      break;
-    case '7days':
-    case 'last7Days':
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case '30days':
-    case 'last30Days':
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case '90days':
-    case 'last90Days':
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case 'thisMonth':
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
-    case 'lastMonth':
-      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      endDate = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999);
-      break;
-    default:
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-  }
-
-  const dates = dateRange === "today" ? [endDate] : [startDate, endDate];
+  const range = resolveDateRange(dateRange, timezone);
 
   /**
    * Helper function to query customer count with error handling
@@ -96,39 +64,33 @@ export async function getTotalCustomersQuery(
      * OPTIMIZATION: Execute all queries in parallel using Promise.all
      * This reduces total execution time from sequential to concurrent
      */
-
-    // Build all queries
-    const historicalQueries = dates.map(date => {
-      const dateEndISO = date.toISOString();
-      return getCustomerCount(`
+    const [finalTotalCustomers, customersBeforeRange, customersInRange] = await Promise.all([
+      getCustomerCount(`
         query {
-          customersCount(query: "created_at:<='${dateEndISO}'") {
+          customersCount {
             count
           }
         }
-      `);
-    });
-
-    // Add the final count query (current total)
-    const finalCountQuery = getCustomerCount(`
-      query {
-        customersCount {
-          count
+      `),
+      getCustomerCount(`
+        query {
+          customersCount(query: "created_at:<'${range.startDate.toISOString()}'") {
+            count
+          }
         }
-      }
-    `);
-
-    // Execute all queries in parallel
-    const [finalTotalCustomers, ...historicalCounts] = await Promise.all([
-      finalCountQuery,
-      ...historicalQueries
+      `),
+      fetchCustomersInRange(admin, range.startDate, range.endDate),
     ]);
 
-    // Build data points from results
-    const dataPoints = dates.map((date, index) => ({
-      date: date.toISOString().split('T')[0],
-      count: historicalCounts[index],
-    }));
+    // Running total per bucket, starting from the customers created before the range
+    const dataPoints = toCumulativeSeries(
+      buildCountSeries(
+        getTimeBuckets(range),
+        customersInRange,
+        (customer) => customer.createdAt
+      ),
+      customersBeforeRange
+    );
 
     return {
       count: finalTotalCustomers,
@@ -142,4 +104,4 @@ export async function getTotalCustomersQuery(
     }
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -2,17 +2,19 @@ import { Layout, BlockStack, Text, InlineGrid } from "@shopify/polaris";
 import { TotalCustomers } from "./TotalCustomers/TotalCustomers";
 import { NewCustomers } from "./NewCustomers/NewCustomers";
 import { ReturningCustomers } from "./ReturningCustomers/ReturningCustomers";
-import { InactiveCustomers } from "./InactiveCustomers/InactiveCustomers";
+import { ChurnRisk } from "./ChurnRisk/ChurnRisk";
+import type { ComparisonMode } from "../../../utils/dateRange";
 
 interface CustomersOverviewProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
   visibility?: {
     totalCustomers?: boolean;
     newCustomers?: boolean;
     returningCustomers?: boolean;
-    inactiveCustomers?: boolean;
+    churnRisk?: boolean;
   };
 }
 
@@ -24,6 +26,7 @@ interface CustomersOverviewProps {
  */
 export function CustomersOverview({
   dateRange = "30days",
+  comparisonMode,
   onViewSegment,
   onShowToast,
   visibility,
@@ -32,14 +35,14 @@ export function CustomersOverview({
   const showTotalCustomers = visibility?.totalCustomers !== false;
   const showNewCustomers = visibility?.newCustomers !== false;
   const showReturningCustomers = visibility?.returningCustomers !== false;
-  const showInactiveCustomers = visibility?.inactiveCustomers !== false;
+  const showChurnRisk = visibility?.churnRisk !== false;
 
   // Don't render section if no cards are visible
   if (
     !showTotalCustomers &&
     !showNewCustomers &&
     !showReturningCustomers &&
-    !showInactiveCustomers
+    !showChurnRisk
   ) {
     return null;
   }
@@ -54,6 +57,7 @@ export function CustomersOverview({
           {showTotalCustomers && (
             <TotalCustomers
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -62,6 +66,7 @@ export function CustomersOverview({
           {showNewCustomers && (
             <NewCustomers 
               dateRange={dateRange} 
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -70,18 +75,14 @@ export function CustomersOverview({
           {showReturningCustomers && (
             <ReturningCustomers
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
           )}
 
-          {showInactiveCustomers && (
-            <InactiveCustomers
-              dateRange={dateRange}
-              onViewSegment={onViewSegment}
-              onShowToast={onShowToast}
-            />
-          )}
+          {/* Churn risk is measured from today, not the date range */}
+          {showChurnRisk && <ChurnRisk onShowToast={onShowToast} />}
         </InlineGrid>
       </BlockStack>
     </Layout.Section>
@@ -220,15 +220,10 @@ export function CustomizeDashboardModal({
                         }
                       />
                       <Checkbox
-                        label="Inactive Customers"
-                        checked={
-                          visibility.customersOverview.cards.inactiveCustomers
-                        }
+                        label="Churn Risk"
+                        checked={visibility.customersOverview.cards.churnRisk}
                         onChange={() =>
-                          handleCardToggle(
-                            "customersOverview",
-                            "inactiveCustomers",
-                          )
+                          handleCardToggle("customersOverview", "churnRisk")
                         }
                       />
                     </BlockStack>
@@ -9,10 +9,14 @@ import {
   Select,
 } from "@shopify/polaris";
 import { CustomizeDashboardModal } from "./CustomizeDashboard/CustomizeDashboardModal";
+import { WarehouseSyncStatus } from "./WarehouseSyncStatus";
+import { CustomDateRangePicker } from "./CustomDateRangePicker";
 
 interface DashboardControlsProps {
   dateRangeValue: string;
   onDateRangeChange: (value: string) => void;
+  comparisonMode: ComparisonMode;
+  onComparisonModeChange: (value: ComparisonMode) => void;
   onCustomize: () => void;
   onVisibilityChange?: (visibility: DashboardVisibility) => void;
   initialVisibility?: DashboardVisibility | null;
@@ -23,23 +27,34 @@ import {
   DEFAULT_VISIBILITY,
   type DashboardVisibility,
 } from "./dashboardConfig";
+import {
+  parseCustomDateRange,
+  formatCustomDateRange,
+  comparisonModeOptions,
+} from "./dashboardUtils";
+import type { ComparisonMode } from "../../utils/dateRange";
 
 /**
  * Dashboard Controls Component
  *
  * Provides dashboard control options including:
- * - Date range selector
+ * - Date range selector, with a start/end picker for custom ranges
+ * - Comparison selector (previous period, same period last year or none)
+ * - Analytics warehouse sync status
  * - Customize dashboard button with visibility controls
  */
 export function DashboardControls({
   dateRangeValue,
   onDateRangeChange,
+  comparisonMode,
+  onComparisonModeChange,
   onCustomize,
   onVisibilityChange,
   initialVisibility,
   currentVisibility,
 }: DashboardControlsProps) {
   const [showCustomizeModal, setShowCustomizeModal] = useState(false);
+  const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [visibility, setVisibility] = useState<DashboardVisibility>(
     initialVisibility || DEFAULT_VISIBILITY,
   );
@@ -79,6 +94,24 @@ export function DashboardControls({
     { label: "Custom range", value: "custom" },
   ];
 
+  // Custom ranges are applied as "custom:start:end" values (see buildCustomDateRange)
+  const isCustomRange = parseCustomDateRange(dateRangeValue) !== null;
+
+  const handleDateRangeSelect = (value: string) => {
+    if (value === "custom") {
+      // Keep the current range until dates are applied
+      setShowCustomPicker(true);
+      return;
+    }
+    setShowCustomPicker(false);
+    onDateRangeChange(value);
+  };
+
+  const handleCustomRangeApply = (customRange: string) => {
+    setShowCustomPicker(false);
+    onDateRangeChange(customRange);
+  };
+
   const handleCustomizeClick = () => {
     // Reset to current applied state when opening modal (discard any unsaved changes)
     // Use currentVisibility if available (after save), otherwise use initialVisibility
@@ -197,12 +230,29 @@ export function DashboardControls({
                 label="Date range"
                 labelHidden
                 options={dateRangeOptions}
-                value={dateRangeValue}
-                onChange={onDateRangeChange}
+                value={isCustomRange ? "custom" : dateRangeValue}
+                onChange={handleDateRangeSelect}
+              />
+              {(isCustomRange || showCustomPicker) && (
+                <CustomDateRangePicker
+                  open={showCustomPicker}
+                  value={isCustomRange ? dateRangeValue : null}
+                  onOpen={() => setShowCustomPicker(true)}
+                  onClose={() => setShowCustomPicker(false)}
+                  onApply={handleCustomRangeApply}
+                />
+              )}
+              <Select
+                label="Compare to"
+                labelInline
+                options={comparisonModeOptions}
+                value={comparisonMode}
+                onChange={(value) => onComparisonModeChange(value as ComparisonMode)}
               />
             </InlineStack>
 
             <InlineStack gap="200" blockAlign="center">
+              <WarehouseSyncStatus />
               <Button
                 onClick={handleCustomizeClick}
                 variant="secondary"
@@ -216,7 +266,7 @@ export function DashboardControls({
             Currently showing data from{" "}
             {dateRangeValue === "last30Days"
               ? "the last 30 days"
-              : "the selected period"}
+              : formatCustomDateRange(dateRangeValue) || "the selected period"}
             {lastUpdated && `. Last updated: ${lastUpdated}`}
           </Text>
         </BlockStack>
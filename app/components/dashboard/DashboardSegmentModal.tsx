@@ -39,13 +39,14 @@ interface DashboardSegmentModalProps {
   onExportPDF?: () => void;
   onExportExcel?: () => void;
   featureName?: string;
+  onSaveList?: () => void; // Shows a "Save as list" action for the listed customers
 }
 
 /**
  * Reusable Dashboard Segment Modal Component
  *
  * Displays customer list in a modal with export functionality.
- * Used by all dashboard insight cards.
+ * Used by all dashboard insight cards, and by segments that can be saved as a list.
  */
 export function DashboardSegmentModal({
   open,
@@ -58,6 +59,7 @@ export function DashboardSegmentModal({
   onExportPDF,
   onExportExcel,
   featureName,
+  onSaveList,
 }: DashboardSegmentModalProps) {
   // ============================================================================
   // STATE MANAGEMENT
@@ -222,18 +224,29 @@ export function DashboardSegmentModal({
   ];
 
   // ============================================================================
-  // SECONDARY ACTIONS (Export button beside Close button)
+  // SECONDARY ACTIONS (Save as list and Export buttons beside Close button)
   // ============================================================================
-  const secondaryActions = hasAnyExportHandler
-    ? [
-        {
-          content: "Export",
-          icon: ExportIcon,
-          onAction: toggleExportMenu,
-          disabled: !hasCustomers || isLoading,
-        },
-      ]
-    : [];
+  const secondaryActions = [
+    ...(onSaveList
+      ? [
+          {
+            content: "Save as list",
+            onAction: onSaveList,
+            disabled: !hasCustomers || isLoading,
+          },
+        ]
+      : []),
+    ...(hasAnyExportHandler
+      ? [
+          {
+            content: "Export",
+            icon: ExportIcon,
+            onAction: toggleExportMenu,
+            disabled: !hasCustomers || isLoading,
+          },
+        ]
+      : []),
+  ];
 
   // ============================================================================
   // RENDER
@@ -2,7 +2,16 @@ import { useEffect, useState, useMemo } from "react";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import {
   DashboardSegmentModal,
   type DashboardSegmentData,
@@ -12,11 +21,13 @@ import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
 interface EmailSubscribersData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface EmailSubscribersProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
 }
@@ -32,7 +43,7 @@ function getDateRangeLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -45,7 +56,7 @@ function getPeriodLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -76,6 +87,7 @@ function getStatusFromGrowth(growth: number): "success" | "warning" | "critical"
 
 export function EmailSubscribers({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
   onShowToast,
 }: EmailSubscribersProps) {
@@ -88,9 +100,9 @@ export function EmailSubscribers({
     setData(null);
     setShowCustomersModal(false);
     fetcher.load(
-      `/api/dashboard/engagement-patterns/email-subscribers?dateRange=${dateRange}`,
+      `/api/dashboard/engagement-patterns/email-subscribers?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -99,6 +111,7 @@ export function EmailSubscribers({
       } else if (typeof fetcher.data.count === "number") {
         setData({
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints)
             ? fetcher.data.dataPoints
             : [],
@@ -119,7 +132,8 @@ export function EmailSubscribers({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -180,7 +194,8 @@ export function EmailSubscribers({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           const isUpwardTrend = endCount > startCount;
@@ -199,12 +214,7 @@ export function EmailSubscribers({
               : "rgba(128, 128, 128, 0.2)";
 
           return {
-            labels: data.dataPoints.map((point) => {
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -308,6 +318,7 @@ export function EmailSubscribers({
       <InsightCard
         title="Email Subscribers"
         value={data.count}
+        comparison={data.comparison}
         status={status}
         description={description}
         showViewButton={true}
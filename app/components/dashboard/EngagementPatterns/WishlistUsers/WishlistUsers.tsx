@@ -3,17 +3,28 @@ import { Modal, DataTable, Text, Spinner, BlockStack } from "@shopify/polaris";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
 
 interface WishlistUsersData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface WishlistUsersProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
 }
 
@@ -41,7 +52,7 @@ function getDateRangeLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -54,7 +65,7 @@ function getPeriodLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -85,6 +96,7 @@ function getStatusFromGrowth(growth: number): "success" | "warning" | "critical"
 
 export function WishlistUsers({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
 }: WishlistUsersProps) {
   const fetcher = useFetcher<WishlistUsersData>();
@@ -98,9 +110,9 @@ export function WishlistUsers({
     setShowAccessModal(false);
     setShowCustomersModal(false);
     fetcher.load(
-      `/api/dashboard/engagement-patterns/wishlist-users?dateRange=${dateRange}`,
+      `/api/dashboard/engagement-patterns/wishlist-users?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -110,6 +122,7 @@ export function WishlistUsers({
       } else if (typeof fetcher.data.count === "number") {
         setData({
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints)
             ? fetcher.data.dataPoints
             : [],
@@ -130,7 +143,8 @@ export function WishlistUsers({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -202,7 +216,8 @@ export function WishlistUsers({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           const isUpwardTrend = endCount > startCount;
@@ -221,12 +236,7 @@ export function WishlistUsers({
               : "rgba(128, 128, 128, 0.2)";
 
           return {
-            labels: data.dataPoints.map((point) => {
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -332,6 +342,7 @@ export function WishlistUsers({
       <InsightCard
         title="Wishlist Users"
         value={data.count}
+        comparison={data.comparison}
         status={status}
         description={description}
         showViewButton={true}
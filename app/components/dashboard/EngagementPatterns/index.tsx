@@ -3,9 +3,11 @@ import { DiscountUsers } from "./DiscountUsers/DiscountUsers";
 import { WishlistUsers } from "./WishlistUsers/WishlistUsers";
 import { Reviewers } from "./Reviewers/Reviewers";
 import { EmailSubscribers } from "./EmailSubscribers/EmailSubscribers";
+import type { ComparisonMode } from "../../../utils/dateRange";
 
 interface EngagementPatternsProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
   visibility?: {
@@ -24,6 +26,7 @@ interface EngagementPatternsProps {
  */
 export function EngagementPatterns({
   dateRange = "30days",
+  comparisonMode,
   onViewSegment,
   onShowToast,
   visibility,
@@ -54,6 +57,7 @@ export function EngagementPatterns({
           {showDiscountUsers && (
             <DiscountUsers
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -62,6 +66,7 @@ export function EngagementPatterns({
           {showWishlistUsers && (
             <WishlistUsers
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -70,6 +75,7 @@ export function EngagementPatterns({
           {showReviewers && (
             <Reviewers 
               dateRange={dateRange} 
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -78,6 +84,7 @@ export function EngagementPatterns({
           {showEmailSubscribers && (
             <EmailSubscribers
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -1,6 +1,8 @@
 import { Card, BlockStack, InlineStack, Text, Badge, Button } from "@shopify/polaris";
 import { ClipboardIcon } from "@shopify/polaris-icons";
 import { Line } from "react-chartjs-2";
+import type { PeriodComparison } from "../../utils/dateRange";
+import { getComparisonIndicator } from "./dashboardUtils";
 
 interface InsightCardProps {
   title: string;
@@ -13,6 +15,8 @@ interface InsightCardProps {
   growthTone?: "success" | "subdued" | "critical";
   onViewSegment?: (segmentName: string) => void;
   miniChartOptions?: any;
+  comparison?: PeriodComparison | null; // Count in the comparison period, if loaded
+  lowerIsBetter?: boolean; // Decreases are shown as good (e.g. cancellations)
 }
 
 /**
@@ -23,6 +27,7 @@ interface InsightCardProps {
  * - Value with mini trend chart
  * - Description
  * - Growth indicator
+ * - Period-over-period comparison (absolute and percentage delta)
  * - Optional view segment button
  */
 export function InsightCard({
@@ -36,7 +41,13 @@ export function InsightCard({
   growthTone = "success",
   onViewSegment,
   miniChartOptions,
+  comparison,
+  lowerIsBetter = false,
 }: InsightCardProps) {
+  const comparisonIndicator = comparison
+    ? getComparisonIndicator(comparison, lowerIsBetter)
+    : null;
+
   const getStatusBadgeText = () => {
     switch (status) {
       case "new":
@@ -100,8 +111,8 @@ export function InsightCard({
             )}
           </InlineStack>
 
-          {/* Description and Growth indicator */}
-          {(description || growthIndicator) && (
+          {/* Description, Growth indicator and Comparison */}
+          {(description || growthIndicator || comparisonIndicator) && (
             <BlockStack gap="100">
               {description && (
                 <Text as="p" variant="bodySm" fontWeight="semibold">
@@ -113,6 +124,14 @@ export function InsightCard({
                   {growthIndicator}
                 </Text>
               )}
+              {comparisonIndicator && comparison && (
+                <Text as="p" variant="bodySm" tone={comparisonIndicator.tone}>
+                  {comparisonIndicator.text}
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {` · ${comparison.previousCount.toLocaleString()} before`}
+                  </Text>
+                </Text>
+              )}
             </BlockStack>
           )}
         </BlockStack>
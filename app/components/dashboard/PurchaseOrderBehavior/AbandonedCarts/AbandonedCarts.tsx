@@ -9,16 +9,27 @@ import {
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 
 interface AbandonedCartsData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface AbandonedCartsProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
 }
 
@@ -46,7 +57,7 @@ function getDateRangeLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -59,7 +70,7 @@ function getPeriodLabel(dateRange: string): string {
     case "90days": case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -91,6 +102,7 @@ function getStatusFromGrowth(growth: number): "success" | "warning" | "critical"
 
 export function AbandonedCarts({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
 }: AbandonedCartsProps) {
   const fetcher = useFetcher<AbandonedCartsData>();
@@ -102,14 +114,15 @@ export function AbandonedCarts({
     setData(null);
     setShowOrdersModal(false);
     fetcher.load(
-      `/api/dashboard/purchase-order-behavior/abandoned-carts?dateRange=${dateRange}`,
+      `/api/dashboard/purchase-order-behavior/abandoned-carts?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data && typeof fetcher.data.count === "number") {
       setData({
         count: fetcher.data.count,
+        comparison: fetcher.data.comparison ?? null,
         dataPoints: Array.isArray(fetcher.data.dataPoints)
           ? fetcher.data.dataPoints
           : [],
@@ -129,7 +142,8 @@ export function AbandonedCarts({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -189,7 +203,8 @@ export function AbandonedCarts({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           // For abandoned carts: decrease is good (green), increase is bad (red)
@@ -209,12 +224,7 @@ export function AbandonedCarts({
               : "rgba(128, 128, 128, 0.2)";
 
           return {
-            labels: data.dataPoints.map((point) => {
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -317,6 +327,8 @@ export function AbandonedCarts({
       <InsightCard
         title="Abandoned Carts"
         value={data.count}
+        comparison={data.comparison}
+        lowerIsBetter
         status={status}
         description={description}
         showViewButton={true}
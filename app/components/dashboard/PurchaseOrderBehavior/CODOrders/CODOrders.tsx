@@ -9,17 +9,28 @@ import {
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
 
 interface CODOrdersData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface CODOrdersProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
 }
 
@@ -62,7 +73,7 @@ function getDateRangeLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -89,7 +100,7 @@ function getPeriodLabel(dateRange: string): string {
     case "lastMonth":
       return "last month";
     default:
-      return "the selected period";
+      return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -153,6 +164,7 @@ function getStatusFromGrowth(
  */
 export function CODOrders({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
 }: CODOrdersProps) {
   const fetcher = useFetcher<CODOrdersData>();
@@ -166,9 +178,9 @@ export function CODOrders({
     setShowAccessModal(false);
     setShowOrdersModal(false);
     fetcher.load(
-      `/api/dashboard/purchase-order-behavior/cod-orders?dateRange=${dateRange}`,
+      `/api/dashboard/purchase-order-behavior/cod-orders?dateRange=${dateRange}&compare=${comparisonMode}`,
     );
-  }, [dateRange]);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -178,6 +190,7 @@ export function CODOrders({
       } else if (typeof fetcher.data.count === "number") {
         setData({
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints)
             ? fetcher.data.dataPoints
             : [],
@@ -199,7 +212,8 @@ export function CODOrders({
         };
       }
 
-      const [startPoint, endPoint] = data.dataPoints;
+      const startPoint = data.dataPoints[0];
+      const endPoint = data.dataPoints[data.dataPoints.length - 1];
       const startCount = startPoint.count;
       const endCount = endPoint.count;
 
@@ -272,7 +286,8 @@ export function CODOrders({
   const chartData =
     data.dataPoints && data.dataPoints.length > 1
       ? (() => {
-          const [startPoint, endPoint] = data.dataPoints;
+          const startPoint = data.dataPoints[0];
+          const endPoint = data.dataPoints[data.dataPoints.length - 1];
           const startCount = startPoint.count;
           const endCount = endPoint.count;
           const isUpwardTrend = endCount > startCount;
@@ -291,12 +306,7 @@ export function CODOrders({
               : "rgba(128, 128, 128, 0.2)";
 
           return {
-            labels: data.dataPoints.map((point) => {
-              const date = new Date(point.date);
-              const month = String(date.getMonth() + 1).padStart(2, "0");
-              const day = String(date.getDate()).padStart(2, "0");
-              return `${month}/${day}`;
-            }),
+            labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
             datasets: [
               {
                 data: data.dataPoints.map((point) => point.count),
@@ -405,6 +415,7 @@ export function CODOrders({
       <InsightCard
         title="COD Orders"
         value={data.count}
+        comparison={data.comparison}
         status={status}
         description={description}
         showViewButton={true}
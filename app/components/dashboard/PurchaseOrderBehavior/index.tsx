@@ -3,9 +3,11 @@ import { CODOrders } from "./CODOrders/CODOrders";
 import { PrepaidOrders } from "./PrepaidOrders/PrepaidOrders";
 import { CancelledOrders } from "./CancelledOrders/CancelledOrders";
 import { AbandonedCarts } from "./AbandonedCarts/AbandonedCarts";
+import type { ComparisonMode } from "../../../utils/dateRange";
 
 interface PurchaseOrderBehaviorProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
   visibility?: {
@@ -24,6 +26,7 @@ interface PurchaseOrderBehaviorProps {
  */
 export function PurchaseOrderBehavior({
   dateRange = "30days",
+  comparisonMode,
   onViewSegment,
   onShowToast,
   visibility,
@@ -54,6 +57,7 @@ export function PurchaseOrderBehavior({
           {showCODOrders && (
             <CODOrders 
               dateRange={dateRange} 
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -62,6 +66,7 @@ export function PurchaseOrderBehavior({
           {showPrepaidOrders && (
             <PrepaidOrders
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -70,6 +75,7 @@ export function PurchaseOrderBehavior({
           {showCancelledOrders && (
             <CancelledOrders
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -78,6 +84,7 @@ export function PurchaseOrderBehavior({
           {showAbandonedCarts && (
             <AbandonedCarts
               dateRange={dateRange}
+              comparisonMode={comparisonMode}
               onViewSegment={onViewSegment}
               onShowToast={onShowToast}
             />
@@ -1,10 +1,30 @@
-import type { AdminGraphQL } from "../../../../services/dashboard.server";
+import {
+  fetchOrdersInRange,
+  type AdminGraphQL,
+} from "../../../../services/dashboard.server";
+import {
+  resolveDateRange,
+  getZonedDateParts,
+  DEFAULT_TIMEZONE,
+} from "../../../../utils/dateRange";
+import {
+  getTimeBuckets,
+  buildCountSeries,
+  getEmptySeries,
+} from "../../../../utils/timeSeries";
+import {
+  isHourInPartOfDay,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  type PartOfDayBoundaries,
+} from "../../../../utils/partOfDay";
 
 /**
  * Afternoon Purchases Query Logic
  *
- * Gets orders placed between 12 PM - 6 PM (afternoon hours).
- * Returns count and data points for charting (today = 1 point, others = 2 points: start & end)
+ * Gets orders placed in the afternoon part of the day (12 PM - 6 PM unless configured, shop timezone).
+ * Returns count and data points for charting (orders per day, or per week beyond 90 days)
+ *
+ * Both come from a single paginated pass over the range's orders.
  *
  * NOTE:
  * - Requires `read_orders` scope.
@@ -13,266 +33,29 @@ import type { AdminGraphQL } from "../../../../services/dashboard.server";
  */
 export async function getAfternoonPurchasesQuery(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE,
+  partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
 ) {
-  const dataPoints: Array<{ date: string; count: number }> = [];
-
-  const now = new Date();
-  let startDate: Date;
-  let endDate = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-    23,
-    59,
-    59,
-    999
-  );
-
-  switch (dateRange) {
-    case "today":
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-      endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-      break;
-    case "yesterday":
-      startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-      break;
-    case "7days":
-    case "last7Days":
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "30days":
-    case "last30Days":
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "90days":
-    case "last90Days":
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "thisMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
-    case "lastMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      endDate = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        0,
-        23,
-        59,
-        59,
-        999
-      );
-      break;
-    default:
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-  }
-
-  const dates = dateRange === "today" ? [endDate] : [startDate, endDate];
-
-  // Helper function to get afternoon purchases count for a date range
-  async function getAfternoonPurchasesForRange(
-    rangeStart: Date,
-    rangeEnd: Date
-  ): Promise<number> {
-    const rangeStartISO = rangeStart.toISOString();
-    const rangeEndISO = rangeEnd.toISOString();
-
-    try {
-      let allOrders: any[] = [];
-      let hasNextPage = true;
-      let cursor: string | null = null;
-
-      while (hasNextPage) {
-        const query = cursor
-          ? `
-            query {
-              orders(first: 250, after: "${cursor}", query: "created_at:>='${rangeStartISO}' created_at:<='${rangeEndISO}'") {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  id
-                  createdAt
-                }
-              }
-            }
-          `
-          : `
-            query {
-              orders(first: 250, query: "created_at:>='${rangeStartISO}' created_at:<='${rangeEndISO}'") {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  id
-                  createdAt
-                }
-              }
-            }
-          `;
+  const range = resolveDateRange(dateRange, timezone);
+  const buckets = getTimeBuckets(range);
 
-        const response = await admin.graphql(query);
-        const json = await response.json();
-
-        if (json.errors && json.errors.length > 0) {
-          const accessError = json.errors.find(
-            (error: any) =>
-              error.message?.includes("not approved") ||
-              error.message?.includes("protected") ||
-              error.message?.includes("Order")
-          );
-          if (accessError) {
-            throw new Error("PROTECTED_ORDER_DATA_ACCESS_DENIED");
-          }
-          throw new Error(json.errors[0].message || "Unknown GraphQL error");
-        }
-
-        const orders = json.data?.orders?.nodes || [];
-        allOrders = [...allOrders, ...orders];
-
-        hasNextPage = json.data?.orders?.pageInfo?.hasNextPage || false;
-        cursor = json.data?.orders?.pageInfo?.endCursor || null;
-      }
-
-      // Filter orders placed between 12 PM - 6 PM (afternoon hours)
-      const afternoonPurchases = allOrders.filter((order: any) => {
-        const orderDate = new Date(order.createdAt);
-        const hour = orderDate.getUTCHours();
-        return hour >= 12 && hour < 18;
-      }).length;
-
-      return afternoonPurchases;
-    } catch (error: any) {
-      if (
-        error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED" ||
-        error.message?.includes("not approved") ||
-        error.message?.includes("protected")
-      ) {
-        throw new Error("PROTECTED_ORDER_DATA_ACCESS_DENIED");
-      }
-      throw error;
-    }
-  }
-
-  // Build dataPoints (for chart)
-  for (const date of dates) {
-    const dateEndISO = date.toISOString();
-
-    try {
-      let allOrders: any[] = [];
-      let hasNextPage = true;
-      let cursor: string | null = null;
-
-      while (hasNextPage) {
-        const query = cursor
-          ? `
-            query {
-              orders(first: 250, after: "${cursor}", query: "created_at:<='${dateEndISO}'") {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  id
-                  createdAt
-                }
-              }
-            }
-          `
-          : `
-            query {
-              orders(first: 250, query: "created_at:<='${dateEndISO}'") {
-                pageInfo {
-                  hasNextPage
-                  endCursor
-                }
-                nodes {
-                  id
-                  createdAt
-                }
-              }
-            }
-          `;
-
-        const response = await admin.graphql(query);
-        const json = await response.json();
-
-        if (json.errors && json.errors.length > 0) {
-          const accessError = json.errors.find(
-            (error: any) =>
-              error.message?.includes("not approved") ||
-              error.message?.includes("protected") ||
-              error.message?.includes("Order")
-          );
-          if (accessError) {
-            throw new Error("PROTECTED_ORDER_DATA_ACCESS_DENIED");
-          }
-          throw new Error(json.errors[0].message || "Unknown GraphQL error");
-        }
-
-        const orders = json.data?.orders?.nodes || [];
-        allOrders = [...allOrders, ...orders];
-
-        hasNextPage = json.data?.orders?.pageInfo?.hasNextPage || false;
-        cursor = json.data?.orders?.pageInfo?.endCursor || null;
-      }
-
-      // Filter orders placed between 12 PM - 6 PM (afternoon hours)
-      const afternoonPurchases = allOrders.filter((order: any) => {
-        const orderDate = new Date(order.createdAt);
-        const hour = orderDate.getUTCHours();
-        return hour >= 12 && hour < 18;
-      }).length;
-
-      const dateString = date.toISOString().split("T")[0];
-      dataPoints.push({
-        date: dateString,
-        count: afternoonPurchases,
-      });
-    } catch (error: any) {
-      if (
-        error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED" ||
-        error.message?.includes("not approved") ||
-        error.message?.includes("protected")
-      ) {
-        throw new Error("PROTECTED_ORDER_DATA_ACCESS_DENIED");
-      }
-      const dateString = date.toISOString().split("T")[0];
-      dataPoints.push({
-        date: dateString,
-        count: 0,
-      });
-    }
-  }
-
-  // Final total count for whole dateRange
-  let finalAfternoonPurchases = 0;
   try {
-    finalAfternoonPurchases = await getAfternoonPurchasesForRange(startDate, endDate);
+    const orders = await fetchOrdersInRange(admin, range.startDate, range.endDate);
+    const afternoonPurchases = orders.filter((o: any) => {
+      const hour = getZonedDateParts(new Date(o.createdAt), timezone).hour;
+      return isHourInPartOfDay(hour, "afternoon", partOfDay);
+    });
+
+    return {
+      count: afternoonPurchases.length,
+      dataPoints: buildCountSeries(buckets, afternoonPurchases, (o: any) => o.createdAt),
+    };
   } catch (error: any) {
-    if (
-      error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED" ||
-      error.message?.includes("not approved") ||
-      error.message?.includes("protected")
-    ) {
-      throw new Error("PROTECTED_ORDER_DATA_ACCESS_DENIED");
+    if (error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      throw error;
     }
-    finalAfternoonPurchases = 0;
+    // Return 0 as fallback for other errors
+    return { count: 0, dataPoints: getEmptySeries(buckets) };
   }
-
-  return {
-    count: finalAfternoonPurchases,
-    dataPoints,
-  };
 }
-
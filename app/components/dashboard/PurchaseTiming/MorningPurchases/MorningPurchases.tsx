@@ -2,17 +2,29 @@ import { useEffect, useState, useMemo } from "react";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
 
 interface MorningPurchasesData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
+  hours?: string; // Configured hours of the part of day, e.g. "6 AM - 12 PM"
   error?: string;
 }
 
 interface MorningPurchasesProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
 }
 
@@ -28,7 +40,7 @@ function getPeriodLabel(dateRange: string): string {
     case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -46,6 +58,7 @@ function getStatusFromGrowth(growth: number): "success" | "warning" | "critical"
 
 export function MorningPurchases({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
 }: MorningPurchasesProps) {
   const fetcher = useFetcher<MorningPurchasesData>();
@@ -55,8 +68,8 @@ export function MorningPurchases({
   useEffect(() => {
     setData(null);
     setShowAccessModal(false);
-    fetcher.load(`/api/dashboard/purchase-timing/morning-purchases?dateRange=${dateRange}`);
-  }, [dateRange]);
+    fetcher.load(`/api/dashboard/purchase-timing/morning-purchases?dateRange=${dateRange}&compare=${comparisonMode}`);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -66,24 +79,29 @@ export function MorningPurchases({
       } else if (typeof fetcher.data.count === "number") {
         setData({
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
+          hours: fetcher.data.hours,
           dataPoints: Array.isArray(fetcher.data.dataPoints) ? fetcher.data.dataPoints : [],
         });
       }
     }
   }, [fetcher.data]);
 
+  const hours = data?.hours || "6 AM - 12 PM";
+
   const { growthPercentage, growthIndicator, description, growthTone, status } = useMemo(() => {
     if (!data || !data.dataPoints || data.dataPoints.length < 2) {
       return {
         growthPercentage: null,
         growthIndicator: null,
-        description: "6 AM - 12 PM",
+        description: hours,
         growthTone: "success" as const,
         status: "success" as const,
       };
     }
 
-    const [startPoint, endPoint] = data.dataPoints;
+    const startPoint = data.dataPoints[0];
+    const endPoint = data.dataPoints[data.dataPoints.length - 1];
     const startCount = startPoint.count;
     const endCount = endPoint.count;
 
@@ -92,7 +110,7 @@ export function MorningPurchases({
         return {
           growthPercentage: 0,
           growthIndicator: `→ 0% change in ${getPeriodLabel(dateRange)}`,
-          description: "6 AM - 12 PM",
+          description: hours,
           growthTone: "subdued" as const,
           status: "success" as const,
         };
@@ -100,7 +118,7 @@ export function MorningPurchases({
       return {
         growthPercentage: 100,
         growthIndicator: `↑ 100% growth in ${getPeriodLabel(dateRange)}`,
-        description: "6 AM - 12 PM",
+        description: hours,
         growthTone: "success" as const,
         status: "success" as const,
       };
@@ -125,11 +143,11 @@ export function MorningPurchases({
     return {
       growthPercentage,
       growthIndicator: growthIndicatorText,
-      description: "6 AM - 12 PM",
+      description: hours,
       growthTone: isPositive ? ("success" as const) : isNegative ? ("critical" as const) : ("subdued" as const),
       status: statusFromGrowth,
     };
-  }, [data, dateRange]);
+  }, [data, dateRange, hours]);
 
   if (!data && !showAccessModal) {
     return <InsightCardSkeleton />;
@@ -148,7 +166,8 @@ export function MorningPurchases({
 
   const chartData = data.dataPoints && data.dataPoints.length > 1
     ? (() => {
-        const [startPoint, endPoint] = data.dataPoints;
+        const startPoint = data.dataPoints[0];
+        const endPoint = data.dataPoints[data.dataPoints.length - 1];
         const isUpwardTrend = endPoint.count > startPoint.count;
         const isDownwardTrend = endPoint.count < startPoint.count;
 
@@ -165,12 +184,7 @@ export function MorningPurchases({
             : "rgba(128, 128, 128, 0.2)";
 
         return {
-          labels: data.dataPoints.map((point) => {
-            const date = new Date(point.date);
-            const month = String(date.getMonth() + 1).padStart(2, "0");
-            const day = String(date.getDate()).padStart(2, "0");
-            return `${month}/${day}`;
-          }),
+          labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
           datasets: [{
             data: data.dataPoints.map((point) => point.count),
             borderColor,
@@ -206,6 +220,7 @@ export function MorningPurchases({
     <InsightCard
       title="Morning Purchases"
       value={data.count}
+      comparison={data.comparison}
       status={status}
       description={description}
       miniChartData={chartData}
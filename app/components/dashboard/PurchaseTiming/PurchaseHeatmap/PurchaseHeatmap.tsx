@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Spinner,
+  Select,
+} from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import {
+  HEATMAP_WEEKDAYS,
+  type HeatmapCell,
+  type HeatmapMetric,
+  type PurchaseHeatmap as PurchaseHeatmapData,
+} from "../../../../utils/purchaseHeatmap";
+import {
+  PARTS_OF_DAY,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  formatHour,
+  getPartOfDay,
+  type PartOfDay,
+  type PartOfDayBoundaries,
+} from "../../../../utils/partOfDay";
+import {
+  DashboardSegmentModal,
+  type DashboardSegmentData,
+} from "../../DashboardSegmentModal";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
+
+interface PurchaseHeatmapResponse {
+  heatmap?: PurchaseHeatmapData;
+  partOfDay?: PartOfDayBoundaries;
+  timezone?: string;
+  error?: string;
+}
+
+interface PurchaseHeatmapProps {
+  dateRange?: string;
+}
+
+interface SelectedCell {
+  weekday: number;
+  hour: number;
+}
+
+const metricOptions: Array<{ label: string; value: HeatmapMetric }> = [
+  { label: "Orders", value: "orders" },
+  { label: "Revenue", value: "revenue" },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Background color of a heatmap cell (darker green = busier)
+ */
+function getCellColor(value: number, max: number): string {
+  if (value === 0 || max === 0) {
+    return "transparent";
+  }
+  return `rgba(0, 128, 96, ${(0.08 + (value / max) * 0.82).toFixed(2)})`;
+}
+
+/**
+ * Group consecutive hours of the same part of day, for the header above the hours
+ */
+function getPartOfDaySpans(boundaries: PartOfDayBoundaries) {
+  const spans: { part: PartOfDay; hours: number }[] = [];
+  HOURS.forEach((hour) => {
+    const part = getPartOfDay(hour, boundaries);
+    const last = spans[spans.length - 1];
+    if (last && last.part === part) {
+      last.hours += 1;
+    } else {
+      spans.push({ part, hours: 1 });
+    }
+  });
+  return spans;
+}
+
+function getSlotLabel({ weekday, hour }: SelectedCell): string {
+  const day = HEATMAP_WEEKDAYS.find((definition) => definition.weekday === weekday)?.label;
+  return `${day} ${formatHour(hour)} - ${formatHour((hour + 1) % 24)}`;
+}
+
+/**
+ * Purchase Heatmap Component
+ *
+ * Orders (or revenue) by day of week and hour of day in the shop timezone, with the
+ * shop's parts of day above the hours, to find the best time for campaign sends.
+ * Clicking a cell lists the customers who ordered in that slot.
+ * Fetches its own data independently.
+ */
+export function PurchaseHeatmap({ dateRange = "30days" }: PurchaseHeatmapProps) {
+  const fetcher = useFetcher<PurchaseHeatmapResponse>();
+  const customersListFetcher = useFetcher<DashboardSegmentData>();
+  const [metric, setMetric] = useState<HeatmapMetric>("orders");
+  const [data, setData] = useState<PurchaseHeatmapResponse | null>(null);
+  const [showAccessModal, setShowAccessModal] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<SelectedCell | null>(null);
+
+  const { load: loadHeatmap } = fetcher;
+
+  useEffect(() => {
+    setSelectedCell(null);
+    loadHeatmap(`/api/dashboard/purchase-timing/heatmap?dateRange=${dateRange}`);
+  }, [dateRange, loadHeatmap]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setData(null);
+      } else if (fetcher.data.error) {
+        console.error("[Purchase Heatmap] Error:", fetcher.data.error);
+        setData(null);
+      } else if (fetcher.data.heatmap) {
+        setData(fetcher.data);
+      }
+    }
+  }, [fetcher.data]);
+
+  const handleCellClick = (weekday: number, hour: number) => {
+    setSelectedCell({ weekday, hour });
+    customersListFetcher.load(
+      `/api/dashboard/purchase-timing/heatmap/list?weekday=${weekday}&hour=${hour}&dateRange=${dateRange}`,
+    );
+  };
+
+  // Export handlers
+  const getExportFilename = () => {
+    const dateStr = new Date().toISOString().split("T")[0];
+    return `purchase-heatmap-${selectedCell?.weekday}-${selectedCell?.hour}-${dateStr}`;
+  };
+
+  const handleExportCSV = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToCSV({ customers, filename: getExportFilename() });
+  };
+
+  const handleExportPDF = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0 || !selectedCell) return;
+    exportToPDF({
+      customers,
+      filename: getExportFilename(),
+      title: `Orders ${getSlotLabel(selectedCell)} Export`,
+    });
+  };
+
+  const handleExportExcel = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToExcel({ customers, filename: getExportFilename() });
+  };
+
+  const heatmap = data?.heatmap;
+  const hasData = heatmap && heatmap.totalOrders > 0;
+  const max = heatmap ? (metric === "orders" ? heatmap.maxOrders : heatmap.maxRevenue) : 0;
+  const currencySuffix = heatmap?.currencyCode ? ` ${heatmap.currencyCode}` : "";
+  const cellStyle = {
+    padding: "4px 2px",
+    textAlign: "center" as const,
+    whiteSpace: "nowrap" as const,
+    borderBottom: "1px solid #e1e3e5",
+  };
+
+  const getCellTitle = (day: string, hour: number, cell: HeatmapCell) =>
+    `${day} ${formatHour(hour)}: ${cell.orders} order${cell.orders !== 1 ? "s" : ""}, ${cell.revenue.toFixed(2)}${currencySuffix}`;
+
+  return (
+    <>
+      <Card padding="400">
+        <BlockStack gap="300">
+          <InlineStack align="space-between" blockAlign="center" gap="200">
+            <Text as="h3" variant="headingMd">
+              When Customers Buy
+            </Text>
+            <Select
+              label="Metric"
+              labelHidden
+              options={metricOptions}
+              value={metric}
+              onChange={(value) => setMetric(value as HeatmapMetric)}
+            />
+          </InlineStack>
+
+          {!data && fetcher.state === "loading" ? (
+            <BlockStack gap="300" align="center">
+              <Spinner size="large" />
+              <Text as="p" tone="subdued">Loading purchase times...</Text>
+            </BlockStack>
+          ) : hasData ? (
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", width: "100%", fontSize: "12px" }}>
+                <thead>
+                  <tr>
+                    <th style={cellStyle} />
+                    {getPartOfDaySpans(data.partOfDay || DEFAULT_PART_OF_DAY_BOUNDARIES).map(
+                      (span, index) => (
+                        <th
+                          key={`${span.part}-${index}`}
+                          colSpan={span.hours}
+                          style={{ ...cellStyle, borderLeft: "1px solid #e1e3e5" }}
+                        >
+                          {PARTS_OF_DAY.find((part) => part.id === span.part)?.label}
+                        </th>
+                      ),
+                    )}
+                  </tr>
+                  <tr>
+                    <th style={cellStyle} />
+                    {HOURS.map((hour) => (
+                      <th key={hour} style={{ ...cellStyle, fontWeight: "normal" }}>
+                        {hour}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {HEATMAP_WEEKDAYS.map(({ weekday, label }) => (
+                    <tr key={weekday}>
+                      <td style={{ ...cellStyle, textAlign: "left", paddingRight: "8px" }}>
+                        {label}
+                      </td>
+                      {HOURS.map((hour) => {
+                        const cell = heatmap.cells[weekday][hour];
+                        const value = cell[metric];
+                        return (
+                          <td
+                            key={hour}
+                            style={{
+                              ...cellStyle,
+                              minWidth: "28px",
+                              backgroundColor: getCellColor(value, max),
+                              color: max > 0 && value / max > 0.5 ? "white" : undefined,
+                              cursor: cell.orders > 0 ? "pointer" : "default",
+                            }}
+                            title={getCellTitle(label, hour, cell)}
+                            onClick={
+                              cell.orders > 0 ? () => handleCellClick(weekday, hour) : undefined
+                            }
+                          >
+                            {metric === "orders"
+                              ? cell.orders || ""
+                              : cell.revenue > 0
+                                ? Math.round(cell.revenue)
+                                : ""}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No orders in this period.
+            </Text>
+          )}
+
+          {hasData && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              {metric === "orders"
+                ? `${heatmap.totalOrders} orders`
+                : `${heatmap.totalRevenue.toFixed(2)}${currencySuffix} revenue`}{" "}
+              by day of week and hour of day
+              {data.timezone ? ` (${data.timezone})` : ""}. Parts of day can be
+              changed in Settings. Click a cell to see its customers.
+            </Text>
+          )}
+        </BlockStack>
+      </Card>
+
+      <DashboardSegmentModal
+        open={selectedCell !== null}
+        onClose={() => setSelectedCell(null)}
+        title={selectedCell ? `Ordered ${getSlotLabel(selectedCell)}` : "Purchase Heatmap"}
+        data={customersListFetcher.data || null}
+        isLoading={customersListFetcher.state === "loading"}
+        onExportCSV={handleExportCSV}
+        onExportPDF={handleExportPDF}
+        onExportExcel={handleExportExcel}
+        featureName="Purchase Heatmap"
+      />
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="order"
+        featureName="Purchase Heatmap"
+      />
+    </>
+  );
+}
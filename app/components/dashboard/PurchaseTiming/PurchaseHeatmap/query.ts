@@ -0,0 +1,128 @@
+import {
+  fetchOrdersInRange,
+  type AdminGraphQL,
+  type CreatedNode,
+  type DashboardCustomerNode,
+  type MoneyNode,
+} from "../../../../services/dashboard.server";
+import { resolveDateRange, DEFAULT_TIMEZONE } from "../../../../utils/dateRange";
+import {
+  buildPurchaseHeatmap,
+  getHeatmapCellCustomerIds,
+  type HeatmapOrder,
+  type PurchaseHeatmap,
+} from "../../../../utils/purchaseHeatmap";
+
+interface HeatmapOrderNode extends CreatedNode {
+  cancelledAt: string | null;
+  totalPriceSet: { shopMoney: MoneyNode } | null;
+  customer: DashboardCustomerNode | null;
+}
+
+/**
+ * Purchase Heatmap Query Logic
+ *
+ * Pages the orders of the date range once and counts them by day of week and hour
+ * of day in the shop timezone (see utils/purchaseHeatmap). Cancelled orders are left out.
+ *
+ * NOTE:
+ * - Requires `read_orders` scope.
+ * - If your app isn't approved for protected order data, Shopify will return an error
+ *   and we'll throw PROTECTED_ORDER_DATA_ACCESS_DENIED.
+ */
+async function fetchHeatmapOrders(
+  admin: AdminGraphQL,
+  dateRange: string,
+  timezone: string,
+  customerFields: string = ""
+) {
+  const { startDate, endDate } = resolveDateRange(dateRange, timezone);
+  const orders = (
+    await fetchOrdersInRange<HeatmapOrderNode>(
+      admin,
+      startDate,
+      endDate,
+      `
+        cancelledAt
+        totalPriceSet {
+          shopMoney {
+            amount
+            currencyCode
+          }
+        }
+        customer {
+          id
+          ${customerFields}
+        }
+      `
+    )
+  ).filter((order) => !order.cancelledAt);
+
+  return {
+    orders,
+    heatmapOrders: orders.map(
+      (order): HeatmapOrder => ({
+        customerId: order.customer?.id || null,
+        createdAt: order.createdAt,
+        revenue: parseFloat(order.totalPriceSet?.shopMoney?.amount || "0"),
+      })
+    ),
+    currencyCode:
+      orders.find((order) => order.totalPriceSet?.shopMoney?.currencyCode)
+        ?.totalPriceSet?.shopMoney.currencyCode ?? null,
+  };
+}
+
+/**
+ * Get the day-of-week x hour-of-day heatmap of the date range's orders
+ */
+export async function getPurchaseHeatmapQuery(
+  admin: AdminGraphQL,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<PurchaseHeatmap> {
+  const { heatmapOrders, currencyCode } = await fetchHeatmapOrders(admin, dateRange, timezone);
+  return buildPurchaseHeatmap(heatmapOrders, timezone, currencyCode);
+}
+
+/**
+ * Get the customers who ordered in a heatmap cell, with their profile fields
+ */
+export async function getHeatmapCellCustomersQuery(
+  admin: AdminGraphQL,
+  weekday: number,
+  hour: number,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<DashboardCustomerNode[]> {
+  const { orders, heatmapOrders } = await fetchHeatmapOrders(
+    admin,
+    dateRange,
+    timezone,
+    `
+      displayName
+      email
+      createdAt
+      numberOfOrders
+      amountSpent {
+        amount
+        currencyCode
+      }
+      defaultAddress {
+        country
+      }
+    `
+  );
+
+  const customerIds = new Set(
+    getHeatmapCellCustomerIds(heatmapOrders, weekday, hour, timezone)
+  );
+  const customers = new Map<string, DashboardCustomerNode>();
+  orders.forEach(({ customer }) => {
+    if (customer && customerIds.has(customer.id) && !customers.has(customer.id)) {
+      customers.set(customer.id, customer);
+    }
+  });
+
+  return Array.from(customers.values());
+}
@@ -2,17 +2,28 @@ import { useEffect, useState, useMemo } from "react";
 import { useFetcher } from "react-router";
 import { InsightCard } from "../../InsightCard";
 import { InsightCardSkeleton } from "../../InsightCardSkeleton";
-import { miniChartOptions } from "../../dashboardUtils";
+import {
+  miniChartOptions,
+  formatCustomDateRange,
+  formatDataPointLabel,
+} from "../../dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../../../utils/dateRange";
 import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
 
 interface WeekendPurchasesData {
   count: number;
   dataPoints: Array<{ date: string; count: number }>;
+  comparison?: PeriodComparison | null;
   error?: string;
 }
 
 interface WeekendPurchasesProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
 }
 
@@ -28,7 +39,7 @@ function getPeriodLabel(dateRange: string): string {
     case "last90Days": return "the last 90 days";
     case "thisMonth": return "this month";
     case "lastMonth": return "last month";
-    default: return "the selected period";
+    default: return formatCustomDateRange(dateRange) || "the selected period";
   }
 }
 
@@ -46,6 +57,7 @@ function getStatusFromGrowth(growth: number): "success" | "warning" | "critical"
 
 export function WeekendPurchases({
   dateRange = "30days",
+  comparisonMode = DEFAULT_COMPARISON_MODE,
   onViewSegment,
 }: WeekendPurchasesProps) {
   const fetcher = useFetcher<WeekendPurchasesData>();
@@ -55,8 +67,8 @@ export function WeekendPurchases({
   useEffect(() => {
     setData(null);
     setShowAccessModal(false);
-    fetcher.load(`/api/dashboard/purchase-timing/weekend-purchases?dateRange=${dateRange}`);
-  }, [dateRange]);
+    fetcher.load(`/api/dashboard/purchase-timing/weekend-purchases?dateRange=${dateRange}&compare=${comparisonMode}`);
+  }, [dateRange, comparisonMode]);
 
   useEffect(() => {
     if (fetcher.data) {
@@ -66,6 +78,7 @@ export function WeekendPurchases({
       } else if (typeof fetcher.data.count === "number") {
         setData({
           count: fetcher.data.count,
+          comparison: fetcher.data.comparison ?? null,
           dataPoints: Array.isArray(fetcher.data.dataPoints) ? fetcher.data.dataPoints : [],
         });
       }
@@ -83,7 +96,8 @@ export function WeekendPurchases({
       };
     }
 
-    const [startPoint, endPoint] = data.dataPoints;
+    const startPoint = data.dataPoints[0];
+    const endPoint = data.dataPoints[data.dataPoints.length - 1];
     const startCount = startPoint.count;
     const endCount = endPoint.count;
 
@@ -148,7 +162,8 @@ export function WeekendPurchases({
 
   const chartData = data.dataPoints && data.dataPoints.length > 1
     ? (() => {
-        const [startPoint, endPoint] = data.dataPoints;
+        const startPoint = data.dataPoints[0];
+        const endPoint = data.dataPoints[data.dataPoints.length - 1];
         const isUpwardTrend = endPoint.count > startPoint.count;
         const isDownwardTrend = endPoint.count < startPoint.count;
 
@@ -165,12 +180,7 @@ export function WeekendPurchases({
             : "rgba(128, 128, 128, 0.2)";
 
         return {
-          labels: data.dataPoints.map((point) => {
-            const date = new Date(point.date);
-            const month = String(date.getMonth() + 1).padStart(2, "0");
-            const day = String(date.getDate()).padStart(2, "0");
-            return `${month}/${day}`;
-          }),
+          labels: data.dataPoints.map((point) => formatDataPointLabel(point.date)),
           datasets: [{
             data: data.dataPoints.map((point) => point.count),
             borderColor,
@@ -206,6 +216,7 @@ export function WeekendPurchases({
     <InsightCard
       title="Weekend Purchases"
       value={data.count}
+      comparison={data.comparison}
       status={status}
       description={description}
       miniChartData={chartData}
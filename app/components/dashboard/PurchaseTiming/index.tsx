@@ -3,9 +3,12 @@ import { MorningPurchases } from "./MorningPurchases/MorningPurchases";
 import { AfternoonPurchases } from "./AfternoonPurchases/AfternoonPurchases";
 import { EveningPurchases } from "./EveningPurchases/EveningPurchases";
 import { WeekendPurchases } from "./WeekendPurchases/WeekendPurchases";
+import { PurchaseHeatmap } from "./PurchaseHeatmap/PurchaseHeatmap";
+import type { ComparisonMode } from "../../../utils/dateRange";
 
 interface PurchaseTimingProps {
   dateRange?: string;
+  comparisonMode?: ComparisonMode;
   onViewSegment?: (segmentName: string) => void;
   onShowToast?: (message: string) => void;
 }
@@ -18,6 +21,7 @@ interface PurchaseTimingProps {
  */
 export function PurchaseTiming({
   dateRange = "30days",
+  comparisonMode,
   onViewSegment,
   onShowToast,
 }: PurchaseTimingProps) {
@@ -30,24 +34,29 @@ export function PurchaseTiming({
         <InlineGrid columns={{ xs: 1, sm: 2, md: 2, lg: 3, xl: 3 }} gap={{ xs: "400", sm: "400", md: "400", lg: "400", xl: "400" }}>
           <MorningPurchases 
             dateRange={dateRange} 
+            comparisonMode={comparisonMode}
             onViewSegment={onViewSegment}
             onShowToast={onShowToast}
           />
 
           <AfternoonPurchases 
             dateRange={dateRange} 
+            comparisonMode={comparisonMode}
             onViewSegment={onViewSegment}
             onShowToast={onShowToast}
           />
 
           <EveningPurchases 
             dateRange={dateRange} 
+            comparisonMode={comparisonMode}
             onViewSegment={onViewSegment}
             onShowToast={onShowToast}
           />
 
           {/* <WeekendPurchases dateRange={dateRange} onViewSegment={onViewSegment} /> */}
         </InlineGrid>
+
+        <PurchaseHeatmap dateRange={dateRange} />
       </BlockStack>
     </Layout.Section>
   );
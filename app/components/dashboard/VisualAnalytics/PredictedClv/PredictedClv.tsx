@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Card, BlockStack, InlineStack, Text, Spinner } from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import { Bar } from "react-chartjs-2";
+import type { TooltipItem } from "chart.js";
+import type { ClvDistribution } from "../../../../utils/clv";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+
+interface PredictedClvData {
+  distribution?: ClvDistribution;
+  currencyCode?: string | null;
+  error?: string;
+}
+
+/**
+ * Chart options for the CLV distribution Bar Chart
+ */
+const predictedClvChartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: false,
+    },
+    tooltip: {
+      backgroundColor: "rgba(0, 0, 0, 0.9)",
+      padding: 14,
+      cornerRadius: 8,
+      callbacks: {
+        label: function (context: TooltipItem<"bar">) {
+          return `${context.raw} customers`;
+        },
+      },
+    },
+  },
+  scales: {
+    x: {
+      grid: {
+        display: false,
+      },
+      ticks: {
+        color: "#6D7175",
+      },
+    },
+    y: {
+      beginAtZero: true,
+      grid: {
+        color: "rgba(0, 0, 0, 0.06)",
+      },
+      ticks: {
+        precision: 0,
+        color: "#6D7175",
+      },
+    },
+  },
+  borderRadius: 6,
+};
+
+/**
+ * Predicted CLV Component
+ *
+ * Bar chart of how many customers are predicted to spend each amount over the
+ * next 12 months (see utils/clv), with the total and average prediction.
+ * Fetches its own data independently.
+ */
+export function PredictedClv() {
+  const fetcher = useFetcher<PredictedClvData>();
+  const [distribution, setDistribution] = useState<ClvDistribution | null>(null);
+  const [showAccessModal, setShowAccessModal] = useState(false);
+
+  const { load: loadDistribution } = fetcher;
+
+  useEffect(() => {
+    loadDistribution("/api/dashboard/visual-analytics/predicted-clv");
+  }, [loadDistribution]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setDistribution(null);
+      } else if (fetcher.data.error) {
+        console.error("[Predicted CLV] Error:", fetcher.data.error);
+        setDistribution(null);
+      } else if (fetcher.data.distribution) {
+        setDistribution(fetcher.data.distribution);
+      }
+    }
+  }, [fetcher.data]);
+
+  const currencySuffix = fetcher.data?.currencyCode ? ` ${fetcher.data.currencyCode}` : "";
+  const hasData = distribution && distribution.customers > 0;
+
+  const chartData = distribution
+    ? {
+        labels: distribution.buckets.map((bucket) => `${bucket.label}${currencySuffix}`),
+        datasets: [
+          {
+            label: "Customers",
+            data: distribution.buckets.map((bucket) => bucket.customers),
+            backgroundColor: "rgba(0, 128, 96, 0.7)",
+            borderColor: "rgba(0, 128, 96, 1)",
+            borderWidth: 1,
+          },
+        ],
+      }
+    : null;
+
+  return (
+    <>
+      <Card padding="400">
+        <BlockStack gap="300">
+          <InlineStack align="space-between" blockAlign="center">
+            <Text as="h3" variant="headingMd">
+              Predicted Customer Lifetime Value
+            </Text>
+            {hasData && (
+              <Text as="p" variant="bodyMd" fontWeight="semibold">
+                {distribution.totalPredictedClv.toFixed(0)}
+                {currencySuffix} over 12 months
+              </Text>
+            )}
+          </InlineStack>
+
+          {!distribution && fetcher.state === "loading" ? (
+            <BlockStack gap="300" align="center">
+              <Spinner size="large" />
+              <Text as="p" tone="subdued">Predicting customer value...</Text>
+            </BlockStack>
+          ) : hasData && chartData ? (
+            <div style={{ height: "300px", position: "relative" }}>
+              <Bar data={chartData} options={predictedClvChartOptions} />
+            </div>
+          ) : (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No customers with orders to predict yet.
+            </Text>
+          )}
+
+          {hasData && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              {distribution.customers} customers with orders, predicted to spend{" "}
+              {distribution.averagePredictedClv.toFixed(2)}
+              {currencySuffix} each on average over the next 12 months, from their
+              order frequency, average order value and time since their last order.
+            </Text>
+          )}
+        </BlockStack>
+      </Card>
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="customer"
+        featureName="Predicted CLV"
+      />
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import type {
+  AdminGraphQL,
+  DashboardCustomerNode,
+} from "../../../../services/dashboard.server";
+import {
+  summarizeClvDistribution,
+  type ClvCustomer,
+  type ClvDistribution,
+} from "../../../../utils/clv";
+
+interface ClvCustomerNode extends DashboardCustomerNode {
+  createdAt: string;
+  lastOrder: { createdAt: string } | null;
+}
+
+/**
+ * Predicted CLV Query Logic
+ *
+ * Pages every customer with at least one order and predicts what they'll spend over
+ * the next 12 months from their order history (see utils/clv).
+ * Like RFM, this doesn't follow the dashboard date range.
+ *
+ * NOTE:
+ * - Requires `read_customers` scope.
+ * - If your app isn't approved for protected customer data,
+ *   Shopify will return an error and we'll throw PROTECTED_CUSTOMER_DATA_ACCESS_DENIED.
+ */
+export async function getPredictedClvQuery(
+  admin: AdminGraphQL
+): Promise<{ distribution: ClvDistribution; currencyCode: string | null }> {
+  const nodes: ClvCustomerNode[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  try {
+    while (hasNextPage) {
+      const after: string = cursor ? `, after: "${cursor}"` : "";
+      const response = await admin.graphql(`
+        query {
+          customers(first: 250${after}, query: "orders_count:>0") {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              createdAt
+              numberOfOrders
+              amountSpent {
+                amount
+                currencyCode
+              }
+              lastOrder {
+                createdAt
+              }
+            }
+          }
+        }
+      `);
+      const json = await response.json();
+
+      if (json.errors && json.errors.length > 0) {
+        const accessError = json.errors.find(
+          (error: { message?: string }) =>
+            error.message?.includes("not approved") ||
+            error.message?.includes("protected customer data") ||
+            error.message?.includes("Customer")
+        );
+        if (accessError) {
+          throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+        }
+        throw new Error(json.errors[0].message || "Unknown GraphQL error");
+      }
+
+      nodes.push(...(json.data?.customers?.nodes || []));
+      hasNextPage = json.data?.customers?.pageInfo?.hasNextPage || false;
+      cursor = json.data?.customers?.pageInfo?.endCursor || null;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (
+      message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" ||
+      message.includes("not approved") ||
+      message.includes("protected")
+    ) {
+      throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+    }
+    throw error;
+  }
+
+  const customers: ClvCustomer[] = nodes.map((node) => ({
+    orderCount: Number(node.numberOfOrders || 0),
+    totalSpent: parseFloat(node.amountSpent?.amount || "0"),
+    customerSince: node.createdAt,
+    lastOrderDate: node.lastOrder?.createdAt || null,
+  }));
+
+  return {
+    distribution: summarizeClvDistribution(customers),
+    currencyCode:
+      nodes.find((node) => node.amountSpent?.currencyCode)?.amountSpent?.currencyCode ?? null,
+  };
+}
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Spinner,
+  DataTable,
+  Button,
+} from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import type { ProductAffinity as ProductAffinityData, ProductAffinityRule } from "../../../../utils/basket";
+import type { FilterData } from "../../../filter-audience/types";
+import { SaveListModal } from "../../../filter-audience/SaveListModal";
+import {
+  DashboardSegmentModal,
+  type DashboardSegmentData,
+} from "../../DashboardSegmentModal";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
+
+interface ProductAffinityResponse {
+  affinity?: ProductAffinityData;
+  error?: string;
+}
+
+// Whether product B was checked against the whole order history or only the date range
+interface BoughtANotBData extends DashboardSegmentData {
+  fullHistory?: boolean;
+}
+
+interface ProductAffinityProps {
+  dateRange?: string;
+  onShowToast?: (message: string) => void;
+}
+
+// Sortable columns, by DataTable column index
+const SORTABLE_COLUMNS: Partial<Record<number, keyof ProductAffinityRule>> = {
+  2: "orders",
+  3: "support",
+  4: "confidence",
+  5: "lift",
+};
+
+/**
+ * Product Affinity Component
+ *
+ * Market basket analysis of the date range's orders: the product pairs bought
+ * together, with their support, confidence and lift (see utils/basket), in a table
+ * sortable by each metric. "Customers" lists who bought the first product in the
+ * period but not the second, a cross-sell audience that can be exported or saved as
+ * a list. Without the warehouse, the second product is only looked up in the
+ * period's orders and the list says so.
+ * Fetches its own data independently.
+ */
+export function ProductAffinity({ dateRange = "30days", onShowToast }: ProductAffinityProps) {
+  const fetcher = useFetcher<ProductAffinityResponse>();
+  const customersListFetcher = useFetcher<BoughtANotBData>();
+  const [affinity, setAffinity] = useState<ProductAffinityData | null>(null);
+  const [sortColumn, setSortColumn] = useState(5);
+  const [sortDirection, setSortDirection] = useState<"ascending" | "descending">("descending");
+  const [showAccessModal, setShowAccessModal] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<ProductAffinityRule | null>(null);
+  const [showSaveListModal, setShowSaveListModal] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+  const [saveListError, setSaveListError] = useState<string | null>(null);
+
+  const { load: loadAffinity } = fetcher;
+
+  useEffect(() => {
+    loadAffinity(`/api/dashboard/visual-analytics/product-affinity?dateRange=${dateRange}`);
+  }, [dateRange, loadAffinity]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setAffinity(null);
+      } else if (fetcher.data.error) {
+        console.error("[Product Affinity] Error:", fetcher.data.error);
+        setAffinity(null);
+      } else if (fetcher.data.affinity) {
+        setAffinity(fetcher.data.affinity);
+      }
+    }
+  }, [fetcher.data]);
+
+  const handleRuleClick = (rule: ProductAffinityRule) => {
+    setSelectedRule(rule);
+    const params = new URLSearchParams({
+      productA: rule.productA.id,
+      productB: rule.productB.id,
+      dateRange,
+    });
+    customersListFetcher.load(`/api/dashboard/visual-analytics/product-affinity/list?${params}`);
+  };
+
+  const handleSort = (index: number, direction: "ascending" | "descending") => {
+    setSortColumn(index);
+    setSortDirection(direction);
+  };
+
+  // Export handlers
+  const getExportFilename = () => {
+    const dateStr = new Date().toISOString().split("T")[0];
+    return `bought-a-not-b-${dateStr}`;
+  };
+
+  const getSegmentTitle = (rule: ProductAffinityRule) => {
+    const fullHistory = customersListFetcher.data?.fullHistory;
+    if (fullHistory === undefined) {
+      return `Bought ${rule.productA.title}, not ${rule.productB.title}`;
+    }
+    return fullHistory
+      ? `Bought ${rule.productA.title}, never ${rule.productB.title}`
+      : `Bought ${rule.productA.title}, not ${rule.productB.title} in this period`;
+  };
+
+  const handleExportCSV = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToCSV({ customers, filename: getExportFilename() });
+  };
+
+  const handleExportPDF = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0 || !selectedRule) return;
+    exportToPDF({
+      customers,
+      filename: getExportFilename(),
+      title: getSegmentTitle(selectedRule),
+    });
+  };
+
+  const handleExportExcel = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToExcel({ customers, filename: getExportFilename() });
+  };
+
+  // Save the cross-sell audience as a list
+  const handleSaveListSubmit = async (listName: string) => {
+    const customers = customersListFetcher.data?.customers || [];
+    setIsSavingList(true);
+    setSaveListError(null);
+
+    try {
+      // The products filter can't exclude B, so the list keeps the customers it was saved with
+      const filters: FilterData = {
+        location: [],
+        products: selectedRule ? [selectedRule.productA.title] : [],
+        timing: [],
+        device: [],
+        payment: [],
+        delivery: [],
+      };
+
+      const formData = new FormData();
+      formData.append("listName", listName);
+      formData.append("filters", JSON.stringify(filters));
+      formData.append("source", "manual");
+      formData.append(
+        "customerIds",
+        JSON.stringify(customers.map((customer) => customer.id)),
+      );
+
+      const response = await fetch("/api/filter-audience/save-list", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.error) {
+        setSaveListError(data.error);
+        return;
+      }
+
+      setShowSaveListModal(false);
+      onShowToast?.(`List "${listName}" saved with ${customers.length} customers`);
+    } catch (error) {
+      console.error("[Product Affinity] Error saving list:", error);
+      setSaveListError((error instanceof Error && error.message) || "Failed to save list");
+    } finally {
+      setIsSavingList(false);
+    }
+  };
+
+  const sortKey = SORTABLE_COLUMNS[sortColumn] || "lift";
+  const sortedRules = [...(affinity?.rules || [])].sort((a, b) => {
+    const difference = (a[sortKey] as number) - (b[sortKey] as number);
+    return sortDirection === "ascending" ? difference : -difference;
+  });
+
+  const rows = sortedRules.map((rule) => [
+    rule.productA.title,
+    rule.productB.title,
+    rule.orders,
+    `${rule.support.toFixed(1)}%`,
+    `${rule.confidence.toFixed(1)}%`,
+    rule.lift.toFixed(2),
+    <Button
+      key={`${rule.productA.id}-${rule.productB.id}`}
+      variant="plain"
+      onClick={() => handleRuleClick(rule)}
+    >
+      Customers
+    </Button>,
+  ]);
+
+  return (
+    <>
+      <Card padding="400">
+        <BlockStack gap="300">
+          <InlineStack align="space-between" blockAlign="center">
+            <Text as="h3" variant="headingMd">
+              Frequently Bought Together
+            </Text>
+            {affinity && affinity.totalOrders > 0 && (
+              <Text as="p" variant="bodySm" tone="subdued">
+                {affinity.totalOrders} orders analysed
+              </Text>
+            )}
+          </InlineStack>
+
+          {!affinity && fetcher.state === "loading" ? (
+            <BlockStack gap="300" align="center">
+              <Spinner size="large" />
+              <Text as="p" tone="subdued">Analysing baskets...</Text>
+            </BlockStack>
+          ) : rows.length > 0 ? (
+            <DataTable
+              columnContentTypes={["text", "text", "numeric", "numeric", "numeric", "numeric", "text"]}
+              headings={[
+                "If bought",
+                "Also bought",
+                "Orders",
+                "Support",
+                "Confidence",
+                "Lift",
+                "Bought A, not B",
+              ]}
+              rows={rows}
+              sortable={[false, false, true, true, true, true, false]}
+              defaultSortDirection="descending"
+              initialSortColumnIndex={5}
+              onSort={handleSort}
+            />
+          ) : (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No products were bought together more than once in this period.
+            </Text>
+          )}
+
+          {rows.length > 0 && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              Support is the share of orders with both products, confidence the share of
+              orders with the first product that also have the second. A lift above 1 means
+              the first product makes the second more likely to be bought.
+            </Text>
+          )}
+        </BlockStack>
+      </Card>
+
+      <DashboardSegmentModal
+        open={selectedRule !== null && !showSaveListModal}
+        onClose={() => setSelectedRule(null)}
+        title={selectedRule ? getSegmentTitle(selectedRule) : "Bought A, not B"}
+        data={customersListFetcher.data || null}
+        isLoading={customersListFetcher.state === "loading"}
+        onExportCSV={handleExportCSV}
+        onExportPDF={handleExportPDF}
+        onExportExcel={handleExportExcel}
+        onSaveList={() => {
+          setSaveListError(null);
+          setShowSaveListModal(true);
+        }}
+        featureName="Product Affinity"
+      />
+
+      <SaveListModal
+        open={showSaveListModal}
+        onClose={() => setShowSaveListModal(false)}
+        onSave={handleSaveListSubmit}
+        isLoading={isSavingList}
+        error={saveListError}
+        initialListName={selectedRule ? `Cross-sell - ${selectedRule.productB.title}` : ""}
+      />
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="order"
+        featureName="Product Affinity"
+      />
+    </>
+  );
+}
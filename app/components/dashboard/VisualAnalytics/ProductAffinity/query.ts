@@ -0,0 +1,138 @@
+import {
+  fetchOrdersInRange,
+  type AdminGraphQL,
+  type CreatedNode,
+  type DashboardCustomerNode,
+} from "../../../../services/dashboard.server";
+import { resolveDateRange, DEFAULT_TIMEZONE } from "../../../../utils/dateRange";
+import {
+  computeProductAffinity,
+  getBoughtANotBCustomerIds,
+  type BasketOrder,
+  type ProductAffinity,
+} from "../../../../utils/basket";
+
+// Orders per page and line items per order, kept under the query cost limit
+const ORDERS_PAGE_SIZE = 25;
+const LINE_ITEMS_PER_ORDER = 25;
+
+interface BasketOrderNode extends CreatedNode {
+  cancelledAt: string | null;
+  customer: DashboardCustomerNode | null;
+  lineItems: { nodes: { product: { id: string; title: string } | null }[] } | null;
+}
+
+/**
+ * Product Affinity Query Logic
+ *
+ * Pages the orders of the date range once with their line items and turns them into
+ * baskets of products (see utils/basket). Cancelled orders and line items without a
+ * product (custom items) are left out.
+ *
+ * NOTE:
+ * - Requires `read_orders` and `read_customers` scopes.
+ * - If your app isn't approved for protected order data, Shopify will return an error
+ *   and we'll throw PROTECTED_ORDER_DATA_ACCESS_DENIED.
+ */
+async function fetchBasketOrders(
+  admin: AdminGraphQL,
+  dateRange: string,
+  timezone: string,
+  customerFields: string = ""
+) {
+  const { startDate, endDate } = resolveDateRange(dateRange, timezone);
+  const orders = (
+    await fetchOrdersInRange<BasketOrderNode>(
+      admin,
+      startDate,
+      endDate,
+      `
+        cancelledAt
+        customer {
+          id
+          ${customerFields}
+        }
+        lineItems(first: ${LINE_ITEMS_PER_ORDER}) {
+          nodes {
+            product {
+              id
+              title
+            }
+          }
+        }
+      `,
+      ORDERS_PAGE_SIZE
+    )
+  ).filter((order) => !order.cancelledAt);
+
+  return {
+    orders,
+    basketOrders: orders.map(
+      (order): BasketOrder => ({
+        customerId: order.customer?.id || null,
+        products: (order.lineItems?.nodes || [])
+          .map((lineItem) => lineItem.product)
+          .filter((product) => product?.id)
+          .map((product) => ({
+            id: product!.id,
+            title: product!.title,
+          })),
+      })
+    ),
+  };
+}
+
+/**
+ * Get the product pairs bought together in the date range
+ */
+export async function getProductAffinityQuery(
+  admin: AdminGraphQL,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<ProductAffinity> {
+  const { basketOrders } = await fetchBasketOrders(admin, dateRange, timezone);
+  return computeProductAffinity(basketOrders);
+}
+
+/**
+ * Get the customers who bought product A but not product B in the date range,
+ * with their profile fields
+ */
+export async function getBoughtANotBCustomersQuery(
+  admin: AdminGraphQL,
+  productAId: string,
+  productBId: string,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<DashboardCustomerNode[]> {
+  const { orders, basketOrders } = await fetchBasketOrders(
+    admin,
+    dateRange,
+    timezone,
+    `
+      displayName
+      email
+      createdAt
+      numberOfOrders
+      amountSpent {
+        amount
+        currencyCode
+      }
+      defaultAddress {
+        country
+      }
+    `
+  );
+
+  const customerIds = new Set(
+    getBoughtANotBCustomerIds(basketOrders, productAId, productBId)
+  );
+  const customers = new Map<string, DashboardCustomerNode>();
+  orders.forEach(({ customer }) => {
+    if (customer && customerIds.has(customer.id) && !customers.has(customer.id)) {
+      customers.set(customer.id, customer);
+    }
+  });
+
+  return Array.from(customers.values());
+}
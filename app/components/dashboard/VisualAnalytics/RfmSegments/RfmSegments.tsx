@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineGrid,
+  Text,
+  Spinner,
+} from "@shopify/polaris";
+import { useFetcher } from "react-router";
+import type { RfmSegmentSummary } from "../../../../utils/rfm";
+import type { FilterData } from "../../../filter-audience/types";
+import { SaveListModal } from "../../../filter-audience/SaveListModal";
+import {
+  DashboardSegmentModal,
+  type DashboardSegmentData,
+} from "../../DashboardSegmentModal";
+import { ProtectedDataAccessModal } from "../../ProtectedDataAccessModal";
+import { exportToCSV, exportToPDF, exportToExcel } from "../../exportUtils";
+
+interface RfmSegmentsData {
+  segments?: RfmSegmentSummary[];
+  currencyCode?: string | null;
+  error?: string;
+}
+
+interface RfmSegmentsProps {
+  onShowToast?: (message: string) => void;
+}
+
+/**
+ * RFM Segments Component
+ *
+ * Grid of the named RFM segments (Champions, At Risk, Hibernating, ...) with their
+ * size and spend. Customers are scored on recency, frequency and monetary quintiles
+ * over their whole order history. Clicking a segment lists its customers, which can
+ * be exported or saved as a customer list.
+ * Fetches its own data independently.
+ */
+export function RfmSegments({ onShowToast }: RfmSegmentsProps) {
+  const fetcher = useFetcher<RfmSegmentsData>();
+  const customersListFetcher = useFetcher<DashboardSegmentData>();
+  const [segments, setSegments] = useState<RfmSegmentSummary[] | null>(null);
+  const [showAccessModal, setShowAccessModal] = useState(false);
+  const [selectedSegment, setSelectedSegment] = useState<RfmSegmentSummary | null>(null);
+  const [showSaveListModal, setShowSaveListModal] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+  const [saveListError, setSaveListError] = useState<string | null>(null);
+
+  const { load: loadSegments } = fetcher;
+
+  useEffect(() => {
+    loadSegments("/api/dashboard/visual-analytics/rfm-segments");
+  }, [loadSegments]);
+
+  useEffect(() => {
+    if (fetcher.data) {
+      if (fetcher.data.error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+        setShowAccessModal(true);
+        setSegments(null);
+      } else if (fetcher.data.error) {
+        console.error("[RFM Segments] Error:", fetcher.data.error);
+        setSegments(null);
+      } else if (Array.isArray(fetcher.data.segments)) {
+        setSegments(fetcher.data.segments);
+      }
+    }
+  }, [fetcher.data]);
+
+  const handleSegmentClick = (segment: RfmSegmentSummary) => {
+    setSelectedSegment(segment);
+    customersListFetcher.load(
+      `/api/dashboard/visual-analytics/rfm-segments/list?segment=${segment.id}`,
+    );
+  };
+
+  // Export handlers
+  const getExportFilename = () => {
+    const dateStr = new Date().toISOString().split("T")[0];
+    return `rfm-${selectedSegment?.id}-${dateStr}`;
+  };
+
+  const handleExportCSV = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToCSV({ customers, filename: getExportFilename() });
+  };
+
+  const handleExportPDF = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToPDF({
+      customers,
+      filename: getExportFilename(),
+      title: `${selectedSegment?.label} Export`,
+    });
+  };
+
+  const handleExportExcel = () => {
+    const customers = customersListFetcher.data?.customers;
+    if (!customers || customers.length === 0) return;
+    exportToExcel({ customers, filename: getExportFilename() });
+  };
+
+  // Save the segment's current customers as a list
+  const handleSaveListSubmit = async (listName: string) => {
+    const customers = customersListFetcher.data?.customers || [];
+    setIsSavingList(true);
+    setSaveListError(null);
+
+    try {
+      // RFM segments aren't filters, so the list keeps its customer IDs only
+      const filters: FilterData = {
+        location: [],
+        products: [],
+        timing: [],
+        device: [],
+        payment: [],
+        delivery: [],
+      };
+
+      const formData = new FormData();
+      formData.append("listName", listName);
+      formData.append("filters", JSON.stringify(filters));
+      formData.append("source", "manual");
+      formData.append(
+        "customerIds",
+        JSON.stringify(customers.map((customer) => customer.id)),
+      );
+
+      const response = await fetch("/api/filter-audience/save-list", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.error) {
+        setSaveListError(data.error);
+        return;
+      }
+
+      setShowSaveListModal(false);
+      onShowToast?.(`List "${listName}" saved with ${customers.length} customers`);
+    } catch (error) {
+      console.error("[RFM Segments] Error saving list:", error);
+      setSaveListError((error instanceof Error && error.message) || "Failed to save list");
+    } finally {
+      setIsSavingList(false);
+    }
+  };
+
+  const currencyCode = fetcher.data?.currencyCode;
+  const hasData = segments && segments.some((segment) => segment.customers > 0);
+
+  return (
+    <>
+      <Card padding="400">
+        <BlockStack gap="300">
+          <Text as="h3" variant="headingMd">
+            RFM Segments
+          </Text>
+
+          {!segments && fetcher.state === "loading" ? (
+            <BlockStack gap="300" align="center">
+              <Spinner size="large" />
+              <Text as="p" tone="subdued">Scoring customers...</Text>
+            </BlockStack>
+          ) : hasData ? (
+            <InlineGrid columns={{ xs: 1, sm: 2, md: 3, lg: 5 }} gap="300">
+              {segments.map((segment) => (
+                <div
+                  key={segment.id}
+                  role="button"
+                  tabIndex={segment.customers > 0 ? 0 : -1}
+                  onClick={() => segment.customers > 0 && handleSegmentClick(segment)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter" && segment.customers > 0) {
+                      handleSegmentClick(segment);
+                    }
+                  }}
+                  style={{
+                    backgroundColor: segment.color,
+                    borderRadius: "8px",
+                    padding: "12px",
+                    minHeight: "110px",
+                    cursor: segment.customers > 0 ? "pointer" : "default",
+                    opacity: segment.customers > 0 ? 1 : 0.5,
+                  }}
+                >
+                  <BlockStack gap="100">
+                    <Text as="p" variant="headingSm">
+                      {segment.label}
+                    </Text>
+                    <Text as="p" variant="headingLg">
+                      {segment.customers}
+                    </Text>
+                    <Text as="p" variant="bodySm">
+                      {segment.share.toFixed(1)}% of customers ·{" "}
+                      {segment.totalSpent.toFixed(0)}
+                      {currencyCode ? ` ${currencyCode}` : ""}
+                    </Text>
+                    <Text as="p" variant="bodySm">
+                      {segment.description}
+                    </Text>
+                  </BlockStack>
+                </div>
+              ))}
+            </InlineGrid>
+          ) : (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No customers with orders to score yet.
+            </Text>
+          )}
+
+          {hasData && (
+            <Text as="p" variant="bodySm" tone="subdued">
+              Customers scored 1-5 on recency, frequency and monetary value over their
+              whole order history. Click a segment to see, export or save its customers.
+            </Text>
+          )}
+        </BlockStack>
+      </Card>
+
+      <DashboardSegmentModal
+        open={selectedSegment !== null && !showSaveListModal}
+        onClose={() => setSelectedSegment(null)}
+        title={selectedSegment ? `${selectedSegment.label} (RFM)` : "RFM Segment"}
+        data={customersListFetcher.data || null}
+        isLoading={customersListFetcher.state === "loading"}
+        onExportCSV={handleExportCSV}
+        onExportPDF={handleExportPDF}
+        onExportExcel={handleExportExcel}
+        onSaveList={() => {
+          setSaveListError(null);
+          setShowSaveListModal(true);
+        }}
+        featureName="RFM Segments"
+      />
+
+      <SaveListModal
+        open={showSaveListModal}
+        onClose={() => setShowSaveListModal(false)}
+        onSave={handleSaveListSubmit}
+        isLoading={isSavingList}
+        error={saveListError}
+        initialListName={selectedSegment ? `RFM - ${selectedSegment.label}` : ""}
+      />
+
+      <ProtectedDataAccessModal
+        open={showAccessModal}
+        onClose={() => setShowAccessModal(false)}
+        dataType="customer"
+        featureName="RFM Segments"
+      />
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+import type {
+  AdminGraphQL,
+  DashboardCustomerNode,
+} from "../../../../services/dashboard.server";
+import {
+  summarizeRfmSegments,
+  getRfmSegmentCustomerIds,
+  type RfmCustomer,
+  type RfmSegmentId,
+  type RfmSegmentSummary,
+} from "../../../../utils/rfm";
+
+interface RfmCustomerNode extends DashboardCustomerNode {
+  lastOrder: { createdAt: string } | null;
+}
+
+/**
+ * RFM Segments Query Logic
+ *
+ * Pages every customer with at least one order and scores them from their whole
+ * order history (last order date, number of orders, amount spent), see utils/rfm.
+ * RFM doesn't follow the dashboard date range: recency is measured from today.
+ *
+ * NOTE:
+ * - Requires `read_customers` scope.
+ * - If your app isn't approved for protected customer data,
+ *   Shopify will return an error and we'll throw PROTECTED_CUSTOMER_DATA_ACCESS_DENIED.
+ */
+async function fetchRfmCustomers(
+  admin: AdminGraphQL,
+  customerFields: string = ""
+): Promise<{ customers: RfmCustomer[]; nodes: RfmCustomerNode[] }> {
+  const nodes: RfmCustomerNode[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  try {
+    while (hasNextPage) {
+      const after: string = cursor ? `, after: "${cursor}"` : "";
+      const response = await admin.graphql(`
+        query {
+          customers(first: 250${after}, query: "orders_count:>0") {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              numberOfOrders
+              amountSpent {
+                amount
+                currencyCode
+              }
+              lastOrder {
+                createdAt
+              }
+              ${customerFields}
+            }
+          }
+        }
+      `);
+      const json = await response.json();
+
+      if (json.errors && json.errors.length > 0) {
+        const accessError = json.errors.find(
+          (error: { message?: string }) =>
+            error.message?.includes("not approved") ||
+            error.message?.includes("protected customer data") ||
+            error.message?.includes("Customer")
+        );
+        if (accessError) {
+          throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+        }
+        throw new Error(json.errors[0].message || "Unknown GraphQL error");
+      }
+
+      nodes.push(...(json.data?.customers?.nodes || []));
+      hasNextPage = json.data?.customers?.pageInfo?.hasNextPage || false;
+      cursor = json.data?.customers?.pageInfo?.endCursor || null;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (
+      message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" ||
+      message.includes("not approved") ||
+      message.includes("protected")
+    ) {
+      throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+    }
+    throw error;
+  }
+
+  // Customers whose orders were all deleted have no last order to score
+  const customers = nodes
+    .filter((node) => node.lastOrder?.createdAt)
+    .map((node) => ({
+      id: node.id,
+      lastOrderDate: node.lastOrder!.createdAt,
+      orderCount: Number(node.numberOfOrders || 0),
+      totalSpent: parseFloat(node.amountSpent?.amount || "0"),
+    }));
+
+  return { customers, nodes };
+}
+
+/**
+ * Get the number of customers (and their spend) in each RFM segment
+ */
+export async function getRfmSegmentsQuery(
+  admin: AdminGraphQL
+): Promise<{ segments: RfmSegmentSummary[]; currencyCode: string | null }> {
+  const { customers, nodes } = await fetchRfmCustomers(admin);
+  return {
+    segments: summarizeRfmSegments(customers),
+    currencyCode:
+      nodes.find((node) => node.amountSpent?.currencyCode)?.amountSpent?.currencyCode ?? null,
+  };
+}
+
+/**
+ * Get the customers of an RFM segment, with their profile fields
+ */
+export async function getRfmSegmentCustomersQuery(
+  admin: AdminGraphQL,
+  segment: RfmSegmentId
+): Promise<DashboardCustomerNode[]> {
+  const { customers, nodes } = await fetchRfmCustomers(
+    admin,
+    `
+      displayName
+      email
+      createdAt
+      defaultAddress {
+        country
+      }
+    `
+  );
+
+  const customerIds = new Set(getRfmSegmentCustomerIds(customers, segment));
+  return nodes.filter((node) => customerIds.has(node.id));
+}
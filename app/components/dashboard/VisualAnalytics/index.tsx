@@ -1,9 +1,13 @@
 import { Layout, BlockStack, Text } from "@shopify/polaris";
 import { CustomerSegmentation } from "./CustomerSegmentation/CustomerSegmentation";
 import { BehavioralBreakdown } from "./BehavioralBreakdown/BehavioralBreakdown";
+import { RfmSegments } from "./RfmSegments/RfmSegments";
+import { PredictedClv } from "./PredictedClv/PredictedClv";
+import { ProductAffinity } from "./ProductAffinity/ProductAffinity";
 
 interface VisualAnalyticsProps {
   dateRange?: string;
+  onShowToast?: (message: string) => void;
 }
 
 /**
@@ -14,6 +18,7 @@ interface VisualAnalyticsProps {
  */
 export function VisualAnalytics({
   dateRange = "30days",
+  onShowToast,
 }: VisualAnalyticsProps) {
   return (
     <>
@@ -38,6 +43,27 @@ export function VisualAnalytics({
           <BehavioralBreakdown dateRange={dateRange} />
         </Layout.Section>
       </Layout>
+
+      {/* Product Affinity Table */}
+      <Layout>
+        <Layout.Section>
+          <ProductAffinity dateRange={dateRange} onShowToast={onShowToast} />
+        </Layout.Section>
+      </Layout>
+
+      {/* RFM Segment Grid (whole order history, not the date range) */}
+      <Layout>
+        <Layout.Section>
+          <RfmSegments onShowToast={onShowToast} />
+        </Layout.Section>
+      </Layout>
+
+      {/* Predicted CLV Distribution (next 12 months, not the date range) */}
+      <Layout>
+        <Layout.Section>
+          <PredictedClv />
+        </Layout.Section>
+      </Layout>
     </>
   );
 }
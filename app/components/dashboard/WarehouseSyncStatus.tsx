@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from "react";
+import { InlineStack, Badge, Button, Tooltip } from "@shopify/polaris";
+
+interface WarehouseSync {
+  status: "idle" | "backfilling" | "ready" | "failed";
+  phase: "customers" | "orders" | null;
+  customersSynced: number;
+  ordersSynced: number;
+  error: string | null;
+  completedAt: string | null;
+}
+
+// How often the sync status is polled while a backfill runs
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Warehouse Sync Status Component
+ *
+ * Shows whether the dashboard reads from the local analytics warehouse and
+ * lets the merchant start (or restart) the backfill of their customers and orders.
+ */
+export function WarehouseSyncStatus() {
+  const [sync, setSync] = useState<WarehouseSync | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/warehouse/sync");
+      const data = await response.json();
+      if (data.success) {
+        setSync(data.sync);
+      }
+    } catch (error) {
+      console.error("[Warehouse Sync] Error loading status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Poll while backfilling; each poll also ingests finished bulk operations
+  useEffect(() => {
+    if (sync?.status !== "backfilling") {
+      return;
+    }
+    const timer = setTimeout(loadStatus, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [sync, loadStatus]);
+
+  const handleSync = async () => {
+    setIsStarting(true);
+    try {
+      const response = await fetch("/api/warehouse/sync", { method: "POST" });
+      const data = await response.json();
+      if (data.success) {
+        setSync(data.sync);
+      } else {
+        console.error("[Warehouse Sync] Failed to start sync:", data.error);
+      }
+    } catch (error) {
+      console.error("[Warehouse Sync] Error starting sync:", error);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!sync) {
+    return null;
+  }
+
+  const badge = (() => {
+    switch (sync.status) {
+      case "ready":
+        return (
+          <Tooltip
+            content={`${sync.customersSynced} customers and ${sync.ordersSynced} orders synced`}
+          >
+            <Badge tone="success">Data synced</Badge>
+          </Tooltip>
+        );
+      case "backfilling":
+        return (
+          <Badge tone="attention" progress="partiallyComplete">
+            {sync.phase === "orders" ? "Syncing orders..." : "Syncing customers..."}
+          </Badge>
+        );
+      case "failed":
+        return (
+          <Tooltip content={sync.error || "Sync failed"}>
+            <Badge tone="critical">Sync failed</Badge>
+          </Tooltip>
+        );
+      default:
+        return <Badge>Not synced</Badge>;
+    }
+  })();
+
+  return (
+    <InlineStack gap="200" blockAlign="center">
+      {badge}
+      <Button
+        onClick={handleSync}
+        loading={isStarting}
+        disabled={sync.status === "backfilling"}
+        variant="tertiary"
+      >
+        {sync.status === "ready" ? "Re-sync" : "Sync data"}
+      </Button>
+    </InlineStack>
+  );
+}
@@ -6,7 +6,7 @@ export interface DashboardVisibility {
             totalCustomers: boolean;
             newCustomers: boolean;
             returningCustomers: boolean;
-            inactiveCustomers: boolean;
+            churnRisk: boolean;
         };
     };
     purchaseOrderBehavior: {
@@ -36,7 +36,7 @@ export const DEFAULT_VISIBILITY: DashboardVisibility = {
             totalCustomers: true,
             newCustomers: true,
             returningCustomers: true,
-            inactiveCustomers: false,
+            churnRisk: true,
         },
     },
     purchaseOrderBehavior: {
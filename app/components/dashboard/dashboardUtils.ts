@@ -2,6 +2,12 @@
  * Shared utility functions for dashboard components
  */
 
+import {
+  parseCustomDateRangeDays,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../../utils/dateRange";
+
 /**
  * Generate mini chart data for trend visualization
  */
@@ -116,3 +122,100 @@ export const miniChartOptions = {
   },
 };
 
+
+/**
+ * Custom date ranges travel in the same `dateRange` param as the presets,
+ * encoded as "custom:YYYY-MM-DD:YYYY-MM-DD" (start and end day, inclusive).
+ * Servers resolve them in the shop's timezone (see utils/dateRange).
+ */
+
+/**
+ * Build a custom dateRange value from start and end days (YYYY-MM-DD)
+ */
+export function buildCustomDateRange(startDay: string, endDay: string): string {
+  return `custom:${startDay}:${endDay}`;
+}
+
+/**
+ * Parse a custom dateRange value into local dates (for the picker and labels)
+ * Returns null for presets and malformed values (which fall back to the default range)
+ */
+export function parseCustomDateRange(
+  dateRange: string
+): { startDate: Date; endDate: Date } | null {
+  const days = parseCustomDateRangeDays(dateRange);
+  if (!days) {
+    return null;
+  }
+
+  const [startYear, startMonth, startDay] = days.startDay.split("-").map(Number);
+  const [endYear, endMonth, endDay] = days.endDay.split("-").map(Number);
+  const startDate = new Date(startYear, startMonth - 1, startDay, 0, 0, 0, 0);
+  const endDate = new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999);
+
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+    return null;
+  }
+
+  return { startDate, endDate };
+}
+
+/**
+ * Format a custom dateRange value for display, e.g. "Nov 24, 2025 – Nov 30, 2025"
+ */
+export function formatCustomDateRange(dateRange: string): string | null {
+  const range = parseCustomDateRange(dateRange);
+  if (!range) {
+    return null;
+  }
+
+  const format = (date: Date) =>
+    date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  return `${format(range.startDate)} – ${format(range.endDate)}`;
+}
+
+/**
+ * Format a chart data point's YYYY-MM-DD day as "MM/DD"
+ * The day is already in the shop's timezone, so it isn't parsed into a local Date.
+ */
+export function formatDataPointLabel(day: string): string {
+  const [, month, date] = day.split("-");
+  return `${month}/${date}`;
+}
+
+/**
+ * Comparison modes offered in Dashboard Controls
+ */
+export const comparisonModeOptions: Array<{ label: string; value: ComparisonMode }> = [
+  { label: "Previous period", value: "previousPeriod" },
+  { label: "Same period last year", value: "previousYear" },
+  { label: "No comparison", value: "none" },
+];
+
+/**
+ * Get the comparison line of an insight card, e.g. "↑ 40 (+20%) vs previous period"
+ * lowerIsBetter flips the tone for cards where a decrease is good (cancellations, ...)
+ */
+export function getComparisonIndicator(
+  comparison: PeriodComparison,
+  lowerIsBetter: boolean = false
+): { text: string; tone: "success" | "subdued" | "critical" } {
+  const label =
+    comparison.mode === "previousYear" ? "vs same period last year" : "vs previous period";
+  const { delta, percentChange } = comparison;
+
+  if (delta === 0) {
+    return { text: `→ No change ${label}`, tone: "subdued" };
+  }
+
+  const arrow = delta > 0 ? "↑" : "↓";
+  const sign = delta > 0 ? "+" : "−";
+  const percent =
+    percentChange === null ? "" : ` (${sign}${Math.abs(percentChange).toFixed(0)}%)`;
+  const isImprovement = lowerIsBetter ? delta < 0 : delta > 0;
+
+  return {
+    text: `${arrow} ${Math.abs(delta).toLocaleString()}${percent} ${label}`,
+    tone: isImprovement ? "success" : "critical",
+  };
+}
@@ -0,0 +1,211 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Select,
+  Checkbox,
+  Box,
+  Badge,
+} from "@shopify/polaris";
+import type {
+  FilterData,
+  FilterCombinator,
+  FilterExpressionCriterion,
+  FilterExpressionGroup,
+} from "./types";
+import {
+  FILTER_CRITERIA_LABELS,
+  getFilterGroups,
+  describeFilterExpression,
+} from "./filterExpression";
+
+interface FilterGroupBuilderProps {
+  filters: FilterData;
+  onChange: (expression: FilterExpressionGroup) => void;
+}
+
+const NEW_GROUP_VALUE = "new";
+
+const INCLUDE_OPTIONS = [
+  { label: "Include", value: "include" },
+  { label: "Exclude (NOT)", value: "exclude" },
+];
+
+/**
+ * Filter Group Builder Component
+ *
+ * Lets merchants combine the active filters into groups with AND/OR logic
+ * and exclude filters or whole groups, e.g. "bought product X but NOT in country Y"
+ */
+export function FilterGroupBuilder({
+  filters,
+  onChange,
+}: FilterGroupBuilderProps) {
+  const root = getFilterGroups(filters);
+  const groups = root.children as FilterExpressionGroup[];
+
+  // Apply a change to a copy of the groups and emit the new expression
+  const update = (
+    mutate: (groups: FilterExpressionGroup[]) => void,
+    combinator: FilterCombinator = root.combinator,
+  ) => {
+    const nextGroups = groups.map((group) => ({
+      ...group,
+      children: [...group.children],
+    }));
+    mutate(nextGroups);
+
+    onChange({
+      type: "group",
+      combinator,
+      children: nextGroups.filter((group) => group.children.length > 0),
+    });
+  };
+
+  const updateCriterion = (
+    groupIndex: number,
+    criterionIndex: number,
+    changes: Partial<FilterExpressionCriterion>,
+  ) =>
+    update((next) => {
+      const criterion = next[groupIndex].children[
+        criterionIndex
+      ] as FilterExpressionCriterion;
+      next[groupIndex].children[criterionIndex] = { ...criterion, ...changes };
+    });
+
+  const moveCriterion = (
+    groupIndex: number,
+    criterionIndex: number,
+    target: string,
+  ) =>
+    update((next) => {
+      const [criterion] = next[groupIndex].children.splice(criterionIndex, 1);
+      if (target === NEW_GROUP_VALUE) {
+        next.push({ type: "group", combinator: "AND", children: [criterion] });
+      } else {
+        next[Number(target)].children.push(criterion);
+      }
+    });
+
+  const combinatorOptions = (noun: string) => [
+    { label: `Match all ${noun} (AND)`, value: "AND" },
+    { label: `Match any ${noun} (OR)`, value: "OR" },
+  ];
+
+  const groupOptions = [
+    ...groups.map((_, index) => ({
+      label: `Group ${index + 1}`,
+      value: String(index),
+    })),
+    { label: "New group", value: NEW_GROUP_VALUE },
+  ];
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="100">
+          <Text as="h3" variant="headingMd">
+            🧩 Combine Filters
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            {describeFilterExpression(root)}
+          </Text>
+        </BlockStack>
+
+        {groups.length > 1 && (
+          <Select
+            label="Between groups"
+            options={combinatorOptions("groups")}
+            value={root.combinator}
+            onChange={(value) =>
+              update(() => {}, value as FilterCombinator)
+            }
+          />
+        )}
+
+        {groups.map((group, groupIndex) => (
+          <Box
+            key={groupIndex}
+            padding="300"
+            borderWidth="025"
+            borderColor="border"
+            borderRadius="200"
+          >
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="h4" variant="headingSm">
+                    {`Group ${groupIndex + 1}`}
+                  </Text>
+                  {group.negate && <Badge tone="critical">Excluded</Badge>}
+                </InlineStack>
+                <Checkbox
+                  label="Exclude customers matching this group"
+                  checked={group.negate || false}
+                  onChange={(checked) =>
+                    update((next) => {
+                      next[groupIndex].negate = checked;
+                    })
+                  }
+                />
+              </InlineStack>
+
+              {group.children.length > 1 && (
+                <Select
+                  label="Within group"
+                  labelInline
+                  options={combinatorOptions("filters")}
+                  value={group.combinator}
+                  onChange={(value) =>
+                    update((next) => {
+                      next[groupIndex].combinator = value as FilterCombinator;
+                    })
+                  }
+                />
+              )}
+
+              {(group.children as FilterExpressionCriterion[]).map(
+                (criterion, criterionIndex) => (
+                  <InlineStack
+                    key={criterion.key}
+                    align="space-between"
+                    blockAlign="center"
+                    gap="200"
+                  >
+                    <Text as="span" variant="bodyMd">
+                      {FILTER_CRITERIA_LABELS[criterion.key]}
+                    </Text>
+                    <InlineStack gap="200">
+                      <Select
+                        label="Include or exclude"
+                        labelHidden
+                        options={INCLUDE_OPTIONS}
+                        value={criterion.negate ? "exclude" : "include"}
+                        onChange={(value) =>
+                          updateCriterion(groupIndex, criterionIndex, {
+                            negate: value === "exclude",
+                          })
+                        }
+                      />
+                      <Select
+                        label="Group"
+                        labelHidden
+                        options={groupOptions}
+                        value={String(groupIndex)}
+                        onChange={(value) =>
+                          moveCriterion(groupIndex, criterionIndex, value)
+                        }
+                      />
+                    </InlineStack>
+                  </InlineStack>
+                ),
+              )}
+            </BlockStack>
+          </Box>
+        ))}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ interface FilterSummaryCardProps {
   totalFiltersCount: number;
   onClearAll: () => void;
   onSubmit: () => void;
+  onBulkSubmit?: () => void;
   isSubmitting: boolean;
 }
 
@@ -11,6 +12,7 @@ export function FilterSummaryCard({
   totalFiltersCount,
   onClearAll,
   onSubmit,
+  onBulkSubmit,
   isSubmitting,
 }: FilterSummaryCardProps) {
   return (
@@ -32,6 +34,15 @@ export function FilterSummaryCard({
           >
             Clear All
           </Button>
+          {onBulkSubmit && (
+            <Button
+              size="slim"
+              onClick={onBulkSubmit}
+              disabled={totalFiltersCount === 0 || isSubmitting}
+            >
+              Full Scan
+            </Button>
+          )}
           <Button
             size="slim"
             variant="primary"
@@ -75,6 +75,7 @@ export function ResultsSection({
       customer.createdAt,
       customer.numberOfOrders.toString(),
       customer.totalSpent,
+      customer.predictedClv || "",
     ]) || [];
 
   const tableHeadings = [
@@ -84,6 +85,7 @@ export function ResultsSection({
     "Created Date",
     "Orders",
     "Total Spent",
+    "Predicted CLV",
   ];
 
   // Handle export to CSV
@@ -92,7 +94,7 @@ export function ResultsSection({
       return;
     }
 
-    const headers = ["Name", "Email", "Country", "Created Date", "Orders", "Total Spent"];
+    const headers = ["Name", "Email", "Country", "Created Date", "Orders", "Total Spent", "Predicted CLV"];
     const csvRows = [
       headers.join(","),
       ...results.customers.map((customer) =>
@@ -103,6 +105,7 @@ export function ResultsSection({
           `"${customer.createdAt}"`,
           customer.numberOfOrders.toString(),
           `"${customer.totalSpent}"`,
+          `"${customer.predictedClv}"`,
         ].join(",")
       ),
     ];
@@ -181,6 +184,7 @@ export function ResultsSection({
                 "text",
                 "numeric",
                 "text",
+                "text",
               ]}
               headings={tableHeadings}
               rows={tableRows}
@@ -8,8 +8,20 @@ import {
   InlineStack,
 } from "@shopify/polaris";
 import { useState, useCallback, useEffect, useMemo } from "react";
-import type { FilterData } from "./types";
+import type {
+  ConsentFilter,
+  FilterData,
+  LastOrderFilter,
+  RangeFilter,
+  TagsFilter,
+} from "./types";
 import { suggestListName } from "../../utils/listNameGenerator";
+import {
+  describeRelativeDate,
+  isRelativeDateValid,
+  type RelativeDate,
+} from "../../utils/relativeDate";
+import { getConsentStateLabel } from "../../utils/marketingConsent";
 
 interface SaveListModalProps {
   open: boolean;
@@ -47,8 +59,68 @@ const LIST_NAME_CONFIG = {
     priority: 6,
     format: (v: string[]) => `via ${v.slice(0, 3).join(", ")}${v.length > 3 ? "..." : ""}`,
   },
+  tags: {
+    priority: 7,
+    format: (v: TagsFilter) => {
+      const tags = [...v.customerTags, ...v.orderTags];
+      const match = v.customerTags.length > 0 ? v.customerTagsMatch : v.orderTagsMatch;
+      return `${match === "none" ? "not tagged" : "tagged"} ${tags.slice(0, 3).join(", ")}${tags.length > 3 ? "..." : ""}`;
+    },
+  },
+  orderCount: {
+    priority: 8,
+    format: (v: RangeFilter) => formatRange(v, "orders"),
+  },
+  averageOrderValue: {
+    priority: 9,
+    format: (v: RangeFilter) => formatRange(v, "AOV", "$"),
+  },
+  lastOrder: {
+    priority: 10,
+    format: (v: LastOrderFilter) => {
+      if (v.mode === "relative") {
+        return isRelativeDateValid(v.relative) ? `last order ${describeRelativeDate(v.relative)}` : "";
+      }
+      if (v.mode === "notInLast") {
+        return v.days ? `no order in ${v.days} days` : "";
+      }
+      if (v.from && v.to) return `last order ${v.from} to ${v.to}`;
+      if (v.from) return `last order since ${v.from}`;
+      return v.to ? `last order before ${v.to}` : "";
+    },
+  },
+  firstOrder: {
+    priority: 11,
+    format: (v: RelativeDate) =>
+      isRelativeDateValid(v) ? `first order ${describeRelativeDate(v)}` : "",
+  },
+  customerCreated: {
+    priority: 12,
+    format: (v: RelativeDate) =>
+      isRelativeDateValid(v) ? `new ${describeRelativeDate(v)}` : "",
+  },
+  consent: {
+    priority: 13,
+    format: (v: ConsentFilter) =>
+      [
+        v.emailStates.length > 0 ? `email ${formatConsentStates(v.emailStates)}` : "",
+        v.smsStates.length > 0 ? `SMS ${formatConsentStates(v.smsStates)}` : "",
+      ]
+        .filter(Boolean)
+        .join(", "),
+  },
 };
 
+function formatRange(v: RangeFilter, unit: string, prefix = "") {
+  if (v.min != null && v.max != null) return `${prefix}${v.min}-${prefix}${v.max} ${unit}`;
+  if (v.min != null) return `${prefix}${v.min}+ ${unit}`;
+  return v.max != null ? `up to ${prefix}${v.max} ${unit}` : "";
+}
+
+function formatConsentStates(states: string[]) {
+  return states.map((state) => getConsentStateLabel(state).toLowerCase()).join("/");
+}
+
 /**
  * Save List Modal Component
  * 
@@ -17,12 +17,17 @@ import { ExportIcon, EmailIcon, SaveIcon } from "@shopify/polaris-icons";
 import { ProtectedDataAccessModal } from "../dashboard/ProtectedDataAccessModal";
 import { useState, useEffect, useCallback, useMemo } from "react";
 import type { SegmentResults } from "./types";
+import {
+  EXPORT_PROVIDER_NAMES,
+  type ExportProvider,
+} from "../integrations/ExportToProviderModal";
 
 interface SegmentResultsModalProps {
   open: boolean;
   onClose: () => void;
   results: SegmentResults | null;
   isLoading?: boolean;
+  loadingMessage?: string | null;
   isExporting?: boolean;
   onExportPDF?: () => Promise<void>;
   onExportCSV?: () => Promise<void>;
@@ -30,6 +35,8 @@ interface SegmentResultsModalProps {
   onCreateCampaign?: () => void;
   onSaveList?: () => void;
   onExportStart?: () => void;
+  exportProviders?: ExportProvider[];
+  onExportToProvider?: (provider: ExportProvider) => void;
 }
 
 /**
@@ -42,6 +49,7 @@ export function SegmentResultsModal({
   onClose,
   results,
   isLoading = false,
+  loadingMessage = null,
   isExporting = false,
   onExportPDF,
   onExportCSV,
@@ -49,6 +57,8 @@ export function SegmentResultsModal({
   onCreateCampaign,
   onSaveList,
   onExportStart,
+  exportProviders = [],
+  onExportToProvider,
 }: SegmentResultsModalProps) {
   // All hooks must be called before any conditional returns
   const [showAccessModal, setShowAccessModal] = useState(false);
@@ -61,6 +71,7 @@ export function SegmentResultsModal({
     "Created Date",
     "Orders",
     "Total Spent",
+    "Predicted CLV",
   ];
 
   // Prepare table data if customers are available
@@ -74,7 +85,7 @@ export function SegmentResultsModal({
       
       const rows = results.customers.map((customer) => {
         if (!customer || typeof customer !== 'object') {
-          return ["", "", "", "", "0", ""];
+          return ["", "", "", "", "0", "", ""];
         }
         return [
           customer.name || "",
@@ -83,11 +94,12 @@ export function SegmentResultsModal({
           customer.createdAt || "",
           customer.numberOfOrders != null ? String(customer.numberOfOrders) : "0",
           customer.totalSpent || "",
+          customer.predictedClv || "",
         ];
       });
       
       // Ensure all rows are valid arrays
-      return rows.filter(row => Array.isArray(row) && row.length === 6);
+      return rows.filter(row => Array.isArray(row) && row.length === 7);
     } catch (error) {
       console.error("Error preparing table rows:", error);
       return [];
@@ -150,12 +162,19 @@ export function SegmentResultsModal({
             <div
               style={{
                 display: "flex",
+                flexDirection: "column",
+                gap: "16px",
                 justifyContent: "center",
                 alignItems: "center",
                 minHeight: "200px",
               }}
             >
               <Spinner size="large" />
+              {loadingMessage && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {loadingMessage}
+                </Text>
+              )}
             </div>
           </Box>
         </Modal.Section>
@@ -259,6 +278,11 @@ export function SegmentResultsModal({
                   Segment Results
                 </Text>
                 <Badge tone="success">{`${results.matchCount} customers`}</Badge>
+                {results.coverage && (
+                  <Badge tone={results.coverage.exact ? "info" : "attention"}>
+                    {results.coverage.exact ? "Exact" : "Sampled"}
+                  </Badge>
+                )}
               </InlineStack>
               <Popover
                 active={exportPopoverOpen}
@@ -293,6 +317,16 @@ export function SegmentResultsModal({
                       content: "Export as Excel",
                       onAction: () => handleExportFormat("excel"),
                     },
+                    ...(onExportToProvider
+                      ? exportProviders.map((provider) => ({
+                          content: `Export to ${EXPORT_PROVIDER_NAMES[provider]}`,
+                          icon: EmailIcon,
+                          onAction: () => {
+                            setExportPopoverOpen(false);
+                            onExportToProvider(provider);
+                          },
+                        }))
+                      : []),
                   ]}
                 />
               </Popover>
@@ -315,6 +349,19 @@ export function SegmentResultsModal({
               </Banner>
             )}
 
+            {/* Sampled results warning */}
+            {results.coverage && !results.coverage.exact && (
+              <Banner tone="warning" title="These results are based on a sample">
+                <BlockStack gap="100">
+                  {results.coverage.notes.map((note) => (
+                    <Text key={note} as="p" variant="bodySm">
+                      {note}
+                    </Text>
+                  ))}
+                </BlockStack>
+              </Banner>
+            )}
+
             {/* Applied Filters */}
             <BlockStack gap="200">
               <Text as="h3" variant="headingSm">
@@ -357,6 +404,7 @@ export function SegmentResultsModal({
                       "text",
                       "numeric",
                       "text",
+                      "text",
                     ]}
                     headings={tableHeadings}
                     rows={tableRows}
@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getFilterExpression,
+  getFilterGroups,
+  describeFilterExpression,
+  evaluateFilterExpression,
+} from "./filterExpression";
+import type { FilterCriterionKey, FilterData } from "./types";
+
+function filters(overrides: Partial<FilterData> = {}): FilterData {
+  return {
+    location: [],
+    products: [],
+    timing: [],
+    device: [],
+    payment: [],
+    delivery: [],
+    ...overrides,
+  };
+}
+
+describe("getFilterExpression", () => {
+  it("returns null when no criterion is active", () => {
+    assert.equal(getFilterExpression(filters()), null);
+  });
+
+  it("ANDs every active criterion without a stored expression", () => {
+    const expression = getFilterExpression(
+      filters({ location: ["US"], products: ["Hat"] }),
+    );
+
+    assert.equal(describeFilterExpression(expression!), "Location AND Products");
+  });
+
+  it("drops criteria that are no longer active", () => {
+    const expression = getFilterExpression(
+      filters({
+        products: ["Hat"],
+        expression: {
+          type: "group",
+          combinator: "OR",
+          children: [
+            { type: "group", combinator: "AND", children: [{ type: "criterion", key: "location" }] },
+            { type: "group", combinator: "AND", children: [{ type: "criterion", key: "products" }] },
+          ],
+        },
+      }),
+    );
+
+    assert.equal(describeFilterExpression(expression!), "Products");
+  });
+
+  it("applies criteria turned on after the expression was stored, like the builder shows them", () => {
+    const data = filters({
+      location: ["US"],
+      products: ["Hat"],
+      device: ["mobile"],
+      expression: {
+        type: "group",
+        combinator: "OR",
+        children: [
+          { type: "group", combinator: "AND", children: [{ type: "criterion", key: "location" }] },
+          {
+            type: "group",
+            combinator: "AND",
+            negate: true,
+            children: [{ type: "criterion", key: "products" }],
+          },
+        ],
+      },
+    });
+
+    const expression = getFilterExpression(data);
+
+    assert.deepEqual(expression, getFilterGroups(data));
+    assert.equal(
+      describeFilterExpression(expression!),
+      "(Location AND Device) OR NOT (Products)",
+    );
+  });
+
+  it("ANDs excluded tags at the top level", () => {
+    const expression = getFilterExpression(
+      filters({ location: ["US"], excludedTags: ["staff"] }),
+    );
+
+    assert.equal(describeFilterExpression(expression!), "Location AND Excluded tags");
+  });
+});
+
+describe("getFilterGroups", () => {
+  it("puts criteria placed under the root into groups of their own", () => {
+    const groups = getFilterGroups(
+      filters({
+        location: ["US"],
+        products: ["Hat"],
+        expression: {
+          type: "group",
+          combinator: "OR",
+          children: [
+            { type: "criterion", key: "location" },
+            { type: "criterion", key: "products", negate: true },
+          ],
+        },
+      }),
+    );
+
+    assert.equal(groups.children.length, 2);
+    assert.equal(describeFilterExpression(groups), "Location OR NOT Products");
+  });
+
+  it("returns one empty group when nothing is active", () => {
+    assert.deepEqual(getFilterGroups(filters()), {
+      type: "group",
+      combinator: "AND",
+      children: [{ type: "group", combinator: "AND", children: [] }],
+    });
+  });
+});
+
+describe("evaluateFilterExpression", () => {
+  const customers = [{ id: "1" }, { id: "2" }, { id: "3" }, { id: "4" }];
+  const matches: Partial<Record<FilterCriterionKey, string[]>> = {
+    location: ["1", "2"],
+    products: ["2", "3"],
+  };
+  const applyCriterion = async (list: { id: string }[], key: FilterCriterionKey) =>
+    list.filter((customer) => matches[key]?.includes(customer.id));
+
+  const ids = (list: { id: string }[]) => list.map((customer) => customer.id);
+
+  it("intersects AND, unions OR and complements NOT, keeping the order", async () => {
+    const location = { type: "criterion" as const, key: "location" as const };
+    const products = { type: "criterion" as const, key: "products" as const };
+
+    assert.deepEqual(
+      ids(await evaluateFilterExpression(customers, { type: "group", combinator: "AND", children: [location, products] }, applyCriterion)),
+      ["2"],
+    );
+    assert.deepEqual(
+      ids(await evaluateFilterExpression(customers, { type: "group", combinator: "OR", children: [products, location] }, applyCriterion)),
+      ["1", "2", "3"],
+    );
+    assert.deepEqual(
+      ids(await evaluateFilterExpression(customers, { ...location, negate: true }, applyCriterion)),
+      ["3", "4"],
+    );
+  });
+});
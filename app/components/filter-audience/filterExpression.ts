@@ -0,0 +1,327 @@
+/**
+ * Filter Expression Helpers
+ *
+ * FilterData keeps the selected values of each criterion (countries, products, ...).
+ * The optional FilterData.expression describes how those criteria combine:
+ * groups joined with AND/OR, where any criterion or group can be negated (NOT).
+ *
+ * Without an expression every active criterion is ANDed, which is how
+ * filters behaved before expressions were introduced.
+ *
+ * Excluded tags (staff, test accounts) are not part of the editable expression;
+ * getFilterExpression() ANDs them with whatever the user built.
+ *
+ * Used both by the group builder UI and by the query compiler.
+ */
+
+import type {
+  FilterData,
+  FilterCriterionKey,
+  FilterExpression,
+  FilterExpressionCriterion,
+  FilterExpressionGroup,
+} from "./types";
+import { isRelativeDateValid } from "../../utils/relativeDate";
+
+export const FILTER_CRITERIA: FilterCriterionKey[] = [
+  "location",
+  "products",
+  "timing",
+  "device",
+  "payment",
+  "delivery",
+  "amountSpent",
+  "customerCreatedFrom",
+  "customerCreated",
+  "predictedClv",
+  "churnRisk",
+  "tags",
+  "orderCount",
+  "averageOrderValue",
+  "lastOrder",
+  "firstOrder",
+  "consent",
+];
+
+export const FILTER_CRITERIA_LABELS: Record<FilterCriterionKey, string> = {
+  location: "Location",
+  products: "Products",
+  timing: "Shopping timing",
+  device: "Device",
+  payment: "Payment method",
+  delivery: "Delivery",
+  amountSpent: "Amount spent",
+  customerCreatedFrom: "Customer created",
+  customerCreated: "Customer created (relative)",
+  predictedClv: "Predicted CLV",
+  churnRisk: "Churn risk",
+  tags: "Tags",
+  excludedTags: "Excluded tags",
+  orderCount: "Number of orders",
+  averageOrderValue: "Average order value",
+  lastOrder: "Last order",
+  firstOrder: "First order",
+  consent: "Marketing consent",
+};
+
+/**
+ * Check if a criterion has a value selected
+ */
+export function isCriterionActive(
+  filters: FilterData,
+  key: FilterCriterionKey,
+): boolean {
+  if (key === "amountSpent") {
+    return (
+      filters.amountSpent != null &&
+      filters.amountSpent.amount != null &&
+      filters.amountSpent.operator != null
+    );
+  }
+
+  if (key === "customerCreatedFrom") {
+    return (
+      filters.customerCreatedFrom != null &&
+      filters.customerCreatedFrom.trim() !== ""
+    );
+  }
+
+  if (key === "predictedClv") {
+    return (
+      filters.predictedClv != null &&
+      filters.predictedClv.amount != null &&
+      filters.predictedClv.operator != null
+    );
+  }
+
+  if (key === "orderCount" || key === "averageOrderValue") {
+    const range = filters[key];
+    return range != null && (range.min != null || range.max != null);
+  }
+
+  if (key === "lastOrder") {
+    const lastOrder = filters.lastOrder;
+    if (!lastOrder) {
+      return false;
+    }
+    if (lastOrder.mode === "relative") {
+      return isRelativeDateValid(lastOrder.relative);
+    }
+    return lastOrder.mode === "notInLast"
+      ? lastOrder.days != null && lastOrder.days > 0
+      : Boolean(lastOrder.from || lastOrder.to);
+  }
+
+  if (key === "consent") {
+    return (
+      filters.consent != null &&
+      (filters.consent.emailStates.length > 0 || filters.consent.smsStates.length > 0)
+    );
+  }
+
+  if (key === "customerCreated" || key === "firstOrder") {
+    return isRelativeDateValid(filters[key]);
+  }
+
+  if (key === "tags") {
+    return (
+      filters.tags != null &&
+      (filters.tags.customerTags.length > 0 || filters.tags.orderTags.length > 0)
+    );
+  }
+
+  const values = filters[key];
+  return Array.isArray(values) && values.length > 0;
+}
+
+/**
+ * Get all criteria that have a value selected
+ */
+export function getActiveCriteria(filters: FilterData): FilterCriterionKey[] {
+  return FILTER_CRITERIA.filter((key) => isCriterionActive(filters, key));
+}
+
+/**
+ * Get the expression the user built
+ * Falls back to ANDing every active criterion when no expression is stored.
+ * A stored expression is normalized exactly like the group builder shows it
+ * (see getFilterGroups), so criteria turned on after the expression was saved
+ * are applied too. Returns null when no criterion is active.
+ */
+function getCriteriaExpression(
+  filters: FilterData,
+): FilterExpression | null {
+  const activeCriteria = getActiveCriteria(filters);
+
+  if (activeCriteria.length === 0) {
+    return null;
+  }
+
+  if (!filters.expression) {
+    return {
+      type: "group",
+      combinator: "AND",
+      children: activeCriteria.map((key) => ({ type: "criterion", key })),
+    };
+  }
+
+  return getFilterGroups(filters);
+}
+
+/**
+ * Get the expression to evaluate for a set of filters
+ * Excluded tags are ANDed at the top level, so negating a criterion or group
+ * never brings excluded customers back. Returns null when nothing is active.
+ */
+export function getFilterExpression(
+  filters: FilterData,
+): FilterExpression | null {
+  const expression = getCriteriaExpression(filters);
+
+  if (!isCriterionActive(filters, "excludedTags")) {
+    return expression;
+  }
+
+  const exclusion: FilterExpressionCriterion = {
+    type: "criterion",
+    key: "excludedTags",
+  };
+
+  // Appended to a top-level AND so its branches can still be split (see translateFilters)
+  if (
+    expression?.type === "group" &&
+    expression.combinator === "AND" &&
+    !expression.negate
+  ) {
+    return { ...expression, children: [...expression.children, exclusion] };
+  }
+
+  return {
+    type: "group",
+    combinator: "AND",
+    children: expression ? [expression, exclusion] : [exclusion],
+  };
+}
+
+/**
+ * Collect the criteria of an expression, flattening nested groups
+ */
+function collectCriteria(node: FilterExpression): FilterExpressionCriterion[] {
+  return node.type === "criterion"
+    ? [node]
+    : node.children.flatMap(collectCriteria);
+}
+
+/**
+ * Get the two-level group structure edited by the group builder:
+ * a root group whose children are groups of criteria.
+ *
+ * - Criteria placed directly under the root get a group of their own
+ * - Deeper nesting is flattened into its top-level group
+ * - Active criteria missing from the expression are added to the first group
+ */
+export function getFilterGroups(filters: FilterData): FilterExpressionGroup {
+  const active = new Set(getActiveCriteria(filters));
+  const root = filters.expression;
+
+  const groups: FilterExpressionGroup[] = (root?.children || []).map((child) =>
+    child.type === "criterion"
+      ? { type: "group", combinator: "AND", children: [child] }
+      : {
+          type: "group",
+          combinator: child.combinator,
+          negate: child.negate,
+          children: collectCriteria(child),
+        },
+  );
+
+  const placed = new Set<FilterCriterionKey>();
+  for (const group of groups) {
+    group.children = group.children.filter((child) => {
+      const key = (child as FilterExpressionCriterion).key;
+      if (!active.has(key) || placed.has(key)) {
+        return false;
+      }
+      placed.add(key);
+      return true;
+    });
+  }
+
+  const nonEmptyGroups = groups.filter((group) => group.children.length > 0);
+  if (nonEmptyGroups.length === 0) {
+    nonEmptyGroups.push({ type: "group", combinator: "AND", children: [] });
+  }
+
+  for (const key of active) {
+    if (!placed.has(key)) {
+      nonEmptyGroups[0].children.push({ type: "criterion", key });
+    }
+  }
+
+  return {
+    type: "group",
+    combinator: root?.combinator || "AND",
+    children: nonEmptyGroups,
+  };
+}
+
+/**
+ * Human readable form of an expression, e.g. "Products AND NOT Location"
+ */
+export function describeFilterExpression(node: FilterExpression): string {
+  if (node.type === "criterion") {
+    return `${node.negate ? "NOT " : ""}${FILTER_CRITERIA_LABELS[node.key]}`;
+  }
+
+  const inner = node.children
+    .map((child) =>
+      child.type === "group" && child.children.length > 1 && !child.negate
+        ? `(${describeFilterExpression(child)})`
+        : describeFilterExpression(child),
+    )
+    .join(` ${node.combinator} `);
+
+  return node.negate ? `NOT (${inner})` : inner;
+}
+
+/**
+ * Evaluate an expression against a list of customers
+ *
+ * applyCriterion returns the customers matching a single criterion.
+ * AND narrows the list step by step, OR unions the matches of each child
+ * and NOT keeps the customers its operand didn't match. Order is preserved.
+ */
+export async function evaluateFilterExpression<T extends { id: string }>(
+  customers: T[],
+  node: FilterExpression,
+  applyCriterion: (customers: T[], key: FilterCriterionKey) => Promise<T[]>,
+): Promise<T[]> {
+  let matched: T[];
+
+  if (node.type === "criterion") {
+    matched = await applyCriterion(customers, node.key);
+  } else if (node.combinator === "AND") {
+    matched = customers;
+    for (const child of node.children) {
+      matched = await evaluateFilterExpression(matched, child, applyCriterion);
+    }
+  } else {
+    const matchedIds = new Set<string>();
+    for (const child of node.children) {
+      const childMatches = await evaluateFilterExpression(
+        customers.filter((customer) => !matchedIds.has(customer.id)),
+        child,
+        applyCriterion,
+      );
+      childMatches.forEach((customer) => matchedIds.add(customer.id));
+    }
+    matched = customers.filter((customer) => matchedIds.has(customer.id));
+  }
+
+  if (!node.negate) {
+    return matched;
+  }
+
+  const matchedIds = new Set(matched.map((customer) => customer.id));
+  return customers.filter((customer) => !matchedIds.has(customer.id));
+}
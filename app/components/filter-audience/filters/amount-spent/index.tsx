@@ -12,7 +12,7 @@ import {
   Select,
 } from "@shopify/polaris";
 import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import type { AmountSpentFilter } from "../../types";
 
 interface AmountSpentProps {
@@ -22,16 +22,19 @@ interface AmountSpentProps {
   onFilterChange: (filter: AmountSpentFilter | undefined) => void;
 }
 
+type AmountSpentOperator = NonNullable<AmountSpentFilter["operator"]>;
+
 const OPERATOR_OPTIONS = [
   { label: "Minimum", value: "min" },
   { label: "Maximum", value: "max" },
+  { label: "Between", value: "between" },
 ];
 
 /**
  * Amount Spent Filter Component
  *
  * Allows users to filter customers by the total amount they've spent
- * with options for minimum (>=) or maximum (<=) amount
+ * with options for minimum (>=), maximum (<=) or between two amounts
  */
 export function AmountSpent({
   selectedFilter,
@@ -42,68 +45,108 @@ export function AmountSpent({
   const [amount, setAmount] = useState<string>(
     selectedFilter?.amount?.toString() || ""
   );
-  const [operator, setOperator] = useState<"min" | "max" | null>(
+  const [maxAmount, setMaxAmount] = useState<string>(
+    selectedFilter?.maxAmount?.toString() || ""
+  );
+  const [operator, setOperator] = useState<AmountSpentOperator>(
     selectedFilter?.operator || "min"
   );
   const [error, setError] = useState<string>("");
+  const emittedFilter = useRef(selectedFilter);
 
-  // Sync with external changes
+  // Sync with external changes (not our own, so invalid input isn't wiped while typing)
   useEffect(() => {
+    if (selectedFilter === emittedFilter.current) {
+      return;
+    }
+    emittedFilter.current = selectedFilter;
+    setError("");
     if (selectedFilter) {
       setAmount(selectedFilter.amount?.toString() || "");
+      setMaxAmount(selectedFilter.maxAmount?.toString() || "");
       setOperator(selectedFilter.operator || "min");
     } else {
       setAmount("");
+      setMaxAmount("");
       setOperator("min"); // Default to "min"
     }
   }, [selectedFilter]);
 
-  const handleAmountChange = useCallback(
-    (value: string) => {
-      setAmount(value);
+  const emitFilter = useCallback(
+    (filter: AmountSpentFilter | undefined) => {
+      emittedFilter.current = filter;
+      onFilterChange(filter);
+    },
+    [onFilterChange]
+  );
+
+  // Validate the inputs and update the filter (cleared while invalid or empty)
+  const updateFilter = useCallback(
+    (nextAmount: string, nextMaxAmount: string, nextOperator: AmountSpentOperator) => {
       setError("");
 
-      // Validate and update filter
-      const numValue = parseFloat(value);
-      if (value === "") {
+      const numValue = parseFloat(nextAmount);
+      const maxValue = parseFloat(nextMaxAmount);
+      const hasMax = nextOperator === "between" && nextMaxAmount !== "";
+
+      if (nextAmount === "") {
         // Clear filter if amount is empty
-        onFilterChange(undefined);
-      } else if (isNaN(numValue) || numValue < 0) {
+        emitFilter(undefined);
+      } else if (
+        isNaN(numValue) ||
+        numValue < 0 ||
+        (hasMax && (isNaN(maxValue) || maxValue < 0))
+      ) {
         setError("Please enter a valid positive number");
-        onFilterChange(undefined);
+        emitFilter(undefined);
+      } else if (hasMax && maxValue < numValue) {
+        setError("The maximum must be at least the minimum");
+        emitFilter(undefined);
       } else {
-        // Update filter with new amount
-        if (operator) {
-          onFilterChange({
-            amount: numValue,
-            operator: operator,
-          });
-        }
+        emitFilter({
+          amount: numValue,
+          operator: nextOperator,
+          ...(nextOperator === "between" ? { maxAmount: hasMax ? maxValue : null } : {}),
+        });
       }
     },
-    [operator, onFilterChange]
+    [emitFilter]
+  );
+
+  const handleAmountChange = useCallback(
+    (value: string) => {
+      setAmount(value);
+      updateFilter(value, maxAmount, operator);
+    },
+    [maxAmount, operator, updateFilter]
+  );
+
+  const handleMaxAmountChange = useCallback(
+    (value: string) => {
+      setMaxAmount(value);
+      updateFilter(amount, value, operator);
+    },
+    [amount, operator, updateFilter]
   );
 
   const handleOperatorChange = useCallback(
     (value: string) => {
-      const newOperator = value === "min" ? "min" : value === "max" ? "max" : null;
+      const newOperator = value as AmountSpentOperator;
       setOperator(newOperator);
-
-      // Update filter with new operator
-      const numValue = parseFloat(amount);
-      if (amount && !isNaN(numValue) && numValue >= 0 && newOperator) {
-        onFilterChange({
-          amount: numValue,
-          operator: newOperator,
-        });
-      } else if (!amount || amount === "") {
-        // If no amount, just clear the filter
-        onFilterChange(undefined);
-      }
+      updateFilter(amount, maxAmount, newOperator);
     },
-    [amount, onFilterChange]
+    [amount, maxAmount, updateFilter]
   );
 
+  const describeFilter = (from: number, to: number | null | undefined) => {
+    if (operator === "between" && to != null) {
+      return `Showing customers who spent between $${from.toFixed(2)} and $${to.toFixed(2)}`;
+    }
+    return operator === "max"
+      ? `Showing customers who spent at most $${from.toFixed(2)}`
+      : `Showing customers who spent at least $${from.toFixed(2)}`;
+  };
+
   const isFilterActive = selectedFilter?.amount != null && selectedFilter?.operator != null;
   const selectedCount = isFilterActive ? 1 : 0;
 
@@ -148,14 +191,14 @@ export function AmountSpent({
                   <Select
                     label="Filter Type"
                     options={OPERATOR_OPTIONS}
-                    value={operator || "min"}
+                    value={operator}
                     onChange={handleOperatorChange}
                   />
                 </div>
 
                 <div style={{ flex: 1 }}>
                   <TextField
-                    label="Amount"
+                    label={operator === "between" ? "From" : "Amount"}
                     type="number"
                     value={amount}
                     onChange={handleAmountChange}
@@ -167,14 +210,28 @@ export function AmountSpent({
                     placeholder="0.00"
                   />
                 </div>
+
+                {operator === "between" && (
+                  <div style={{ flex: 1 }}>
+                    <TextField
+                      label="To"
+                      type="number"
+                      value={maxAmount}
+                      onChange={handleMaxAmountChange}
+                      prefix="$"
+                      autoComplete="off"
+                      min={0}
+                      step={0.01}
+                      placeholder="No limit"
+                    />
+                  </div>
+                )}
               </InlineStack>
 
               {isFilterActive && (
                 <Box paddingBlock="200">
                   <Text as="p" variant="bodySm" tone="subdued">
-                    {operator === "min"
-                      ? `Showing customers who spent at least $${selectedFilter.amount.toFixed(2)}`
-                      : `Showing customers who spent at most $${selectedFilter.amount.toFixed(2)}`}
+                    {describeFilter(selectedFilter.amount ?? 0, selectedFilter.maxAmount)}
                   </Text>
                 </Box>
               )}
@@ -0,0 +1,37 @@
+import type { RangeFilter } from "../../types";
+import { RangeFilterSection } from "../shared/RangeFilterSection";
+
+interface AverageOrderValueProps {
+  selectedFilter: RangeFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: RangeFilter | undefined) => void;
+}
+
+/**
+ * Average Order Value Filter Component
+ *
+ * Allows users to filter customers by their average order value (total spent / number of orders)
+ */
+export function AverageOrderValue({
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: AverageOrderValueProps) {
+  return (
+    <RangeFilterSection
+      id="average-order-value"
+      title="Average Order Value"
+      emoji="🧾"
+      description="Filter customers by their average order value. Customers without orders never match."
+      unit="average order value"
+      prefix="$"
+      step={0.01}
+      selectedFilter={selectedFilter}
+      isExpanded={isExpanded}
+      onToggle={onToggle}
+      onFilterChange={onFilterChange}
+    />
+  );
+}
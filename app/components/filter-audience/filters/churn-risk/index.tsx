@@ -0,0 +1,39 @@
+import { BaseFilterSection } from "../shared/BaseFilterSection";
+import { CHURN_RISK_BANDS } from "../../../../utils/churn";
+
+interface ChurnRiskProps {
+  selectedFilters: string[];
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (value: string, checked: boolean) => void;
+}
+
+const CHURN_RISK_OPTIONS = CHURN_RISK_BANDS.map((band) => ({
+  label: `${band.label} - ${band.description}`,
+  value: band.id,
+}));
+
+/**
+ * Churn Risk Filter Component
+ *
+ * Displays and manages churn risk band filters (Low / Medium / High), scored on how
+ * overdue each customer's next order is compared to their usual interval
+ */
+export function ChurnRisk({
+  selectedFilters,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: ChurnRiskProps) {
+  return (
+    <BaseFilterSection
+      title="Churn Risk"
+      emoji="⚠️"
+      options={CHURN_RISK_OPTIONS}
+      selectedFilters={selectedFilters}
+      isExpanded={isExpanded}
+      onToggle={onToggle}
+      onFilterChange={onFilterChange}
+    />
+  );
+}
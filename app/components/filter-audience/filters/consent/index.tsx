@@ -0,0 +1,135 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+  ChoiceList,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import type { ConsentFilter } from "../../types";
+import {
+  CONSENT_STATE_OPTIONS,
+  OPT_IN_LEVEL_OPTIONS,
+} from "../../../../utils/marketingConsent";
+
+const EMPTY_CONSENT_FILTER: ConsentFilter = {
+  emailStates: [],
+  smsStates: [],
+  optInLevels: [],
+};
+
+interface ConsentProps {
+  selectedFilter: ConsentFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: ConsentFilter | undefined) => void;
+}
+
+/**
+ * Consent Filter Component
+ *
+ * Filters customers by their email and SMS marketing consent state, optionally
+ * narrowed to an opt-in level (single or confirmed double opt-in)
+ */
+export function Consent({
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: ConsentProps) {
+  const filter = selectedFilter || EMPTY_CONSENT_FILTER;
+
+  // Opt-in levels only refine the states, so they alone don't make the filter active
+  const updateFilter = (changes: Partial<ConsentFilter>) => {
+    const next = { ...filter, ...changes };
+    onFilterChange(
+      next.emailStates.length > 0 || next.smsStates.length > 0 ? next : undefined
+    );
+  };
+
+  const selectedCount =
+    filter.emailStates.length + filter.smsStates.length + filter.optInLevels.length;
+  const hasSubscribedState =
+    filter.emailStates.includes("SUBSCRIBED") || filter.smsStates.includes("SUBSCRIBED");
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                ✉️ Marketing Consent
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id="section-consent">
+          <Box padding="400">
+            <BlockStack gap="400">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Only subscribed customers have consented to marketing. Keep
+                email campaigns to subscribed customers to stay compliant with
+                GDPR and CAN-SPAM.
+              </Text>
+
+              <InlineStack gap="600" blockAlign="start">
+                <ChoiceList
+                  title="Email marketing"
+                  allowMultiple
+                  choices={CONSENT_STATE_OPTIONS}
+                  selected={filter.emailStates}
+                  onChange={(emailStates) => updateFilter({ emailStates })}
+                />
+                <ChoiceList
+                  title="SMS marketing"
+                  allowMultiple
+                  choices={CONSENT_STATE_OPTIONS}
+                  selected={filter.smsStates}
+                  onChange={(smsStates) => updateFilter({ smsStates })}
+                />
+              </InlineStack>
+
+              <Divider />
+
+              <ChoiceList
+                title="Opt-in level"
+                allowMultiple
+                choices={OPT_IN_LEVEL_OPTIONS}
+                selected={filter.optInLevels}
+                onChange={(optInLevels) => updateFilter({ optInLevels })}
+                disabled={!hasSubscribedState}
+              />
+              <Text as="p" variant="bodySm" tone="subdued">
+                Only subscribed customers with a selected opt-in level match;
+                leave empty to include every opt-in level.
+              </Text>
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -9,37 +9,81 @@ import {
   Divider,
   Box,
   TextField,
+  Select,
 } from "@shopify/polaris";
 import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
 import { useState, useCallback, useEffect } from "react";
+import {
+  describeRelativeDate,
+  isRelativeDateValid,
+  type RelativeDate,
+} from "../../../../utils/relativeDate";
+import { RelativeDateField } from "../shared/RelativeDateField";
 
 interface CustomerCreatedFromProps {
   selectedDate: string | null | undefined;
   isExpanded: boolean;
   onToggle: () => void;
   onFilterChange: (date: string | null) => void;
+  selectedRelativeDate?: RelativeDate;
+  onRelativeDateChange: (date: RelativeDate | undefined) => void;
 }
 
+type CreatedDateMode = "date" | "relative";
+
+const MODE_OPTIONS = [
+  { label: "On or after a date", value: "date" },
+  { label: "Relative date", value: "relative" },
+];
+
 /**
  * Customer Created From Filter Component
  *
  * Allows users to filter customers by their creation date
- * Shows customers who were created on or after the selected date
+ * Shows customers who were created on or after the selected date, or within a
+ * relative date that rolls forward (e.g. in the last 30 days)
  */
 export function CustomerCreatedFrom({
   selectedDate,
   isExpanded,
   onToggle,
   onFilterChange,
+  selectedRelativeDate,
+  onRelativeDateChange,
 }: CustomerCreatedFromProps) {
   const [date, setDate] = useState<string>(selectedDate || "");
   const [error, setError] = useState<string>("");
+  const [mode, setMode] = useState<CreatedDateMode>(
+    selectedRelativeDate ? "relative" : "date"
+  );
 
   // Sync with external changes
   useEffect(() => {
     setDate(selectedDate || "");
   }, [selectedDate]);
 
+  useEffect(() => {
+    if (selectedRelativeDate) {
+      setMode("relative");
+    }
+  }, [selectedRelativeDate]);
+
+  // Only one of the fixed and relative dates is kept
+  const handleModeChange = useCallback(
+    (value: string) => {
+      const newMode = value as CreatedDateMode;
+      setMode(newMode);
+      setError("");
+      if (newMode === "relative") {
+        setDate("");
+        onFilterChange(null);
+      } else {
+        onRelativeDateChange(undefined);
+      }
+    },
+    [onFilterChange, onRelativeDateChange]
+  );
+
   const handleDateChange = useCallback(
     (value: string) => {
       setDate(value);
@@ -73,7 +117,8 @@ export function CustomerCreatedFrom({
   );
 
   const isFilterActive = selectedDate != null && selectedDate !== "";
-  const selectedCount = isFilterActive ? 1 : 0;
+  const isRelativeFilterActive = isRelativeDateValid(selectedRelativeDate);
+  const selectedCount = isFilterActive || isRelativeFilterActive ? 1 : 0;
 
   // Format date for display
   const displayDate = selectedDate
@@ -92,7 +137,7 @@ export function CustomerCreatedFrom({
           <InlineStack align="space-between" blockAlign="center">
             <InlineStack gap="300" blockAlign="center">
               <Text as="h3" variant="headingMd" fontWeight="semibold">
-                📅 Customer Created From
+                📅 Customer Created
               </Text>
               {selectedCount > 0 && (
                 <Badge tone="success">{`${selectedCount} selected`}</Badge>
@@ -117,21 +162,39 @@ export function CustomerCreatedFrom({
           <Box padding="400">
             <BlockStack gap="400">
               <Text as="p" variant="bodyMd" tone="subdued">
-                Filter customers who were created on or after the selected date
+                Filter customers by when they were created. Relative dates move
+                with today, so saved lists stay up to date.
               </Text>
 
               <div style={{ maxWidth: "300px" }}>
-                <TextField
-                  label="Date"
-                  type="date"
-                  value={date}
-                  onChange={handleDateChange}
-                  error={error}
-                  autoComplete="off"
-                  helpText="Select a date to show customers created on or after that date"
+                <Select
+                  label="Filter Type"
+                  options={MODE_OPTIONS}
+                  value={mode}
+                  onChange={handleModeChange}
                 />
               </div>
 
+              {mode === "relative" ? (
+                <RelativeDateField
+                  label="Created"
+                  value={selectedRelativeDate}
+                  onChange={onRelativeDateChange}
+                />
+              ) : (
+                <div style={{ maxWidth: "300px" }}>
+                  <TextField
+                    label="Date"
+                    type="date"
+                    value={date}
+                    onChange={handleDateChange}
+                    error={error}
+                    autoComplete="off"
+                    helpText="Select a date to show customers created on or after that date"
+                  />
+                </div>
+              )}
+
               {isFilterActive && (
                 <Box paddingBlock="200">
                   <Text as="p" variant="bodySm" tone="subdued">
@@ -139,6 +202,14 @@ export function CustomerCreatedFrom({
                   </Text>
                 </Box>
               )}
+
+              {isRelativeFilterActive && (
+                <Box paddingBlock="200">
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Showing customers created {describeRelativeDate(selectedRelativeDate)}
+                  </Text>
+                </Box>
+              )}
             </BlockStack>
           </Box>
         </Collapsible>
@@ -0,0 +1,43 @@
+import { BaseFilterSection } from "../shared/BaseFilterSection";
+import { DEVICE_OPTIONS } from "../../../../utils/device";
+
+interface DeviceProps {
+  selectedFilters: string[];
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (value: string, checked: boolean) => void;
+}
+
+// Device types first, then operating systems and browsers
+const DEVICE_FILTER_OPTIONS = [
+  ...DEVICE_OPTIONS.deviceType,
+  ...DEVICE_OPTIONS.os,
+  ...DEVICE_OPTIONS.browser,
+];
+
+/**
+ * Device Filter Component
+ *
+ * Displays and manages device filters (device type, operating system and browser),
+ * classified from the client details of each customer's orders. Only orders received
+ * through order webhooks carry a user agent, which the description explains.
+ */
+export function Device({
+  selectedFilters,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: DeviceProps) {
+  return (
+    <BaseFilterSection
+      title="Device"
+      emoji="📱"
+      options={DEVICE_FILTER_OPTIONS}
+      selectedFilters={selectedFilters}
+      isExpanded={isExpanded}
+      onToggle={onToggle}
+      onFilterChange={onFilterChange}
+      description="Browsers and desktop devices are only known for orders the analytics warehouse received as they were placed. Imported and older orders are classified from their sales channel and landing page, so they can only match Mobile, iOS or Android."
+    />
+  );
+}
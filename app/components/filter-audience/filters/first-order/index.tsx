@@ -0,0 +1,99 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import {
+  describeRelativeDate,
+  isRelativeDateValid,
+  type RelativeDate,
+} from "../../../../utils/relativeDate";
+import { RelativeDateField } from "../shared/RelativeDateField";
+
+interface FirstOrderProps {
+  selectedDate: RelativeDate | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (date: RelativeDate | undefined) => void;
+}
+
+/**
+ * First Order Filter Component
+ *
+ * Allows users to filter customers by when they placed their first order,
+ * as a relative date that rolls forward (e.g. first order in the last 30 days)
+ */
+export function FirstOrder({
+  selectedDate,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: FirstOrderProps) {
+  const isFilterActive = isRelativeDateValid(selectedDate);
+  const selectedCount = isFilterActive ? 1 : 0;
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                🛍️ First Order
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id="section-first-order">
+          <Box padding="400">
+            <BlockStack gap="400">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Filter customers by when they placed their first order. Relative
+                dates move with today, so saved lists stay up to date.
+              </Text>
+
+              <RelativeDateField
+                label="First order"
+                value={selectedDate}
+                onChange={onFilterChange}
+              />
+
+              {isFilterActive && (
+                <Box paddingBlock="200">
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    Showing customers whose first order was{" "}
+                    {describeRelativeDate(selectedDate)}
+                  </Text>
+                </Box>
+              )}
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -7,8 +7,17 @@
 export { GeographicLocation } from "./geographic-location";
 export { ProductCategories } from "./product-categories";
 export { ShoppingTiming } from "./shopping-timing";
+export { Device } from "./device";
 export { PaymentMethods } from "./payment-methods";
 export { DeliveryPreferences } from "./delivery-preferences";
 export { AmountSpent } from "./amount-spent";
 export { CustomerCreatedFrom } from "./customer-created-from";
+export { PredictedClv } from "./predicted-clv";
+export { ChurnRisk } from "./churn-risk";
+export { Tags } from "./tags";
 
+export { OrderCount } from "./order-count";
+export { AverageOrderValue } from "./average-order-value";
+export { LastOrder } from "./last-order";
+export { FirstOrder } from "./first-order";
+export { Consent } from "./consent";
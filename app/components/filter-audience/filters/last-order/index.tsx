@@ -0,0 +1,272 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+  TextField,
+  Select,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { LastOrderFilter } from "../../types";
+import {
+  describeRelativeDate,
+  isRelativeDateValid,
+  type RelativeDate,
+} from "../../../../utils/relativeDate";
+import { RelativeDateField } from "../shared/RelativeDateField";
+
+interface LastOrderProps {
+  selectedFilter: LastOrderFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: LastOrderFilter | undefined) => void;
+}
+
+type LastOrderMode = LastOrderFilter["mode"];
+
+const MODE_OPTIONS = [
+  { label: "Last order between", value: "between" },
+  { label: "No order in the last", value: "notInLast" },
+  { label: "Relative date", value: "relative" },
+];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+interface LastOrderInputs {
+  mode: LastOrderMode;
+  from: string;
+  to: string;
+  days: string;
+  relative: RelativeDate | undefined;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Last Order Filter Component
+ *
+ * Allows users to filter customers by the date of their most recent order:
+ * last order between two dates, no order in the last N days (lapsed customers),
+ * or a relative date that rolls forward (e.g. this month)
+ */
+export function LastOrder({
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: LastOrderProps) {
+  const [inputs, setInputs] = useState<LastOrderInputs>({
+    mode: selectedFilter?.mode || "between",
+    from: selectedFilter?.from || "",
+    to: selectedFilter?.to || "",
+    days: selectedFilter?.days?.toString() || "",
+    relative: selectedFilter?.relative || undefined,
+  });
+  const [error, setError] = useState<string>("");
+  const emittedFilter = useRef(selectedFilter);
+
+  // Sync with external changes (not our own, so invalid input isn't wiped while typing)
+  useEffect(() => {
+    if (selectedFilter === emittedFilter.current) {
+      return;
+    }
+    emittedFilter.current = selectedFilter;
+    setError("");
+    setInputs({
+      mode: selectedFilter?.mode || "between",
+      from: selectedFilter?.from || "",
+      to: selectedFilter?.to || "",
+      days: selectedFilter?.days?.toString() || "",
+      relative: selectedFilter?.relative || undefined,
+    });
+  }, [selectedFilter]);
+
+  const emitFilter = useCallback(
+    (filter: LastOrderFilter | undefined) => {
+      emittedFilter.current = filter;
+      onFilterChange(filter);
+    },
+    [onFilterChange]
+  );
+
+  // Validate the inputs and update the filter (cleared while invalid or empty)
+  const updateFilter = useCallback(
+    (changes: Partial<LastOrderInputs>) => {
+      const next = { ...inputs, ...changes };
+      setInputs(next);
+      setError("");
+
+      if (next.mode === "relative") {
+        emitFilter(
+          isRelativeDateValid(next.relative)
+            ? { mode: "relative", relative: next.relative }
+            : undefined
+        );
+        return;
+      }
+
+      if (next.mode === "notInLast") {
+        const days = Number(next.days);
+        if (next.days === "") {
+          emitFilter(undefined);
+        } else if (!Number.isInteger(days) || days <= 0) {
+          setError("Please enter a whole number of days");
+          emitFilter(undefined);
+        } else {
+          emitFilter({ mode: "notInLast", days });
+        }
+        return;
+      }
+
+      if (
+        (next.from && !DATE_REGEX.test(next.from)) ||
+        (next.to && !DATE_REGEX.test(next.to))
+      ) {
+        setError("Please enter a valid date (YYYY-MM-DD)");
+        emitFilter(undefined);
+      } else if (next.from && next.to && next.to < next.from) {
+        setError("The end date must be on or after the start date");
+        emitFilter(undefined);
+      } else if (!next.from && !next.to) {
+        emitFilter(undefined);
+      } else {
+        emitFilter({ mode: "between", from: next.from || null, to: next.to || null });
+      }
+    },
+    [inputs, emitFilter]
+  );
+
+  const isFilterActive = selectedFilter != null;
+  const selectedCount = isFilterActive ? 1 : 0;
+
+  const describeFilter = (filter: LastOrderFilter) => {
+    if (filter.mode === "relative" && filter.relative) {
+      return `Showing customers whose last order was ${describeRelativeDate(filter.relative)}`;
+    }
+    if (filter.mode === "notInLast") {
+      return `Showing customers with no order in the last ${filter.days} days, including customers who never ordered`;
+    }
+    if (filter.from && filter.to) {
+      return `Showing customers whose last order was between ${formatDate(filter.from)} and ${formatDate(filter.to)}`;
+    }
+    return filter.from
+      ? `Showing customers whose last order was on or after ${formatDate(filter.from)}`
+      : `Showing customers whose last order was on or before ${formatDate(filter.to as string)}`;
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                🕒 Last Order
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id="section-last-order">
+          <Box padding="400">
+            <BlockStack gap="400">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Filter customers by when they last ordered
+              </Text>
+
+              <div style={{ maxWidth: "300px" }}>
+                <Select
+                  label="Filter Type"
+                  options={MODE_OPTIONS}
+                  value={inputs.mode}
+                  onChange={(value) => updateFilter({ mode: value as LastOrderMode })}
+                />
+              </div>
+
+              {inputs.mode === "relative" ? (
+                <RelativeDateField
+                  label="Last order"
+                  value={inputs.relative}
+                  onChange={(relative) => updateFilter({ relative })}
+                />
+              ) : inputs.mode === "between" ? (
+                <InlineStack gap="300" blockAlign="start">
+                  <div style={{ flex: 1 }}>
+                    <TextField
+                      label="From"
+                      type="date"
+                      value={inputs.from}
+                      onChange={(value) => updateFilter({ from: value })}
+                      error={error}
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div style={{ flex: 1 }}>
+                    <TextField
+                      label="To"
+                      type="date"
+                      value={inputs.to}
+                      onChange={(value) => updateFilter({ to: value })}
+                      autoComplete="off"
+                    />
+                  </div>
+                </InlineStack>
+              ) : (
+                <div style={{ maxWidth: "300px" }}>
+                  <TextField
+                    label="Days"
+                    type="number"
+                    value={inputs.days}
+                    onChange={(value) => updateFilter({ days: value })}
+                    error={error}
+                    autoComplete="off"
+                    min={1}
+                    step={1}
+                    suffix="days"
+                    helpText="Customers who never ordered are included"
+                  />
+                </div>
+              )}
+
+              {isFilterActive && (
+                <Box paddingBlock="200">
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {describeFilter(selectedFilter)}
+                  </Text>
+                </Box>
+              )}
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import type { RangeFilter } from "../../types";
+import { RangeFilterSection } from "../shared/RangeFilterSection";
+
+interface OrderCountProps {
+  selectedFilter: RangeFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: RangeFilter | undefined) => void;
+}
+
+/**
+ * Number of Orders Filter Component
+ *
+ * Allows users to filter customers by how many orders they've placed (between a minimum and maximum)
+ */
+export function OrderCount({
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: OrderCountProps) {
+  return (
+    <RangeFilterSection
+      id="order-count"
+      title="Number of Orders"
+      emoji="📦"
+      description="Filter customers by how many orders they've placed"
+      unit="number of orders"
+      integer
+      selectedFilter={selectedFilter}
+      isExpanded={isExpanded}
+      onToggle={onToggle}
+      onFilterChange={onFilterChange}
+    />
+  );
+}
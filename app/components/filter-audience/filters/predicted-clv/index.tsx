@@ -0,0 +1,190 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+  TextField,
+  Select,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import { useState, useCallback, useEffect } from "react";
+import type { PredictedClvFilter } from "../../types";
+
+interface PredictedClvProps {
+  selectedFilter: PredictedClvFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: PredictedClvFilter | undefined) => void;
+}
+
+const OPERATOR_OPTIONS = [
+  { label: "Minimum", value: "min" },
+  { label: "Maximum", value: "max" },
+];
+
+/**
+ * Predicted CLV Filter Component
+ *
+ * Allows users to filter customers by their predicted lifetime value
+ * (expected spend over the next 12 months, see utils/clv)
+ * with options for minimum (>=) or maximum (<=) amount
+ */
+export function PredictedClv({
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: PredictedClvProps) {
+  const [amount, setAmount] = useState<string>(
+    selectedFilter?.amount?.toString() || ""
+  );
+  const [operator, setOperator] = useState<"min" | "max" | null>(
+    selectedFilter?.operator || "min"
+  );
+  const [error, setError] = useState<string>("");
+
+  // Sync with external changes
+  useEffect(() => {
+    if (selectedFilter) {
+      setAmount(selectedFilter.amount?.toString() || "");
+      setOperator(selectedFilter.operator || "min");
+    } else {
+      setAmount("");
+      setOperator("min"); // Default to "min"
+    }
+  }, [selectedFilter]);
+
+  const handleAmountChange = useCallback(
+    (value: string) => {
+      setAmount(value);
+      setError("");
+
+      // Validate and update filter
+      const numValue = parseFloat(value);
+      if (value === "") {
+        // Clear filter if amount is empty
+        onFilterChange(undefined);
+      } else if (isNaN(numValue) || numValue < 0) {
+        setError("Please enter a valid positive number");
+        onFilterChange(undefined);
+      } else {
+        // Update filter with new amount
+        if (operator) {
+          onFilterChange({
+            amount: numValue,
+            operator: operator,
+          });
+        }
+      }
+    },
+    [operator, onFilterChange]
+  );
+
+  const handleOperatorChange = useCallback(
+    (value: string) => {
+      const newOperator = value === "min" ? "min" : value === "max" ? "max" : null;
+      setOperator(newOperator);
+
+      // Update filter with new operator
+      const numValue = parseFloat(amount);
+      if (amount && !isNaN(numValue) && numValue >= 0 && newOperator) {
+        onFilterChange({
+          amount: numValue,
+          operator: newOperator,
+        });
+      } else if (!amount || amount === "") {
+        // If no amount, just clear the filter
+        onFilterChange(undefined);
+      }
+    },
+    [amount, onFilterChange]
+  );
+
+  const activeAmount = selectedFilter?.amount ?? null;
+  const isFilterActive = activeAmount != null && selectedFilter?.operator != null;
+  const selectedCount = isFilterActive ? 1 : 0;
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                🔮 Predicted CLV
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id="section-predicted-clv">
+          <Box padding="400">
+            <BlockStack gap="400">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Filter customers based on how much they are predicted to spend over the next 12 months, estimated from their order frequency, order value and time since their last order
+              </Text>
+
+              <InlineStack gap="300" blockAlign="end">
+                <div style={{ flex: 1 }}>
+                  <Select
+                    label="Filter Type"
+                    options={OPERATOR_OPTIONS}
+                    value={operator || "min"}
+                    onChange={handleOperatorChange}
+                  />
+                </div>
+
+                <div style={{ flex: 1 }}>
+                  <TextField
+                    label="Amount"
+                    type="number"
+                    value={amount}
+                    onChange={handleAmountChange}
+                    error={error}
+                    prefix="$"
+                    autoComplete="off"
+                    min={0}
+                    step={0.01}
+                    placeholder="0.00"
+                  />
+                </div>
+              </InlineStack>
+
+              {isFilterActive && (
+                <Box paddingBlock="200">
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {operator === "min"
+                      ? `Showing customers predicted to spend at least $${activeAmount.toFixed(2)}`
+                      : `Showing customers predicted to spend at most $${activeAmount.toFixed(2)}`}
+                  </Text>
+                </Box>
+              )}
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
+
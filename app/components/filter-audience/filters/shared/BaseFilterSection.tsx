@@ -27,6 +27,8 @@ interface BaseFilterSectionProps {
   onFilterChange: (value: string, checked: boolean) => void;
   isLoading?: boolean;
   emptyMessage?: string;
+  // Shown above the options, e.g. limits of the data the filter reads
+  description?: string;
 }
 
 // Tree structure styling constants
@@ -51,6 +53,7 @@ export function BaseFilterSection({
   onFilterChange,
   isLoading = false,
   emptyMessage,
+  description,
 }: BaseFilterSectionProps) {
   const selectedCount = selectedFilters.length;
   const showSkeleton = isLoading && options.length === 0;
@@ -209,6 +212,13 @@ export function BaseFilterSection({
         {/* Collapsible Content */}
         <Collapsible open={isExpanded} id={`section-${title.toLowerCase().replace(/\s+/g, '-')}`}>
           <Box padding="400">
+            {description && (
+              <Box paddingBlockEnd="200">
+                <Text as="p" variant="bodyMd" tone="subdued">
+                  {description}
+                </Text>
+              </Box>
+            )}
             {showSkeleton ? (
               <BlockStack gap="300">
                 {Array.from({ length: 6 }).map((_, index) => (
@@ -0,0 +1,224 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+  TextField,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { RangeFilter } from "../../types";
+
+interface RangeFilterSectionProps {
+  id: string;
+  title: string;
+  emoji: string;
+  description: string;
+  unit: string; // e.g. "number of orders", used in the summary
+  prefix?: string;
+  step?: number;
+  integer?: boolean;
+  selectedFilter: RangeFilter | undefined;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: RangeFilter | undefined) => void;
+}
+
+/**
+ * Parse a bound: null when empty, undefined when invalid
+ */
+function parseBound(value: string, integer: boolean): number | null | undefined {
+  if (value === "") {
+    return null;
+  }
+  const parsed = integer ? Number(value) : parseFloat(value);
+  if (isNaN(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Range Filter Section Component
+ *
+ * Shared component for numeric "between" filters: inclusive minimum and maximum,
+ * either of which can be left empty
+ */
+export function RangeFilterSection({
+  id,
+  title,
+  emoji,
+  description,
+  unit,
+  prefix,
+  step = 1,
+  integer = false,
+  selectedFilter,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+}: RangeFilterSectionProps) {
+  const [min, setMin] = useState<string>(selectedFilter?.min?.toString() || "");
+  const [max, setMax] = useState<string>(selectedFilter?.max?.toString() || "");
+  const [error, setError] = useState<string>("");
+  const emittedFilter = useRef(selectedFilter);
+
+  // Sync with external changes (not our own, so invalid input isn't wiped while typing)
+  useEffect(() => {
+    if (selectedFilter === emittedFilter.current) {
+      return;
+    }
+    emittedFilter.current = selectedFilter;
+    setMin(selectedFilter?.min?.toString() || "");
+    setMax(selectedFilter?.max?.toString() || "");
+    setError("");
+  }, [selectedFilter]);
+
+  const emitFilter = useCallback(
+    (filter: RangeFilter | undefined) => {
+      emittedFilter.current = filter;
+      onFilterChange(filter);
+    },
+    [onFilterChange]
+  );
+
+  // Validate both bounds and update the filter (cleared while invalid or empty)
+  const updateFilter = useCallback(
+    (nextMin: string, nextMax: string) => {
+      setError("");
+
+      const minValue = parseBound(nextMin, integer);
+      const maxValue = parseBound(nextMax, integer);
+
+      if (minValue === undefined || maxValue === undefined) {
+        setError(integer ? "Please enter a whole number" : "Please enter a valid positive number");
+        emitFilter(undefined);
+      } else if (minValue !== null && maxValue !== null && maxValue < minValue) {
+        setError("The maximum must be at least the minimum");
+        emitFilter(undefined);
+      } else if (minValue === null && maxValue === null) {
+        // Clear filter if both bounds are empty
+        emitFilter(undefined);
+      } else {
+        emitFilter({ min: minValue, max: maxValue });
+      }
+    },
+    [integer, emitFilter]
+  );
+
+  const handleMinChange = useCallback(
+    (value: string) => {
+      setMin(value);
+      updateFilter(value, max);
+    },
+    [max, updateFilter]
+  );
+
+  const handleMaxChange = useCallback(
+    (value: string) => {
+      setMax(value);
+      updateFilter(min, value);
+    },
+    [min, updateFilter]
+  );
+
+  const isFilterActive = selectedFilter != null && (selectedFilter.min != null || selectedFilter.max != null);
+  const selectedCount = isFilterActive ? 1 : 0;
+
+  const formatBound = (value: number) =>
+    `${prefix || ""}${integer ? value : value.toFixed(2)}`;
+
+  const describeFilter = (filter: RangeFilter) => {
+    if (filter.min != null && filter.max != null) {
+      return `Showing customers whose ${unit} is between ${formatBound(filter.min)} and ${formatBound(filter.max)}`;
+    }
+    return filter.min != null
+      ? `Showing customers whose ${unit} is at least ${formatBound(filter.min)}`
+      : `Showing customers whose ${unit} is at most ${formatBound(filter.max as number)}`;
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                {emoji} {title}
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id={`section-${id}`}>
+          <Box padding="400">
+            <BlockStack gap="400">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                {description}
+              </Text>
+
+              <InlineStack gap="300" blockAlign="start">
+                <div style={{ flex: 1 }}>
+                  <TextField
+                    label="Minimum"
+                    type="number"
+                    value={min}
+                    onChange={handleMinChange}
+                    error={error}
+                    prefix={prefix}
+                    autoComplete="off"
+                    min={0}
+                    step={step}
+                    placeholder="No minimum"
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <TextField
+                    label="Maximum"
+                    type="number"
+                    value={max}
+                    onChange={handleMaxChange}
+                    prefix={prefix}
+                    autoComplete="off"
+                    min={0}
+                    step={step}
+                    placeholder="No maximum"
+                  />
+                </div>
+              </InlineStack>
+
+              {isFilterActive && (
+                <Box paddingBlock="200">
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {describeFilter(selectedFilter)}
+                  </Text>
+                </Box>
+              )}
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
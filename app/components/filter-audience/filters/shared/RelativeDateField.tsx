@@ -0,0 +1,135 @@
+import { InlineStack, Select, TextField } from "@shopify/polaris";
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  RELATIVE_DATE_TYPES,
+  RELATIVE_DATE_UNITS,
+  RELATIVE_DATE_PERIODS,
+  type RelativeDate,
+  type RelativeDatePeriod,
+  type RelativeDateUnit,
+} from "../../../../utils/relativeDate";
+
+interface RelativeDateFieldProps {
+  label: string;
+  value: RelativeDate | null | undefined;
+  onChange: (value: RelativeDate | undefined) => void;
+}
+
+interface RelativeDateInputs {
+  type: RelativeDate["type"];
+  amount: string;
+  unit: RelativeDateUnit;
+  period: RelativeDatePeriod;
+}
+
+function toInputs(value: RelativeDate | null | undefined): RelativeDateInputs {
+  return {
+    type: value?.type || "inLast",
+    amount: value && value.type !== "period" ? value.amount.toString() : "",
+    unit: value && value.type !== "period" ? value.unit : "days",
+    period: value?.type === "period" ? value.period : "thisMonth",
+  };
+}
+
+/**
+ * Relative Date Field Component
+ *
+ * Shared input for relative dates: "in the last N days/weeks/months",
+ * "more than N ... ago" or a calendar period ("this quarter")
+ */
+export function RelativeDateField({ label, value, onChange }: RelativeDateFieldProps) {
+  const [inputs, setInputs] = useState<RelativeDateInputs>(toInputs(value));
+  const [error, setError] = useState<string>("");
+  const emittedValue = useRef(value);
+
+  // Sync with external changes (not our own, so invalid input isn't wiped while typing)
+  useEffect(() => {
+    if (value === emittedValue.current) {
+      return;
+    }
+    emittedValue.current = value;
+    setError("");
+    setInputs(toInputs(value));
+  }, [value]);
+
+  const emitValue = useCallback(
+    (next: RelativeDate | undefined) => {
+      emittedValue.current = next;
+      onChange(next);
+    },
+    [onChange]
+  );
+
+  // Validate the inputs and update the value (cleared while invalid or empty)
+  const updateInputs = useCallback(
+    (changes: Partial<RelativeDateInputs>) => {
+      const next = { ...inputs, ...changes };
+      setInputs(next);
+      setError("");
+
+      if (next.type === "period") {
+        emitValue({ type: "period", period: next.period });
+        return;
+      }
+
+      const amount = Number(next.amount);
+      if (next.amount === "") {
+        emitValue(undefined);
+      } else if (!Number.isInteger(amount) || amount <= 0) {
+        setError("Please enter a whole number");
+        emitValue(undefined);
+      } else {
+        emitValue({ type: next.type, amount, unit: next.unit });
+      }
+    },
+    [inputs, emitValue]
+  );
+
+  return (
+    <InlineStack gap="300" blockAlign="start">
+      <div style={{ flex: 1 }}>
+        <Select
+          label={label}
+          options={RELATIVE_DATE_TYPES}
+          value={inputs.type}
+          onChange={(type) => updateInputs({ type: type as RelativeDate["type"] })}
+        />
+      </div>
+
+      {inputs.type === "period" ? (
+        <div style={{ flex: 1 }}>
+          <Select
+            label="Period"
+            options={RELATIVE_DATE_PERIODS}
+            value={inputs.period}
+            onChange={(period) => updateInputs({ period: period as RelativeDatePeriod })}
+          />
+        </div>
+      ) : (
+        <>
+          <div style={{ flex: 1 }}>
+            <TextField
+              label="Amount"
+              type="number"
+              value={inputs.amount}
+              onChange={(amount) => updateInputs({ amount })}
+              error={error}
+              autoComplete="off"
+              min={1}
+              step={1}
+              placeholder="30"
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Select
+              label="Unit"
+              options={RELATIVE_DATE_UNITS}
+              value={inputs.unit}
+              onChange={(unit) => updateInputs({ unit: unit as RelativeDateUnit })}
+            />
+          </div>
+        </>
+      )}
+    </InlineStack>
+  );
+}
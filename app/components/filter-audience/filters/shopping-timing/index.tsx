@@ -14,20 +14,19 @@ import {
 } from "@shopify/polaris";
 import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
 import { useMemo, useCallback } from "react";
+import {
+  PARTS_OF_DAY,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  getPartOfDayLabel,
+  type PartOfDayBoundaries,
+} from "../../../../utils/partOfDay";
+import { normalizeTimingValue } from "../../queries/timing";
 
 // Constants
 const SKELETON_COUNT = 6;
 const MAX_CONTENT_HEIGHT = "400px";
 
-const TIMING_OPTIONS = [
-  "Morning (6am-12pm)",
-  "Afternoon (12pm-6pm)",
-  "Evening (6pm-12am)",
-  "Night (12am-6am)",
-  "Weekdays",
-  "Weekends",
-  "Holidays - to be fixed",
-];
+const DAY_OPTIONS = ["Weekdays", "Weekends", "Holidays - to be fixed"];
 
 // Column span for 3-column layout
 const columnSpan = {
@@ -44,6 +43,7 @@ interface ShoppingTimingProps {
   onToggle: () => void;
   onFilterChange: (value: string, checked: boolean) => void;
   isLoading?: boolean;
+  partOfDay?: PartOfDayBoundaries;
 }
 
 /**
@@ -58,10 +58,23 @@ export function ShoppingTiming({
   onToggle,
   onFilterChange,
   isLoading = false,
+  partOfDay = DEFAULT_PART_OF_DAY_BOUNDARIES,
 }: ShoppingTimingProps) {
+  // Parts of day are shown with the shop's hours but stored by name
+  const timingOptions = useMemo(
+    () => [
+      ...PARTS_OF_DAY.map((part) => ({
+        label: getPartOfDayLabel(part.id, partOfDay),
+        value: part.label,
+      })),
+      ...DAY_OPTIONS.map((option) => ({ label: option, value: option })),
+    ],
+    [partOfDay],
+  );
+
   // Memoize selected filters as Set for O(1) lookup
   const selectedFiltersSet = useMemo(
-    () => new Set(selectedFilters),
+    () => new Set(selectedFilters.map(normalizeTimingValue)),
     [selectedFilters],
   );
 
@@ -70,7 +83,7 @@ export function ShoppingTiming({
     [selectedFilters.length],
   );
 
-  const showSkeleton = isLoading && TIMING_OPTIONS.length === 0;
+  const showSkeleton = isLoading && timingOptions.length === 0;
 
   // Memoize checkbox change handler
   const handleCheckboxChange = useCallback(
@@ -118,7 +131,7 @@ export function ShoppingTiming({
                     <SkeletonBodyText key={index} lines={1} />
                   ))}
                 </BlockStack>
-              ) : TIMING_OPTIONS.length === 0 ? (
+              ) : timingOptions.length === 0 ? (
                 <Box paddingBlock="600">
                   <BlockStack gap="200" inlineAlign="center">
                     <Text
@@ -145,12 +158,12 @@ export function ShoppingTiming({
                 >
                   {/* Multi-Column Checkbox Grid */}
                   <Grid>
-                    {TIMING_OPTIONS.map((option) => (
-                      <Grid.Cell key={option} columnSpan={columnSpan}>
+                    {timingOptions.map((option) => (
+                      <Grid.Cell key={option.value} columnSpan={columnSpan}>
                         <Checkbox
-                          label={option}
-                          checked={selectedFiltersSet.has(option)}
-                          onChange={handleCheckboxChange(option)}
+                          label={option.label}
+                          checked={selectedFiltersSet.has(option.value)}
+                          onChange={handleCheckboxChange(option.value)}
                         />
                       </Grid.Cell>
                     ))}
@@ -0,0 +1,215 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Collapsible,
+  Divider,
+  Box,
+  Select,
+  ChoiceList,
+} from "@shopify/polaris";
+import { ChevronDownIcon, ChevronUpIcon } from "@shopify/polaris-icons";
+import { useMemo } from "react";
+import type { TagMatch, TagsFilter } from "../../types";
+import { TAG_MATCH_OPTIONS, EXCLUSION_TAG_PATTERN } from "../../queries/tags";
+
+const MAX_CONTENT_HEIGHT = "240px";
+
+const EMPTY_TAGS_FILTER: TagsFilter = {
+  customerTags: [],
+  customerTagsMatch: "any",
+  orderTags: [],
+  orderTagsMatch: "any",
+};
+
+interface TagsProps {
+  customerTags?: string[];
+  orderTags?: string[];
+  selectedFilter: TagsFilter | undefined;
+  excludedTags: string[];
+  isExpanded: boolean;
+  onToggle: () => void;
+  onFilterChange: (filter: TagsFilter | undefined) => void;
+  onExcludedTagsChange: (tags: string[]) => void;
+}
+
+interface TagListProps {
+  title: string;
+  tags: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  emptyMessage: string;
+}
+
+function TagList({ title, tags, selected, onChange, emptyMessage }: TagListProps) {
+  // Keep saved tags visible even if they are no longer used in the shop
+  const choices = Array.from(new Set([...selected, ...tags])).map((tag) => ({
+    label: tag,
+    value: tag,
+  }));
+
+  if (choices.length === 0) {
+    return (
+      <Text as="p" variant="bodySm" tone="subdued">
+        {emptyMessage}
+      </Text>
+    );
+  }
+
+  return (
+    <div style={{ maxHeight: MAX_CONTENT_HEIGHT, overflowY: "auto" }}>
+      <ChoiceList
+        title={title}
+        titleHidden
+        allowMultiple
+        choices={choices}
+        selected={selected}
+        onChange={onChange}
+      />
+    </div>
+  );
+}
+
+/**
+ * Tags Filter Component
+ *
+ * Filters customers by their customer tags and order tags (has any / all / none),
+ * and excludes staff or test accounts by tag from every segment
+ */
+export function Tags({
+  customerTags = [],
+  orderTags = [],
+  selectedFilter,
+  excludedTags,
+  isExpanded,
+  onToggle,
+  onFilterChange,
+  onExcludedTagsChange,
+}: TagsProps) {
+  const filter = selectedFilter || EMPTY_TAGS_FILTER;
+
+  // Tags that look like staff or test accounts are suggested first
+  const exclusionTags = useMemo(
+    () => [
+      ...customerTags.filter((tag) => EXCLUSION_TAG_PATTERN.test(tag)),
+      ...customerTags.filter((tag) => !EXCLUSION_TAG_PATTERN.test(tag)),
+    ],
+    [customerTags]
+  );
+
+  const updateFilter = (changes: Partial<TagsFilter>) => {
+    const next = { ...filter, ...changes };
+    onFilterChange(
+      next.customerTags.length > 0 || next.orderTags.length > 0 ? next : undefined
+    );
+  };
+
+  const selectedCount =
+    filter.customerTags.length + filter.orderTags.length + excludedTags.length;
+
+  return (
+    <Card>
+      <BlockStack gap="0">
+        {/* Header */}
+        <Box padding="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <InlineStack gap="300" blockAlign="center">
+              <Text as="h3" variant="headingMd" fontWeight="semibold">
+                🏷️ Tags
+              </Text>
+              {selectedCount > 0 && (
+                <Badge tone="success">{`${selectedCount} selected`}</Badge>
+              )}
+            </InlineStack>
+            <Button
+              size="medium"
+              variant="plain"
+              icon={isExpanded ? ChevronUpIcon : ChevronDownIcon}
+              onClick={onToggle}
+              accessibilityLabel={
+                isExpanded ? "Collapse section" : "Expand section"
+              }
+            />
+          </InlineStack>
+        </Box>
+
+        <Divider />
+
+        {/* Collapsible Content */}
+        <Collapsible open={isExpanded} id="section-tags">
+          <Box padding="400">
+            <BlockStack gap="400">
+              <BlockStack gap="200">
+                <Text as="h4" variant="headingSm">
+                  Customer tags
+                </Text>
+                <Select
+                  label="Customer tags match"
+                  labelHidden
+                  options={TAG_MATCH_OPTIONS}
+                  value={filter.customerTagsMatch}
+                  onChange={(value) =>
+                    updateFilter({ customerTagsMatch: value as TagMatch })
+                  }
+                />
+                <TagList
+                  title="Customer tags"
+                  tags={customerTags}
+                  selected={filter.customerTags}
+                  onChange={(selected) => updateFilter({ customerTags: selected })}
+                  emptyMessage="No customer tags in this store"
+                />
+              </BlockStack>
+
+              <Divider />
+
+              <BlockStack gap="200">
+                <Text as="h4" variant="headingSm">
+                  Order tags
+                </Text>
+                <Select
+                  label="Order tags match"
+                  labelHidden
+                  options={TAG_MATCH_OPTIONS}
+                  value={filter.orderTagsMatch}
+                  onChange={(value) =>
+                    updateFilter({ orderTagsMatch: value as TagMatch })
+                  }
+                />
+                <TagList
+                  title="Order tags"
+                  tags={orderTags}
+                  selected={filter.orderTags}
+                  onChange={(selected) => updateFilter({ orderTags: selected })}
+                  emptyMessage="No order tags in this store"
+                />
+              </BlockStack>
+
+              <Divider />
+
+              <BlockStack gap="200">
+                <Text as="h4" variant="headingSm">
+                  Exclude staff and test accounts
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Customers with any of these tags are left out of the segment,
+                  whatever the other filters and their logic.
+                </Text>
+                <TagList
+                  title="Excluded customer tags"
+                  tags={exclusionTags}
+                  selected={excludedTags}
+                  onChange={onExcludedTagsChange}
+                  emptyMessage="No customer tags in this store"
+                />
+              </BlockStack>
+            </BlockStack>
+          </Box>
+        </Collapsible>
+      </BlockStack>
+    </Card>
+  );
+}
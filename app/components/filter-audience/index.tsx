@@ -1,26 +1,55 @@
 import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { Layout, BlockStack, Grid } from "@shopify/polaris";
 import { FilterSummaryCard } from "./FilterSummaryCard";
+import { FilterGroupBuilder } from "./FilterGroupBuilder";
 import { SegmentPreview } from "./SegmentPreview";
 import { QuickActions } from "./QuickActions";
 import { FilterTips } from "./FilterTips";
 import { SegmentResultsModal } from "./SegmentResultsModal";
 import { SaveListModal } from "./SaveListModal";
+import {
+  ExportToProviderModal,
+  type ExportProvider,
+  type ExportSource,
+} from "../integrations/ExportToProviderModal";
 import {
   GeographicLocation,
   ProductCategories,
   ShoppingTiming,
+  Device,
   PaymentMethods,
   DeliveryPreferences,
   AmountSpent,
+  OrderCount,
+  AverageOrderValue,
+  LastOrder,
+  FirstOrder,
   CustomerCreatedFrom,
+  PredictedClv,
+  ChurnRisk,
+  Tags,
+  Consent,
 } from "./filters";
 import type {
   FilterData,
   SegmentResults,
   FilterOption,
   AmountSpentFilter,
+  RangeFilter,
+  LastOrderFilter,
+  PredictedClvFilter,
+  TagsFilter,
+  ConsentFilter,
+  FilterExpressionGroup,
 } from "./types";
+import { normalizeTimingValue } from "./queries/timing";
+import type { BulkSegmentJobResult } from "../../services/bulk-segment.server";
+import { isCriterionActive } from "./filterExpression";
+import type { RelativeDate } from "../../utils/relativeDate";
+import {
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  type PartOfDayBoundaries,
+} from "../../utils/partOfDay";
 
 interface AudienceFilterFormProps {
   onSubmit?: (filters: FilterData) => Promise<SegmentResults | null>;
@@ -30,10 +59,14 @@ interface AudienceFilterFormProps {
   countries?: string[];
   paymentMethods?: string[];
   deliveryMethods?: string[];
+  customerTags?: string[];
+  orderTags?: string[];
   isLoading?: boolean;
   initialFilters?: FilterData | null;
   listId?: string | null;
   listName?: string;
+  exportProviders?: ExportProvider[];
+  partOfDay?: PartOfDayBoundaries;
 }
 
 /**
@@ -49,10 +82,14 @@ export function AudienceFilterForm({
   countries = [],
   paymentMethods = [],
   deliveryMethods = [],
+  customerTags = [],
+  orderTags = [],
   isLoading = false,
   initialFilters = null,
   listId = null,
   listName = "",
+  exportProviders = [],
+  partOfDay = DEFAULT_PART_OF_DAY_BOUNDARIES,
 }: AudienceFilterFormProps) {
   // State Management
   // Expand sections that have initial filters when modifying
@@ -66,7 +103,15 @@ export function AudienceFilterForm({
         payment: false,
         delivery: false,
         amountSpent: false,
+        orderCount: false,
+        averageOrderValue: false,
+        lastOrder: false,
+        firstOrder: false,
         customerCreatedFrom: false,
+        predictedClv: false,
+        churnRisk: false,
+        tags: false,
+        consent: false,
       };
     }
 
@@ -81,10 +126,24 @@ export function AudienceFilterForm({
         (initialFilters.amountSpent?.amount != null &&
           initialFilters.amountSpent?.operator != null) ||
         false,
+      orderCount: isCriterionActive(initialFilters, "orderCount"),
+      averageOrderValue: isCriterionActive(initialFilters, "averageOrderValue"),
+      lastOrder: isCriterionActive(initialFilters, "lastOrder"),
+      firstOrder: isCriterionActive(initialFilters, "firstOrder"),
       customerCreatedFrom:
         (initialFilters.customerCreatedFrom != null &&
           initialFilters.customerCreatedFrom.trim() !== "") ||
+        isCriterionActive(initialFilters, "customerCreated"),
+      predictedClv:
+        (initialFilters.predictedClv?.amount != null &&
+          initialFilters.predictedClv?.operator != null) ||
         false,
+      churnRisk: (initialFilters.churnRisk?.length ?? 0) > 0 || false,
+      tags:
+        (initialFilters.tags?.customerTags.length ?? 0) > 0 ||
+        (initialFilters.tags?.orderTags.length ?? 0) > 0 ||
+        (initialFilters.excludedTags?.length ?? 0) > 0,
+      consent: isCriterionActive(initialFilters, "consent"),
     };
   };
 
@@ -92,8 +151,13 @@ export function AudienceFilterForm({
     Record<string, boolean>
   >(getInitialExpandedSections());
 
+  // Timing values are stored with the shop's current part-of-day hours
   const [selectedFilters, setSelectedFilters] = useState<FilterData>(
-    initialFilters || {
+    (initialFilters && {
+      ...initialFilters,
+      timing: (initialFilters.timing || []).map(normalizeTimingValue),
+      partOfDay,
+    }) || {
       location: [],
       products: [],
       timing: [],
@@ -101,12 +165,27 @@ export function AudienceFilterForm({
       payment: [],
       delivery: [],
       amountSpent: undefined,
+      orderCount: undefined,
+      averageOrderValue: undefined,
+      lastOrder: undefined,
+      firstOrder: undefined,
       customerCreatedFrom: null,
+      customerCreated: undefined,
+      predictedClv: undefined,
+      churnRisk: [],
+      tags: undefined,
+      excludedTags: [],
+      consent: undefined,
+      partOfDay,
     },
   );
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [results, setResults] = useState<SegmentResults | null>(null);
+  const [providerExport, setProviderExport] = useState<{
+    provider: ExportProvider;
+    source: ExportSource;
+  } | null>(null);
   const [previewCount, setPreviewCount] = useState<number>(0);
   const [showResultsModal, setShowResultsModal] = useState(false);
   const [showSaveListModal, setShowSaveListModal] = useState(false);
@@ -115,6 +194,8 @@ export function AudienceFilterForm({
   const [isExporting, setIsExporting] = useState(false);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const previewTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<string | null>(null);
+  const bulkPollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Toggle section expansion
   const toggleSection = (sectionId: string) => {
@@ -157,6 +238,57 @@ export function AudienceFilterForm({
     }));
   };
 
+  // Handle number of orders / average order value range changes
+  const handleRangeChange = (
+    key: "orderCount" | "averageOrderValue",
+    filter: RangeFilter | undefined,
+  ) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      [key]: filter,
+    }));
+  };
+
+  // Handle last order (recency) filter changes
+  const handleLastOrderChange = (filter: LastOrderFilter | undefined) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      lastOrder: filter,
+    }));
+  };
+
+  // Handle predicted CLV filter changes
+  const handlePredictedClvChange = (filter: PredictedClvFilter | undefined) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      predictedClv: filter,
+    }));
+  };
+
+  // Handle tags filter changes
+  const handleTagsChange = (filter: TagsFilter | undefined) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      tags: filter,
+    }));
+  };
+
+  // Handle excluded tags (staff, test accounts) changes
+  const handleExcludedTagsChange = (tags: string[]) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      excludedTags: tags,
+    }));
+  };
+
+  // Handle marketing consent filter changes
+  const handleConsentChange = (filter: ConsentFilter | undefined) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      consent: filter,
+    }));
+  };
+
   // Handle customer created from filter changes
   const handleCustomerCreatedFromChange = (date: string | null) => {
     setSelectedFilters((prev) => ({
@@ -165,11 +297,30 @@ export function AudienceFilterForm({
     }));
   };
 
+  // Handle relative date changes (customer created, first order)
+  const handleRelativeDateChange = (
+    key: "customerCreated" | "firstOrder",
+    date: RelativeDate | undefined,
+  ) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      [key]: date,
+    }));
+  };
+
+  // Handle changes to how filters are combined (AND/OR/NOT groups)
+  const handleExpressionChange = (expression: FilterExpressionGroup) => {
+    setSelectedFilters((prev) => ({
+      ...prev,
+      expression,
+    }));
+  };
+
   const totalFiltersCount = useMemo(() => {
     let count = 0;
     Object.entries(selectedFilters).forEach(([key, value]) => {
-      if (key === "amountSpent") {
-        // Count amountSpent as 1 if it's active
+      if (key === "amountSpent" || key === "predictedClv") {
+        // Count amountSpent / predictedClv as 1 if it's active
         if (
           value &&
           typeof value === "object" &&
@@ -184,6 +335,22 @@ export function AudienceFilterForm({
         if (value != null && typeof value === "string" && value.trim() !== "") {
           count += 1;
         }
+      } else if (
+        key === "orderCount" ||
+        key === "averageOrderValue" ||
+        key === "lastOrder" ||
+        key === "customerCreated" ||
+        key === "firstOrder" ||
+        key === "consent"
+      ) {
+        // Count ranges, order / creation dates and consent as 1 if they're active
+        if (isCriterionActive(selectedFilters, key)) {
+          count += 1;
+        }
+      } else if (key === "tags") {
+        // Count each selected customer and order tag
+        const tags = value as TagsFilter | undefined;
+        count += (tags?.customerTags.length ?? 0) + (tags?.orderTags.length ?? 0);
       } else if (
         key !== "graphqlQuery" &&
         value != null &&
@@ -200,7 +367,7 @@ export function AudienceFilterForm({
     // If no filters selected, reset count
     let filterCount = 0;
     Object.entries(filters).forEach(([key, value]) => {
-      if (key === "amountSpent") {
+      if (key === "amountSpent" || key === "predictedClv") {
         if (
           value &&
           typeof value === "object" &&
@@ -214,6 +381,20 @@ export function AudienceFilterForm({
         if (value != null && typeof value === "string" && value.trim() !== "") {
           filterCount += 1;
         }
+      } else if (
+        key === "orderCount" ||
+        key === "averageOrderValue" ||
+        key === "lastOrder" ||
+        key === "customerCreated" ||
+        key === "firstOrder" ||
+        key === "consent"
+      ) {
+        if (isCriterionActive(filters, key)) {
+          filterCount += 1;
+        }
+      } else if (key === "tags") {
+        const tags = value as TagsFilter | undefined;
+        filterCount += (tags?.customerTags.length ?? 0) + (tags?.orderTags.length ?? 0);
       } else if (
         key !== "graphqlQuery" &&
         value != null &&
@@ -270,7 +451,7 @@ export function AudienceFilterForm({
     // Check if there are any filters selected
     let filterCount = 0;
     Object.entries(selectedFilters).forEach(([key, value]) => {
-      if (key === "amountSpent") {
+      if (key === "amountSpent" || key === "predictedClv") {
         if (
           value &&
           typeof value === "object" &&
@@ -284,6 +465,20 @@ export function AudienceFilterForm({
         if (value != null && typeof value === "string" && value.trim() !== "") {
           filterCount += 1;
         }
+      } else if (
+        key === "orderCount" ||
+        key === "averageOrderValue" ||
+        key === "lastOrder" ||
+        key === "customerCreated" ||
+        key === "firstOrder" ||
+        key === "consent"
+      ) {
+        if (isCriterionActive(selectedFilters, key)) {
+          filterCount += 1;
+        }
+      } else if (key === "tags") {
+        const tags = value as TagsFilter | undefined;
+        filterCount += (tags?.customerTags.length ?? 0) + (tags?.orderTags.length ?? 0);
       } else if (
         key !== "graphqlQuery" &&
         value != null &&
@@ -331,6 +526,9 @@ export function AudienceFilterForm({
     setResults(null); // Clear previous results
     setIsSubmitting(true);
 
+    // Set when the paginated query can't complete the order histories
+    let fullScanRequired = false;
+
     try {
       if (onSubmit) {
         const segmentResults = await onSubmit(selectedFilters);
@@ -357,11 +555,14 @@ export function AudienceFilterForm({
           };
           setResults(errorResults);
           setShowResultsModal(true);
+        } else if (data.success && data.coverage?.fullScanRequired) {
+          fullScanRequired = true;
         } else if (data.success) {
           const segmentResults: SegmentResults = {
             matchCount: data.matchCount,
             filters: data.filters,
             customers: data.customers || [],
+            coverage: data.coverage,
           };
           setResults(segmentResults);
           // Update preview count
@@ -390,6 +591,110 @@ export function AudienceFilterForm({
     } finally {
       setIsSubmitting(false);
     }
+
+    if (fullScanRequired) {
+      handleBulkSubmit();
+    }
+  };
+
+  // Stop polling a bulk segment job
+  const stopBulkPolling = useCallback(() => {
+    if (bulkPollRef.current) {
+      clearTimeout(bulkPollRef.current);
+      bulkPollRef.current = null;
+    }
+    setBulkProgress(null);
+  }, []);
+
+  useEffect(() => stopBulkPolling, [stopBulkPolling]);
+
+  // Handle full scan submission (Shopify bulk operation, polled until done)
+  const handleBulkSubmit = async () => {
+    if (totalFiltersCount === 0) {
+      return;
+    }
+
+    stopBulkPolling();
+    setShowResultsModal(true);
+    setResults(null);
+    setIsSubmitting(true);
+    setBulkProgress("Starting full scan...");
+
+    const finish = (segmentResults: SegmentResults) => {
+      stopBulkPolling();
+      setResults(segmentResults);
+      setIsSubmitting(false);
+    };
+
+    const handleJob = (data: { job?: BulkSegmentJobResult; error?: string }) => {
+      if (data.error || !data.job) {
+        finish({
+          matchCount: 0,
+          filters: selectedFilters,
+          error: data.error || "Failed to generate segment",
+        });
+        return;
+      }
+
+      const job = data.job;
+      if (job.status === "completed") {
+        setPreviewCount(job.matchCount);
+        finish({
+          matchCount: job.matchCount,
+          filters: job.filters,
+          customers: job.customers || [],
+          coverage: job.coverage,
+        });
+      } else if (job.status === "failed") {
+        finish({
+          matchCount: 0,
+          filters: selectedFilters,
+          error: job.error || "Failed to generate segment",
+        });
+      } else {
+        setBulkProgress(
+          job.status === "processing"
+            ? `Processing ${job.objectCount.toLocaleString()} records...`
+            : `Scanned ${job.objectCount.toLocaleString()} records...`,
+        );
+        bulkPollRef.current = setTimeout(() => pollJob(job.id), 3000);
+      }
+    };
+
+    const pollJob = async (jobId: string) => {
+      try {
+        const response = await fetch(
+          `/api/filter-audience/bulk-segment?jobId=${encodeURIComponent(jobId)}`,
+        );
+        handleJob(await response.json());
+      } catch (error) {
+        console.error("Error polling bulk segment:", error);
+        finish({
+          matchCount: 0,
+          filters: selectedFilters,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    };
+
+    try {
+      const formData = new FormData();
+      formData.append("filters", JSON.stringify(selectedFilters));
+
+      const response = await fetch("/api/filter-audience/bulk-segment", {
+        method: "POST",
+        body: formData,
+      });
+
+      handleJob(await response.json());
+    } catch (error) {
+      console.error("Error starting bulk segment:", error);
+      finish({
+        matchCount: 0,
+        filters: selectedFilters,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   };
 
   // Handle clear all filters
@@ -401,6 +706,7 @@ export function AudienceFilterForm({
       device: [],
       payment: [],
       delivery: [],
+      partOfDay,
     });
     setResults(null);
     setPreviewCount(0);
@@ -440,6 +746,7 @@ export function AudienceFilterForm({
           matchCount: data.matchCount,
           filters: data.filters,
           customers: data.customers || [],
+          coverage: data.coverage,
         };
         setResults(segmentResults);
         setPreviewCount(data.matchCount);
@@ -480,6 +787,7 @@ export function AudienceFilterForm({
         "Created Date",
         "Orders",
         "Total Spent",
+        "Predicted CLV",
       ];
 
       let htmlContent = `
@@ -517,6 +825,7 @@ export function AudienceFilterForm({
                     <td>${customer.createdAt}</td>
                     <td>${customer.numberOfOrders}</td>
                     <td>${customer.totalSpent}</td>
+                    <td>${customer.predictedClv}</td>
                   </tr>
                 `,
                   )
@@ -565,6 +874,7 @@ export function AudienceFilterForm({
         "Created Date",
         "Orders",
         "Total Spent",
+        "Predicted CLV",
       ];
       const csvRows = [
         headers.join(","),
@@ -576,6 +886,7 @@ export function AudienceFilterForm({
             `"${customer.createdAt}"`,
             customer.numberOfOrders.toString(),
             `"${customer.totalSpent}"`,
+            `"${customer.predictedClv}"`,
           ].join(","),
         ),
       ];
@@ -615,6 +926,7 @@ export function AudienceFilterForm({
         "Created Date",
         "Orders",
         "Total Spent",
+        "Predicted CLV",
       ];
       const csvRows = [
         headers.join(","),
@@ -626,6 +938,7 @@ export function AudienceFilterForm({
             `"${customer.createdAt}"`,
             customer.numberOfOrders.toString(),
             `"${customer.totalSpent}"`,
+            `"${customer.predictedClv}"`,
           ].join(","),
         ),
       ];
@@ -734,11 +1047,50 @@ export function AudienceFilterForm({
       count++;
     }
 
-    // Count customerCreatedFrom filter (one category)
+    // Count number of orders, average order value and last order (one category each)
+    if (isCriterionActive(filters, "orderCount")) count++;
+    if (isCriterionActive(filters, "averageOrderValue")) count++;
+    if (isCriterionActive(filters, "lastOrder")) count++;
+    if (isCriterionActive(filters, "firstOrder")) count++;
+    if (isCriterionActive(filters, "consent")) count++;
+
+    if (
+      filters.churnRisk &&
+      Array.isArray(filters.churnRisk) &&
+      filters.churnRisk.length > 0
+    )
+      count++;
+
+    // Count tags filter (one category)
     if (
-      filters.customerCreatedFrom != null &&
-      typeof filters.customerCreatedFrom === "string" &&
-      filters.customerCreatedFrom.trim() !== ""
+      filters.tags &&
+      (filters.tags.customerTags.length > 0 || filters.tags.orderTags.length > 0)
+    ) {
+      count++;
+    }
+
+    if (
+      filters.excludedTags &&
+      Array.isArray(filters.excludedTags) &&
+      filters.excludedTags.length > 0
+    )
+      count++;
+
+    // Count predictedClv filter (one category)
+    if (
+      filters.predictedClv &&
+      filters.predictedClv.amount != null &&
+      filters.predictedClv.operator != null
+    ) {
+      count++;
+    }
+
+    // Count customerCreatedFrom filter, fixed or relative (one category)
+    if (
+      (filters.customerCreatedFrom != null &&
+        typeof filters.customerCreatedFrom === "string" &&
+        filters.customerCreatedFrom.trim() !== "") ||
+      isCriterionActive(filters, "customerCreated")
     ) {
       count++;
     }
@@ -941,9 +1293,18 @@ export function AudienceFilterForm({
                 totalFiltersCount={totalFiltersCount}
                 onClearAll={handleClearAll}
                 onSubmit={() => handleSubmit()}
+                onBulkSubmit={handleBulkSubmit}
                 isSubmitting={isSubmitting}
               />
 
+              {/* AND/OR/NOT logic between the active filters */}
+              {totalFiltersCount > 0 && (
+                <FilterGroupBuilder
+                  filters={selectedFilters}
+                  onChange={handleExpressionChange}
+                />
+              )}
+
               {/* Geographic Location Filter */}
               <GeographicLocation
                 countries={countries}
@@ -979,6 +1340,17 @@ export function AudienceFilterForm({
                   handleFilterChange("timing", value, checked)
                 }
                 isLoading={isLoading}
+                partOfDay={partOfDay}
+              />
+
+              {/* Device Filter */}
+              <Device
+                selectedFilters={selectedFilters.device || []}
+                isExpanded={expandedSections.device || false}
+                onToggle={() => toggleSection("device")}
+                onFilterChange={(value, checked) =>
+                  handleFilterChange("device", value, checked)
+                }
               />
 
               {/* Amount Spent Filter */}
@@ -989,12 +1361,88 @@ export function AudienceFilterForm({
                 onFilterChange={handleAmountSpentChange}
               />
 
+              {/* Number of Orders Filter */}
+              <OrderCount
+                selectedFilter={selectedFilters.orderCount}
+                isExpanded={expandedSections.orderCount || false}
+                onToggle={() => toggleSection("orderCount")}
+                onFilterChange={(filter) => handleRangeChange("orderCount", filter)}
+              />
+
+              {/* Average Order Value Filter */}
+              <AverageOrderValue
+                selectedFilter={selectedFilters.averageOrderValue}
+                isExpanded={expandedSections.averageOrderValue || false}
+                onToggle={() => toggleSection("averageOrderValue")}
+                onFilterChange={(filter) =>
+                  handleRangeChange("averageOrderValue", filter)
+                }
+              />
+
+              {/* Last Order Filter */}
+              <LastOrder
+                selectedFilter={selectedFilters.lastOrder}
+                isExpanded={expandedSections.lastOrder || false}
+                onToggle={() => toggleSection("lastOrder")}
+                onFilterChange={handleLastOrderChange}
+              />
+
+              {/* First Order Filter */}
+              <FirstOrder
+                selectedDate={selectedFilters.firstOrder}
+                isExpanded={expandedSections.firstOrder || false}
+                onToggle={() => toggleSection("firstOrder")}
+                onFilterChange={(date) => handleRelativeDateChange("firstOrder", date)}
+              />
+
+              {/* Predicted CLV Filter */}
+              <PredictedClv
+                selectedFilter={selectedFilters.predictedClv}
+                isExpanded={expandedSections.predictedClv || false}
+                onToggle={() => toggleSection("predictedClv")}
+                onFilterChange={handlePredictedClvChange}
+              />
+
+              {/* Churn Risk Filter */}
+              <ChurnRisk
+                selectedFilters={selectedFilters.churnRisk || []}
+                isExpanded={expandedSections.churnRisk || false}
+                onToggle={() => toggleSection("churnRisk")}
+                onFilterChange={(value, checked) =>
+                  handleFilterChange("churnRisk", value, checked)
+                }
+              />
+
+              {/* Tags Filter */}
+              <Tags
+                customerTags={customerTags}
+                orderTags={orderTags}
+                selectedFilter={selectedFilters.tags}
+                excludedTags={selectedFilters.excludedTags || []}
+                isExpanded={expandedSections.tags || false}
+                onToggle={() => toggleSection("tags")}
+                onFilterChange={handleTagsChange}
+                onExcludedTagsChange={handleExcludedTagsChange}
+              />
+
+              {/* Marketing Consent Filter */}
+              <Consent
+                selectedFilter={selectedFilters.consent}
+                isExpanded={expandedSections.consent || false}
+                onToggle={() => toggleSection("consent")}
+                onFilterChange={handleConsentChange}
+              />
+
               {/* Customer Created From Filter */}
               <CustomerCreatedFrom
                 selectedDate={selectedFilters.customerCreatedFrom}
                 isExpanded={expandedSections.customerCreatedFrom || false}
                 onToggle={() => toggleSection("customerCreatedFrom")}
                 onFilterChange={handleCustomerCreatedFromChange}
+                selectedRelativeDate={selectedFilters.customerCreated}
+                onRelativeDateChange={(date) =>
+                  handleRelativeDateChange("customerCreated", date)
+                }
               />
               {/* Payment and Delivery Filters in Grid */}
               <Grid>
@@ -1064,9 +1512,14 @@ export function AudienceFilterForm({
         onClose={() => {
           setShowResultsModal(false);
           setResults(null); // Clear results when modal closes
+          if (bulkProgress) {
+            stopBulkPolling();
+            setIsSubmitting(false);
+          }
         }}
         results={results}
         isLoading={isSubmitting}
+        loadingMessage={bulkProgress}
         isExporting={isExporting}
         onExportPDF={handleExportPDF}
         onExportCSV={handleExportCSV}
@@ -1074,8 +1527,32 @@ export function AudienceFilterForm({
         onCreateCampaign={() => console.log("Create campaign:", results)}
         onSaveList={handleSaveList}
         onExportStart={() => setIsExporting(true)}
+        exportProviders={exportProviders}
+        onExportToProvider={(provider) => {
+          if (!results) return;
+          setShowResultsModal(false);
+          setProviderExport({
+            provider,
+            source: {
+              type: "filters",
+              filters: results.filters,
+              name: listName || "Filter Audience Segment",
+              customerCount: results.matchCount,
+            },
+          });
+        }}
       />
 
+      {/* Export To Provider Modal */}
+      {providerExport && (
+        <ExportToProviderModal
+          open={true}
+          onClose={() => setProviderExport(null)}
+          provider={providerExport.provider}
+          source={providerExport.source}
+        />
+      )}
+
       {/* Save List Modal */}
       <SaveListModal
         open={showSaveListModal}
@@ -5,15 +5,18 @@
  * 
  * Query Structure:
  * - Uses the amountSpent field that's already included in the base customer query
- * - Filters customers based on minimum or maximum amount spent
+ * - Filters customers based on minimum, maximum or a range of amount spent
  * 
  * Usage:
  * This query will be combined with other filter queries to create a final compiled query.
  */
 
+import { buildRangeSearchQuery } from "./searchQuery";
+
 export interface AmountSpentFilter {
   amount: number | null;
-  operator: "min" | "max" | null; // "min" means minimum (>=), "max" means maximum (<=)
+  operator: "min" | "max" | "between" | null; // "min" means minimum (>=), "max" means maximum (<=)
+  maxAmount?: number | null; // Upper bound (<=) when operator is "between"
 }
 
 /**
@@ -27,12 +30,33 @@ export function buildAmountSpentQueryFragment(): string {
   return "";
 }
 
+/**
+ * Build the Shopify customer search query for amount spent filtering
+ * 
+ * Uses the `amount_spent` search field so Shopify only returns matching customers.
+ * Returns null when there's nothing to filter (same as filterByAmountSpent).
+ */
+export function buildAmountSpentSearchQuery(
+  filter: AmountSpentFilter
+): string | null {
+  if (!filter.amount || !filter.operator) {
+    return null;
+  }
+
+  if (filter.operator === "between") {
+    return buildRangeSearchQuery("amount_spent", filter.amount, filter.maxAmount);
+  }
+
+  return `amount_spent:${filter.operator === "min" ? ">=" : "<="}${filter.amount}`;
+}
+
 /**
  * Filter customers by amount spent
  * 
  * This function filters customers based on their total amount spent
  * - "min" operator: customers who spent >= the specified amount
  * - "max" operator: customers who spent <= the specified amount
+ * - "between" operator: customers who spent >= amount and <= maxAmount
  */
 export function filterByAmountSpent(
   customers: any[],
@@ -60,6 +84,12 @@ export function filterByAmountSpent(
       // Maximum: customer must have spent <= filterAmount
       // If customer has no spending data (0), they are included (0 <= max)
       return customerAmount <= filterAmount;
+    } else if (filter.operator === "between") {
+      // Between: an open upper bound works like a minimum
+      return (
+        customerAmount >= filterAmount &&
+        (filter.maxAmount == null || customerAmount <= filter.maxAmount)
+      );
     }
 
     return false;
@@ -0,0 +1,62 @@
+/**
+ * Average Order Value Query Builder
+ *
+ * This file contains the query logic for filtering customers by their average order
+ * value (amount spent / number of orders).
+ *
+ * Query Structure:
+ * - Uses the amountSpent and numberOfOrders fields already in the base customer query
+ * - Shopify can't search on the ratio, so this criterion is always post-filtered
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+export interface AverageOrderValueFilter {
+  min: number | null;
+  max: number | null;
+}
+
+interface AverageOrderValueCustomer {
+  id: string;
+  numberOfOrders?: string | number;
+  amountSpent?: { amount: string } | null;
+}
+
+/**
+ * Get a customer's average order value, or null when they have no orders
+ */
+export function getCustomerAverageOrderValue(customer: AverageOrderValueCustomer): number | null {
+  const orderCount = Number(customer.numberOfOrders || 0);
+  if (orderCount === 0) {
+    return null;
+  }
+
+  const amountSpent = parseFloat(customer.amountSpent?.amount || "0") || 0;
+  return amountSpent / orderCount;
+}
+
+/**
+ * Filter customers by average order value (bounds are inclusive)
+ * Customers without orders have no average order value and never match.
+ */
+export function filterByAverageOrderValue<T extends AverageOrderValueCustomer>(
+  customers: T[],
+  filter: AverageOrderValueFilter
+): T[] {
+  if (filter.min == null && filter.max == null) {
+    return customers; // No filter applied, return all
+  }
+
+  return customers.filter((customer) => {
+    const averageOrderValue = getCustomerAverageOrderValue(customer);
+    if (averageOrderValue === null) {
+      return false;
+    }
+
+    return (
+      (filter.min == null || averageOrderValue >= filter.min) &&
+      (filter.max == null || averageOrderValue <= filter.max)
+    );
+  });
+}
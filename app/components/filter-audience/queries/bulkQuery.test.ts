@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assembleBulkCustomers,
+  buildBulkCustomerQuery,
+  buildBulkOrderQuery,
+  type BulkRecord,
+} from "./bulkQuery";
+import { parseJsonLines } from "../../../utils/jsonl";
+import type { FilterData } from "../types";
+
+function filters(overrides: Partial<FilterData> = {}): FilterData {
+  return {
+    location: [],
+    products: [],
+    timing: [],
+    device: [],
+    payment: [],
+    delivery: [],
+    ...overrides,
+  };
+}
+
+// Fixture JSONL as Shopify writes it: nested nodes on their own lines with __parentId
+function jsonl(...records: object[]) {
+  return parseJsonLines<BulkRecord>(
+    (async function* () {
+      yield records.map((record) => JSON.stringify(record)).join("\n");
+    })(),
+  );
+}
+
+// Deepest nesting of connections (`edges { ... }` blocks) in a bulk query
+function connectionDepth(query: string): number {
+  const openedByEdges: boolean[] = [];
+  let maxDepth = 0;
+
+  for (const token of query.match(/edges\s*\{|\{|\}/g) || []) {
+    if (token === "}") {
+      openedByEdges.pop();
+      continue;
+    }
+    openedByEdges.push(token !== "{");
+    maxDepth = Math.max(maxDepth, openedByEdges.filter(Boolean).length);
+  }
+
+  return maxDepth;
+}
+
+describe("bulk queries", () => {
+  it("reads customers without orders", () => {
+    const query = buildBulkCustomerQuery(filters({ products: ["Hat"] }));
+
+    assert.equal(connectionDepth(query), 1);
+  });
+
+  it("skips the orders query when no criterion needs the order history", () => {
+    assert.equal(buildBulkOrderQuery(filters({ location: ["US"] })), null);
+  });
+
+  it("reads orders with their customer ID and line items", () => {
+    const query = buildBulkOrderQuery(
+      filters({ products: ["Hat"], delivery: ["Express"] }),
+    )!;
+
+    assert.match(query, /orders\s*\{/);
+    assert.match(query, /customer\s*\{\s*id\s*\}/);
+    assert.match(query, /lineItems/);
+    assert.match(query, /shippingLines/);
+    assert.equal(connectionDepth(query), 2);
+  });
+});
+
+describe("assembleBulkCustomers", () => {
+  it("groups orders by customer and links children through __parentId", async () => {
+    const customers = await assembleBulkCustomers(
+      jsonl(
+        { __typename: "Customer", id: "C1" },
+        { __typename: "Customer", id: "C2" },
+      ),
+      jsonl(
+        { __typename: "Order", id: "O1", customer: { id: "C1" } },
+        { __typename: "Order", id: "O2", customer: { id: "C2" } },
+        { __typename: "LineItem", product: { title: "Hat" }, __parentId: "O1" },
+        { __typename: "ShippingLine", title: "Express", __parentId: "O2" },
+        { __typename: "Order", id: "O3", customer: { id: "C1" } },
+        { __typename: "LineItem", product: { title: "Cap" }, __parentId: "O1" },
+        // Guest orders and customers outside the search are dropped
+        { __typename: "Order", id: "O4", customer: null },
+        { __typename: "Order", id: "O5", customer: { id: "C9" } },
+        { __typename: "LineItem", product: { title: "Scarf" }, __parentId: "O5" },
+      ),
+    );
+
+    const [first, second] = customers;
+    assert.deepEqual(
+      first.orders.edges.map((edge) => edge.node.id),
+      ["O1", "O3"],
+    );
+    assert.equal(first.orders.edges[0].node.customer, undefined);
+    assert.deepEqual(
+      first.orders.edges[0].node.lineItems.edges.map(
+        (edge) => (edge.node.product as { title: string }).title,
+      ),
+      ["Hat", "Cap"],
+    );
+    assert.deepEqual(
+      second.orders.edges[0].node.shippingLines.map((line) => line.title),
+      ["Express"],
+    );
+  });
+
+  it("keeps customers without orders", async () => {
+    const customers = await assembleBulkCustomers(
+      jsonl({ __typename: "Customer", id: "C1" }),
+    );
+
+    assert.deepEqual(customers, [{ __typename: "Customer", id: "C1", orders: { edges: [] } }]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Bulk Operation Query Builder
+ *
+ * This file contains the query logic for generating segments with Shopify Bulk Operations.
+ *
+ * Shopify allows at most two levels of nested connections in a bulk query, so
+ * customers → orders → line items can't be read in one operation. Segments are
+ * read with up to two operations run one after the other:
+ * - Customers: same customer fields and search string as the paginated query
+ *   (see queryCompiler.ts), without orders
+ * - Orders (only when post-filters need the order history): every order with its
+ *   line items and shipping lines and the `customer { id }` it belongs to
+ *
+ * Bulk operation results are JSONL files where nested connection nodes are
+ * flattened into their own lines, linked to their parent through `__parentId`.
+ * BulkCustomerAssembler groups the orders by customer and rebuilds the nested
+ * shape the filter functions expect.
+ */
+
+import type { FilterData } from "../types";
+import { translateFilters, getExpressionCriteria } from "./queryCompiler";
+import { DEVICE_ORDER_FIELDS } from "./device";
+import { buildConsentQueryFragment } from "./consent";
+
+/**
+ * A JSONL line of a bulk operation result
+ */
+export interface BulkRecord {
+  __typename: string;
+  __parentId?: string;
+  id?: string;
+  [field: string]: unknown;
+}
+
+export interface BulkOrder extends BulkRecord {
+  lineItems: { edges: { node: BulkRecord }[] };
+  shippingLines: BulkRecord[];
+}
+
+export interface BulkCustomer extends BulkRecord {
+  orders: { edges: { node: BulkOrder }[] };
+}
+
+/**
+ * Get the order fields needed by the post-filtered criteria
+ * Returns an empty list when no criterion reads the order history.
+ */
+function getBulkOrderFields(filters: FilterData): string[] {
+  const { postFilterExpression } = translateFilters(filters);
+  const criteria = getExpressionCriteria(postFilterExpression);
+
+  const orderFields: string[] = [];
+
+  // Churn risk and first order read the first order from the full order history
+  if (criteria.has("timing") || criteria.has("churnRisk") || criteria.has("firstOrder")) {
+    orderFields.push(`createdAt`);
+  }
+
+  if (criteria.has("payment")) {
+    orderFields.push(`paymentGatewayNames`);
+    orderFields.push(`displayFinancialStatus`);
+  }
+
+  if (criteria.has("device")) {
+    orderFields.push(DEVICE_ORDER_FIELDS);
+  }
+
+  if (criteria.has("tags") && (filters.tags?.orderTags.length ?? 0) > 0) {
+    orderFields.push(`tags`);
+  }
+
+  if (criteria.has("products")) {
+    orderFields.push(`
+          lineItems {
+            edges {
+              node {
+                __typename
+                product {
+                  id
+                  title
+                  productType
+                }
+              }
+            }
+          }`);
+  }
+
+  if (criteria.has("delivery")) {
+    orderFields.push(`
+          shippingLines {
+            edges {
+              node {
+                __typename
+                title
+                originalPriceSet {
+                  shopMoney {
+                    amount
+                  }
+                }
+              }
+            }
+          }`);
+  }
+
+  return orderFields;
+}
+
+/**
+ * Build the customers query passed to bulkOperationRunQuery
+ *
+ * Only fields needed by post-filtered criteria are requested.
+ */
+export function buildBulkCustomerQuery(filters: FilterData): string {
+  const { searchQuery, postFilterExpression } = translateFilters(filters);
+  const criteria = getExpressionCriteria(postFilterExpression);
+
+  const queryArgument = searchQuery ? `(query: ${JSON.stringify(searchQuery)})` : "";
+
+  return `
+    {
+      customers${queryArgument} {
+        edges {
+          node {
+            __typename
+            id
+            displayName
+            email
+            createdAt
+            numberOfOrders
+            amountSpent {
+              amount
+              currencyCode
+            }
+            lastOrder {
+              createdAt
+            }
+            emailMarketingConsent {
+              marketingState
+              marketingOptInLevel
+            }
+            ${criteria.has("tags") || criteria.has("excludedTags") ? "tags" : ""}
+            ${criteria.has("consent") ? buildConsentQueryFragment() : ""}
+            defaultAddress {
+              country
+              countryCodeV2
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Build the order-centric query passed to bulkOperationRunQuery
+ * Returns null when the post-filters don't need the order history.
+ */
+export function buildBulkOrderQuery(filters: FilterData): string | null {
+  const orderFields = getBulkOrderFields(filters);
+
+  if (orderFields.length === 0) {
+    return null;
+  }
+
+  return `
+    {
+      orders {
+        edges {
+          node {
+            __typename
+            id
+            customer {
+              id
+            }
+            ${orderFields.join("\n            ")}
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Rebuild nested customers from bulk operation JSONL records
+ *
+ * The customers result is read first, then the orders result (if any) is streamed
+ * and grouped by customer. Records are linked as they arrive, nothing is buffered:
+ * orders become customer.orders.edges, line items order.lineItems.edges and
+ * shipping lines order.shippingLines (a plain list), matching the shape of the
+ * paginated query so the same filter functions can be applied.
+ *
+ * Orders of customers outside the segment's search (and guest orders) are dropped
+ * right away. Children may appear anywhere after their order, so orders are
+ * looked up by ID.
+ */
+export async function assembleBulkCustomers(
+  customerRecords: AsyncIterable<BulkRecord>,
+  orderRecords: AsyncIterable<BulkRecord> | null = null
+): Promise<BulkCustomer[]> {
+  const customers: BulkCustomer[] = [];
+  const customersById = new Map<string, BulkCustomer>();
+  const ordersById = new Map<string, BulkOrder>();
+
+  for await (const record of customerRecords) {
+    if (record.__typename === "Customer" && record.id) {
+      const customer: BulkCustomer = { ...record, orders: { edges: [] } };
+      customers.push(customer);
+      customersById.set(record.id, customer);
+    }
+  }
+
+  if (!orderRecords) {
+    return customers;
+  }
+
+  for await (const record of orderRecords) {
+    switch (record.__typename) {
+      case "Order": {
+        const { customer: owner, ...fields } = record;
+        const customer = customersById.get((owner as { id?: string } | null)?.id || "");
+        if (!customer || !record.id) {
+          break;
+        }
+
+        const order: BulkOrder = { ...fields, lineItems: { edges: [] }, shippingLines: [] };
+        customer.orders.edges.push({ node: order });
+        ordersById.set(record.id, order);
+        break;
+      }
+      case "LineItem":
+        ordersById.get(record.__parentId || "")?.lineItems.edges.push({ node: record });
+        break;
+      case "ShippingLine":
+        ordersById.get(record.__parentId || "")?.shippingLines.push(record);
+        break;
+    }
+  }
+
+  return customers;
+}
@@ -0,0 +1,93 @@
+/**
+ * Churn Risk Query Builder
+ *
+ * This file contains the query logic for filtering customers by churn risk band
+ * (Low / Medium / High): how overdue their next order is compared to their own
+ * usual interval between orders (see utils/churn).
+ *
+ * Query Structure:
+ * - Uses numberOfOrders and lastOrder from the base customer query
+ * - Adds the customer's first order (aliased, so it doesn't clash with the orders
+ *   fragment of the order-based filters)
+ * - Shopify can't search on a computed value, so this filter is always post-processed
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import { scoreChurnRisk, type ChurnRiskScore } from "../../../utils/churn";
+import { buildFirstOrderQueryFragment, getCustomerFirstOrderDate } from "./firstOrder";
+
+export interface ChurnRiskFilter {
+  bands: string[]; // "low" | "medium" | "high"
+}
+
+/**
+ * Customer node fields read by the churn risk scoring
+ */
+interface ChurnRiskCustomer {
+  id: string;
+  numberOfOrders?: string | number;
+  lastOrder?: { createdAt: string } | null;
+  firstOrder?: { edges?: { node?: { createdAt?: string } | null }[] } | null;
+  orders?: { edges?: { node?: { createdAt?: string } | null }[] } | null;
+}
+
+/**
+ * Build GraphQL query fragment for churn risk filtering
+ *
+ * Fetches the customer's first order; the last order is already in the base query.
+ */
+export function buildChurnRiskQueryFragment(): string {
+  return buildFirstOrderQueryFragment();
+}
+
+/**
+ * Get the churn risk of a customer node
+ *
+ * Falls back to the customer's order history for the first and last order dates
+ * (bulk operation results have every order but no firstOrder/lastOrder fields).
+ * Returns null for customers without orders.
+ */
+export function getCustomerChurnRisk(
+  customer: ChurnRiskCustomer,
+  now: Date = new Date()
+): ChurnRiskScore | null {
+  const orderDates = (customer.orders?.edges || [])
+    .map((edge) => edge.node?.createdAt)
+    .filter((createdAt): createdAt is string => !!createdAt)
+    .sort();
+
+  return scoreChurnRisk(
+    {
+      id: customer.id,
+      orderCount: Number(customer.numberOfOrders || 0),
+      firstOrderDate: getCustomerFirstOrderDate(customer),
+      lastOrderDate:
+        customer.lastOrder?.createdAt || orderDates[orderDates.length - 1] || null,
+    },
+    now
+  );
+}
+
+/**
+ * Filter customers by churn risk band
+ *
+ * Customers in any of the selected bands match (OR logic).
+ * Customers without orders have no churn risk and never match.
+ */
+export function filterByChurnRisk<T extends ChurnRiskCustomer>(
+  customers: T[],
+  filter: ChurnRiskFilter
+): T[] {
+  if (!filter.bands || filter.bands.length === 0) {
+    return customers; // No filter applied, return all
+  }
+
+  const now = new Date();
+
+  return customers.filter((customer) => {
+    const churnRisk = getCustomerChurnRisk(customer, now);
+    return churnRisk !== null && filter.bands.includes(churnRisk.band);
+  });
+}
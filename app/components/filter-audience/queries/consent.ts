@@ -0,0 +1,67 @@
+/**
+ * Marketing Consent Query Builder
+ *
+ * This file contains the query logic for filtering customers by their email and SMS
+ * marketing consent (subscribed, unsubscribed, pending, not subscribed) and opt-in level.
+ *
+ * Query Structure:
+ * - emailMarketingConsent is part of the base customer query (the export consent
+ *   guard needs it for every result)
+ * - Adds smsMarketingConsent
+ * - Shopify's customer search has no consent fields, so this filter is always post-processed
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import type { ConsentFilter } from "../types";
+import {
+  getMarketingConsent,
+  matchesConsent,
+  type ConsentNode,
+} from "../../../utils/marketingConsent";
+
+export type { ConsentFilter };
+
+interface ConsentCustomer {
+  id: string;
+  emailMarketingConsent?: ConsentNode | null;
+  smsMarketingConsent?: ConsentNode | null;
+}
+
+/**
+ * Build GraphQL query fragment for consent filtering (SMS consent)
+ */
+export function buildConsentQueryFragment(): string {
+  return `
+    smsMarketingConsent {
+      marketingState
+      marketingOptInLevel
+    }
+  `;
+}
+
+/**
+ * Filter customers by marketing consent
+ *
+ * Selected states of a channel are alternatives (subscribed or pending); when both
+ * email and SMS states are selected, both channels must match.
+ */
+export function filterByConsent<T extends ConsentCustomer>(
+  customers: T[],
+  filter: ConsentFilter
+): T[] {
+  if (filter.emailStates.length === 0 && filter.smsStates.length === 0) {
+    return customers; // No filter applied, return all
+  }
+
+  return customers.filter((customer) => {
+    const emailMatches =
+      filter.emailStates.length === 0 ||
+      matchesConsent(getMarketingConsent(customer, "email"), filter.emailStates, filter.optInLevels);
+    const smsMatches =
+      filter.smsStates.length === 0 ||
+      matchesConsent(getMarketingConsent(customer, "sms"), filter.smsStates, filter.optInLevels);
+    return emailMatches && smsMatches;
+  });
+}
@@ -6,11 +6,21 @@
  * Query Structure:
  * - Uses the createdAt field that's already included in the base customer query
  * - Filters customers based on creation date (customers created on or after the specified date)
+ * - Relative dates ("in the last 30 days") are resolved when the query is built, so
+ *   saved segments keep rolling forward
  * 
  * Usage:
  * This query will be combined with other filter queries to create a final compiled query.
  */
 
+import {
+  isDateInRange,
+  resolveRelativeDate,
+  type RelativeDate,
+} from "../../../utils/relativeDate";
+import { DEFAULT_TIMEZONE } from "../../../utils/dateRange";
+import { buildRangeSearchQuery } from "./searchQuery";
+
 export interface CustomerCreatedFromFilter {
   date: string | null; // ISO date string (YYYY-MM-DD)
 }
@@ -26,6 +36,22 @@ export function buildCustomerCreatedFromQueryFragment(): string {
   return "";
 }
 
+/**
+ * Build the Shopify customer search query for customer created from filtering
+ * 
+ * Uses the `customer_date` search field (customers created on or after the date).
+ */
+export function buildCustomerCreatedFromSearchQuery(
+  filter: CustomerCreatedFromFilter
+): string | null {
+  // Anything but a plain date is left to post-filtering
+  if (!filter.date || !/^\d{4}-\d{2}-\d{2}$/.test(filter.date)) {
+    return null;
+  }
+
+  return `customer_date:>=${filter.date}`;
+}
+
 /**
  * Filter customers by creation date
  * 
@@ -58,3 +84,32 @@ export function filterByCustomerCreatedFrom(
   });
 }
 
+/**
+ * Build the Shopify customer search query for a relative creation date
+ * 
+ * Uses the `customer_date` search field with the dates resolved against today in
+ * the shop's timezone.
+ */
+export function buildCustomerCreatedSearchQuery(
+  relative: RelativeDate,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  const { from, to } = resolveRelativeDate(relative, timezone, now);
+  return buildRangeSearchQuery("customer_date", from, to);
+}
+
+/**
+ * Filter customers by a relative creation date (e.g. created in the last 30 days)
+ */
+export function filterByCustomerCreated<T extends { id: string; createdAt?: string }>(
+  customers: T[],
+  relative: RelativeDate,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): T[] {
+  const range = resolveRelativeDate(relative, timezone, now);
+  return customers.filter((customer) =>
+    isDateInRange(customer.createdAt, range, timezone)
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Device Query Builder
+ *
+ * This file contains the query logic for filtering customers by the device, operating
+ * system and browser they ordered from (see utils/device for the classification).
+ *
+ * Query Structure:
+ * - Fetches customers with their orders' source name and landing page
+ * - Filters customers who have placed an order from a matching device
+ *
+ * Note: The GraphQL Admin API doesn't expose order user agents. They are only
+ * stored on warehouse orders received through order webhooks; backfilled and
+ * Shopify-fetched orders are classified from the source name and landing page, so
+ * browser and desktop options only match orders placed since the webhooks were set up.
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import {
+  classifyOrderDevice,
+  matchesDeviceOptions,
+  type DeviceClassification,
+} from "../../../utils/device";
+
+export interface DeviceFilter {
+  devices: string[]; // e.g., ["Mobile", "iOS", "Safari"]
+}
+
+/**
+ * Order fields read by the device classification
+ */
+export const DEVICE_ORDER_FIELDS = `sourceName
+          customerJourneySummary {
+            lastVisit {
+              landingPage
+            }
+          }`;
+
+/**
+ * Order node fields read by the device classification (userAgent is only set on
+ * warehouse orders)
+ */
+interface DeviceOrderNode {
+  userAgent?: string | null;
+  sourceName?: string | null;
+  customerJourneySummary?: { lastVisit?: { landingPage?: string | null } | null } | null;
+}
+
+interface DeviceCustomer {
+  id: string;
+  orders?: { edges?: { node?: DeviceOrderNode | null }[] } | null;
+}
+
+/**
+ * Classify the device of an order node (GraphQL or warehouse)
+ */
+export function getOrderDevice(order: DeviceOrderNode | null | undefined): DeviceClassification {
+  return classifyOrderDevice({
+    userAgent: order?.userAgent,
+    sourceName: order?.sourceName,
+    landingSite: order?.customerJourneySummary?.lastVisit?.landingPage,
+  });
+}
+
+/**
+ * Filter customers by device
+ *
+ * A customer matches if any of their orders matches the selected options:
+ * options of the same kind are alternatives (Mobile or Tablet), different kinds
+ * must all match on the same order (Mobile and iOS).
+ */
+export function filterByDevice<T extends DeviceCustomer>(
+  customers: T[],
+  filter: DeviceFilter
+): T[] {
+  if (!filter.devices || filter.devices.length === 0) {
+    return customers; // No filter applied, return all
+  }
+
+  return customers.filter((customer) => {
+    const orders = customer.orders?.edges || [];
+    return orders.some((orderEdge) =>
+      matchesDeviceOptions(getOrderDevice(orderEdge.node), filter.devices)
+    );
+  });
+}
+
+/**
+ * Get the device types a customer has ordered from
+ */
+export function getCustomerDeviceTypes(customer: DeviceCustomer): string[] {
+  const deviceTypes = new Set<string>();
+  const orders = customer.orders?.edges || [];
+
+  orders.forEach((orderEdge) => {
+    const { deviceType } = getOrderDevice(orderEdge.node);
+    if (deviceType) {
+      deviceTypes.add(deviceType);
+    }
+  });
+
+  return Array.from(deviceTypes);
+}
@@ -0,0 +1,78 @@
+/**
+ * First Order Query Builder
+ *
+ * This file contains the query logic for filtering customers by the date of their
+ * first order, as a relative date ("in the last 30 days", "this quarter", ...).
+ *
+ * Query Structure:
+ * - Adds the customer's first order (aliased, so it doesn't clash with the orders
+ *   fragment of the order-based filters)
+ * - Shopify can't search on the first order date, so this filter is always post-processed
+ * - The relative date is resolved when the filter runs, so saved segments keep rolling
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import {
+  isDateInRange,
+  resolveRelativeDate,
+  type RelativeDate,
+} from "../../../utils/relativeDate";
+import { DEFAULT_TIMEZONE } from "../../../utils/dateRange";
+
+interface FirstOrderCustomer {
+  id: string;
+  firstOrder?: { edges?: { node?: { createdAt?: string } | null }[] } | null;
+  orders?: { edges?: { node?: { createdAt?: string } | null }[] } | null;
+}
+
+/**
+ * Build GraphQL query fragment for the customer's first order
+ */
+export function buildFirstOrderQueryFragment(): string {
+  return `
+    firstOrder: orders(first: 1, sortKey: CREATED_AT) {
+      edges {
+        node {
+          createdAt
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Get the date of a customer's first order, or null when they never ordered
+ *
+ * Falls back to the customer's order history (bulk operation results have every
+ * order but no firstOrder field).
+ */
+export function getCustomerFirstOrderDate(customer: FirstOrderCustomer): string | null {
+  const firstOrderDate = customer.firstOrder?.edges?.[0]?.node?.createdAt;
+  if (firstOrderDate) {
+    return firstOrderDate;
+  }
+
+  const orderDates = (customer.orders?.edges || [])
+    .map((edge) => edge.node?.createdAt)
+    .filter((createdAt): createdAt is string => !!createdAt)
+    .sort();
+  return orderDates[0] || null;
+}
+
+/**
+ * Filter customers by the date of their first order
+ * Customers who never ordered never match.
+ */
+export function filterByFirstOrder<T extends FirstOrderCustomer>(
+  customers: T[],
+  relative: RelativeDate,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): T[] {
+  const range = resolveRelativeDate(relative, timezone, now);
+  return customers.filter((customer) =>
+    isDateInRange(getCustomerFirstOrderDate(customer), range, timezone)
+  );
+}
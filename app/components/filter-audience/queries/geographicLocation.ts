@@ -12,6 +12,7 @@
  */
 
 import type { AdminGraphQL } from "../../../services/dashboard.server";
+import { quoteSearchValue } from "./searchQuery";
 
 export interface GeographicLocationFilter {
   countries: string[];
@@ -93,6 +94,27 @@ export function buildGeographicLocationQueryFragment(): string {
   `;
 }
 
+/**
+ * Build the Shopify customer search query for geographic location filtering
+ * 
+ * Shopify matches `country` against the default address, accepting country names,
+ * so the filter can be evaluated natively instead of post-filtering.
+ */
+export function buildGeographicLocationSearchQuery(
+  filter: GeographicLocationFilter
+): string | null {
+  const targetCountries = normalizeCountries(filter.countries);
+
+  if (targetCountries.length === 0) {
+    return null;
+  }
+
+  const terms = targetCountries.map(
+    (country) => `country:${quoteSearchValue(country)}`
+  );
+  return terms.length === 1 ? terms[0] : `(${terms.join(" OR ")})`;
+}
+
 /**
  * Filter customers by geographic location
  * 
@@ -10,6 +10,6 @@ export * from "./products";
 export * from "./timing";
 export * from "./payment";
 export * from "./delivery";
-// Export other query builders as they are created:
-// export * from "./device";
+export * from "./device";
+export * from "./tags";
 
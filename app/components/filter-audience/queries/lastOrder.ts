@@ -0,0 +1,97 @@
+/**
+ * Last Order Query Builder
+ *
+ * This file contains the query logic for filtering customers by the date of their
+ * most recent order.
+ *
+ * Query Structure:
+ * - Uses the lastOrder field already in the base customer query
+ * - "between": last order placed between two dates (inclusive, either may be open)
+ * - "notInLast": no order in the last N days, including customers who never ordered
+ * - "relative": last order within a relative date ("this month", "more than 90 days
+ *   ago"), resolved when the filter runs; customers who never ordered don't match
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import {
+  isDateInRange,
+  isRelativeDateValid,
+  resolveRelativeDate,
+  type RelativeDate,
+} from "../../../utils/relativeDate";
+import { DEFAULT_TIMEZONE, formatZonedDay } from "../../../utils/dateRange";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LastOrderFilter {
+  mode: "between" | "notInLast" | "relative";
+  from?: string | null; // ISO date string (YYYY-MM-DD)
+  to?: string | null; // ISO date string (YYYY-MM-DD)
+  days?: number | null;
+  relative?: RelativeDate | null;
+}
+
+interface LastOrderCustomer {
+  id: string;
+  lastOrder?: { createdAt: string } | null;
+}
+
+/**
+ * Get the day (YYYY-MM-DD) of a customer's last order in the shop's timezone, or
+ * null when they never ordered
+ */
+function getLastOrderDate(customer: LastOrderCustomer, timezone: string): string | null {
+  const createdAt = customer.lastOrder?.createdAt;
+  return createdAt ? formatZonedDay(new Date(createdAt), timezone) : null;
+}
+
+/**
+ * Filter customers by the date of their last order
+ */
+export function filterByLastOrder<T extends LastOrderCustomer>(
+  customers: T[],
+  filter: LastOrderFilter,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): T[] {
+  if (filter.mode === "notInLast") {
+    if (!filter.days || filter.days <= 0) {
+      return customers; // No filter applied, return all
+    }
+
+    const cutoff = now.getTime() - filter.days * DAY_MS;
+    return customers.filter((customer) => {
+      const createdAt = customer.lastOrder?.createdAt;
+      return !createdAt || new Date(createdAt).getTime() < cutoff;
+    });
+  }
+
+  if (filter.mode === "relative") {
+    if (!isRelativeDateValid(filter.relative)) {
+      return customers; // No filter applied, return all
+    }
+
+    const range = resolveRelativeDate(filter.relative, timezone, now);
+    return customers.filter((customer) =>
+      isDateInRange(customer.lastOrder?.createdAt, range, timezone)
+    );
+  }
+
+  if (!filter.from && !filter.to) {
+    return customers; // No filter applied, return all
+  }
+
+  return customers.filter((customer) => {
+    const lastOrderDate = getLastOrderDate(customer, timezone);
+    if (!lastOrderDate) {
+      return false; // Never ordered, exclude from results
+    }
+
+    return (
+      (!filter.from || lastOrderDate >= filter.from) &&
+      (!filter.to || lastOrderDate <= filter.to)
+    );
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * Number of Orders Query Builder
+ *
+ * This file contains the query logic for filtering customers by how many orders they've placed.
+ *
+ * Query Structure:
+ * - Uses the `orders_count` search field so Shopify only returns matching customers
+ * - Post-filters on numberOfOrders (already in the base customer query) when the
+ *   criterion can't be pushed into the search string
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import { buildRangeSearchQuery } from "./searchQuery";
+
+export interface OrderCountFilter {
+  min: number | null;
+  max: number | null;
+}
+
+interface OrderCountCustomer {
+  id: string;
+  numberOfOrders?: string | number;
+}
+
+/**
+ * Build the Shopify customer search query for number of orders filtering
+ */
+export function buildOrderCountSearchQuery(filter: OrderCountFilter): string | null {
+  return buildRangeSearchQuery("orders_count", filter.min, filter.max);
+}
+
+/**
+ * Filter customers by number of orders (bounds are inclusive)
+ */
+export function filterByOrderCount<T extends OrderCountCustomer>(
+  customers: T[],
+  filter: OrderCountFilter
+): T[] {
+  if (filter.min == null && filter.max == null) {
+    return customers; // No filter applied, return all
+  }
+
+  return customers.filter((customer) => {
+    const orderCount = Number(customer.numberOfOrders || 0);
+    return (
+      (filter.min == null || orderCount >= filter.min) &&
+      (filter.max == null || orderCount <= filter.max)
+    );
+  });
+}
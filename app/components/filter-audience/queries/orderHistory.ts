@@ -0,0 +1,244 @@
+/**
+ * Order History Pagination
+ *
+ * The customer query only fetches each customer's latest orders (and the first
+ * line items of each order) to keep query cost low. Product, timing and payment
+ * filters match "any order", so evaluating them on that window misclassifies
+ * repeat customers.
+ *
+ * completeOrderHistory() pages the remaining orders and line items of the
+ * customers left after the other criteria were applied, in place, so the filter
+ * functions see the full history. Histories are paged one customer at a time, so
+ * beyond MAX_HISTORY_CUSTOMERS truncated customers nothing is paged and the
+ * segment should go through the bulk operation path (Full Scan) instead.
+ * A request budget bounds the extra work; when it runs out the history stays
+ * truncated and the result is reported as sampled.
+ */
+
+import type { FilterData } from "../types";
+import type { AdminGraphQL } from "../../../services/dashboard.server";
+import {
+  translateFilters,
+  getExpressionCriteria,
+  needsOrderHistory,
+  buildOrderNodeFields,
+} from "./queryCompiler";
+
+const ORDERS_PAGE_SIZE = 50;
+const LINE_ITEMS_PAGE_SIZE = 100;
+// Maximum extra GraphQL requests spent completing order histories per segment
+const MAX_HISTORY_REQUESTS = 200;
+// Maximum customers whose truncated history is paged, use bulk operations beyond this
+const MAX_HISTORY_CUSTOMERS = 25;
+
+export interface OrderHistoryCompletion {
+  complete: boolean;
+  // Customers whose order history is still truncated
+  truncatedCustomers: number;
+  // Too many customers had truncated histories, none were paged
+  fullScanRequired: boolean;
+}
+
+// Paged connections of the customer query, completed in place
+interface HistoryConnection<T> {
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null };
+  edges: { node: T }[];
+}
+
+interface HistoryOrder {
+  id: string;
+  lineItems?: HistoryConnection<unknown>;
+}
+
+interface HistoryCustomer {
+  id: string;
+  orders?: HistoryConnection<HistoryOrder>;
+}
+
+/**
+ * Run a GraphQL request and return its data, throwing on GraphQL errors
+ */
+async function runHistoryQuery(admin: AdminGraphQL, query: string) {
+  const response = await admin.graphql(query);
+  const json = await response.json();
+
+  if (json.errors && json.errors.length > 0) {
+    throw new Error(json.errors[0].message || "Unknown GraphQL error");
+  }
+
+  return json.data;
+}
+
+/**
+ * Page the remaining line items of an order into order.lineItems.edges
+ */
+async function completeLineItems(
+  admin: AdminGraphQL,
+  order: HistoryOrder,
+  budget: { remaining: number }
+): Promise<boolean> {
+  const lineItems = order.lineItems;
+  let pageInfo = lineItems?.pageInfo;
+
+  while (pageInfo?.hasNextPage) {
+    if (budget.remaining <= 0) {
+      return false;
+    }
+    budget.remaining--;
+
+    const data = await runHistoryQuery(
+      admin,
+      `
+        query {
+          order(id: "${order.id}") {
+            lineItems(first: ${LINE_ITEMS_PAGE_SIZE}, after: "${pageInfo.endCursor}") {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  product {
+                    id
+                    title
+                    productType
+                  }
+                }
+              }
+            }
+          }
+        }
+      `
+    );
+
+    const page = data?.order?.lineItems;
+    lineItems!.edges.push(...(page?.edges || []));
+    pageInfo = lineItems!.pageInfo = page?.pageInfo;
+  }
+
+  return true;
+}
+
+/**
+ * Page the remaining orders of a customer into customer.orders.edges
+ */
+async function completeCustomerOrders(
+  admin: AdminGraphQL,
+  customer: HistoryCustomer,
+  orderFields: string,
+  budget: { remaining: number }
+): Promise<boolean> {
+  const orders = customer.orders;
+  let pageInfo = orders?.pageInfo;
+
+  while (pageInfo?.hasNextPage) {
+    if (budget.remaining <= 0) {
+      return false;
+    }
+    budget.remaining--;
+
+    const data = await runHistoryQuery(
+      admin,
+      `
+        query {
+          customer(id: "${customer.id}") {
+            orders(first: ${ORDERS_PAGE_SIZE}, after: "${pageInfo.endCursor}", sortKey: CREATED_AT, reverse: true) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  ${orderFields}
+                }
+              }
+            }
+          }
+        }
+      `
+    );
+
+    const page = data?.customer?.orders;
+    orders!.edges.push(...(page?.edges || []));
+    pageInfo = orders!.pageInfo = page?.pageInfo;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether the orders (or, for product filters, the line items) fetched
+ * with a customer are only the first page
+ */
+function hasTruncatedHistory(customer: HistoryCustomer, withLineItems: boolean): boolean {
+  return (
+    Boolean(customer.orders?.pageInfo?.hasNextPage) ||
+    (withLineItems &&
+      (customer.orders?.edges || []).some(
+        (orderEdge) => orderEdge.node.lineItems?.pageInfo?.hasNextPage
+      ))
+  );
+}
+
+/**
+ * Complete the order history of fetched customers for the post-filtered criteria
+ *
+ * Pass only the customers still matching the criteria that don't need the history.
+ * Mutates the customers in place. Returns whether every customer's history is complete.
+ */
+export async function completeOrderHistory(
+  admin: AdminGraphQL,
+  customers: HistoryCustomer[],
+  filters: FilterData
+): Promise<OrderHistoryCompletion> {
+  const criteria = getExpressionCriteria(
+    translateFilters(filters).postFilterExpression
+  );
+
+  if (!needsOrderHistory(criteria, filters)) {
+    return { complete: true, truncatedCustomers: 0, fullScanRequired: false };
+  }
+
+  const truncated = customers.filter((customer) =>
+    hasTruncatedHistory(customer, criteria.has("products"))
+  );
+
+  if (truncated.length > MAX_HISTORY_CUSTOMERS) {
+    return {
+      complete: false,
+      truncatedCustomers: truncated.length,
+      fullScanRequired: true,
+    };
+  }
+
+  // Line items stay at the default page size to keep each orders page under the cost limit
+  const orderFields = buildOrderNodeFields(criteria);
+  const budget = { remaining: MAX_HISTORY_REQUESTS };
+  let truncatedCustomers = 0;
+
+  for (const customer of truncated) {
+    let complete = await completeCustomerOrders(
+      admin,
+      customer,
+      orderFields,
+      budget
+    );
+
+    if (criteria.has("products")) {
+      for (const orderEdge of customer.orders?.edges || []) {
+        complete =
+          (await completeLineItems(admin, orderEdge.node, budget)) && complete;
+      }
+    }
+
+    if (!complete) {
+      truncatedCustomers++;
+    }
+  }
+
+  return {
+    complete: truncatedCustomers === 0,
+    truncatedCustomers,
+    fullScanRequired: false,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Predicted CLV Query Builder
+ *
+ * This file contains the query logic for filtering customers by their predicted
+ * customer lifetime value (expected spend over the next 12 months, see utils/clv).
+ *
+ * Query Structure:
+ * - Uses numberOfOrders, amountSpent, createdAt and lastOrder, which are already
+ *   included in the base customer query
+ * - Shopify can't search on a computed value, so this filter is always post-processed
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import { predictClv } from "../../../utils/clv";
+
+export interface PredictedClvFilter {
+  amount: number | null;
+  operator: "min" | "max" | null; // "min" means minimum (>=), "max" means maximum (<=)
+}
+
+/**
+ * Customer node fields read by the prediction
+ */
+interface PredictedClvCustomer {
+  id: string;
+  numberOfOrders?: string | number;
+  amountSpent?: { amount: string } | null;
+  createdAt?: string;
+  lastOrder?: { createdAt: string } | null;
+}
+
+/**
+ * Build GraphQL query fragment for predicted CLV filtering
+ *
+ * Note: The fields the prediction needs are already included in the base customer
+ * query (they're also used for the predicted CLV column), so we don't need to add
+ * any additional fields here.
+ */
+export function buildPredictedClvQueryFragment(): string {
+  // No additional fields needed - lastOrder is already in base query
+  return "";
+}
+
+/**
+ * Get the predicted CLV of a customer node
+ */
+export function getCustomerPredictedClv(
+  customer: PredictedClvCustomer,
+  now: Date = new Date()
+): number {
+  return predictClv(
+    {
+      orderCount: Number(customer.numberOfOrders || 0),
+      totalSpent: customer.amountSpent?.amount ? parseFloat(customer.amountSpent.amount) : 0,
+      customerSince: customer.createdAt!,
+      lastOrderDate: customer.lastOrder?.createdAt || null,
+    },
+    now
+  );
+}
+
+/**
+ * Filter customers by predicted CLV
+ *
+ * - "min" operator: customers predicted to spend >= the specified amount
+ * - "max" operator: customers predicted to spend <= the specified amount
+ * Customers without orders have a predicted CLV of 0.
+ */
+export function filterByPredictedClv<T extends PredictedClvCustomer>(
+  customers: T[],
+  filter: PredictedClvFilter
+): T[] {
+  if (filter.amount == null || !filter.operator) {
+    return customers; // No filter applied, return all
+  }
+
+  const filterAmount = filter.amount;
+  const now = new Date();
+
+  return customers.filter((customer) => {
+    const predictedClv = getCustomerPredictedClv(customer, now);
+
+    if (filter.operator === "min") {
+      return predictedClv >= filterAmount;
+    } else if (filter.operator === "max") {
+      return predictedClv <= filterAmount;
+    }
+
+    return false;
+  });
+}
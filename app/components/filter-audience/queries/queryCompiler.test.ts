@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getHistoryIndependentExpression, translateFilters } from "./queryCompiler";
+import { describeFilterExpression } from "../filterExpression";
+import type { FilterData } from "../types";
+
+function filters(overrides: Partial<FilterData> = {}): FilterData {
+  return {
+    location: [],
+    products: [],
+    timing: [],
+    device: [],
+    payment: [],
+    delivery: [],
+    ...overrides,
+  };
+}
+
+function translate(data: FilterData) {
+  const { searchQuery, postFilterExpression } = translateFilters(data);
+  return {
+    searchQuery,
+    postFilter: postFilterExpression && describeFilterExpression(postFilterExpression),
+  };
+}
+
+describe("translateFilters", () => {
+  it("returns nothing without active criteria", () => {
+    assert.deepEqual(translate(filters()), { searchQuery: null, postFilter: null });
+  });
+
+  it("searches natively when every criterion is searchable", () => {
+    assert.deepEqual(
+      translate(filters({ location: ["Canada"], orderCount: { min: 2, max: null } })),
+      { searchQuery: '(country:"Canada" AND orders_count:>=2)', postFilter: null }
+    );
+  });
+
+  it("pushes searchable branches of a top-level AND and post-filters the rest", () => {
+    assert.deepEqual(
+      translate(filters({ location: ["Canada"], products: ["Hat"], excludedTags: ["staff"] })),
+      { searchQuery: 'country:"Canada" AND tag_not:"staff"', postFilter: "Products" }
+    );
+  });
+
+  it("keeps negated searchable criteria in the search string", () => {
+    assert.deepEqual(
+      translate(
+        filters({
+          location: ["Canada"],
+          expression: {
+            type: "group",
+            combinator: "AND",
+            children: [{ type: "criterion", key: "location", negate: true }],
+          },
+        })
+      ).searchQuery,
+      'NOT country:"Canada"'
+    );
+  });
+
+  it("post-filters everything when an OR mixes in a non-searchable criterion", () => {
+    assert.deepEqual(
+      translate(
+        filters({
+          location: ["Canada"],
+          products: ["Hat"],
+          expression: {
+            type: "group",
+            combinator: "OR",
+            children: [
+              { type: "criterion", key: "location" },
+              { type: "criterion", key: "products" },
+            ],
+          },
+        })
+      ),
+      { searchQuery: null, postFilter: "Location OR Products" }
+    );
+  });
+});
+
+describe("getHistoryIndependentExpression", () => {
+  function split(data: FilterData) {
+    const expression = getHistoryIndependentExpression(
+      translateFilters(data).postFilterExpression,
+      data
+    );
+    return expression && describeFilterExpression(expression);
+  }
+
+  it("keeps the criteria of a top-level AND that don't need order history", () => {
+    assert.equal(
+      split(
+        filters({
+          products: ["Hat"],
+          churnRisk: ["high"],
+          averageOrderValue: { min: 50, max: null },
+        })
+      ),
+      "Churn risk AND Average order value"
+    );
+  });
+
+  it("returns the whole expression when nothing needs order history", () => {
+    assert.equal(split(filters({ churnRisk: ["high"] })), "Churn risk");
+  });
+
+  it("returns nothing when an OR mixes in an order-based criterion", () => {
+    assert.equal(
+      split(
+        filters({
+          products: ["Hat"],
+          churnRisk: ["high"],
+          expression: {
+            type: "group",
+            combinator: "OR",
+            children: [
+              { type: "criterion", key: "products" },
+              { type: "criterion", key: "churnRisk" },
+            ],
+          },
+        })
+      ),
+      null
+    );
+  });
+});
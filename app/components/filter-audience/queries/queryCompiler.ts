@@ -8,11 +8,26 @@
  * 2. This compiler collects all query fragments from active filters
  * 3. Combines them into a single optimized GraphQL query
  * 4. Returns the final query string and post-processing filter function
+ * 
+ * Filters Shopify can evaluate natively (country, amount spent, order count,
+ * customer date, tags)
+ * are translated into the `customers(query:)` search string; only the residue
+ * is post-processed, following the filter expression (see filterExpression.ts).
  */
 
-import type { FilterData } from "../types";
+import type {
+  FilterData,
+  FilterCriterionKey,
+  FilterExpression,
+  FilterExpressionCriterion,
+} from "../types";
+import {
+  getFilterExpression,
+  evaluateFilterExpression,
+} from "../filterExpression";
 import {
   buildGeographicLocationQueryFragment,
+  buildGeographicLocationSearchQuery,
   filterByGeographicLocation,
   getCustomerCountry,
   type GeographicLocationFilter,
@@ -39,17 +54,302 @@ import {
   filterByDelivery,
   type DeliveryFilter,
 } from "./delivery";
+import {
+  DEVICE_ORDER_FIELDS,
+  filterByDevice,
+  type DeviceFilter,
+} from "./device";
 import {
   buildAmountSpentQueryFragment,
+  buildAmountSpentSearchQuery,
   filterByAmountSpent,
   type AmountSpentFilter,
 } from "./amountSpent";
+import {
+  buildOrderCountSearchQuery,
+  filterByOrderCount,
+  type OrderCountFilter,
+} from "./orderCount";
+import {
+  filterByAverageOrderValue,
+  type AverageOrderValueFilter,
+} from "./averageOrderValue";
+import { filterByLastOrder, type LastOrderFilter } from "./lastOrder";
 import {
   buildCustomerCreatedFromQueryFragment,
+  buildCustomerCreatedFromSearchQuery,
+  buildCustomerCreatedSearchQuery,
   filterByCustomerCreatedFrom,
+  filterByCustomerCreated,
   type CustomerCreatedFromFilter,
 } from "./customerCreatedFrom";
+import { buildFirstOrderQueryFragment, filterByFirstOrder } from "./firstOrder";
+import { buildConsentQueryFragment, filterByConsent } from "./consent";
+import {
+  buildPredictedClvQueryFragment,
+  filterByPredictedClv,
+  getCustomerPredictedClv,
+  type PredictedClvFilter,
+} from "./predictedClv";
+import {
+  buildChurnRiskQueryFragment,
+  filterByChurnRisk,
+  type ChurnRiskFilter,
+} from "./churnRisk";
+import {
+  buildTagsQueryFragment,
+  buildTagsSearchQuery,
+  buildExcludedTagsSearchQuery,
+  filterByTags,
+  filterByExcludedTags,
+  type TagsFilter,
+} from "./tags";
+import { buildExpressionSearchQuery } from "./searchQuery";
 import type { AdminGraphQL } from "../../../services/dashboard.server";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "../../../utils/dateRange";
+
+export interface CustomerSearchTranslation {
+  // Search string for the filters Shopify evaluates natively (customers(query:))
+  searchQuery: string | null;
+  // What's left to evaluate on the fetched customers
+  postFilterExpression: FilterExpression | null;
+}
+
+/**
+ * Get the timezone relative dates are resolved in (UTC unless the shop's was set)
+ */
+export function getFiltersTimezone(filters: FilterData): string {
+  return isValidTimezone(filters.timezone) ? filters.timezone! : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the search term of a criterion Shopify can evaluate natively
+ * Returns null for criteria that need post-filtering (products, timing, ...)
+ */
+function buildCriterionSearchTerm(
+  filters: FilterData,
+  criterion: FilterExpressionCriterion
+): string | null {
+  switch (criterion.key) {
+    case "location":
+      return buildGeographicLocationSearchQuery({ countries: filters.location });
+    case "amountSpent":
+      return filters.amountSpent
+        ? buildAmountSpentSearchQuery(filters.amountSpent)
+        : null;
+    case "customerCreatedFrom":
+      return buildCustomerCreatedFromSearchQuery({
+        date: filters.customerCreatedFrom || null,
+      });
+    case "customerCreated":
+      return filters.customerCreated
+        ? buildCustomerCreatedSearchQuery(
+            filters.customerCreated,
+            getFiltersTimezone(filters)
+          )
+        : null;
+    case "orderCount":
+      return filters.orderCount
+        ? buildOrderCountSearchQuery(filters.orderCount)
+        : null;
+    case "tags":
+      return filters.tags ? buildTagsSearchQuery(filters.tags) : null;
+    case "excludedTags":
+      return buildExcludedTagsSearchQuery(filters.excludedTags || []);
+    // Add native search terms for other filters here
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split the filters into a Shopify search string and a post-filter residue
+ * 
+ * - If every criterion is searchable, the whole expression becomes the search string
+ * - If the top level is an AND, searchable branches are pushed into the search
+ *   string and only the other branches are post-filtered
+ * - Otherwise (OR/NOT at the top mixing in non-searchable criteria) nothing can be
+ *   pushed without changing the result, so everything is post-filtered
+ */
+export function translateFilters(filters: FilterData): CustomerSearchTranslation {
+  const expression = getFilterExpression(filters);
+
+  if (!expression) {
+    return { searchQuery: null, postFilterExpression: null };
+  }
+
+  const buildTerm = (criterion: FilterExpressionCriterion) =>
+    buildCriterionSearchTerm(filters, criterion);
+
+  const fullQuery = buildExpressionSearchQuery(expression, buildTerm);
+  if (fullQuery !== null) {
+    return { searchQuery: fullQuery, postFilterExpression: null };
+  }
+
+  if (
+    expression.type === "group" &&
+    expression.combinator === "AND" &&
+    !expression.negate
+  ) {
+    const pushedTerms: string[] = [];
+    const residue: FilterExpression[] = [];
+
+    for (const child of expression.children) {
+      const term = buildExpressionSearchQuery(child, buildTerm);
+      if (term !== null) {
+        pushedTerms.push(term);
+      } else {
+        residue.push(child);
+      }
+    }
+
+    return {
+      searchQuery: pushedTerms.length > 0 ? pushedTerms.join(" AND ") : null,
+      postFilterExpression: { ...expression, children: residue },
+    };
+  }
+
+  return { searchQuery: null, postFilterExpression: expression };
+}
+
+/**
+ * Collect the criteria keys used in an expression
+ */
+export function getExpressionCriteria(
+  node: FilterExpression | null
+): Set<FilterCriterionKey> {
+  if (!node) {
+    return new Set();
+  }
+
+  if (node.type === "criterion") {
+    return new Set([node.key]);
+  }
+
+  return new Set(
+    node.children.flatMap((child) => [...getExpressionCriteria(child)])
+  );
+}
+
+// Orders and line items fetched with each customer page; more are paged on demand
+export const INITIAL_ORDERS_PAGE_SIZE = 10;
+export const INITIAL_LINE_ITEMS_PAGE_SIZE = 10;
+
+/**
+ * Check if post-filtered criteria need the customer's order history
+ */
+export function needsOrderHistory(
+  criteria: Set<FilterCriterionKey>,
+  filters: FilterData
+): boolean {
+  return (
+    criteria.has("products") ||
+    criteria.has("timing") ||
+    criteria.has("payment") ||
+    criteria.has("device") ||
+    (criteria.has("tags") && (filters.tags?.orderTags.length ?? 0) > 0)
+  );
+}
+
+/**
+ * Get the part of an expression that can be evaluated without the order history
+ * Every customer matching the expression also matches it, so it narrows the
+ * customers whose history is completed. Returns null when nothing can be split off
+ * (OR/NOT at the top mixing in order-based criteria).
+ */
+export function getHistoryIndependentExpression(
+  expression: FilterExpression | null,
+  filters: FilterData
+): FilterExpression | null {
+  if (!expression) {
+    return null;
+  }
+
+  if (!needsOrderHistory(getExpressionCriteria(expression), filters)) {
+    return expression;
+  }
+
+  if (
+    expression.type !== "group" ||
+    expression.combinator !== "AND" ||
+    expression.negate
+  ) {
+    return null;
+  }
+
+  const children = expression.children.filter(
+    (child) => !needsOrderHistory(getExpressionCriteria(child), filters)
+  );
+
+  return children.length > 0 ? { ...expression, children } : null;
+}
+
+/**
+ * Check if criteria read orders or order dates, which only cover the last 60 days
+ * when the app lacks the read_all_orders scope (lifetime totals are unaffected)
+ */
+export function usesOrderWindow(
+  criteria: Set<FilterCriterionKey>,
+  filters: FilterData
+): boolean {
+  return (
+    needsOrderHistory(criteria, filters) ||
+    criteria.has("delivery") ||
+    criteria.has("firstOrder") ||
+    criteria.has("lastOrder") ||
+    criteria.has("predictedClv") ||
+    criteria.has("churnRisk")
+  );
+}
+
+/**
+ * Build the order node fields needed by the post-filtered criteria
+ * Line items include pageInfo so truncated orders can be completed later.
+ */
+export function buildOrderNodeFields(
+  criteria: Set<FilterCriterionKey>,
+  lineItemsPageSize: number = INITIAL_LINE_ITEMS_PAGE_SIZE
+): string {
+  const orderFields: string[] = [`id`];
+
+  if (criteria.has("products")) {
+    orderFields.push(`
+          lineItems(first: ${lineItemsPageSize}) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            edges {
+              node {
+                product {
+                  id
+                  title
+                  productType
+                }
+              }
+            }
+          }`);
+  }
+
+  if (criteria.has("timing")) {
+    orderFields.push(`createdAt`);
+  }
+
+  if (criteria.has("payment")) {
+    orderFields.push(`paymentGatewayNames`);
+    orderFields.push(`displayFinancialStatus`);
+  }
+
+  if (criteria.has("device")) {
+    orderFields.push(DEVICE_ORDER_FIELDS);
+  }
+
+  if (criteria.has("tags")) {
+    orderFields.push(`tags`);
+  }
+
+  return orderFields.join("\n          ");
+}
 
 /**
  * Build the complete GraphQL query with all active filter fragments
@@ -61,65 +361,69 @@ export function buildCustomerQuery(
   // Collect all query fragments from active filters
   const queryFragments: string[] = [];
 
+  // Filters evaluated by Shopify's search don't need their fields fetched
+  const { searchQuery, postFilterExpression } = translateFilters(filters);
+  const postFilterCriteria = getExpressionCriteria(postFilterExpression);
+
   // Geographic Location fragment
   if (filters.location && filters.location.length > 0) {
     queryFragments.push(buildGeographicLocationQueryFragment());
   }
 
-  // Products, Timing, and Payment fragments - merge if multiple are active
-  const hasProductsFilter = filters.products && filters.products.length > 0;
-  const hasTimingFilter = filters.timing && filters.timing.length > 0;
-  const hasPaymentFilter = filters.payment && filters.payment.length > 0;
+  // Products, Timing, Payment, and Device fragments - merge if multiple are post-filtered
+  const hasProductsFilter = postFilterCriteria.has("products");
+  const hasTimingFilter = postFilterCriteria.has("timing");
+  const hasPaymentFilter = postFilterCriteria.has("payment");
+  const hasDeviceFilter = postFilterCriteria.has("device");
+  const hasOrderTagsFilter =
+    postFilterCriteria.has("tags") && (filters.tags?.orderTags.length ?? 0) > 0;
   
   // Build merged orders fragment if multiple filters need orders
-  if (hasProductsFilter || hasTimingFilter || hasPaymentFilter) {
-    const orderFields: string[] = [];
-    
-    if (hasProductsFilter) {
-      orderFields.push(`
-          lineItems(first: 10) {
-            edges {
-              node {
-                product {
-                  id
-                  title
-                  productType
-                }
-              }
-            }
-          }`);
-    }
-    
-    if (hasTimingFilter) {
-      orderFields.push(`createdAt`);
-    }
-    
-    if (hasPaymentFilter) {
-      orderFields.push(`paymentGatewayNames`);
-      orderFields.push(`displayFinancialStatus`);
-    }
-    
+  // Only the latest orders are fetched here; completeOrderHistory() pages the rest
+  if (needsOrderHistory(postFilterCriteria, filters)) {
     queryFragments.push(`
-    orders(first: 10, sortKey: CREATED_AT, reverse: true) {
+    orders(first: ${INITIAL_ORDERS_PAGE_SIZE}, sortKey: CREATED_AT, reverse: true) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
       edges {
         node {
-          ${orderFields.join("\n          ")}
+          ${buildOrderNodeFields(postFilterCriteria)}
         }
       }
     }
   `);
   }
 
-  // Add other filter fragments here as they are implemented:
-  // if (filters.device && filters.device.length > 0) {
-  //   queryFragments.push(buildDeviceQueryFragment());
-  // }
-  // etc...
+  // Predicted CLV fragment (its fields are in the base query)
+  if (postFilterCriteria.has("predictedClv")) {
+    queryFragments.push(buildPredictedClvQueryFragment());
+  }
+
+  // Churn Risk fragment (first order; the last order is in the base query)
+  if (postFilterCriteria.has("churnRisk")) {
+    queryFragments.push(buildChurnRiskQueryFragment());
+  } else if (postFilterCriteria.has("firstOrder")) {
+    queryFragments.push(buildFirstOrderQueryFragment());
+  }
+
+  // Customer tags fragment (only when tags couldn't be searched)
+  if (postFilterCriteria.has("tags") || postFilterCriteria.has("excludedTags")) {
+    queryFragments.push(buildTagsQueryFragment());
+  }
+
+  // Marketing consent fragment (SMS; email consent is in the base query)
+  if (postFilterCriteria.has("consent")) {
+    queryFragments.push(buildConsentQueryFragment());
+  }
 
   // Combine all fragments
   const fieldsFragment = queryFragments.join("\n                ");
 
   // Base customer fields (always needed)
+  // lastOrder is used for the predicted CLV of every result, emailMarketingConsent
+  // for the consent check before exporting to an email provider
   const baseFields = `
     id
     displayName
@@ -130,21 +434,33 @@ export function buildCustomerQuery(
       amount
       currencyCode
     }
+    lastOrder {
+      createdAt
+    }
+    emailMarketingConsent {
+      marketingState
+      marketingOptInLevel
+    }
   `;
 
   // Build the complete query
-  // Reduce batch size when products, timing, payment, or delivery filters are active to avoid query cost limits
-  const hasExpensiveFilters = 
-    (filters.products && filters.products.length > 0) ||
-    (filters.timing && filters.timing.length > 0) ||
-    (filters.payment && filters.payment.length > 0) ||
-    (filters.delivery && filters.delivery.length > 0);
+  // Reduce batch size when products, timing, payment, device, order tags, or delivery filters are post-filtered to avoid query cost limits
+  const hasExpensiveFilters =
+    hasProductsFilter ||
+    hasTimingFilter ||
+    hasPaymentFilter ||
+    hasDeviceFilter ||
+    hasOrderTagsFilter ||
+    postFilterCriteria.has("delivery");
   const batchSize = hasExpensiveFilters ? 50 : 250;
+
+  // Search string for natively evaluated filters (JSON quoting is valid GraphQL)
+  const queryArgument = searchQuery ? `, query: ${JSON.stringify(searchQuery)}` : "";
   
   const query = cursor
     ? `
       query {
-        customers(first: ${batchSize}, after: "${cursor}") {
+        customers(first: ${batchSize}, after: "${cursor}"${queryArgument}) {
           pageInfo {
             hasNextPage
             endCursor
@@ -158,7 +474,7 @@ export function buildCustomerQuery(
     `
     : `
       query {
-        customers(first: ${batchSize}) {
+        customers(first: ${batchSize}${queryArgument}) {
           pageInfo {
             hasNextPage
             endCursor
@@ -177,7 +493,9 @@ export function buildCustomerQuery(
 /**
  * Apply all filters to the fetched customers
  * 
- * This function applies post-query filtering based on all active filters
+ * This function applies post-query filtering based on the filters that couldn't be
+ * pushed into Shopify's search query (see translateFilters). Criteria are combined according to filters.expression (AND/OR/NOT groups),
+ * or ANDed together when no expression is set.
  * 
  * Note: For products filtering, we need to separate products, collections, and categories
  * from the filters.products array. This is done by checking against the loaded data.
@@ -187,95 +505,201 @@ export async function applyAllFilters(
   filters: FilterData,
   admin?: AdminGraphQL
 ): Promise<any[]> {
-  let filteredCustomers = customers;
+  // Filters already evaluated by Shopify's search query are skipped
+  const expression = translateFilters(filters).postFilterExpression;
+  return applyFilterExpression(customers, filters, expression, admin);
+}
 
-  // Apply geographic location filter
-  if (filters.location && filters.location.length > 0) {
-    const locationFilter: GeographicLocationFilter = {
-      countries: filters.location,
-    };
-    filteredCustomers = filterByGeographicLocation(
-      filteredCustomers,
-      locationFilter
-    );
+/**
+ * Apply a filter expression to customers
+ * 
+ * Used directly (with the full expression) when customers come from the warehouse,
+ * where nothing was evaluated by Shopify's search.
+ */
+export async function applyFilterExpression<T extends { id: string }>(
+  customers: T[],
+  filters: FilterData,
+  expression: FilterExpression | null,
+  admin?: AdminGraphQL
+): Promise<T[]> {
+  if (!expression) {
+    return customers;
   }
 
-  // Apply products filter
-  if (filters.products && filters.products.length > 0 && admin) {
-    // The filters.products array contains mixed items:
-    // - Product titles
-    // - Collection titles  
-    // - Category/product type names
-    
-    // Get product IDs from titles (for exact product matching)
-    const productIds = await getProductIdsByTitles(admin, filters.products);
-    
-    // Get collection IDs (for collection matching - though we'll primarily match by product titles)
-    const collectionIds = await getCollectionIdsByTitles(admin, filters.products);
-    
-    // Create filter object - all items are checked against products, collections, and categories
-    const productsFilter: ProductsFilter = {
-      products: filters.products, // Check against product titles and IDs
-      collections: filters.products, // Check against collections (if needed)
-      categories: filters.products, // Check against product types
-    };
-    
-    filteredCustomers = filterByProducts(
-      filteredCustomers,
-      productsFilter,
-      productIds,
-      collectionIds
-    );
-  }
+  const timezone = getFiltersTimezone(filters);
 
-  // Apply timing filter
-  if (filters.timing && filters.timing.length > 0) {
-    const timingFilter: TimingFilter = {
-      timings: filters.timing,
-    };
-    filteredCustomers = filterByTiming(filteredCustomers, timingFilter);
-  }
+  // Product and collection IDs are looked up once, even if products appear in several branches
+  let productLookup: Promise<[string[], string[]]> | null = null;
 
-  // Apply payment filter
-  if (filters.payment && filters.payment.length > 0) {
-    const paymentFilter: PaymentFilter = {
-      paymentMethods: filters.payment,
-    };
-    filteredCustomers = filterByPayment(filteredCustomers, paymentFilter);
-  }
+  const applyCriterion = async (
+    candidates: T[],
+    key: FilterCriterionKey
+  ): Promise<T[]> => {
+    switch (key) {
+      // Apply geographic location filter
+      case "location": {
+        const locationFilter: GeographicLocationFilter = {
+          countries: filters.location,
+        };
+        return filterByGeographicLocation(candidates, locationFilter);
+      }
 
-  // Apply delivery filter
-  if (filters.delivery && filters.delivery.length > 0) {
-    const deliveryFilter: DeliveryFilter = {
-      deliveryMethods: filters.delivery,
-    };
-    filteredCustomers = filterByDelivery(filteredCustomers, deliveryFilter);
-  }
+      // Apply products filter
+      case "products": {
+        if (!admin) {
+          return candidates;
+        }
 
-  // Apply amount spent filter
-  if (filters.amountSpent && filters.amountSpent.amount != null && filters.amountSpent.operator) {
-    const amountSpentFilter: AmountSpentFilter = {
-      amount: filters.amountSpent.amount,
-      operator: filters.amountSpent.operator,
-    };
-    filteredCustomers = filterByAmountSpent(filteredCustomers, amountSpentFilter);
-  }
+        // The filters.products array contains mixed items:
+        // - Product titles
+        // - Collection titles  
+        // - Category/product type names
 
-  // Apply customer created from filter
-  if (filters.customerCreatedFrom && filters.customerCreatedFrom.trim() !== "") {
-    const customerCreatedFromFilter: CustomerCreatedFromFilter = {
-      date: filters.customerCreatedFrom,
-    };
-    filteredCustomers = filterByCustomerCreatedFrom(filteredCustomers, customerCreatedFromFilter);
-  }
+        // Get product IDs from titles (for exact product matching) and
+        // collection IDs (for collection matching - though we'll primarily match by product titles)
+        productLookup =
+          productLookup ||
+          Promise.all([
+            getProductIdsByTitles(admin, filters.products),
+            getCollectionIdsByTitles(admin, filters.products),
+          ]);
+        const [productIds, collectionIds] = await productLookup;
+
+        // Create filter object - all items are checked against products, collections, and categories
+        const productsFilter: ProductsFilter = {
+          products: filters.products, // Check against product titles and IDs
+          collections: filters.products, // Check against collections (if needed)
+          categories: filters.products, // Check against product types
+        };
+
+        return filterByProducts(
+          candidates,
+          productsFilter,
+          productIds,
+          collectionIds
+        );
+      }
+
+      // Apply timing filter
+      case "timing": {
+        const timingFilter: TimingFilter = {
+          timings: filters.timing,
+          partOfDay: filters.partOfDay,
+        };
+        return filterByTiming(candidates, timingFilter);
+      }
 
-  // Apply other filters here as they are implemented:
-  // if (filters.device && filters.device.length > 0) {
-  //   filteredCustomers = filterByDevice(filteredCustomers, filters.device);
-  // }
-  // etc...
+      // Apply payment filter
+      case "payment": {
+        const paymentFilter: PaymentFilter = {
+          paymentMethods: filters.payment,
+        };
+        return filterByPayment(candidates, paymentFilter);
+      }
+
+      // Apply delivery filter
+      case "delivery": {
+        const deliveryFilter: DeliveryFilter = {
+          deliveryMethods: filters.delivery,
+        };
+        return filterByDelivery(candidates, deliveryFilter);
+      }
 
-  return filteredCustomers;
+      // Apply amount spent filter
+      case "amountSpent": {
+        const amountSpentFilter: AmountSpentFilter = {
+          amount: filters.amountSpent!.amount,
+          operator: filters.amountSpent!.operator,
+          maxAmount: filters.amountSpent!.maxAmount,
+        };
+        return filterByAmountSpent(candidates, amountSpentFilter);
+      }
+
+      // Apply number of orders filter
+      case "orderCount": {
+        const orderCountFilter: OrderCountFilter = {
+          min: filters.orderCount!.min,
+          max: filters.orderCount!.max,
+        };
+        return filterByOrderCount(candidates, orderCountFilter);
+      }
+
+      // Apply average order value filter
+      case "averageOrderValue": {
+        const averageOrderValueFilter: AverageOrderValueFilter = {
+          min: filters.averageOrderValue!.min,
+          max: filters.averageOrderValue!.max,
+        };
+        return filterByAverageOrderValue(candidates, averageOrderValueFilter);
+      }
+
+      // Apply last order recency filter
+      case "lastOrder": {
+        const lastOrderFilter: LastOrderFilter = { ...filters.lastOrder! };
+        return filterByLastOrder(candidates, lastOrderFilter, timezone);
+      }
+
+      // Apply customer created from filter
+      case "customerCreatedFrom": {
+        const customerCreatedFromFilter: CustomerCreatedFromFilter = {
+          date: filters.customerCreatedFrom!,
+        };
+        return filterByCustomerCreatedFrom(candidates, customerCreatedFromFilter);
+      }
+
+      // Apply relative customer created filter (resolved against today in the shop's timezone)
+      case "customerCreated":
+        return filterByCustomerCreated(candidates, filters.customerCreated!, timezone);
+
+      // Apply first order date filter (resolved against today in the shop's timezone)
+      case "firstOrder":
+        return filterByFirstOrder(candidates, filters.firstOrder!, timezone);
+
+      // Apply predicted CLV filter
+      case "predictedClv": {
+        const predictedClvFilter: PredictedClvFilter = {
+          amount: filters.predictedClv!.amount,
+          operator: filters.predictedClv!.operator,
+        };
+        return filterByPredictedClv(candidates, predictedClvFilter);
+      }
+
+      // Apply churn risk filter
+      case "churnRisk": {
+        const churnRiskFilter: ChurnRiskFilter = {
+          bands: filters.churnRisk || [],
+        };
+        return filterByChurnRisk(candidates, churnRiskFilter);
+      }
+
+      // Apply device filter
+      case "device": {
+        const deviceFilter: DeviceFilter = {
+          devices: filters.device,
+        };
+        return filterByDevice(candidates, deviceFilter);
+      }
+
+      // Apply tags filter
+      case "tags": {
+        const tagsFilter: TagsFilter = filters.tags!;
+        return filterByTags(candidates, tagsFilter);
+      }
+
+      // Remove excluded accounts (staff, test)
+      case "excludedTags":
+        return filterByExcludedTags(candidates, filters.excludedTags || []);
+
+      // Apply marketing consent filter
+      case "consent":
+        return filterByConsent(candidates, filters.consent!);
+
+      default:
+        return candidates;
+    }
+  };
+
+  return evaluateFilterExpression(customers, expression, applyCriterion);
 }
 
 /**
@@ -290,10 +714,17 @@ export function formatCustomerData(customer: any) {
     createdAt: customer.createdAt
       ? new Date(customer.createdAt).toLocaleDateString()
       : "N/A",
+    createdAtIso: customer.createdAt
+      ? new Date(customer.createdAt).toISOString()
+      : null,
     numberOfOrders: customer.numberOfOrders || 0,
     totalSpent: customer.amountSpent
       ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
       : "0.00",
+    predictedClv: customer.amountSpent
+      ? `${getCustomerPredictedClv(customer).toFixed(2)} ${customer.amountSpent.currencyCode}`
+      : "0.00",
+    emailMarketingState: customer.emailMarketingConsent?.marketingState || null,
   };
 }
 
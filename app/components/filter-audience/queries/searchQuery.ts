@@ -0,0 +1,76 @@
+/**
+ * Customer Search Query Helpers
+ * 
+ * Shopify's `customers(query:)` argument accepts a search string such as
+ * `country:Canada AND amount_spent:>=100`. Filters that Shopify can evaluate
+ * natively emit a search term here instead of being post-filtered, which cuts
+ * the number of customers that have to be fetched.
+ * 
+ * Syntax reference:
+ * https://shopify.dev/docs/api/usage/search-syntax
+ */
+
+import type { FilterExpression, FilterExpressionCriterion } from "../types";
+
+/**
+ * Quote a value for the search syntax (e.g. country names with spaces)
+ */
+export function quoteSearchValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Translate an expression to a search string
+ * 
+ * buildTerm returns the search term of a single criterion, or null when
+ * Shopify can't evaluate that criterion. The whole expression is only
+ * translated when every criterion in it can be.
+ */
+export function buildExpressionSearchQuery(
+  node: FilterExpression,
+  buildTerm: (criterion: FilterExpressionCriterion) => string | null
+): string | null {
+  let query: string | null;
+
+  if (node.type === "criterion") {
+    query = buildTerm(node);
+  } else {
+    const terms = node.children.map((child) =>
+      buildExpressionSearchQuery(child, buildTerm)
+    );
+    if (terms.some((term) => term === null)) {
+      return null;
+    }
+    query =
+      terms.length === 1 ? terms[0] : `(${terms.join(` ${node.combinator} `)})`;
+  }
+
+  if (query === null) {
+    return null;
+  }
+
+  return node.negate ? `NOT ${query}` : query;
+}
+
+/**
+ * Build the search term of a numeric or date field between two bounds (inclusive)
+ * Returns null when both bounds are open.
+ */
+export function buildRangeSearchQuery(
+  field: string,
+  min: number | string | null | undefined,
+  max: number | string | null | undefined
+): string | null {
+  const terms: string[] = [];
+  if (min != null) {
+    terms.push(`${field}:>=${min}`);
+  }
+  if (max != null) {
+    terms.push(`${field}:<=${max}`);
+  }
+
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.length === 1 ? terms[0] : `(${terms.join(" AND ")})`;
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildExcludedTagsSearchQuery,
+  buildTagsSearchQuery,
+  filterByExcludedTags,
+  filterByTags,
+  getCustomerOrderTags,
+} from "./tags";
+import type { TagsFilter } from "../types";
+
+function tags(overrides: Partial<TagsFilter> = {}): TagsFilter {
+  return {
+    customerTags: [],
+    customerTagsMatch: "any",
+    orderTags: [],
+    orderTagsMatch: "any",
+    ...overrides,
+  };
+}
+
+function customer(id: string, customerTags: string[], orderTags: string[][] = []) {
+  return {
+    id,
+    tags: customerTags,
+    orders: { edges: orderTags.map((tagList) => ({ node: { tags: tagList } })) },
+  };
+}
+
+const customers = [
+  customer("vip", ["VIP", "Wholesale"], [["gift"], ["preorder"]]),
+  customer("wholesale", ["wholesale"], [["gift"]]),
+  customer("staff", ["Staff"], []),
+];
+
+const ids = (list: { id: string }[]) => list.map((item) => item.id);
+
+describe("buildTagsSearchQuery", () => {
+  it("builds tag terms for customer tags", () => {
+    assert.equal(buildTagsSearchQuery(tags({ customerTags: ["VIP"] })), 'tag:"VIP"');
+    assert.equal(
+      buildTagsSearchQuery(tags({ customerTags: ["VIP", "New customer"] })),
+      '(tag:"VIP" OR tag:"New customer")'
+    );
+    assert.equal(
+      buildTagsSearchQuery(tags({ customerTags: ["VIP", "Wholesale"], customerTagsMatch: "all" })),
+      '(tag:"VIP" AND tag:"Wholesale")'
+    );
+    assert.equal(
+      buildTagsSearchQuery(tags({ customerTags: ["VIP", "Wholesale"], customerTagsMatch: "none" })),
+      '(tag_not:"VIP" AND tag_not:"Wholesale")'
+    );
+  });
+
+  it("leaves order tags to post-filtering", () => {
+    assert.equal(buildTagsSearchQuery(tags({ customerTags: ["VIP"], orderTags: ["gift"] })), null);
+    assert.equal(buildTagsSearchQuery(tags()), null);
+  });
+
+  it("excludes tags with tag_not terms", () => {
+    assert.equal(buildExcludedTagsSearchQuery(["staff"]), 'tag_not:"staff"');
+    assert.equal(buildExcludedTagsSearchQuery([]), null);
+  });
+});
+
+describe("filterByTags", () => {
+  it("matches customer tags case-insensitively", () => {
+    assert.deepEqual(ids(filterByTags(customers, tags({ customerTags: ["WHOLESALE"] }))), [
+      "vip",
+      "wholesale",
+    ]);
+    assert.deepEqual(
+      ids(filterByTags(customers, tags({ customerTags: ["vip", "wholesale"], customerTagsMatch: "all" }))),
+      ["vip"]
+    );
+  });
+
+  it("matches order tags across all of the customer's orders", () => {
+    assert.deepEqual(getCustomerOrderTags(customers[0]), ["gift", "preorder"]);
+    assert.deepEqual(
+      ids(filterByTags(customers, tags({ orderTags: ["gift", "preorder"], orderTagsMatch: "all" }))),
+      ["vip"]
+    );
+    assert.deepEqual(
+      ids(filterByTags(customers, tags({ orderTags: ["gift"], orderTagsMatch: "none" }))),
+      ["staff"]
+    );
+  });
+
+  it("requires both customer and order tags when both are set", () => {
+    assert.deepEqual(
+      ids(filterByTags(customers, tags({ customerTags: ["wholesale"], orderTags: ["preorder"] }))),
+      ["vip"]
+    );
+  });
+
+  it("drops customers with excluded tags", () => {
+    assert.deepEqual(ids(filterByExcludedTags(customers, ["staff", "test"])), ["vip", "wholesale"]);
+  });
+});
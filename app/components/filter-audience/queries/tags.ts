@@ -0,0 +1,142 @@
+/**
+ * Tags Query Builder
+ *
+ * This file contains the query logic for filtering customers by their Shopify customer
+ * tags and by the tags of their orders.
+ *
+ * Query Structure:
+ * - Customer tags are pushed into the customers(query:) search string
+ *   (`tag:` / `tag_not:`), so Shopify only returns matching customers
+ * - Order tags can't be searched on customers; they are read from the customer's
+ *   orders and post-filtered
+ * - Excluded tags (staff, test accounts) always become `tag_not:` terms
+ *
+ * Usage:
+ * This query will be combined with other filter queries to create a final compiled query.
+ */
+
+import type { TagMatch, TagsFilter } from "../types";
+import { quoteSearchValue } from "./searchQuery";
+
+export type { TagsFilter };
+
+export const TAG_MATCH_OPTIONS: { label: string; value: TagMatch }[] = [
+  { label: "Has any of", value: "any" },
+  { label: "Has all of", value: "all" },
+  { label: "Has none of", value: "none" },
+];
+
+// Suggested exclusions: tags commonly used for staff and test accounts
+export const EXCLUSION_TAG_PATTERN = /staff|employee|test|internal|team/i;
+
+/**
+ * Build the search string for a set of customer tags
+ */
+function buildCustomerTagsTerm(tags: string[], match: TagMatch): string | null {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const terms = tags.map((tag) =>
+    match === "none" ? `tag_not:${quoteSearchValue(tag)}` : `tag:${quoteSearchValue(tag)}`
+  );
+  if (terms.length === 1) {
+    return terms[0];
+  }
+  return `(${terms.join(match === "any" ? " OR " : " AND ")})`;
+}
+
+/**
+ * Build the search string for the tags criterion
+ * Returns null when order tags are selected, as they need post-filtering.
+ */
+export function buildTagsSearchQuery(filter: TagsFilter): string | null {
+  if (filter.orderTags.length > 0) {
+    return null;
+  }
+  return buildCustomerTagsTerm(filter.customerTags, filter.customerTagsMatch);
+}
+
+/**
+ * Build the search string excluding customers with any of the given tags
+ */
+export function buildExcludedTagsSearchQuery(tags: string[]): string | null {
+  return buildCustomerTagsTerm(tags, "none");
+}
+
+/**
+ * Build GraphQL query fragment for tags filtering (customer tags)
+ * Order tags are requested with the merged orders fragment (see buildOrderNodeFields).
+ */
+export function buildTagsQueryFragment(): string {
+  return `
+    tags
+  `;
+}
+
+interface TagsCustomer {
+  id: string;
+  tags?: string[];
+  orders?: { edges?: { node?: { tags?: string[] } | null }[] } | null;
+}
+
+/**
+ * Check a list of tags against the selected tags (case-insensitive, like Shopify)
+ */
+function matchesTags(tags: string[], selected: string[], match: TagMatch): boolean {
+  if (selected.length === 0) {
+    return true;
+  }
+
+  const tagSet = new Set(tags.map((tag) => tag.toLowerCase()));
+  const hits = selected.filter((tag) => tagSet.has(tag.toLowerCase())).length;
+
+  switch (match) {
+    case "all":
+      return hits === selected.length;
+    case "none":
+      return hits === 0;
+    default:
+      return hits > 0;
+  }
+}
+
+/**
+ * Get the tags of all of a customer's orders
+ */
+export function getCustomerOrderTags(customer: TagsCustomer): string[] {
+  const tags = new Set<string>();
+  const orders = customer.orders?.edges || [];
+
+  orders.forEach((orderEdge) => {
+    (orderEdge.node?.tags || []).forEach((tag) => tags.add(tag));
+  });
+
+  return Array.from(tags);
+}
+
+/**
+ * Filter customers by customer tags and order tags
+ *
+ * Order tags are matched across all of the customer's orders: "has all" means every
+ * selected tag appears on at least one order, "has none" that no order carries them.
+ */
+export function filterByTags<T extends TagsCustomer>(customers: T[], filter: TagsFilter): T[] {
+  return customers.filter(
+    (customer) =>
+      matchesTags(customer.tags || [], filter.customerTags, filter.customerTagsMatch) &&
+      matchesTags(getCustomerOrderTags(customer), filter.orderTags, filter.orderTagsMatch)
+  );
+}
+
+/**
+ * Filter out customers with any of the excluded tags
+ */
+export function filterByExcludedTags<T extends TagsCustomer>(
+  customers: T[],
+  excludedTags: string[]
+): T[] {
+  return customers.filter((customer) =>
+    matchesTags(customer.tags || [], excludedTags, "none")
+  );
+}
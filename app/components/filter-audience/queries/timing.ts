@@ -7,12 +7,34 @@
  * - Fetches customers with their orders and order creation times
  * - Filters customers based on order placement timing (morning, afternoon, evening, night, weekdays, weekends, etc.)
  * 
+ * Parts of day (morning, afternoon, evening, night) use the shop's configured hours
+ * (see utils/partOfDay), stored with the filter so a saved list keeps its meaning.
+ *
  * Usage:
  * This query will be combined with other filter queries to create a final compiled query.
  */
 
+import {
+  PARTS_OF_DAY,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  getPartOfDay,
+  getPartOfDayLabel,
+  parsePartOfDay,
+  type PartOfDayBoundaries,
+} from "../../../utils/partOfDay";
+
 export interface TimingFilter {
-  timings: string[]; // e.g., ["Morning (6am-12pm)", "Weekdays", etc.]
+  timings: string[]; // e.g., ["Morning", "Weekdays", etc.]
+  partOfDay?: PartOfDayBoundaries;
+}
+
+/**
+ * Normalize a timing value: parts of day are stored by name ("Morning"), older
+ * filters saved them with their hours ("Morning (6am-12pm)")
+ */
+export function normalizeTimingValue(value: string): string {
+  const part = parsePartOfDay(value);
+  return part ? PARTS_OF_DAY.find((definition) => definition.id === part)!.label : value;
 }
 
 /**
@@ -47,22 +69,6 @@ function isTimeInRange(hour: number, startHour: number, endHour: number): boolea
   }
 }
 
-/**
- * Get time period from hour (morning, afternoon, evening, night)
- * Uses UTC hours since Shopify stores dates in UTC
- */
-function getTimePeriod(hour: number): string {
-  if (hour >= 6 && hour < 12) {
-    return "Morning (6am-12pm)";
-  } else if (hour >= 12 && hour < 18) {
-    return "Afternoon (12pm-6pm)";
-  } else if (hour >= 18 && hour < 24) {
-    return "Evening (6pm-12am)";
-  } else {
-    return "Night (12am-6am)";
-  }
-}
-
 /**
  * Check if a date is a weekday (Monday-Friday)
  * Uses UTC day since Shopify stores dates in UTC
@@ -119,6 +125,8 @@ export function filterByTiming(
     return customers; // No filter applied, return all
   }
 
+  const partOfDay = filter.partOfDay || DEFAULT_PART_OF_DAY_BOUNDARIES;
+
   return customers.filter((customer: any) => {
     const orders = customer.orders?.edges || [];
     
@@ -130,21 +138,16 @@ export function filterByTiming(
       const orderDate = new Date(createdAt);
       // Use UTC hours since Shopify stores dates in UTC
       const hour = orderDate.getUTCHours();
-      const timePeriod = getTimePeriod(hour);
+      const orderPartOfDay = getPartOfDay(hour, partOfDay);
 
       // Check each selected timing option
       for (const timing of filter.timings) {
         let matches = false;
+        const timingPartOfDay = parsePartOfDay(timing);
 
         // Time of day checks
-        if (timing === "Morning (6am-12pm)" && timePeriod === "Morning (6am-12pm)") {
-          matches = true;
-        } else if (timing === "Afternoon (12pm-6pm)" && timePeriod === "Afternoon (12pm-6pm)") {
-          matches = true;
-        } else if (timing === "Evening (6pm-12am)" && timePeriod === "Evening (6pm-12am)") {
-          matches = true;
-        } else if (timing === "Night (12am-6am)" && timePeriod === "Night (12am-6am)") {
-          matches = true;
+        if (timingPartOfDay) {
+          matches = timingPartOfDay === orderPartOfDay;
         }
         // Day of week checks
         else if (timing === "Weekdays" && isWeekday(orderDate)) {
@@ -174,7 +177,10 @@ export function filterByTiming(
 /**
  * Get customer's most common shopping time
  */
-export function getCustomerShoppingTime(customer: any): string {
+export function getCustomerShoppingTime(
+  customer: any,
+  partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): string {
   const orders = customer.orders?.edges || [];
   const timePeriods: Record<string, number> = {};
 
@@ -184,7 +190,7 @@ export function getCustomerShoppingTime(customer: any): string {
 
     const orderDate = new Date(createdAt);
     // Use UTC hours since Shopify stores dates in UTC
-    const timePeriod = getTimePeriod(orderDate.getUTCHours());
+    const timePeriod = getPartOfDayLabel(getPartOfDay(orderDate.getUTCHours(), partOfDay), partOfDay);
     timePeriods[timePeriod] = (timePeriods[timePeriod] || 0) + 1;
   });
 
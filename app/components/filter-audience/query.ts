@@ -8,15 +8,68 @@
  * 2. Fetches customers from Shopify
  * 3. Applies all filters using the compiler's filter functions
  * 4. Returns formatted results
+ * 
+ * When the shop's warehouse is synced (see services/warehouse), customers are read
+ * from it instead and the whole filter expression is evaluated there.
  */
 
 import type { AdminGraphQL } from "../../services/dashboard.server";
-import type { FilterData } from "./types";
+import type { FilterData, SegmentCoverage } from "./types";
 import {
   buildCustomerQuery,
   applyAllFilters,
+  applyFilterExpression,
   formatCustomerData,
+  getExpressionCriteria,
+  getHistoryIndependentExpression,
+  translateFilters,
+  usesOrderWindow,
 } from "./queries/queryCompiler";
+import { completeOrderHistory } from "./queries/orderHistory";
+import { getFilterExpression, isCriterionActive } from "./filterExpression";
+import { isWarehouseReady } from "../../services/warehouse/backfill.server";
+import {
+  getShopTimezone,
+  hasAllOrdersAccess,
+} from "../../services/shop-info.server";
+import { filterWarehouseCustomers } from "../../services/warehouse/customers.server";
+
+// Maximum customers fetched for a segment (use bulk operations beyond this)
+const MAX_CUSTOMERS = 1000;
+
+/**
+ * Set the shop's timezone on the filters, so relative dates ("today", "this month")
+ * resolve against the merchant's calendar
+ */
+export async function withShopTimezone(
+  admin: AdminGraphQL,
+  shop: string,
+  filters: FilterData
+): Promise<FilterData> {
+  return { ...filters, timezone: await getShopTimezone(admin, shop) };
+}
+
+/**
+ * Coverage of a segment whose order-based criteria can only see the last 60
+ * days of orders, when the app lacks read_all_orders
+ */
+export async function getOrderWindowCoverage(
+  admin: AdminGraphQL,
+  filters: FilterData
+): Promise<SegmentCoverage> {
+  const criteria = getExpressionCriteria(getFilterExpression(filters));
+
+  if (!usesOrderWindow(criteria, filters) || (await hasAllOrdersAccess(admin))) {
+    return { exact: true, notes: [] };
+  }
+
+  return {
+    exact: false,
+    notes: [
+      "Only orders from the last 60 days were considered. Grant the app access to all orders to include older ones.",
+    ],
+  };
+}
 
 export interface FilteredCustomer {
   id: string;
@@ -24,13 +77,17 @@ export interface FilteredCustomer {
   email: string;
   country: string;
   createdAt: string;
+  createdAtIso?: string | null; // ISO 8601, createdAt is formatted for display
   numberOfOrders: number;
   totalSpent: string;
+  predictedClv: string;
+  emailMarketingState?: string | null;
 }
 
 export interface FilterCustomersResult {
   customers: FilteredCustomer[];
   total: number;
+  coverage: SegmentCoverage;
   error?: string;
 }
 
@@ -40,19 +97,43 @@ export interface FilterCustomersResult {
  * This is the main entry point that:
  * 1. Builds the optimized GraphQL query using all active filters
  * 2. Fetches customers from Shopify with pagination
- * 3. Applies all filters to the fetched customers
- * 4. Returns formatted results
+ * 3. Applies the criteria that don't need the order history
+ * 4. Completes the order history of the remaining customers for order-based filters,
+ *    or flags the segment for a Full Scan when too many histories are truncated
+ * 5. Applies all filters to the remaining customers
+ * 6. Returns formatted results, with whether they are exact or sampled
+ * 
+ * Pass the shop to resolve relative dates in its timezone and to read from its
+ * warehouse when it is synced (exact unless order-based criteria are limited to
+ * the last 60 days of orders).
  */
 export async function filterCustomers(
   admin: AdminGraphQL,
-  filters: FilterData
+  segmentFilters: FilterData,
+  shop?: string
 ): Promise<FilterCustomersResult> {
+  const filters = shop
+    ? await withShopTimezone(admin, shop, segmentFilters)
+    : segmentFilters;
+
   try {
     // Check if any filters are active
     const hasActiveFilters = (() => {
       // Check array-based filters
       const hasArrayFilters = Object.entries(filters).some(([key, value]) => {
-        if (key === "amountSpent" || key === "customerCreatedFrom" || key === "graphqlQuery") {
+        if (
+          key === "amountSpent" ||
+          key === "customerCreatedFrom" ||
+          key === "predictedClv" ||
+          key === "tags" ||
+          key === "orderCount" ||
+          key === "averageOrderValue" ||
+          key === "lastOrder" ||
+          key === "customerCreated" ||
+          key === "firstOrder" ||
+          key === "consent" ||
+          key === "graphqlQuery"
+        ) {
           return false; // Skip these, check separately
         }
         return value != null && Array.isArray(value) && value.length > 0;
@@ -66,14 +147,57 @@ export async function filterCustomers(
       // Check customerCreatedFrom filter
       const hasCustomerCreatedFromFilter = filters.customerCreatedFrom != null &&
         filters.customerCreatedFrom.trim() !== "";
+
+      // Check predictedClv filter
+      const hasPredictedClvFilter = filters.predictedClv != null &&
+        filters.predictedClv.amount != null &&
+        filters.predictedClv.operator != null;
+
+      // Check tags filter
+      const hasTagsFilter = filters.tags != null &&
+        (filters.tags.customerTags.length > 0 || filters.tags.orderTags.length > 0);
+
+      // Check number of orders, average order value and last order filters
+      const hasRangeFilter =
+        isCriterionActive(filters, "orderCount") ||
+        isCriterionActive(filters, "averageOrderValue") ||
+        isCriterionActive(filters, "lastOrder");
+
+      // Check relative date filters (customer created, first order)
+      const hasRelativeDateFilter =
+        isCriterionActive(filters, "customerCreated") ||
+        isCriterionActive(filters, "firstOrder");
+
+      // Check marketing consent filter
+      const hasConsentFilter = isCriterionActive(filters, "consent");
       
-      return hasArrayFilters || hasAmountSpentFilter || hasCustomerCreatedFromFilter;
+      return (
+        hasArrayFilters ||
+        hasAmountSpentFilter ||
+        hasCustomerCreatedFromFilter ||
+        hasPredictedClvFilter ||
+        hasTagsFilter ||
+        hasRangeFilter ||
+        hasRelativeDateFilter ||
+        hasConsentFilter
+      );
     })();
 
     if (!hasActiveFilters) {
       return {
         customers: [],
         total: 0,
+        coverage: { exact: true, notes: [] },
+      };
+    }
+
+    if (shop && (await isWarehouseReady(shop))) {
+      const formatted = await filterWarehouseCustomers(shop, filters, admin);
+
+      return {
+        customers: formatted,
+        total: formatted.length,
+        coverage: await getOrderWindowCoverage(admin, filters),
       };
     }
 
@@ -82,7 +206,7 @@ export async function filterCustomers(
     let hasNextPage = true;
     let cursor: string | null = null;
 
-    while (hasNextPage && allCustomers.length < 1000) {
+    while (hasNextPage && allCustomers.length < MAX_CUSTOMERS) {
       // Limit to 1000 customers max for performance
       // Build the query with all active filter fragments
       const query = buildCustomerQuery(filters, cursor);
@@ -110,8 +234,43 @@ export async function filterCustomers(
       cursor = json.data?.customers?.pageInfo?.endCursor || null;
     }
 
-    // Apply all filters to the fetched customers
-    const filteredCustomers = await applyAllFilters(allCustomers, filters, admin);
+    const coverage = await getOrderWindowCoverage(admin, filters);
+
+    if (hasNextPage) {
+      coverage.exact = false;
+      coverage.notes.push(
+        `Only the first ${allCustomers.length} customers were scanned. Use Full Scan to include every customer.`
+      );
+    }
+
+    // Apply the criteria that don't need the order history first, so the history
+    // is only completed for the customers left
+    const independentExpression = getHistoryIndependentExpression(
+      translateFilters(filters).postFilterExpression,
+      filters
+    );
+    const candidates = independentExpression
+      ? await applyFilterExpression(allCustomers, filters, independentExpression, admin)
+      : allCustomers;
+
+    // Page orders and line items beyond the ones fetched with each customer
+    const history = await completeOrderHistory(admin, candidates, filters);
+
+    if (history.fullScanRequired) {
+      coverage.exact = false;
+      coverage.fullScanRequired = true;
+      coverage.notes.push(
+        `${history.truncatedCustomers} customers have more orders than were fetched. Use Full Scan to include their full order history.`
+      );
+    } else if (!history.complete) {
+      coverage.exact = false;
+      coverage.notes.push(
+        `Order history was truncated for ${history.truncatedCustomers} customers with many orders.`
+      );
+    }
+
+    // Apply all filters to the remaining customers
+    const filteredCustomers = await applyAllFilters(candidates, filters, admin);
 
     // Format customer data
     const formattedCustomers: FilteredCustomer[] = filteredCustomers.map(
@@ -121,6 +280,7 @@ export async function filterCustomers(
     return {
       customers: formattedCustomers,
       total: formattedCustomers.length,
+      coverage,
     };
   } catch (error: any) {
     if (
@@ -1,8 +1,97 @@
+import type { PartOfDayBoundaries } from "../../utils/partOfDay";
+import type { RelativeDate } from "../../utils/relativeDate";
+
 export interface AmountSpentFilter {
+  amount: number | null;
+  operator: "min" | "max" | "between" | null; // "min" means minimum (>=), "max" means maximum (<=)
+  maxAmount?: number | null; // Upper bound (<=) when operator is "between"
+}
+
+// Inclusive range, either bound may be left open (null)
+export interface RangeFilter {
+  min: number | null;
+  max: number | null;
+}
+
+// Recency of the customer's last order
+export interface LastOrderFilter {
+  mode: "between" | "notInLast" | "relative";
+  from?: string | null; // ISO date string (YYYY-MM-DD), "between" only
+  to?: string | null; // ISO date string (YYYY-MM-DD), "between" only
+  days?: number | null; // "notInLast" only
+  relative?: RelativeDate | null; // "relative" only, resolved when the filter is evaluated
+}
+
+// Predicted spend over the next 12 months (see utils/clv)
+export interface PredictedClvFilter {
   amount: number | null;
   operator: "min" | "max" | null; // "min" means minimum (>=), "max" means maximum (<=)
 }
 
+// How selected tags match: at least one, every one, or none of them
+export type TagMatch = "any" | "all" | "none";
+
+// Customer tags and order tags (both conditions must hold when both are set)
+export interface TagsFilter {
+  customerTags: string[];
+  customerTagsMatch: TagMatch;
+  orderTags: string[];
+  orderTagsMatch: TagMatch;
+}
+
+// Email / SMS marketing consent (see utils/marketingConsent); empty lists match anything
+export interface ConsentFilter {
+  emailStates: string[]; // e.g. ["SUBSCRIBED"]
+  smsStates: string[];
+  optInLevels: string[]; // Applies to subscribed channels, e.g. ["CONFIRMED_OPT_IN"]
+}
+
+/**
+ * Criteria of FilterData that can take part in a filter expression
+ * "excludedTags" is not user-combinable: it is ANDed with every expression.
+ */
+export type FilterCriterionKey =
+  | "location"
+  | "products"
+  | "timing"
+  | "device"
+  | "payment"
+  | "delivery"
+  | "amountSpent"
+  | "customerCreatedFrom"
+  | "predictedClv"
+  | "churnRisk"
+  | "tags"
+  | "excludedTags"
+  | "orderCount"
+  | "averageOrderValue"
+  | "lastOrder"
+  | "customerCreated"
+  | "firstOrder"
+  | "consent";
+
+export type FilterCombinator = "AND" | "OR";
+
+export interface FilterExpressionCriterion {
+  type: "criterion";
+  key: FilterCriterionKey;
+  negate?: boolean;
+}
+
+export interface FilterExpressionGroup {
+  type: "group";
+  combinator: FilterCombinator;
+  children: FilterExpression[];
+  negate?: boolean;
+}
+
+/**
+ * Boolean expression over the criteria of FilterData
+ * Criterion values stay in their FilterData fields (values within a criterion are ORed),
+ * the expression only says how criteria combine, e.g. products AND NOT location.
+ */
+export type FilterExpression = FilterExpressionCriterion | FilterExpressionGroup;
+
 export interface FilterData {
   location: string[];
   products: string[];
@@ -11,7 +100,20 @@ export interface FilterData {
   payment: string[];
   delivery: string[];
   amountSpent?: AmountSpentFilter;
+  orderCount?: RangeFilter;
+  averageOrderValue?: RangeFilter;
+  lastOrder?: LastOrderFilter;
   customerCreatedFrom?: string | null; // ISO date string (YYYY-MM-DD)
+  customerCreated?: RelativeDate; // e.g. in the last 30 days, resolved when the filter is evaluated
+  firstOrder?: RelativeDate; // Date of the customer's first order, resolved when the filter is evaluated
+  predictedClv?: PredictedClvFilter;
+  churnRisk?: string[]; // Churn risk bands: "low" | "medium" | "high" (see utils/churn)
+  tags?: TagsFilter;
+  excludedTags?: string[]; // Customer tags never included in a segment (staff, test accounts)
+  consent?: ConsentFilter;
+  partOfDay?: PartOfDayBoundaries; // Hours of the timing filter's parts of day (see utils/partOfDay)
+  timezone?: string; // Shop timezone relative dates resolve in, set on the server (see withShopTimezone)
+  expression?: FilterExpressionGroup; // When absent, all active criteria are ANDed
   graphqlQuery?: string;
 }
 
@@ -35,14 +137,27 @@ export interface FilteredCustomer {
   email: string;
   country: string;
   createdAt: string;
+  createdAtIso?: string | null; // ISO 8601, createdAt is formatted for display
   numberOfOrders: number;
   totalSpent: string;
+  predictedClv: string;
+  emailMarketingState?: string | null; // Used to warn before exporting non-consented contacts
+}
+
+// Whether a segment was evaluated on complete data or on a sample
+export interface SegmentCoverage {
+  exact: boolean;
+  // Why results are sampled (customer limit, truncated order history, ...)
+  notes: string[];
+  // Too many order histories to page, the segment needs a bulk operation (Full Scan)
+  fullScanRequired?: boolean;
 }
 
 export interface SegmentResults {
   matchCount: number;
   filters: FilterData;
   customers?: FilteredCustomer[];
+  coverage?: SegmentCoverage;
   error?: string;
 }
 
@@ -0,0 +1,322 @@
+import {
+  Modal,
+  BlockStack,
+  InlineStack,
+  Text,
+  Select,
+  TextField,
+  Banner,
+  Spinner,
+} from "@shopify/polaris";
+import { useState, useEffect, useCallback } from "react";
+import type { FilterData } from "../filter-audience/types";
+
+// Sentinel select value for creating a new provider list
+const NEW_LIST_VALUE = "__new__";
+
+export type ExportProvider = "klaviyo" | "sendgrid";
+
+export const EXPORT_PROVIDER_NAMES: Record<ExportProvider, string> = {
+  klaviyo: "Klaviyo",
+  sendgrid: "SendGrid",
+};
+
+// Returned by /api/saved-lists/sync when the provider isn't connected
+const NOT_CONNECTED_ERROR = "DESTINATION_NOT_CONNECTED";
+
+/**
+ * Per-provider copy
+ * Exports go through the audience destination route (/api/saved-lists/sync)
+ */
+const PROVIDER_CONFIG: Record<
+  ExportProvider,
+  { name: string; fieldsDescription: string }
+> = {
+  klaviyo: {
+    name: EXPORT_PROVIDER_NAMES.klaviyo,
+    fieldsDescription:
+      "created or updated in Klaviyo with their orders count, total spent and country.",
+  },
+  sendgrid: {
+    name: EXPORT_PROVIDER_NAMES.sendgrid,
+    fieldsDescription:
+      "added to SendGrid Marketing Contacts with their Shopify ID, orders count, total spent and signup date as custom fields.",
+  },
+};
+
+export type ExportSource =
+  | { type: "list"; listId: string; name: string; customerCount: number }
+  | { type: "filters"; filters: FilterData; name: string; customerCount: number };
+
+interface ExportToProviderModalProps {
+  open: boolean;
+  onClose: () => void;
+  provider: ExportProvider;
+  source: ExportSource | null;
+}
+
+interface ProviderList {
+  id: string;
+  name: string;
+}
+
+// Mirrors ExportConsentMode in audience-export.server
+type ConsentMode = "subscribedOnly" | "all";
+
+interface ConsentWarning {
+  nonConsented: number;
+  total: number;
+}
+
+/**
+ * Export To Provider Modal Component
+ *
+ * Exports a saved list or a filter result into an existing or new list
+ * of a connected email provider (Klaviyo, SendGrid).
+ * When the export contains contacts without email marketing consent, the
+ * merchant is warned and chooses to export subscribed contacts only or all of them.
+ */
+export function ExportToProviderModal({
+  open,
+  onClose,
+  provider,
+  source,
+}: ExportToProviderModalProps) {
+  const config = PROVIDER_CONFIG[provider];
+  const [providerLists, setProviderLists] = useState<ProviderList[]>([]);
+  const [selectedListId, setSelectedListId] = useState(NEW_LIST_VALUE);
+  const [newListName, setNewListName] = useState("");
+  const [isLoadingLists, setIsLoadingLists] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [consentWarning, setConsentWarning] = useState<ConsentWarning | null>(null);
+
+  // Fetch provider lists when modal opens
+  useEffect(() => {
+    if (!open) {
+      setError(null);
+      setSuccessMessage(null);
+      setConsentWarning(null);
+      return;
+    }
+
+    setNewListName(source?.name || "");
+    setSelectedListId(NEW_LIST_VALUE);
+
+    const fetchLists = async () => {
+      setIsLoadingLists(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/saved-lists/sync?destination=${provider}`);
+        const data = await response.json();
+
+        if (!data.success) {
+          setError(data.error || `Failed to load ${config.name} lists`);
+          return;
+        }
+
+        setProviderLists(data.audiences);
+      } catch (err) {
+        console.error("[ExportToProviderModal] Error fetching lists:", err);
+        setError(`Failed to load ${config.name} lists`);
+      } finally {
+        setIsLoadingLists(false);
+      }
+    };
+
+    fetchLists();
+  }, [open, provider, config.name, source?.name]);
+
+  const handleExport = useCallback(async (consentMode?: ConsentMode) => {
+    if (!source) return;
+
+    setIsExporting(true);
+    setError(null);
+    setConsentWarning(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("destination", provider);
+      formData.append("segmentName", source.name);
+      if (source.type === "list") {
+        formData.append("listId", source.listId);
+      } else {
+        formData.append("filters", JSON.stringify(source.filters));
+      }
+      if (selectedListId === NEW_LIST_VALUE) {
+        formData.append("newAudienceName", newListName);
+      } else {
+        formData.append("audienceId", selectedListId);
+        formData.append(
+          "audienceName",
+          providerLists.find((list) => list.id === selectedListId)?.name || "",
+        );
+      }
+      if (consentMode) {
+        formData.append("consentMode", consentMode);
+      }
+
+      const response = await fetch("/api/saved-lists/sync", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.error === "NON_CONSENTED_CONTACTS") {
+        setConsentWarning({ nonConsented: data.nonConsented, total: data.total });
+        return;
+      }
+
+      if (!data.success) {
+        setError(data.error || `Failed to export to ${config.name}`);
+        return;
+      }
+
+      const { upsertedCount, skippedCount } = data.job;
+      const notes = [
+        skippedCount > 0 ? `${skippedCount} skipped without email` : null,
+        data.excludedNonConsented > 0
+          ? `${data.excludedNonConsented} excluded without marketing consent`
+          : null,
+      ].filter(Boolean);
+
+      setSuccessMessage(
+        `${upsertedCount} contact${upsertedCount !== 1 ? "s" : ""} submitted to ${config.name}` +
+          (notes.length > 0 ? ` (${notes.join(", ")})` : "") +
+          `. ${config.name} will finish importing them shortly.`,
+      );
+    } catch (err) {
+      console.error("[ExportToProviderModal] Error exporting:", err);
+      setError(`Failed to export to ${config.name}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [source, provider, config.name, selectedListId, newListName, providerLists]);
+
+  if (!source) {
+    return null;
+  }
+
+  const listOptions = [
+    { label: "Create a new list", value: NEW_LIST_VALUE },
+    ...providerLists.map((list) => ({ label: list.name, value: list.id })),
+  ];
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={`Export "${source.name}" to ${config.name}`}
+      primaryAction={
+        successMessage
+          ? { content: "Done", onAction: onClose }
+          : {
+              content: isExporting ? "Exporting..." : "Export",
+              onAction: () => handleExport(),
+              loading: isExporting,
+              disabled:
+                isExporting ||
+                consentWarning !== null ||
+                isLoadingLists ||
+                error === NOT_CONNECTED_ERROR ||
+                (selectedListId === NEW_LIST_VALUE && !newListName.trim()),
+            }
+      }
+      secondaryActions={
+        successMessage ? [] : [{ content: "Cancel", onAction: onClose }]
+      }
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          <Text as="p" variant="bodyMd">
+            {source.customerCount.toLocaleString()} customers will be{" "}
+            {config.fieldsDescription}
+          </Text>
+
+          {isLoadingLists ? (
+            <InlineStack align="center">
+              <Spinner size="small" />
+            </InlineStack>
+          ) : (
+            error !== NOT_CONNECTED_ERROR && (
+              <BlockStack gap="300">
+                <Select
+                  label={`${config.name} list`}
+                  options={listOptions}
+                  value={selectedListId}
+                  onChange={setSelectedListId}
+                />
+                {selectedListId === NEW_LIST_VALUE && (
+                  <TextField
+                    label="New list name"
+                    value={newListName}
+                    onChange={setNewListName}
+                    autoComplete="off"
+                  />
+                )}
+              </BlockStack>
+            )
+          )}
+
+          {consentWarning && (
+            <Banner
+              tone="warning"
+              title="Some contacts haven't consented to email marketing"
+              action={{
+                content: "Export subscribed only",
+                onAction: () => handleExport("subscribedOnly"),
+                disabled: isExporting,
+              }}
+              secondaryAction={{
+                content: "Export all anyway",
+                onAction: () => handleExport("all"),
+              }}
+            >
+              <p>
+                {consentWarning.nonConsented.toLocaleString()} of{" "}
+                {consentWarning.total.toLocaleString()} contacts are not subscribed
+                to email marketing. Sending them marketing emails may breach
+                GDPR or CAN-SPAM; only export them if you have their consent
+                elsewhere.
+              </p>
+            </Banner>
+          )}
+
+          {successMessage && (
+            <Banner tone="success">
+              <p>{successMessage}</p>
+            </Banner>
+          )}
+
+          {error === NOT_CONNECTED_ERROR && (
+            <Banner tone="critical">
+              <p>
+                {config.name} is not connected. Add your API key in Settings
+                to export lists.
+              </p>
+            </Banner>
+          )}
+
+          {error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" && (
+            <Banner tone="critical">
+              <p>
+                Access to customer data is required to export customers.
+                Please request access in your Partner Dashboard.
+              </p>
+            </Banner>
+          )}
+
+          {error &&
+            error !== NOT_CONNECTED_ERROR &&
+            error !== "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" && (
+              <Banner tone="critical">
+                <p>{error}</p>
+              </Banner>
+            )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
@@ -20,7 +20,11 @@ import {
   DeleteIcon,
 } from "@shopify/polaris-icons";
 import { useCallback, useState } from "react";
-import type { SavedList } from "./types";
+import type { SavedList, ListSyncStatus } from "./types";
+import {
+  EXPORT_PROVIDER_NAMES,
+  type ExportProvider,
+} from "../integrations/ExportToProviderModal";
 
 // Custom spinner icon component for ActionList (matches Polaris icon format)
 const SpinnerIcon = () => (
@@ -84,6 +88,10 @@ interface SavedListCardProps {
     text: string;
   };
   isExporting?: boolean;
+  mailchimpSyncStatus?: ListSyncStatus;
+  onSyncToMailchimp?: (listId: string) => void;
+  exportProviders?: ExportProvider[];
+  onExportToProvider?: (listId: string, provider: ExportProvider) => void;
 }
 
 /**
@@ -107,6 +115,10 @@ export function SavedListCard({
   formatDate,
   getSourceBadge,
   isExporting = false,
+  mailchimpSyncStatus,
+  onSyncToMailchimp,
+  exportProviders = [],
+  onExportToProvider,
 }: SavedListCardProps) {
   const {
     id,
@@ -153,6 +165,19 @@ export function SavedListCard({
     [id, onExportPDF, onExportCSV, onExportExcel, onExport],
   );
 
+  const handleSyncToMailchimp = useCallback(() => {
+    setExportPopoverOpen(false);
+    onSyncToMailchimp?.(id);
+  }, [id, onSyncToMailchimp]);
+
+  const handleExportToProvider = useCallback(
+    (provider: ExportProvider) => {
+      setExportPopoverOpen(false);
+      onExportToProvider?.(id, provider);
+    },
+    [id, onExportToProvider],
+  );
+
   const handleArchive = useCallback(() => {
     onArchive(id);
   }, [id, onArchive]);
@@ -170,6 +195,25 @@ export function SavedListCard({
     }
   }, [id, onModify]);
 
+  const integrationItems = [
+    ...(onSyncToMailchimp
+      ? [
+          {
+            content: "Sync to Mailchimp",
+            icon: EmailIcon,
+            onAction: handleSyncToMailchimp,
+          },
+        ]
+      : []),
+    ...(onExportToProvider
+      ? exportProviders.map((provider) => ({
+          content: `Export to ${EXPORT_PROVIDER_NAMES[provider]}`,
+          icon: EmailIcon,
+          onAction: () => handleExportToProvider(provider),
+        }))
+      : []),
+  ];
+
   return (
     <Card>
       <InlineStack align="space-between" blockAlign="start">
@@ -210,6 +254,25 @@ export function SavedListCard({
               {formatDate(createdAt)}
             </Text>
 
+            {mailchimpSyncStatus && (
+              <>
+                <Text as="span" variant="bodySm" tone="subdued">
+                  •
+                </Text>
+                <Badge
+                  size="small"
+                  tone={mailchimpSyncStatus.failedCount > 0 ? "warning" : "info"}
+                >
+                  {`Mailchimp synced ${formatDate(mailchimpSyncStatus.lastSyncedAt)}`}
+                </Badge>
+                {mailchimpSyncStatus.keepInSync && (
+                  <Badge size="small" tone="success">
+                    Auto-sync
+                  </Badge>
+                )}
+              </>
+            )}
+
             {tags.length > 0 && (
               <>
                 <Text as="span" variant="bodySm" tone="subdued">
@@ -260,19 +323,27 @@ export function SavedListCard({
             onClose={toggleExportPopover}
           >
             <ActionList
-              items={[
+              sections={[
                 {
-                  content: "Export as PDF",
-                  onAction: () => handleExportFormat("pdf"),
-                },
-                {
-                  content: "Export as CSV",
-                  onAction: () => handleExportFormat("csv"),
-                },
-                {
-                  content: "Export as Excel",
-                  onAction: () => handleExportFormat("excel"),
+                  items: [
+                    {
+                      content: "Export as PDF",
+                      onAction: () => handleExportFormat("pdf"),
+                    },
+                    {
+                      content: "Export as CSV",
+                      onAction: () => handleExportFormat("csv"),
+                    },
+                    {
+                      content: "Export as Excel",
+                      onAction: () => handleExportFormat("excel"),
+                    },
+                  ],
                 },
+                // Only show integrations when a provider is connected
+                ...(integrationItems.length > 0
+                  ? [{ items: integrationItems }]
+                  : []),
               ]}
             />
           </Popover>
@@ -0,0 +1,293 @@
+import {
+  Modal,
+  BlockStack,
+  InlineStack,
+  Text,
+  Select,
+  Checkbox,
+  Banner,
+  Spinner,
+} from "@shopify/polaris";
+import { useState, useEffect, useCallback } from "react";
+import type { SavedList, ListSyncStatus } from "./types";
+import { formatUpsertedCounts } from "./utils";
+
+interface SyncToMailchimpModalProps {
+  open: boolean;
+  onClose: () => void;
+  list: SavedList | null;
+  syncStatus?: ListSyncStatus;
+  onSynced: (status: ListSyncStatus) => void;
+}
+
+interface MailchimpAudience {
+  id: string;
+  name: string;
+  memberCount: number;
+}
+
+// Mirrors ExportConsentMode in audience-export.server
+type ConsentMode = "subscribedOnly" | "all";
+
+interface ConsentWarning {
+  nonConsented: number;
+  total: number;
+}
+
+/**
+ * Sync To Mailchimp Modal Component
+ *
+ * Lets the merchant pick a Mailchimp audience and push a saved list into it.
+ * Members are tagged with the list name in Mailchimp. Syncs go through the
+ * generic audience destination route like every other provider.
+ * When the list contains contacts without email marketing consent, the
+ * merchant is warned and chooses to sync subscribed contacts only or all of them.
+ */
+export function SyncToMailchimpModal({
+  open,
+  onClose,
+  list,
+  syncStatus,
+  onSynced,
+}: SyncToMailchimpModalProps) {
+  const [audiences, setAudiences] = useState<MailchimpAudience[]>([]);
+  const [selectedAudienceId, setSelectedAudienceId] = useState("");
+  const [keepInSync, setKeepInSync] = useState(false);
+  const [isLoadingAudiences, setIsLoadingAudiences] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [consentWarning, setConsentWarning] = useState<ConsentWarning | null>(null);
+
+  // Fetch audiences when modal opens
+  useEffect(() => {
+    if (!open) {
+      setError(null);
+      setConsentWarning(null);
+      return;
+    }
+
+    setKeepInSync(syncStatus?.keepInSync ?? false);
+
+    const fetchAudiences = async () => {
+      setIsLoadingAudiences(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/saved-lists/sync?destination=mailchimp");
+        const data = await response.json();
+
+        if (data.error === "DESTINATION_NOT_CONNECTED") {
+          setError("DESTINATION_NOT_CONNECTED");
+          return;
+        }
+
+        if (!data.success) {
+          setError(data.error || "Failed to load Mailchimp audiences");
+          return;
+        }
+
+        setAudiences(data.audiences);
+        // Default to the previously synced audience, otherwise the first one
+        const previous = data.audiences.find(
+          (audience: MailchimpAudience) =>
+            audience.id === syncStatus?.audienceId,
+        );
+        setSelectedAudienceId(previous?.id || data.audiences[0]?.id || "");
+      } catch (err) {
+        console.error("[SyncToMailchimpModal] Error fetching audiences:", err);
+        setError("Failed to load Mailchimp audiences");
+      } finally {
+        setIsLoadingAudiences(false);
+      }
+    };
+
+    fetchAudiences();
+  }, [open, syncStatus?.audienceId, syncStatus?.keepInSync]);
+
+  const handleSync = useCallback(async (consentMode?: ConsentMode) => {
+    if (!list || !selectedAudienceId) return;
+
+    setIsSyncing(true);
+    setError(null);
+    setConsentWarning(null);
+
+    try {
+      const audience = audiences.find((a) => a.id === selectedAudienceId);
+      const formData = new FormData();
+      formData.append("destination", "mailchimp");
+      formData.append("listId", list.id);
+      formData.append("audienceId", selectedAudienceId);
+      formData.append("audienceName", audience?.name || "");
+      formData.append("keepInSync", String(keepInSync));
+      if (consentMode) {
+        formData.append("consentMode", consentMode);
+      }
+
+      const response = await fetch("/api/saved-lists/sync", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (data.error === "NON_CONSENTED_CONTACTS") {
+        setConsentWarning({ nonConsented: data.nonConsented, total: data.total });
+        return;
+      }
+
+      if (!data.success) {
+        setError(data.error || "Failed to sync list to Mailchimp");
+        return;
+      }
+
+      onSynced(data.sync);
+    } catch (err) {
+      console.error("[SyncToMailchimpModal] Error syncing list:", err);
+      setError("Failed to sync list to Mailchimp");
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [list, selectedAudienceId, audiences, keepInSync, onSynced]);
+
+  if (!list) {
+    return null;
+  }
+
+  const audienceOptions = audiences.map((audience) => ({
+    label: `${audience.name} (${audience.memberCount.toLocaleString()} members)`,
+    value: audience.id,
+  }));
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={`Sync "${list.name}" to Mailchimp`}
+      primaryAction={{
+        content: isSyncing ? "Syncing..." : "Sync",
+        onAction: () => handleSync(),
+        loading: isSyncing,
+        disabled:
+          isSyncing ||
+          consentWarning !== null ||
+          isLoadingAudiences ||
+          !selectedAudienceId,
+      }}
+      secondaryActions={[
+        {
+          content: "Cancel",
+          onAction: onClose,
+        },
+      ]}
+    >
+      <Modal.Section>
+        <BlockStack gap="400">
+          <Text as="p" variant="bodyMd">
+            {list.customerCount.toLocaleString()} customers will be added or
+            updated in the selected audience and tagged &quot;{list.name}&quot;.
+            New members who haven&apos;t consented to email marketing in
+            Shopify are added as transactional contacts.
+          </Text>
+
+          {isLoadingAudiences ? (
+            <InlineStack align="center">
+              <Spinner size="small" />
+            </InlineStack>
+          ) : (
+            audiences.length > 0 && (
+              <Select
+                label="Mailchimp audience"
+                options={audienceOptions}
+                value={selectedAudienceId}
+                onChange={setSelectedAudienceId}
+              />
+            )
+          )}
+
+          <Checkbox
+            label="Keep in sync"
+            helpText={
+              list.source === "ai-search"
+                ? "Not available for AI generated lists."
+                : "Periodically re-run this list's filters and add or remove customers in Mailchimp as they start or stop matching."
+            }
+            checked={keepInSync && list.source !== "ai-search"}
+            disabled={list.source === "ai-search"}
+            onChange={setKeepInSync}
+          />
+
+          {!isLoadingAudiences && !error && audiences.length === 0 && (
+            <Banner tone="warning">
+              <p>No audiences found in your Mailchimp account.</p>
+            </Banner>
+          )}
+
+          {consentWarning && (
+            <Banner
+              tone="warning"
+              title="Some contacts haven't consented to email marketing"
+              action={{
+                content: "Sync subscribed only",
+                onAction: () => handleSync("subscribedOnly"),
+                disabled: isSyncing,
+              }}
+              secondaryAction={{
+                content: "Sync all anyway",
+                onAction: () => handleSync("all"),
+              }}
+            >
+              <p>
+                {consentWarning.nonConsented.toLocaleString()} of{" "}
+                {consentWarning.total.toLocaleString()} contacts are not subscribed
+                to email marketing. New members among them are added as
+                transactional contacts; only sync them if you have their consent
+                elsewhere. With keep in sync, this choice also applies to
+                customers who join the list later.
+              </p>
+            </Banner>
+          )}
+
+          {syncStatus && (
+            <Banner tone={syncStatus.failedCount > 0 ? "warning" : "info"}>
+              <p>
+                Last synced{" "}
+                {new Date(syncStatus.lastSyncedAt).toLocaleString()}
+                {syncStatus.audienceName
+                  ? ` to ${syncStatus.audienceName}`
+                  : ""}
+                : {formatUpsertedCounts(syncStatus)},{" "}
+                {syncStatus.removedCount} removed, {syncStatus.failedCount}{" "}
+                failed.
+              </p>
+            </Banner>
+          )}
+
+          {error === "DESTINATION_NOT_CONNECTED" && (
+            <Banner tone="critical">
+              <p>
+                Mailchimp is not connected. Connect your account in Settings
+                to sync lists.
+              </p>
+            </Banner>
+          )}
+
+          {error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" && (
+            <Banner tone="critical">
+              <p>
+                Access to customer data is required to sync customers. Please
+                request access in your Partner Dashboard.
+              </p>
+            </Banner>
+          )}
+
+          {error &&
+            error !== "DESTINATION_NOT_CONNECTED" &&
+            error !== "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" && (
+              <Banner tone="critical">
+                <p>{error}</p>
+              </Banner>
+            )}
+        </BlockStack>
+      </Modal.Section>
+    </Modal>
+  );
+}
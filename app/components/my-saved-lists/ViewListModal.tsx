@@ -13,15 +13,18 @@ import {
   Popover,
   ActionList,
 } from "@shopify/polaris";
-import { ExportIcon } from "@shopify/polaris-icons";
+import { ExportIcon, EmailIcon } from "@shopify/polaris-icons";
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { SavedList } from "./types";
+import type { SavedList, ListSyncStatus } from "./types";
+import { formatUpsertedCounts } from "./utils";
 
 interface ViewListModalProps {
   open: boolean;
   onClose: () => void;
   list: SavedList | null;
   onExportCSV?: () => void;
+  mailchimpSyncStatus?: ListSyncStatus;
+  onSyncToMailchimp?: () => void;
 }
 
 interface Customer {
@@ -32,6 +35,7 @@ interface Customer {
   createdAt: string;
   numberOfOrders: number;
   totalSpent: string;
+  predictedClv: string;
 }
 
 /**
@@ -44,6 +48,8 @@ export function ViewListModal({
   onClose,
   list,
   onExportCSV,
+  mailchimpSyncStatus,
+  onSyncToMailchimp,
 }: ViewListModalProps) {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -182,6 +188,7 @@ export function ViewListModal({
           "Created Date",
           "Orders",
           "Total Spent",
+          "Predicted CLV",
         ];
 
         const listName = list.name.replace(/[^a-z0-9]/gi, "-").toLowerCase();
@@ -198,6 +205,7 @@ export function ViewListModal({
                 `"${customer.createdAt}"`,
                 customer.numberOfOrders.toString(),
                 `"${customer.totalSpent}"`,
+                `"${customer.predictedClv}"`,
               ].join(","),
             ),
           ];
@@ -256,6 +264,7 @@ export function ViewListModal({
                         <td>${customer.createdAt}</td>
                         <td>${customer.numberOfOrders}</td>
                         <td>${customer.totalSpent}</td>
+                        <td>${customer.predictedClv}</td>
                       </tr>
                     `,
                       )
@@ -290,6 +299,7 @@ export function ViewListModal({
                 `"${customer.createdAt}"`,
                 customer.numberOfOrders.toString(),
                 `"${customer.totalSpent}"`,
+                `"${customer.predictedClv}"`,
               ].join(","),
             ),
           ];
@@ -345,6 +355,7 @@ export function ViewListModal({
           customer.createdAt || "N/A",
           (customer.numberOfOrders || 0).toString(),
           customer.totalSpent || "0.00",
+          customer.predictedClv || "0.00",
         ])
       : [];
 
@@ -355,6 +366,7 @@ export function ViewListModal({
     "Created Date",
     "Orders",
     "Total Spent",
+    "Predicted CLV",
   ];
 
   return (
@@ -373,6 +385,16 @@ export function ViewListModal({
           onAction: toggleExportPopover,
           disabled: isExporting || !customers || customers.length === 0,
         },
+        ...(onSyncToMailchimp
+          ? [
+              {
+                content: "Sync to Mailchimp",
+                icon: EmailIcon,
+                onAction: onSyncToMailchimp,
+                disabled: isLoading || !customers || customers.length === 0,
+              },
+            ]
+          : []),
       ]}
       size="large"
     >
@@ -433,6 +455,16 @@ export function ViewListModal({
             <Text as="p" variant="bodySm" tone="subdued">
               Last Updated: {new Date(list.lastUpdated).toLocaleDateString()}
             </Text>
+            {mailchimpSyncStatus && (
+              <Text as="p" variant="bodySm" tone="subdued">
+                Mailchimp: synced{" "}
+                {new Date(mailchimpSyncStatus.lastSyncedAt).toLocaleDateString()}{" "}
+                ({formatUpsertedCounts(mailchimpSyncStatus)},{" "}
+                {mailchimpSyncStatus.removedCount} removed,{" "}
+                {mailchimpSyncStatus.failedCount} failed
+                {mailchimpSyncStatus.keepInSync ? ", auto-sync on" : ""})
+              </Text>
+            )}
           </InlineStack>
 
           {/* Loading State */}
@@ -465,6 +497,7 @@ export function ViewListModal({
                     "text",
                     "numeric",
                     "text",
+                    "text",
                   ]}
                   headings={tableHeadings}
                   rows={tableRows}
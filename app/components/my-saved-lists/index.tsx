@@ -14,6 +14,12 @@ import { SavedListCard } from "./SavedListCard";
 import { DeleteConfirmationModal } from "./DeleteConfirmationModal";
 import { EmptyStateCard } from "./EmptyStateCard";
 import { ViewListModal } from "./ViewListModal";
+import { SyncToMailchimpModal } from "./SyncToMailchimpModal";
+import {
+  ExportToProviderModal,
+  type ExportProvider,
+  type ExportSource,
+} from "../integrations/ExportToProviderModal";
 import {
   filterLists,
   sortLists,
@@ -21,7 +27,7 @@ import {
   getSourceBadge,
   formatDate,
 } from "./utils";
-import type { LoaderData, SavedList } from "./types";
+import type { LoaderData, SavedList, ListSyncStatus } from "./types";
 
 interface MySavedListsProps {
   loaderData: LoaderData;
@@ -31,7 +37,8 @@ interface MySavedListsProps {
  * Main My Saved Lists Component
  */
 export function MySavedLists({ loaderData }: MySavedListsProps) {
-  const { savedLists, recentActivity } = loaderData;
+  const { savedLists, recentActivity, mailchimpConnected, exportProviders } =
+    loaderData;
   const submit = useSubmit();
   const navigation = useNavigation();
 
@@ -47,6 +54,14 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
   const [selectedListId, setSelectedListId] = useState<string | null>(null);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [selectedList, setSelectedList] = useState<SavedList | null>(null);
+  const [syncList, setSyncList] = useState<SavedList | null>(null);
+  const [providerExport, setProviderExport] = useState<{
+    provider: ExportProvider;
+    source: ExportSource;
+  } | null>(null);
+  const [mailchimpSyncs, setMailchimpSyncs] = useState<
+    Record<string, ListSyncStatus>
+  >(loaderData.mailchimpSyncs);
   const [actionPopoverOpen, setActionPopoverOpen] = useState<
     Record<string, boolean>
   >({});
@@ -154,6 +169,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
           "Created Date",
           "Orders",
           "Total Spent",
+          "Predicted CLV",
         ];
 
         let htmlContent = `
@@ -191,6 +207,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
                     <td>${customer.createdAt}</td>
                     <td>${customer.numberOfOrders}</td>
                     <td>${customer.totalSpent}</td>
+                    <td>${customer.predictedClv}</td>
                   </tr>
                 `,
                   )
@@ -257,6 +274,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
           "Created Date",
           "Orders",
           "Total Spent",
+          "Predicted CLV",
         ];
         const csvRows = [
           headers.join(","),
@@ -268,6 +286,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
               `"${customer.createdAt}"`,
               customer.numberOfOrders.toString(),
               `"${customer.totalSpent}"`,
+              `"${customer.predictedClv}"`,
             ].join(","),
           ),
         ];
@@ -330,6 +349,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
           "Created Date",
           "Orders",
           "Total Spent",
+          "Predicted CLV",
         ];
         const csvRows = [
           headers.join(","),
@@ -341,6 +361,7 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
               `"${customer.createdAt}"`,
               customer.numberOfOrders.toString(),
               `"${customer.totalSpent}"`,
+              `"${customer.predictedClv}"`,
             ].join(","),
           ),
         ];
@@ -418,6 +439,42 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
     [savedLists],
   );
 
+  const handleSyncToMailchimp = useCallback(
+    (listId: string) => {
+      const list = savedLists.find((l) => l.id === listId);
+      if (list) {
+        // Only one Polaris modal can be open at a time
+        setViewModalOpen(false);
+        setSyncList(list);
+      }
+    },
+    [savedLists],
+  );
+
+  const handleMailchimpSynced = useCallback((status: ListSyncStatus) => {
+    setMailchimpSyncs((prev) => ({ ...prev, [status.listId]: status }));
+    setSyncList(null);
+  }, []);
+
+  const handleExportToProvider = useCallback(
+    (listId: string, provider: ExportProvider) => {
+      const list = savedLists.find((l) => l.id === listId);
+      if (list) {
+        setViewModalOpen(false);
+        setProviderExport({
+          provider,
+          source: {
+            type: "list",
+            listId: list.id,
+            name: list.name,
+            customerCount: list.customerCount,
+          },
+        });
+      }
+    },
+    [savedLists],
+  );
+
   // Data Processing
   const filteredLists = filterLists(
     savedLists,
@@ -488,6 +545,12 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
                       formatDate={formatDate}
                       getSourceBadge={getSourceBadge}
                       isExporting={exportingListId === list.id}
+                      mailchimpSyncStatus={mailchimpSyncs[list.id]}
+                      onSyncToMailchimp={
+                        mailchimpConnected ? handleSyncToMailchimp : undefined
+                      }
+                      exportProviders={exportProviders}
+                      onExportToProvider={handleExportToProvider}
                     />
                   ))}
                 </BlockStack>
@@ -513,7 +576,34 @@ export function MySavedLists({ loaderData }: MySavedListsProps) {
           setSelectedList(null);
         }}
         list={selectedList}
+        mailchimpSyncStatus={
+          selectedList ? mailchimpSyncs[selectedList.id] : undefined
+        }
+        onSyncToMailchimp={
+          mailchimpConnected && selectedList
+            ? () => handleSyncToMailchimp(selectedList.id)
+            : undefined
+        }
       />
+
+      {/* Sync To Mailchimp Modal */}
+      <SyncToMailchimpModal
+        open={syncList !== null}
+        onClose={() => setSyncList(null)}
+        list={syncList}
+        syncStatus={syncList ? mailchimpSyncs[syncList.id] : undefined}
+        onSynced={handleMailchimpSynced}
+      />
+
+      {/* Export To Provider Modal */}
+      {providerExport && (
+        <ExportToProviderModal
+          open={true}
+          onClose={() => setProviderExport(null)}
+          provider={providerExport.provider}
+          source={providerExport.source}
+        />
+      )}
     </>
   );
 }
@@ -2,6 +2,8 @@
  * Types for My Saved Lists Components
  */
 
+import type { ExportProvider } from "../integrations/ExportToProviderModal";
+
 export interface SavedList {
   id: string;
   name: string;
@@ -15,8 +17,30 @@ export interface SavedList {
   status: "active" | "archived";
 }
 
+// Latest sync job of a saved list to an audience destination
+export interface ListSyncStatus {
+  listId: string;
+  destination: string;
+  audienceId: string;
+  audienceName: string | null;
+  status: string;
+  lastSyncedAt: string;
+  upsertedCount: number;
+  // Split of upsertedCount, null when the destination doesn't report it
+  addedCount: number | null;
+  updatedCount: number | null;
+  failedCount: number;
+  removedCount: number;
+  skippedCount: number;
+  keepInSync: boolean;
+}
+
 export interface LoaderData {
   savedLists: SavedList[];
+  mailchimpConnected: boolean;
+  mailchimpSyncs: Record<string, ListSyncStatus>;
+  // Connected email providers lists can be exported to
+  exportProviders: ExportProvider[];
   totalLists: number;
   recentActivity: {
     listsCreated: number;
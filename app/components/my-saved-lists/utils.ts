@@ -2,7 +2,7 @@
  * Utility Functions for My Saved Lists
  */
 
-import type { SavedList } from "./types";
+import type { ListSyncStatus, SavedList } from "./types";
 
 /**
  * Get source badge properties
@@ -34,6 +34,18 @@ export function formatDate(dateString: string): string {
   });
 }
 
+/**
+ * Format the contacts a sync upserted, split into added and updated when the
+ * destination reports it
+ */
+export function formatUpsertedCounts(syncStatus: ListSyncStatus): string {
+  if (syncStatus.addedCount == null || syncStatus.updatedCount == null) {
+    return `${syncStatus.upsertedCount} added or updated`;
+  }
+
+  return `${syncStatus.addedCount} added, ${syncStatus.updatedCount} updated`;
+}
+
 /**
  * Filter lists based on search query and status
  */
@@ -0,0 +1,53 @@
+import { Card, BlockStack, InlineGrid, Text, Select } from "@shopify/polaris";
+import {
+  PARTS_OF_DAY,
+  formatHour,
+  isValidPartOfDayBoundaries,
+  type PartOfDay,
+  type PartOfDayBoundaries,
+} from "../../utils/partOfDay";
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  label: formatHour(hour),
+  value: String(hour),
+}));
+
+interface PartOfDaySettingsCardProps {
+  partOfDay: PartOfDayBoundaries;
+  onPartOfDayChange: (value: PartOfDayBoundaries) => void;
+}
+
+export function PartOfDaySettingsCard({
+  partOfDay,
+  onPartOfDayChange,
+}: PartOfDaySettingsCardProps) {
+  const isValid = isValidPartOfDayBoundaries(partOfDay);
+
+  const handleChange = (part: PartOfDay) => (value: string) => {
+    onPartOfDayChange({ ...partOfDay, [part]: Number(value) });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="200">
+        <InlineGrid columns={{ xs: 2, md: 4 }} gap="300">
+          {PARTS_OF_DAY.map((part) => (
+            <Select
+              key={part.id}
+              label={`${part.label} starts at`}
+              options={HOUR_OPTIONS}
+              value={String(partOfDay[part.id])}
+              onChange={handleChange(part.id)}
+            />
+          ))}
+        </InlineGrid>
+
+        <Text as="p" variant="bodySm" tone={isValid ? "subdued" : "critical"}>
+          {isValid
+            ? "Each part of the day lasts until the next one starts, in your shop's timezone."
+            : "Parts of day must start in order: morning, afternoon, evening, then night."}
+        </Text>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -7,8 +7,14 @@ import { WhatsAppModal } from "./WhatsAppModal";
 import { EmailModal } from "./EmailModal";
 import { ScheduleModal } from "./ScheduleModal";
 import { LanguageSettingsCard, LANGUAGE_CONFIG } from "./LanguageSettingsCard";
+import { PartOfDaySettingsCard } from "./PartOfDaySettingsCard";
 import { IntegrationSettings } from "./integration";
 import { saveUserPreferencesToCookie } from "../../utils/userPreferences.client";
+import {
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  isValidPartOfDayBoundaries,
+  type PartOfDayBoundaries,
+} from "../../utils/partOfDay";
 import type { Settings, ActionData } from "./types";
 
 interface SettingsProps {
@@ -20,10 +26,19 @@ interface SettingsProps {
   isTestingWhatsApp: boolean;
   isTestingEmail: boolean;
   initialLanguage: string;
+  initialPartOfDay?: PartOfDayBoundaries;
   mailchimpConnection?: {
     isConnected: boolean;
     connectedAt?: string;
   };
+  klaviyoConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
+  sendgridConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
 }
 
 interface SettingsSectionProps {
@@ -95,13 +110,21 @@ export function Settings({
   isTestingWhatsApp,
   isTestingEmail,
   initialLanguage,
+  initialPartOfDay,
   mailchimpConnection,
+  klaviyoConnection,
+  sendgridConnection,
 }: SettingsProps) {
   // Language / localization state (for future Weglot / i18n integration)
   const [selectedLanguage, setSelectedLanguage] = useState<string>(
     initialLanguage || "en",
   );
 
+  // Part-of-day boundaries used by purchase timing cards, heatmap and filter
+  const [partOfDay, setPartOfDay] = useState<PartOfDayBoundaries>(
+    initialPartOfDay || DEFAULT_PART_OF_DAY_BOUNDARIES,
+  );
+
   // Modal states
   const [whatsappModalOpen, setWhatsappModalOpen] = useState(false);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
@@ -160,6 +183,7 @@ export function Settings({
     formData.append("aiSuggestions", aiSuggestions.toString());
     formData.append("aiAudienceAnalysis", aiAudienceAnalysis.toString());
     formData.append("language", selectedLanguage);
+    formData.append("partOfDay", JSON.stringify(partOfDay));
 
     onSubmit(formData);
   }, [
@@ -173,6 +197,7 @@ export function Settings({
     aiSuggestions,
     aiAudienceAnalysis,
     selectedLanguage,
+    partOfDay,
   ]);
 
   // Handle WhatsApp test message
@@ -260,6 +285,7 @@ export function Settings({
                   variant="primary"
                   onClick={handleSaveSettings}
                   loading={isSaving}
+                  disabled={!isValidPartOfDayBoundaries(partOfDay)}
                 >
                   Save
                 </Button>
@@ -278,6 +304,17 @@ export function Settings({
             />
           </SettingsSection>
 
+          {/* Section: Parts of Day */}
+          <SettingsSection
+            title="Parts of Day"
+            description="Set when morning, afternoon, evening and night start. Used by the Purchase Timing cards, the purchase heatmap and the Shopping Timing filter."
+          >
+            <PartOfDaySettingsCard
+              partOfDay={partOfDay}
+              onPartOfDayChange={setPartOfDay}
+            />
+          </SettingsSection>
+
           {/* Section: Waitlist Settings */}
           <SettingsSection
             title="Communication Settings"
@@ -311,9 +348,13 @@ export function Settings({
           {/* Section: Integrations */}
           <SettingsSection
             title="Integrations"
-            description="Connect your existing email tools like Mailchimp and Klaviyo (coming soon) with your audience insights."
+            description="Connect your existing email tools like Mailchimp, Klaviyo and SendGrid with your audience insights."
           >
-            <IntegrationSettings mailchimpConnection={mailchimpConnection} />
+            <IntegrationSettings
+              mailchimpConnection={mailchimpConnection}
+              klaviyoConnection={klaviyoConnection}
+              sendgridConnection={sendgridConnection}
+            />
           </SettingsSection>
 
           {/* Section: Plan & Billing */}
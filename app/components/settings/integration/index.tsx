@@ -16,10 +16,20 @@ interface IntegrationSettingsProps {
     isConnected: boolean;
     connectedAt?: string;
   };
+  klaviyoConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
+  sendgridConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
 }
 
 export function IntegrationSettings({
   mailchimpConnection,
+  klaviyoConnection,
+  sendgridConnection,
 }: IntegrationSettingsProps) {
   const [toastActive, setToastActive] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
@@ -52,11 +62,6 @@ export function IntegrationSettings({
     return () => window.removeEventListener("message", handleMessage);
   }, []);
 
-  const showComingSoonToast = () => {
-    setToastMessage("Integrations are coming soon.");
-    setToastActive(true);
-  };
-
   const handleMailchimpConnect = async () => {
     try {
       // Fetch the OAuth URL from our API
@@ -120,6 +125,118 @@ export function IntegrationSettings({
     }
   };
 
+  const handleKlaviyoConnect = async (apiKey: string) => {
+    try {
+      const formData = new FormData();
+      formData.append("apiKey", apiKey);
+
+      const response = await fetch("/api/klaviyo/connect", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setToastMessage("✅ Klaviyo connected successfully!");
+        setToastActive(true);
+        // Reload page to refresh connection status
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      } else {
+        setToastMessage(data.error || "Failed to connect Klaviyo");
+        setToastActive(true);
+      }
+    } catch (error) {
+      console.error("Failed to connect Klaviyo:", error);
+      setToastMessage("Failed to connect Klaviyo. Please try again.");
+      setToastActive(true);
+    }
+  };
+
+  const handleKlaviyoDisconnect = async () => {
+    try {
+      const response = await fetch("/api/klaviyo/disconnect", {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setToastMessage("✅ Klaviyo disconnected successfully");
+        setToastActive(true);
+        // Reload page to refresh connection status
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      } else {
+        setToastMessage(data.error || "Failed to disconnect Klaviyo");
+        setToastActive(true);
+      }
+    } catch (error) {
+      console.error("Failed to disconnect Klaviyo:", error);
+      setToastMessage("Failed to disconnect Klaviyo. Please try again.");
+      setToastActive(true);
+    }
+  };
+
+  const handleSendGridConnect = async (apiKey: string) => {
+    try {
+      const formData = new FormData();
+      formData.append("apiKey", apiKey);
+
+      const response = await fetch("/api/sendgrid/connect", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setToastMessage("✅ SendGrid connected successfully!");
+        setToastActive(true);
+        // Reload page to refresh connection status
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      } else {
+        setToastMessage(data.error || "Failed to connect SendGrid");
+        setToastActive(true);
+      }
+    } catch (error) {
+      console.error("Failed to connect SendGrid:", error);
+      setToastMessage("Failed to connect SendGrid. Please try again.");
+      setToastActive(true);
+    }
+  };
+
+  const handleSendGridDisconnect = async () => {
+    try {
+      const response = await fetch("/api/sendgrid/disconnect", {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setToastMessage("✅ SendGrid disconnected successfully");
+        setToastActive(true);
+        // Reload page to refresh connection status
+        setTimeout(() => {
+          window.location.reload();
+        }, 1500);
+      } else {
+        setToastMessage(data.error || "Failed to disconnect SendGrid");
+        setToastActive(true);
+      }
+    } catch (error) {
+      console.error("Failed to disconnect SendGrid:", error);
+      setToastMessage("Failed to disconnect SendGrid. Please try again.");
+      setToastActive(true);
+    }
+  };
+
   return (
     <BlockStack gap="300">
       {toastActive && (
@@ -132,8 +249,18 @@ export function IntegrationSettings({
         onConnect={handleMailchimpConnect}
         onDisconnect={handleMailchimpDisconnect}
       />
-      {/* <KlaviyoIntegration onConnect={showComingSoonToast} />
-      <SendGridIntegration onConnect={showComingSoonToast} /> */}
+      <KlaviyoIntegration
+        isConnected={klaviyoConnection?.isConnected || false}
+        connectedAt={klaviyoConnection?.connectedAt}
+        onConnect={handleKlaviyoConnect}
+        onDisconnect={handleKlaviyoDisconnect}
+      />
+      <SendGridIntegration
+        isConnected={sendgridConnection?.isConnected || false}
+        connectedAt={sendgridConnection?.connectedAt}
+        onConnect={handleSendGridConnect}
+        onDisconnect={handleSendGridDisconnect}
+      />
     </BlockStack>
   );
 }
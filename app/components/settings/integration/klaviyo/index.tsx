@@ -1,10 +1,40 @@
-import { Card, BlockStack, InlineStack, Text, Button } from "@shopify/polaris";
+import { useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  TextField,
+} from "@shopify/polaris";
 
 interface KlaviyoIntegrationProps {
-  onConnect: () => void;
+  isConnected: boolean;
+  connectedAt?: string;
+  onConnect: (apiKey: string) => Promise<void>;
+  onDisconnect?: () => void;
 }
 
-export function KlaviyoIntegration({ onConnect }: KlaviyoIntegrationProps) {
+export function KlaviyoIntegration({
+  isConnected,
+  connectedAt,
+  onConnect,
+  onDisconnect,
+}: KlaviyoIntegrationProps) {
+  const [apiKey, setApiKey] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    try {
+      await onConnect(apiKey);
+      setApiKey("");
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
   return (
     <Card>
       <BlockStack gap="200">
@@ -27,24 +57,51 @@ export function KlaviyoIntegration({ onConnect }: KlaviyoIntegrationProps) {
               K
             </div>
             <BlockStack gap="050">
-              <Text as="h3" variant="headingSm">
-                Klaviyo
-              </Text>
+              <InlineStack gap="200" blockAlign="center">
+                <Text as="h3" variant="headingSm">
+                  Klaviyo
+                </Text>
+                {isConnected && <Badge tone="success">Connected</Badge>}
+              </InlineStack>
               <Text as="p" variant="bodySm" tone="subdued">
-                Connect Klaviyo to power advanced email flows with your audience
-                insights.
+                {isConnected
+                  ? `Connected ${connectedAt ? `on ${new Date(connectedAt).toLocaleDateString()}` : ""}`
+                  : "Connect Klaviyo to power advanced email flows with your audience insights."}
               </Text>
             </BlockStack>
           </InlineStack>
         </InlineStack>
-        <InlineStack align="end">
-          <Button variant="secondary" onClick={onConnect}>
-            Connect Klaviyo
-          </Button>
+        {!isConnected && (
+          <TextField
+            label="Private API key"
+            type="password"
+            value={apiKey}
+            onChange={setApiKey}
+            autoComplete="off"
+            helpText="Create a private API key with Lists and Profiles full access in Klaviyo → Settings → API keys."
+          />
+        )}
+        <InlineStack align="end" gap="200">
+          {isConnected ? (
+            <>
+              {onDisconnect && (
+                <Button onClick={onDisconnect}>
+                  Disconnect
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button
+              variant="primary"
+              onClick={handleConnect}
+              loading={isConnecting}
+              disabled={!apiKey.trim()}
+            >
+              Connect Klaviyo
+            </Button>
+          )}
         </InlineStack>
       </BlockStack>
     </Card>
   );
 }
-
-
@@ -1,10 +1,40 @@
-import { Card, BlockStack, InlineStack, Text, Button } from "@shopify/polaris";
+import { useState } from "react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  TextField,
+} from "@shopify/polaris";
 
 interface SendGridIntegrationProps {
-  onConnect: () => void;
+  isConnected: boolean;
+  connectedAt?: string;
+  onConnect: (apiKey: string) => Promise<void>;
+  onDisconnect?: () => void;
 }
 
-export function SendGridIntegration({ onConnect }: SendGridIntegrationProps) {
+export function SendGridIntegration({
+  isConnected,
+  connectedAt,
+  onConnect,
+  onDisconnect,
+}: SendGridIntegrationProps) {
+  const [apiKey, setApiKey] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    try {
+      await onConnect(apiKey);
+      setApiKey("");
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
   return (
     <Card>
       <BlockStack gap="200">
@@ -27,23 +57,51 @@ export function SendGridIntegration({ onConnect }: SendGridIntegrationProps) {
               S
             </div>
             <BlockStack gap="050">
-              <Text as="h3" variant="headingSm">
-                SendGrid
-              </Text>
+              <InlineStack gap="200" blockAlign="center">
+                <Text as="h3" variant="headingSm">
+                  SendGrid
+                </Text>
+                {isConnected && <Badge tone="success">Connected</Badge>}
+              </InlineStack>
               <Text as="p" variant="bodySm" tone="subdued">
-                Deliver email campaigns via your SendGrid account.
+                {isConnected
+                  ? `Connected ${connectedAt ? `on ${new Date(connectedAt).toLocaleDateString()}` : ""}`
+                  : "Export audiences to SendGrid Marketing Contacts for your email campaigns."}
               </Text>
             </BlockStack>
           </InlineStack>
         </InlineStack>
-        <InlineStack align="end">
-          <Button variant="secondary" onClick={onConnect}>
-            Connect SendGrid
-          </Button>
+        {!isConnected && (
+          <TextField
+            label="API key"
+            type="password"
+            value={apiKey}
+            onChange={setApiKey}
+            autoComplete="off"
+            helpText="Create an API key with Marketing full access in SendGrid → Settings → API Keys."
+          />
+        )}
+        <InlineStack align="end" gap="200">
+          {isConnected ? (
+            <>
+              {onDisconnect && (
+                <Button onClick={onDisconnect}>
+                  Disconnect
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button
+              variant="primary"
+              onClick={handleConnect}
+              loading={isConnecting}
+              disabled={!apiKey.trim()}
+            >
+              Connect SendGrid
+            </Button>
+          )}
         </InlineStack>
       </BlockStack>
     </Card>
   );
 }
-
-
@@ -2,6 +2,8 @@
  * Types for Settings Components
  */
 
+import type { PartOfDayBoundaries } from "../../utils/partOfDay";
+
 export interface Settings {
   whatsappNumber: string;
   emailId: string;
@@ -17,6 +19,7 @@ export interface Settings {
 
 export interface UserPreferences {
   language: string;
+  partOfDay?: PartOfDayBoundaries;
 }
 
 export interface LoaderData {
@@ -26,6 +29,14 @@ export interface LoaderData {
     isConnected: boolean;
     connectedAt?: string;
   };
+  klaviyoConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
+  sendgridConnection?: {
+    isConnected: boolean;
+    connectedAt?: string;
+  };
   currentPlan?: string | null;
   isDevMode?: boolean;
 }
@@ -1 +1,4 @@
 declare module "*.css";
+
+// The Mailchimp client package ships without types
+declare module "@mailchimp/mailchimp_marketing/src/ApiClient.js";
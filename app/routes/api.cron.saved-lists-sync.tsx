@@ -0,0 +1,42 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { runKeepInSync } from "../services/audience-sync.server";
+
+/**
+ * API Route for the Saved Lists Keep-In-Sync Cron Job
+ * 
+ * Called every few minutes (see vercel.json) to refresh the next batch of
+ * saved lists that have "keep in sync" enabled, whatever destination they are
+ * synced to. Requests must carry the CRON_SECRET bearer token.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    throw new Response("CRON_SECRET not configured", { status: 500 });
+  }
+
+  if (request.headers.get("Authorization") !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runKeepInSync();
+
+    return Response.json({
+      success: true,
+      processed: results.length,
+      results,
+    });
+  } catch (error) {
+    console.error("[Saved Lists Keep In Sync Cron] Error:", error);
+    return Response.json(
+      {
+        success: false,
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to run saved lists keep-in-sync",
+      },
+      { status: 500 }
+    );
+  }
+};
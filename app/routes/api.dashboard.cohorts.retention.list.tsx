@@ -0,0 +1,68 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getCohortCellCustomersQuery } from "../components/dashboard/Cohorts/CohortRetention/query";
+import { parseCohortMonths } from "../utils/cohorts";
+
+/**
+ * API Route for Cohort Retention List Data
+ *
+ * Fetches the customers behind one cell of the cohort table: customers whose first
+ * order was in `cohort` (YYYY-MM) and who ordered again `offset` months later
+ * (offset 0 lists the whole cohort). Uses the same logic as query.ts.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const cohort = url.searchParams.get("cohort") || "";
+  const offset = Number(url.searchParams.get("offset") || "0");
+  const months = parseCohortMonths(url.searchParams.get("months"));
+  const timezone = await getShopTimezone(admin, session.shop);
+
+  if (!/^\d{4}-\d{2}$/.test(cohort) || !Number.isInteger(offset) || offset < 0) {
+    return Response.json(
+      { error: "A cohort month (YYYY-MM) and a month offset are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const customers = await getCohortCellCustomersQuery(
+      admin,
+      cohort,
+      offset,
+      months,
+      timezone
+    );
+
+    // Format customer data for table
+    const formattedCustomers = customers.map((customer) => ({
+      id: customer.id,
+      name: customer.displayName || "N/A",
+      email: customer.email || "N/A",
+      createdAt: customer.createdAt
+        ? new Date(customer.createdAt).toLocaleDateString()
+        : "N/A",
+      numberOfOrders: Number(customer.numberOfOrders || 0),
+      totalSpent: customer.amountSpent
+        ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
+        : "0.00",
+    }));
+
+    return Response.json({
+      customers: formattedCustomers,
+      total: formattedCustomers.length,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Cohort Retention List API] Protected order data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,47 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseCohortOrders } from "../services/warehouse/dashboard.server";
+import { getCohortRetentionQuery } from "../components/dashboard/Cohorts/CohortRetention/query";
+import { buildCohortRetention, parseCohortMonths } from "../utils/cohorts";
+
+/**
+ * API Route for Cohort Retention Data
+ *
+ * Fetches the cohort table (customers grouped by first-order month) for the last
+ * `months` months, with customer and revenue retention per month
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const months = parseCohortMonths(url.searchParams.get("months"));
+  const timezone = await getShopTimezone(admin, session.shop);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    const warehouseOrders = await getWarehouseCohortOrders(session.shop, months, timezone);
+    const data = warehouseOrders
+      ? buildCohortRetention(
+          warehouseOrders.orders,
+          months,
+          timezone,
+          warehouseOrders.currencyCode
+        )
+      : await getCohortRetentionQuery(admin, months, timezone);
+
+    return Response.json(data);
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log("[Cohort Retention API] Protected order data access denied - user needs to request access in Partner Dashboard");
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[Cohort Retention API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load cohort retention data" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,40 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getWarehouseRfmCustomers } from "../services/warehouse/dashboard.server";
+import { getChurnRiskQuery } from "../components/dashboard/CustomersOverview/ChurnRisk/query";
+import { summarizeChurnRisk } from "../utils/churn";
+
+/**
+ * API Route for Churn Risk Data
+ *
+ * Scores every customer with orders on how overdue their next order is
+ * and returns the size of each Low / Medium / High band
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    const warehouseCustomers = await getWarehouseRfmCustomers(session.shop);
+    const data = warehouseCustomers
+      ? { bands: summarizeChurnRisk(warehouseCustomers) }
+      : await getChurnRiskQuery(admin);
+
+    return Response.json(data);
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Churn Risk API] Protected customer data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[Churn Risk API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load churn risk" },
+      { status: 500 }
+    );
+  }
+};
@@ -1,71 +1,7 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-
-/**
- * Calculate date range - EXACT same logic as in query.ts
- * This ensures the modal uses the same date filtering as the count query
- */
-function calculateDateRange(dateRange: string): { startDate: Date; endDate: Date } {
-  const now = new Date();
-  let startDate: Date;
-  let endDate = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-    23,
-    59,
-    59,
-    999
-  );
-
-  switch (dateRange) {
-    case "today":
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-      endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-      break;
-    case "yesterday":
-      startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-      break;
-    case "7days":
-    case "last7Days":
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "30days":
-    case "last30Days":
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "90days":
-    case "last90Days":
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-    case "thisMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-      break;
-    case "lastMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      endDate = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        0,
-        23,
-        59,
-        59,
-        999
-      );
-      break;
-    default:
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      startDate.setHours(0, 0, 0, 0);
-      break;
-  }
-
-  return { startDate, endDate };
-}
+import { getShopTimezone } from "../services/shop-info.server";
+import { resolveDateRange } from "../utils/dateRange";
 
 /**
  * API Route for Inactive Customers List Data
@@ -74,13 +10,14 @@ function calculateDateRange(dateRange: string): { startDate: Date; endDate: Date
  * Uses the EXACT same logic as query.ts to ensure consistency
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
     // Use the EXACT same date calculation as query.ts
-    const { startDate, endDate } = calculateDateRange(dateRange);
+    const { startDate, endDate } = resolveDateRange(dateRange, timezone);
     const rangeStartISO = startDate.toISOString();
     const rangeEndISO = endDate.toISOString();
 
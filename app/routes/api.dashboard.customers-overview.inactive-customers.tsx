@@ -1,6 +1,9 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { getInactiveCustomers } from "../services/dashboard.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseCardData } from "../services/warehouse/dashboard.server";
+import { getInactiveCustomers, getCardDataWithComparison } from "../services/dashboard.server";
+import { parseComparisonMode } from "../utils/dateRange";
 
 /**
  * API Route for Inactive Customers Data
@@ -8,12 +11,22 @@ import { getInactiveCustomers } from "../services/dashboard.server";
  * Fetches inactive customers count independently
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getInactiveCustomers(admin, dateRange);
+    // Read from the warehouse when synced, otherwise query Shopify (for both periods)
+    const data = await getCardDataWithComparison(
+      async (range) =>
+        (await getWarehouseCardData(session.shop, "inactiveCustomers", range, timezone)) ??
+        (await getInactiveCustomers(admin, range, timezone)),
+      dateRange,
+      comparisonMode,
+      timezone
+    );
     return Response.json(data);
   } catch (error: any) {
     if (
@@ -1,6 +1,9 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { getReturningCustomers } from "../services/dashboard.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseCardData } from "../services/warehouse/dashboard.server";
+import { getReturningCustomers, getCardDataWithComparison } from "../services/dashboard.server";
+import { parseComparisonMode } from "../utils/dateRange";
 
 /**
  * API Route for Returning Customers Data
@@ -8,12 +11,22 @@ import { getReturningCustomers } from "../services/dashboard.server";
  * Fetches returning customers count independently
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getReturningCustomers(admin, dateRange);
+    // Read from the warehouse when synced, otherwise query Shopify (for both periods)
+    const data = await getCardDataWithComparison(
+      async (range) =>
+        (await getWarehouseCardData(session.shop, "returningCustomers", range, timezone)) ??
+        (await getReturningCustomers(admin, range, timezone)),
+      dateRange,
+      comparisonMode,
+      timezone
+    );
     return Response.json(data);
   } catch (error: any) {
     if (error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
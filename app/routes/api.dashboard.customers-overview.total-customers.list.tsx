@@ -1,6 +1,8 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import type { AdminGraphQL } from "../services/dashboard.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { resolveDateRange } from "../utils/dateRange";
 
 /**
  * API Route for Total Customers List Data
@@ -8,68 +10,13 @@ import type { AdminGraphQL } from "../services/dashboard.server";
  * Fetches customer list with details for the selected date range
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const now = new Date();
-    let startDate: Date;
-    let endDate = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-      23,
-      59,
-      59,
-      999
-    );
-
-    switch (dateRange) {
-      case "today":
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 0, 0, 0, 0);
-        endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-        break;
-      case "yesterday":
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        startDate.setHours(0, 0, 0, 0);
-        endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-        break;
-      case "7days":
-      case "last7Days":
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case "30days":
-      case "last30Days":
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case "90days":
-      case "last90Days":
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case "thisMonth":
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        break;
-      case "lastMonth":
-        startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        endDate = new Date(
-          now.getFullYear(),
-          now.getMonth(),
-          0,
-          23,
-          59,
-          59,
-          999
-        );
-        break;
-      default:
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        startDate.setHours(0, 0, 0, 0);
-        break;
-    }
+    const { endDate } = resolveDateRange(dateRange, timezone);
 
     // For total customers, we want all customers created up to the end date
     const endDateISO = endDate.toISOString();
@@ -1,6 +1,9 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { getTotalCustomers } from "../services/dashboard.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseCardData } from "../services/warehouse/dashboard.server";
+import { getTotalCustomers, getCardDataWithComparison } from "../services/dashboard.server";
+import { parseComparisonMode } from "../utils/dateRange";
 
 /**
  * API Route for Total Customers Data
@@ -8,12 +11,22 @@ import { getTotalCustomers } from "../services/dashboard.server";
  * Fetches total customers count independently
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getTotalCustomers(admin, dateRange);
+    // Read from the warehouse when synced, otherwise query Shopify (for both periods)
+    const data = await getCardDataWithComparison(
+      async (range) =>
+        (await getWarehouseCardData(session.shop, "totalCustomers", range, timezone)) ??
+        (await getTotalCustomers(admin, range, timezone)),
+      dateRange,
+      comparisonMode,
+      timezone
+    );
     return Response.json(data);
   } catch (error: any) {
     if (error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
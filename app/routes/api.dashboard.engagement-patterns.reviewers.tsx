@@ -1,14 +1,28 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getCardDataWithComparison } from "../services/dashboard.server";
+import { getWarehouseCardData } from "../services/warehouse/dashboard.server";
 import { getReviewersQuery } from "../components/dashboard/EngagementPatterns/Reviewers/query";
+import { parseComparisonMode } from "../utils/dateRange";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getReviewersQuery(admin, dateRange);
+    // Read from the warehouse when synced, otherwise query Shopify (for both periods)
+    const data = await getCardDataWithComparison(
+      async (range) =>
+        (await getWarehouseCardData(session.shop, "reviewers", range, timezone)) ??
+        (await getReviewersQuery(admin, range, timezone)),
+      dateRange,
+      comparisonMode,
+      timezone
+    );
     return Response.json(data);
   } catch (error: any) {
     if (error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
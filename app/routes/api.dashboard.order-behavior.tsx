@@ -1,5 +1,6 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
 import { getOrderBehavior } from "../services/dashboard.server";
 
 /**
@@ -8,11 +9,12 @@ import { getOrderBehavior } from "../services/dashboard.server";
  * Fetches order behavior metrics independently
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
 
-  const data = await getOrderBehavior(admin, dateRange);
+  const data = await getOrderBehavior(admin, dateRange, timezone);
   return Response.json(data);
 };
 
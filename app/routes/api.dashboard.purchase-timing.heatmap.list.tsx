@@ -0,0 +1,101 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import {
+  getWarehouseHeatmapOrders,
+  getWarehouseCustomersByIds,
+} from "../services/warehouse/dashboard.server";
+import { getHeatmapCellCustomersQuery } from "../components/dashboard/PurchaseTiming/PurchaseHeatmap/query";
+import { getHeatmapCellCustomerIds } from "../utils/purchaseHeatmap";
+
+/**
+ * API Route for Purchase Heatmap List Data
+ *
+ * Fetches the customers who ordered on ?weekday= (0 = Sunday) at ?hour= (0-23,
+ * shop timezone) in the date range. Reads the same source as the heatmap route
+ * so the list matches the cell.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const weekday = Number(url.searchParams.get("weekday"));
+  const hour = Number(url.searchParams.get("hour"));
+  const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
+
+  if (
+    !url.searchParams.has("weekday") ||
+    !url.searchParams.has("hour") ||
+    !Number.isInteger(weekday) ||
+    !Number.isInteger(hour) ||
+    weekday < 0 ||
+    weekday > 6 ||
+    hour < 0 ||
+    hour > 23
+  ) {
+    return Response.json(
+      { error: "A weekday (0-6) and an hour (0-23) are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const warehouseOrders = await getWarehouseHeatmapOrders(session.shop, dateRange, timezone);
+
+    let formattedCustomers;
+    if (warehouseOrders) {
+      const customers = await getWarehouseCustomersByIds(
+        session.shop,
+        getHeatmapCellCustomerIds(warehouseOrders.orders, weekday, hour, timezone)
+      );
+      formattedCustomers = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.displayName || "N/A",
+        email: customer.email || "N/A",
+        createdAt: customer.createdAt.toLocaleDateString(),
+        numberOfOrders: customer.numberOfOrders,
+        totalSpent: `${customer.amountSpent.toFixed(2)} ${customer.currencyCode || ""}`.trim(),
+        country: customer.country || undefined,
+      }));
+    } else {
+      const customers = await getHeatmapCellCustomersQuery(
+        admin,
+        weekday,
+        hour,
+        dateRange,
+        timezone
+      );
+
+      // Format customer data for table
+      formattedCustomers = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.displayName || "N/A",
+        email: customer.email || "N/A",
+        createdAt: customer.createdAt
+          ? new Date(customer.createdAt).toLocaleDateString()
+          : "N/A",
+        numberOfOrders: Number(customer.numberOfOrders || 0),
+        totalSpent: customer.amountSpent
+          ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
+          : "0.00",
+        country: customer.defaultAddress?.country || undefined,
+      }));
+    }
+
+    return Response.json({
+      customers: formattedCustomers,
+      total: formattedCustomers.length,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Purchase Heatmap List API] Protected order data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    throw error;
+  }
+};
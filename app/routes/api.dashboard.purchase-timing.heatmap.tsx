@@ -0,0 +1,46 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getUserPreferences } from "../services/user-preferences.server";
+import { getWarehouseHeatmapOrders } from "../services/warehouse/dashboard.server";
+import { getPurchaseHeatmapQuery } from "../components/dashboard/PurchaseTiming/PurchaseHeatmap/query";
+import { buildPurchaseHeatmap } from "../utils/purchaseHeatmap";
+
+/**
+ * API Route for Purchase Heatmap Data
+ *
+ * Counts the date range's orders and revenue by day of week and hour of day
+ * (shop timezone), with the shop's parts of day for the hour axis
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
+  const { partOfDay } = await getUserPreferences(session.shop);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    const warehouseOrders = await getWarehouseHeatmapOrders(session.shop, dateRange, timezone);
+    const heatmap = warehouseOrders
+      ? buildPurchaseHeatmap(warehouseOrders.orders, timezone, warehouseOrders.currencyCode)
+      : await getPurchaseHeatmapQuery(admin, dateRange, timezone);
+
+    return Response.json({ heatmap, partOfDay, timezone });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Purchase Heatmap API] Protected order data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[Purchase Heatmap API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load purchase heatmap" },
+      { status: 500 }
+    );
+  }
+};
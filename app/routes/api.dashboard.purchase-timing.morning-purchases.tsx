@@ -1,15 +1,32 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getUserPreferences } from "../services/user-preferences.server";
+import { getCardDataWithComparison } from "../services/dashboard.server";
+import { getWarehouseCardData } from "../services/warehouse/dashboard.server";
 import { getMorningPurchasesQuery } from "../components/dashboard/PurchaseTiming/MorningPurchases/query";
+import { parseComparisonMode } from "../utils/dateRange";
+import { formatPartOfDayHours } from "../utils/partOfDay";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const comparisonMode = parseComparisonMode(url.searchParams.get("compare"));
+  const timezone = await getShopTimezone(admin, session.shop);
+  const { partOfDay } = await getUserPreferences(session.shop);
 
   try {
-    const data = await getMorningPurchasesQuery(admin, dateRange);
-    return Response.json(data);
+    // Read from the warehouse when synced, otherwise query Shopify (for both periods)
+    const data = await getCardDataWithComparison(
+      async (range) =>
+        (await getWarehouseCardData(session.shop, "morningPurchases", range, timezone, partOfDay)) ??
+        (await getMorningPurchasesQuery(admin, range, timezone, partOfDay)),
+      dateRange,
+      comparisonMode,
+      timezone
+    );
+    return Response.json({ ...data, hours: formatPartOfDayHours("morning", partOfDay) });
   } catch (error: any) {
     if (error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
       console.log(
@@ -1,5 +1,7 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseBehavioralBreakdown } from "../services/warehouse/dashboard.server";
 import { getBehavioralBreakdownQuery } from "../components/dashboard/VisualAnalytics/BehavioralBreakdown/query";
 
 /**
@@ -8,12 +10,16 @@ import { getBehavioralBreakdownQuery } from "../components/dashboard/VisualAnaly
  * Fetches engagement metrics for bar chart
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getBehavioralBreakdownQuery(admin, dateRange);
+    // Read from the warehouse when synced, otherwise query Shopify
+    const data =
+      (await getWarehouseBehavioralBreakdown(session.shop, dateRange, timezone)) ??
+      (await getBehavioralBreakdownQuery(admin, dateRange, timezone));
 
     // Format chart data
     const chartData = {
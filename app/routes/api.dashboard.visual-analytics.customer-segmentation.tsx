@@ -1,5 +1,8 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseOrderTypeBreakdown } from "../services/warehouse/dashboard.server";
+import { getAbandonedCartsQuery } from "../components/dashboard/PurchaseOrderBehavior/AbandonedCarts/query";
 import { getCustomerSegmentationQuery } from "../components/dashboard/VisualAnalytics/CustomerSegmentation/query";
 
 /**
@@ -8,12 +11,24 @@ import { getCustomerSegmentationQuery } from "../components/dashboard/VisualAnal
  * Fetches order type distribution for pie chart
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const url = new URL(request.url);
   const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
 
   try {
-    const data = await getCustomerSegmentationQuery(admin, dateRange);
+    // Read orders from the warehouse when synced; abandoned checkouts always come from Shopify
+    const warehouseBreakdown = await getWarehouseOrderTypeBreakdown(
+      session.shop,
+      dateRange,
+      timezone
+    );
+    const data = warehouseBreakdown
+      ? {
+          ...warehouseBreakdown,
+          abandonedCarts: (await getAbandonedCartsQuery(admin, dateRange, timezone)).count,
+        }
+      : await getCustomerSegmentationQuery(admin, dateRange, timezone);
 
     // Format chart data
     const chartData = {
@@ -0,0 +1,52 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getWarehouseRfmCustomers } from "../services/warehouse/dashboard.server";
+import { getPredictedClvQuery } from "../components/dashboard/VisualAnalytics/PredictedClv/query";
+import { summarizeClvDistribution } from "../utils/clv";
+
+/**
+ * API Route for Predicted CLV Distribution Data
+ *
+ * Predicts the next 12 months of spend of every customer with orders
+ * and returns how many customers fall in each CLV bucket
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    // (the RFM customers carry everything the prediction needs)
+    const warehouseCustomers = await getWarehouseRfmCustomers(session.shop);
+    const data = warehouseCustomers
+      ? {
+          distribution: summarizeClvDistribution(
+            warehouseCustomers.map((customer) => ({
+              orderCount: customer.orderCount,
+              totalSpent: customer.totalSpent,
+              customerSince: customer.createdAt,
+              lastOrderDate: customer.lastOrderDate,
+            }))
+          ),
+          currencyCode:
+            warehouseCustomers.find((customer) => customer.currencyCode)?.currencyCode ?? null,
+        }
+      : await getPredictedClvQuery(admin);
+
+    return Response.json(data);
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Predicted CLV API] Protected customer data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[Predicted CLV API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load predicted CLV" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,104 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import {
+  getWarehouseBasketOrders,
+  getWarehouseCustomersByIds,
+  getWarehouseProductCustomerIds,
+} from "../services/warehouse/dashboard.server";
+import { getBoughtANotBCustomersQuery } from "../components/dashboard/VisualAnalytics/ProductAffinity/query";
+import { getBoughtANotBCustomerIds } from "../utils/basket";
+
+/**
+ * API Route for Product Affinity List Data
+ *
+ * Fetches the customers who bought ?productA= in the date range but not ?productB=,
+ * the cross-sell audience of a product pair. Reads the same source as the
+ * affinity route so the list matches the table.
+ *
+ * With the warehouse, customers who bought B at any time are left out
+ * (fullHistory: true). Without it only the date range's orders are read, so the
+ * list can include customers who bought B before the range (fullHistory: false).
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const productA = url.searchParams.get("productA");
+  const productB = url.searchParams.get("productB");
+  const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
+
+  if (!productA || !productB) {
+    return Response.json(
+      { error: "Two product ids (productA and productB) are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const warehouseOrders = await getWarehouseBasketOrders(session.shop, dateRange, timezone);
+
+    let formattedCustomers;
+    if (warehouseOrders) {
+      const candidateIds = getBoughtANotBCustomerIds(warehouseOrders, productA, productB);
+      const boughtB = await getWarehouseProductCustomerIds(
+        session.shop,
+        productB,
+        candidateIds
+      );
+      const customers = await getWarehouseCustomersByIds(
+        session.shop,
+        candidateIds.filter((customerId) => !boughtB.has(customerId))
+      );
+      formattedCustomers = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.displayName || "N/A",
+        email: customer.email || "N/A",
+        createdAt: customer.createdAt.toLocaleDateString(),
+        numberOfOrders: customer.numberOfOrders,
+        totalSpent: `${customer.amountSpent.toFixed(2)} ${customer.currencyCode || ""}`.trim(),
+        country: customer.country || undefined,
+      }));
+    } else {
+      const customers = await getBoughtANotBCustomersQuery(
+        admin,
+        productA,
+        productB,
+        dateRange,
+        timezone
+      );
+
+      // Format customer data for table
+      formattedCustomers = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.displayName || "N/A",
+        email: customer.email || "N/A",
+        createdAt: customer.createdAt
+          ? new Date(customer.createdAt).toLocaleDateString()
+          : "N/A",
+        numberOfOrders: Number(customer.numberOfOrders || 0),
+        totalSpent: customer.amountSpent
+          ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
+          : "0.00",
+        country: customer.defaultAddress?.country || undefined,
+      }));
+    }
+
+    return Response.json({
+      customers: formattedCustomers,
+      total: formattedCustomers.length,
+      fullHistory: !!warehouseOrders,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Product Affinity List API] Protected order data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    throw error;
+  }
+};
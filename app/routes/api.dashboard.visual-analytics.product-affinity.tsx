@@ -0,0 +1,44 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getShopTimezone } from "../services/shop-info.server";
+import { getWarehouseBasketOrders } from "../services/warehouse/dashboard.server";
+import { getProductAffinityQuery } from "../components/dashboard/VisualAnalytics/ProductAffinity/query";
+import { computeProductAffinity } from "../utils/basket";
+
+/**
+ * API Route for Product Affinity Data
+ *
+ * Computes support, confidence and lift of the product pairs bought together
+ * in the date range's orders
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const dateRange = url.searchParams.get("dateRange") || "30days";
+  const timezone = await getShopTimezone(admin, session.shop);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    const warehouseOrders = await getWarehouseBasketOrders(session.shop, dateRange, timezone);
+    const affinity = warehouseOrders
+      ? computeProductAffinity(warehouseOrders)
+      : await getProductAffinityQuery(admin, dateRange, timezone);
+
+    return Response.json({ affinity });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_ORDER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[Product Affinity API] Protected order data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_ORDER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[Product Affinity API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load product affinity" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,74 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getWarehouseRfmCustomers } from "../services/warehouse/dashboard.server";
+import { getRfmSegmentCustomersQuery } from "../components/dashboard/VisualAnalytics/RfmSegments/query";
+import { getRfmSegmentCustomerIds, isRfmSegmentId } from "../utils/rfm";
+
+/**
+ * API Route for RFM Segment List Data
+ *
+ * Fetches the customers of one RFM segment (?segment=champions, ...)
+ * Reads the same source as the segments route so the list matches the grid.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const segment = url.searchParams.get("segment");
+
+  if (!isRfmSegmentId(segment)) {
+    return Response.json({ error: "Unknown RFM segment" }, { status: 400 });
+  }
+
+  try {
+    const warehouseCustomers = await getWarehouseRfmCustomers(session.shop);
+
+    let formattedCustomers;
+    if (warehouseCustomers) {
+      const customerIds = new Set(getRfmSegmentCustomerIds(warehouseCustomers, segment));
+      formattedCustomers = warehouseCustomers
+        .filter((customer) => customerIds.has(customer.id))
+        .map((customer) => ({
+          id: customer.id,
+          name: customer.displayName || "N/A",
+          email: customer.email || "N/A",
+          createdAt: customer.createdAt.toLocaleDateString(),
+          numberOfOrders: customer.orderCount,
+          totalSpent: `${customer.totalSpent.toFixed(2)} ${customer.currencyCode || ""}`.trim(),
+          country: customer.country || undefined,
+        }));
+    } else {
+      const customers = await getRfmSegmentCustomersQuery(admin, segment);
+
+      // Format customer data for table
+      formattedCustomers = customers.map((customer) => ({
+        id: customer.id,
+        name: customer.displayName || "N/A",
+        email: customer.email || "N/A",
+        createdAt: customer.createdAt
+          ? new Date(customer.createdAt).toLocaleDateString()
+          : "N/A",
+        numberOfOrders: Number(customer.numberOfOrders || 0),
+        totalSpent: customer.amountSpent
+          ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
+          : "0.00",
+        country: customer.defaultAddress?.country || undefined,
+      }));
+    }
+
+    return Response.json({
+      customers: formattedCustomers,
+      total: formattedCustomers.length,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[RFM Segment List API] Protected customer data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getWarehouseRfmCustomers } from "../services/warehouse/dashboard.server";
+import { getRfmSegmentsQuery } from "../components/dashboard/VisualAnalytics/RfmSegments/query";
+import { summarizeRfmSegments } from "../utils/rfm";
+
+/**
+ * API Route for RFM Segments Data
+ *
+ * Scores every customer with orders on recency, frequency and monetary value
+ * and returns the size of each named segment
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    // Read from the warehouse when synced, otherwise query Shopify
+    const warehouseCustomers = await getWarehouseRfmCustomers(session.shop);
+    const data = warehouseCustomers
+      ? {
+          segments: summarizeRfmSegments(warehouseCustomers),
+          currencyCode:
+            warehouseCustomers.find((customer) => customer.currencyCode)?.currencyCode ?? null,
+        }
+      : await getRfmSegmentsQuery(admin);
+
+    return Response.json(data);
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      console.log(
+        "[RFM Segments API] Protected customer data access denied - user needs to request access in Partner Dashboard",
+      );
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+    console.error("[RFM Segments API] Error:", error instanceof Error ? error.message : error);
+    return Response.json(
+      { error: "Failed to load RFM segments" },
+      { status: 500 }
+    );
+  }
+};
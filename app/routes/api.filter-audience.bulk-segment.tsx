@@ -0,0 +1,94 @@
+/**
+ * API Route for Bulk Segment Generation
+ *
+ * Generates segments with Shopify Bulk Operations, reading every order of every customer:
+ * - POST (filters): starts a bulk segment job and returns its ID
+ * - GET (?jobId=): returns the job's progress, and its customers once completed
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import type { FilterData } from "../components/filter-audience/types";
+import {
+  startBulkSegmentJob,
+  getBulkSegmentJob,
+} from "../services/bulk-segment.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    const formData = await request.formData();
+    const filtersJson = formData.get("filters");
+
+    if (!filtersJson || typeof filtersJson !== "string") {
+      return Response.json(
+        { error: "Invalid filters data" },
+        { status: 400 }
+      );
+    }
+
+    const filters: FilterData = JSON.parse(filtersJson);
+    const job = await startBulkSegmentJob(admin, session.shop, filters);
+
+    return Response.json({
+      success: true,
+      job,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+
+    console.error("[Bulk Segment API] Error:", error);
+    return Response.json(
+      { error: (error instanceof Error && error.message) || "Failed to start bulk segment generation" },
+      { status: 500 }
+    );
+  }
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    const jobId = new URL(request.url).searchParams.get("jobId");
+
+    if (!jobId) {
+      return Response.json(
+        { error: "Job ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getBulkSegmentJob(admin, session.shop, jobId);
+
+    if (!job) {
+      return Response.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return Response.json({
+      success: true,
+      job,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+
+    console.error("[Bulk Segment API] Error:", error);
+    return Response.json(
+      { error: (error instanceof Error && error.message) || "Failed to get bulk segment status" },
+      { status: 500 }
+    );
+  }
+};
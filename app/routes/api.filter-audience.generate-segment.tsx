@@ -18,7 +18,7 @@ import type { FilterData } from "../components/filter-audience/types";
  * 3. Returns filtered customer results
  */
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
 
   try {
     const formData = await request.formData();
@@ -37,7 +37,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const hasActiveFilters = (() => {
       // Check array-based filters
       const hasArrayFilters = Object.entries(filters).some(([key, value]) => {
-        if (key === "amountSpent" || key === "customerCreatedFrom" || key === "graphqlQuery") {
+        if (
+          key === "amountSpent" ||
+          key === "customerCreatedFrom" ||
+          key === "predictedClv" ||
+          key === "graphqlQuery"
+        ) {
           return false; // Skip these, check separately
         }
         return value != null && Array.isArray(value) && value.length > 0;
@@ -51,8 +56,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       // Check customerCreatedFrom filter
       const hasCustomerCreatedFromFilter = filters.customerCreatedFrom != null &&
         filters.customerCreatedFrom.trim() !== "";
+
+      // Check predictedClv filter
+      const hasPredictedClvFilter = filters.predictedClv != null &&
+        filters.predictedClv.amount != null &&
+        filters.predictedClv.operator != null;
       
-      return hasArrayFilters || hasAmountSpentFilter || hasCustomerCreatedFromFilter;
+      return (
+        hasArrayFilters ||
+        hasAmountSpentFilter ||
+        hasCustomerCreatedFromFilter ||
+        hasPredictedClvFilter
+      );
     })();
 
     if (!hasActiveFilters) {
@@ -67,7 +82,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     // Filter customers using the modular query system
     // This will compile all active filters into one optimized query
-    const result = await filterCustomers(admin, filters);
+    const result = await filterCustomers(admin, filters, session.shop);
 
     if (result.error === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
       return Response.json(
@@ -81,6 +96,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       matchCount: result.total,
       filters,
       customers: result.customers,
+      coverage: result.coverage,
     });
   } catch (error: any) {
     if (error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
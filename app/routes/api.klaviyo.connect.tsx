@@ -0,0 +1,56 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  validateKlaviyoApiKey,
+  saveKlaviyoApiKey,
+} from "../services/klaviyo.server";
+
+/**
+ * API Route for Connecting Klaviyo
+ * 
+ * Validates the merchant's Klaviyo private API key and stores it encrypted
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    const formData = await request.formData();
+    const apiKey = formData.get("apiKey");
+
+    if (!apiKey || typeof apiKey !== "string" || !apiKey.trim()) {
+      return Response.json(
+        { success: false, error: "Klaviyo private API key is required" },
+        { status: 400 }
+      );
+    }
+
+    const isValid = await validateKlaviyoApiKey(apiKey.trim());
+
+    if (!isValid) {
+      return Response.json(
+        {
+          success: false,
+          error: "Invalid Klaviyo private API key. Please check the key and its scopes.",
+        },
+        { status: 400 }
+      );
+    }
+
+    await saveKlaviyoApiKey(shop, apiKey.trim());
+
+    return Response.json({
+      success: true,
+      message: "Klaviyo connected successfully",
+    });
+  } catch (error) {
+    console.error("[Connect Klaviyo] Error:", error);
+    return Response.json(
+      {
+        success: false,
+        error: (error instanceof Error && error.message) || "Failed to connect Klaviyo",
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,31 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { disconnectKlaviyo } from "../services/klaviyo.server";
+
+/**
+ * API Route for Disconnecting Klaviyo
+ * 
+ * Handles disconnecting Klaviyo integration for a shop
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    await disconnectKlaviyo(shop);
+
+    return Response.json({
+      success: true,
+      message: "Klaviyo disconnected successfully",
+    });
+  } catch (error) {
+    console.error("[Disconnect Klaviyo] Error:", error);
+    return Response.json(
+      {
+        success: false,
+        error: (error instanceof Error && error.message) || "Failed to disconnect Klaviyo",
+      },
+      { status: 500 }
+    );
+  }
+};
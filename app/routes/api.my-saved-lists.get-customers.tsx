@@ -7,7 +7,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import { getSavedListById } from "../services/saved-lists.server";
-import type { AdminGraphQL } from "../services/dashboard.server";
+import { fetchCustomersByIds } from "../services/customers.server";
 
 /**
  * Action function to fetch customer details by list ID
@@ -75,117 +75,3 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     );
   }
 };
-
-/**
- * Fetch customers from Shopify by their IDs
- * Uses the saved customer IDs from the database
- */
-async function fetchCustomersByIds(
-  admin: AdminGraphQL,
-  customerIds: string[]
-): Promise<Array<{
-  id: string;
-  name: string;
-  email: string;
-  country: string;
-  createdAt: string;
-  numberOfOrders: number;
-  totalSpent: string;
-}>> {
-  const customers: any[] = [];
-
-  // Fetch customers in batches to avoid rate limits
-  const batchSize = 10;
-  
-  for (let i = 0; i < customerIds.length; i += batchSize) {
-    const batch = customerIds.slice(i, i + batchSize);
-    
-    // Fetch each customer in the batch
-    const customerPromises = batch.map(async (customerId) => {
-      try {
-        // Ensure the ID is in the correct format (gid://shopify/Customer/...)
-        const formattedId = customerId.startsWith("gid://")
-          ? customerId
-          : `gid://shopify/Customer/${customerId}`;
-
-        const query = `
-          query {
-            customer(id: "${formattedId}") {
-              id
-              displayName
-              email
-              createdAt
-              numberOfOrders
-              amountSpent {
-                amount
-                currencyCode
-              }
-              defaultAddress {
-                country
-              }
-            }
-          }
-        `;
-
-        const response = await admin.graphql(query);
-        const json = await response.json();
-
-        if (json.errors && json.errors.length > 0) {
-          const accessError = json.errors.find(
-            (error: any) =>
-              error.message?.includes("not approved") ||
-              error.message?.includes("protected customer data") ||
-              error.message?.includes("Customer")
-          );
-          if (accessError) {
-            throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
-          }
-          // Skip this customer if there's an error (might be deleted)
-          return null;
-        }
-
-        const customer = json.data?.customer;
-        if (customer) {
-          return {
-            id: customer.id,
-            name: customer.displayName || "N/A",
-            email: customer.email || "N/A",
-            country: customer.defaultAddress?.country || "Unknown",
-            createdAt: customer.createdAt
-              ? new Date(customer.createdAt).toLocaleDateString()
-              : "N/A",
-            numberOfOrders: customer.numberOfOrders || 0,
-            totalSpent: customer.amountSpent
-              ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
-              : "0.00",
-          };
-        }
-        return null;
-      } catch (error: any) {
-        if (error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
-          throw error;
-        }
-        // Skip this customer if there's an error (might be deleted)
-        console.error(`[Get Customers] Error fetching customer ${customerId}:`, error);
-        return null;
-      }
-    });
-
-    // Wait for batch to complete
-    try {
-      const batchResults = await Promise.all(customerPromises);
-      const validCustomers = batchResults.filter((c) => c !== null);
-      customers.push(...validCustomers);
-    } catch (error: any) {
-      if (error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
-        throw error;
-      }
-      // Continue with next batch if there's an error
-      console.error(`[Get Customers] Error in batch ${i}:`, error);
-    }
-  }
-
-  return customers;
-}
-
-
@@ -0,0 +1,196 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  getAudienceDestination,
+  getAudienceDestinations,
+} from "../services/destinations/index.server";
+import {
+  getSyncJobs,
+  syncToDestination,
+  toListSyncStatus,
+} from "../services/audience-sync.server";
+import {
+  getExportSourceFromFormData,
+  getExportConsentModeFromFormData,
+  NonConsentedContactsError,
+} from "../services/audience-export.server";
+
+/**
+ * API Route for Syncing Customers to Audience Destinations
+ *
+ * Every provider (Mailchimp, Klaviyo, SendGrid, ...) goes through this route.
+ *
+ * GET: Returns the available destinations, with ?destination= the destination's
+ * audiences and with ?listId= the list's recent sync jobs
+ * POST: Syncs a saved list (listId) or exports a filter result (filters JSON)
+ * to a destination audience, either an existing one (audienceId) or a new one
+ * (newAudienceName)
+ *
+ * Contacts without email marketing consent are only synced once the merchant
+ * chooses what to do with them (consentMode); until then the route answers
+ * NON_CONSENTED_CONTACTS without syncing anything
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const listId = searchParams.get("listId");
+    const destinationId = searchParams.get("destination");
+
+    if (destinationId) {
+      const destination = getAudienceDestination(destinationId);
+
+      if (!(await destination.isConnected(shop))) {
+        return Response.json(
+          { success: false, error: "DESTINATION_NOT_CONNECTED" },
+          { status: 400 }
+        );
+      }
+
+      return Response.json({
+        success: true,
+        audiences: await destination.listAudiences(shop),
+        canCreateAudience: !!destination.createAudience,
+      });
+    }
+
+    const destinations = await Promise.all(
+      getAudienceDestinations().map(async (destination) => ({
+        id: destination.id,
+        name: destination.name,
+        connected: await destination.isConnected(shop),
+        canCreateAudience: !!destination.createAudience,
+      })),
+    );
+
+    return Response.json({
+      success: true,
+      destinations,
+      jobs: listId ? await getSyncJobs(shop, listId) : [],
+    });
+  } catch (error) {
+    console.error("[Saved List Sync] Error:", error);
+    const message = error instanceof Error ? error.message : "";
+
+    if (message === "UNKNOWN_DESTINATION") {
+      return Response.json(
+        { success: false, error: message },
+        { status: 400 }
+      );
+    }
+
+    return Response.json(
+      {
+        success: false,
+        error: message || "Failed to load sync destinations",
+      },
+      { status: 500 }
+    );
+  }
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    const formData = await request.formData();
+    const destination = formData.get("destination");
+    const audienceId = formData.get("audienceId");
+    const audienceName = formData.get("audienceName");
+    const newAudienceName = formData.get("newAudienceName");
+    const segmentName = formData.get("segmentName");
+
+    if (!destination || typeof destination !== "string") {
+      return Response.json(
+        { error: "Destination is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (!audienceId || typeof audienceId !== "string") &&
+      (!newAudienceName || typeof newAudienceName !== "string" || !newAudienceName.trim())
+    ) {
+      return Response.json(
+        { error: "Select an audience or enter a name for a new one" },
+        { status: 400 }
+      );
+    }
+
+    const source = getExportSourceFromFormData(formData);
+
+    if (!source) {
+      return Response.json(
+        { error: "A saved list or filters are required" },
+        { status: 400 }
+      );
+    }
+
+    const { job, excludedNonConsented } = await syncToDestination(admin, shop, {
+      destinationId: destination,
+      source,
+      audienceId: typeof audienceId === "string" && audienceId ? audienceId : undefined,
+      audienceName: typeof audienceName === "string" && audienceName ? audienceName : undefined,
+      newAudienceName:
+        typeof newAudienceName === "string" && newAudienceName.trim()
+          ? newAudienceName.trim()
+          : undefined,
+      segmentName: typeof segmentName === "string" && segmentName ? segmentName : undefined,
+      keepInSync: formData.get("keepInSync") === "true",
+      consentMode: getExportConsentModeFromFormData(formData),
+    });
+
+    return Response.json({
+      success: true,
+      job,
+      sync: job.listId ? toListSyncStatus(job) : null,
+      excludedNonConsented,
+    });
+  } catch (error) {
+    console.error("[Saved List Sync] Error:", error);
+    const message = error instanceof Error ? error.message : "";
+
+    if (error instanceof NonConsentedContactsError) {
+      return Response.json(
+        {
+          error: "NON_CONSENTED_CONTACTS",
+          nonConsented: error.nonConsented,
+          total: error.total,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (message === "LIST_NOT_FOUND") {
+      return Response.json(
+        { error: "List not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      message === "UNKNOWN_DESTINATION" ||
+      message === "DESTINATION_NOT_CONNECTED"
+    ) {
+      return Response.json(
+        { error: message },
+        { status: 400 }
+      );
+    }
+
+    if (message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+
+    return Response.json(
+      { error: message || "Failed to sync list" },
+      { status: 500 }
+    );
+  }
+};
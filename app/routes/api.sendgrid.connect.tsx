@@ -0,0 +1,53 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  validateSendGridApiKey,
+  saveSendGridApiKey,
+} from "../services/sendgrid.server";
+
+/**
+ * API Route for Connecting SendGrid
+ * 
+ * Validates the merchant's SendGrid API key and stores it encrypted
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    const formData = await request.formData();
+    const apiKey = formData.get("apiKey");
+
+    if (!apiKey || typeof apiKey !== "string" || !apiKey.trim()) {
+      return Response.json(
+        { success: false, error: "SendGrid API key is required" },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateSendGridApiKey(apiKey.trim());
+
+    if (!validation.valid) {
+      return Response.json(
+        { success: false, error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    await saveSendGridApiKey(shop, apiKey.trim());
+
+    return Response.json({
+      success: true,
+      message: "SendGrid connected successfully",
+    });
+  } catch (error) {
+    console.error("[Connect SendGrid] Error:", error);
+    return Response.json(
+      {
+        success: false,
+        error: (error instanceof Error && error.message) || "Failed to connect SendGrid",
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,31 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { disconnectSendGrid } from "../services/sendgrid.server";
+
+/**
+ * API Route for Disconnecting SendGrid
+ * 
+ * Handles disconnecting SendGrid integration for a shop
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  try {
+    await disconnectSendGrid(shop);
+
+    return Response.json({
+      success: true,
+      message: "SendGrid disconnected successfully",
+    });
+  } catch (error) {
+    console.error("[Disconnect SendGrid] Error:", error);
+    return Response.json(
+      {
+        success: false,
+        error: (error instanceof Error && error.message) || "Failed to disconnect SendGrid",
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * API Route for the Analytics Warehouse Sync
+ *
+ * - POST: starts (or restarts) the backfill of the shop's customers and orders
+ * - GET: returns the sync state, ingesting finished bulk operations while backfilling
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  getWarehouseSync,
+  startWarehouseBackfill,
+  advanceWarehouseBackfill,
+} from "../services/warehouse/backfill.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    const sync = await startWarehouseBackfill(admin, session.shop);
+
+    return Response.json({
+      success: true,
+      sync,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+      return Response.json(
+        { error: "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED" },
+        { status: 403 }
+      );
+    }
+
+    console.error("[Warehouse Sync API] Error:", error);
+    return Response.json(
+      { error: (error instanceof Error && error.message) || "Failed to start warehouse sync" },
+      { status: 500 }
+    );
+  }
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  try {
+    let sync = await getWarehouseSync(session.shop);
+
+    // The bulk_operations/finish webhook may not have arrived (e.g. local dev)
+    if (sync.status === "backfilling") {
+      sync = await advanceWarehouseBackfill(admin, session.shop);
+    }
+
+    return Response.json({
+      success: true,
+      sync,
+    });
+  } catch (error) {
+    console.error("[Warehouse Sync API] Error:", error);
+    return Response.json(
+      { error: (error instanceof Error && error.message) || "Failed to get warehouse sync status" },
+      { status: 500 }
+    );
+  }
+};
@@ -4,11 +4,12 @@
  * This file implements a comprehensive dashboard that displays key customer metrics
  * using Shopify's Polaris design system and Chart.js for visualizations.
  *
- * The dashboard is divided into four main sections:
+ * The dashboard is divided into five main sections:
  * 1. Customers Overview
  * 2. Purchase & Order Behavior
  * 3. Engagement Patterns
  * 4. Purchase Timing
+ * 5. Cohorts
  *
  * Each section contains relevant KPI cards and visualizations.
  *
@@ -49,11 +50,17 @@ import {
   type DashboardVisibility,
   DEFAULT_VISIBILITY,
 } from "../components/dashboard/dashboardConfig";
+import { parseCustomDateRange } from "../components/dashboard/dashboardUtils";
+import {
+  DEFAULT_COMPARISON_MODE,
+  type ComparisonMode,
+} from "../utils/dateRange";
 import { CustomersOverview } from "../components/dashboard/CustomersOverview/index";
 import { PurchaseOrderBehavior } from "../components/dashboard/PurchaseOrderBehavior/index";
 import { EngagementPatterns } from "../components/dashboard/EngagementPatterns/index";
 import { PurchaseTiming } from "../components/dashboard/PurchaseTiming/index";
 import { VisualAnalytics } from "../components/dashboard/VisualAnalytics/index";
+import { Cohorts } from "../components/dashboard/Cohorts/index";
 import { getDashboardPreferences } from "../services/dashboard-preferences.server";
 import { authenticate } from "../shopify.server";
 
@@ -102,6 +109,9 @@ export default function Dashboard() {
     null,
   );
   const [dateRangeValue, setDateRangeValue] = useState("last7Days");
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(
+    DEFAULT_COMPARISON_MODE,
+  );
   const [showCustomizeModal, setShowCustomizeModal] = useState(false);
   const [visibility, setVisibility] = useState<DashboardVisibility | null>(
     savedPreferences || DEFAULT_VISIBILITY,
@@ -136,9 +146,10 @@ export default function Dashboard() {
     setVisibility(newVisibility);
   };
 
-  // Convert dateRangeValue to API format
-  const apiDateRange =
-    dateRangeValue === "last30Days"
+  // Convert dateRangeValue to API format (custom ranges are passed through as-is)
+  const apiDateRange = parseCustomDateRange(dateRangeValue)
+    ? dateRangeValue
+    : dateRangeValue === "last30Days"
       ? "30days"
       : dateRangeValue === "last7Days"
         ? "7days"
@@ -205,6 +216,8 @@ export default function Dashboard() {
             <DashboardControls
               dateRangeValue={dateRangeValue}
               onDateRangeChange={setDateRangeValue}
+              comparisonMode={comparisonMode}
+              onComparisonModeChange={setComparisonMode}
               onCustomize={handleCustomizeDashboard}
               onVisibilityChange={handleVisibilityChange}
               initialVisibility={savedPreferences}
@@ -216,6 +229,7 @@ export default function Dashboard() {
               <Layout>
                 <CustomersOverview
                   dateRange={apiDateRange}
+                  comparisonMode={comparisonMode}
                   onViewSegment={handleViewSegment}
                   onShowToast={handleShowToast}
                   visibility={visibility?.customersOverview.cards}
@@ -228,6 +242,7 @@ export default function Dashboard() {
               <Layout>
                 <PurchaseOrderBehavior
                   dateRange={apiDateRange}
+                  comparisonMode={comparisonMode}
                   onViewSegment={handleViewSegment}
                   onShowToast={handleShowToast}
                   visibility={visibility?.purchaseOrderBehavior.cards}
@@ -240,6 +255,7 @@ export default function Dashboard() {
               <Layout>
                 <EngagementPatterns
                   dateRange={apiDateRange}
+                  comparisonMode={comparisonMode}
                   onViewSegment={handleViewSegment}
                   onShowToast={handleShowToast}
                   visibility={visibility?.engagementPatterns.cards}
@@ -248,16 +264,25 @@ export default function Dashboard() {
             )}
 
             {/* Visual Analytics Section - Fetches its own data */}
-            <VisualAnalytics dateRange={apiDateRange} />
+            <VisualAnalytics
+              dateRange={apiDateRange}
+              onShowToast={handleShowToast}
+            />
 
             {/* Purchase Timing Section - Fetches its own data */}
             <Layout>
               <PurchaseTiming
                 dateRange={apiDateRange}
+                comparisonMode={comparisonMode}
                 onViewSegment={handleViewSegment}
                 onShowToast={handleShowToast}
               />
             </Layout>
+
+            {/* Cohorts Section - Fetches its own data */}
+            <Layout>
+              <Cohorts />
+            </Layout>
           </BlockStack>
         </Box>
       </Page>
@@ -33,9 +33,15 @@ import {
   getUniqueCountries,
   getUniquePaymentGateways,
   getUniqueShippingMethods,
+  getShopTags,
 } from "../services/products.server";
 import { getSavedListById } from "../services/saved-lists.server";
 import { getCurrentPlanName } from "../services/subscription.server";
+import { getKlaviyoConfig } from "../services/klaviyo.server";
+import { getSendGridConfig } from "../services/sendgrid.server";
+import { getUserPreferences } from "../services/user-preferences.server";
+import { DEFAULT_PART_OF_DAY_BOUNDARIES } from "../utils/partOfDay";
+import type { ExportProvider } from "../components/integrations/ExportToProviderModal";
 import type { FilterData } from "../components/filter-audience/types";
 import { UpgradeBanner } from "../components/UpgradeBanner";
 
@@ -67,7 +73,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 
   try {
-    // Fetch products, collections, product types, countries, payment gateways, and shipping methods from Shopify
+    // Fetch products, collections, product types, countries, payment gateways, shipping methods, and tags from Shopify
     const [
       products,
       collections,
@@ -75,6 +81,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       countries,
       paymentGateways,
       shippingMethods,
+      shopTags,
     ] = await Promise.all([
       getProducts(admin),
       getCollections(admin),
@@ -82,6 +89,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       getUniqueCountries(admin),
       getUniquePaymentGateways(admin),
       getUniqueShippingMethods(admin),
+      getShopTags(admin),
     ]);
 
     // Build category -> products tree structure (with images)
@@ -132,6 +140,14 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     const currentPlan = await getCurrentPlanName(admin);
 
+    // Connected email providers for exports
+    const exportProviders: ExportProvider[] = [];
+    if (await getKlaviyoConfig(shop)) exportProviders.push("klaviyo");
+    if (await getSendGridConfig(shop)) exportProviders.push("sendgrid");
+
+    // Hours of the Shopping Timing filter's parts of day
+    const { partOfDay } = await getUserPreferences(shop);
+
     // Check if dev mode is enabled
     const enableAllFeatures = process.env.ENABLE_ALL_FEATURES;
     let isDevMode = false;
@@ -150,9 +166,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       countries: countries,
       paymentMethods: paymentMethodOptions,
       deliveryMethods: deliveryMethodOptions,
+      customerTags: shopTags.customerTags,
+      orderTags: shopTags.orderTags,
       initialFilters,
       listId: modifyListId || null,
       listName,
+      exportProviders,
+      partOfDay,
       currentPlan,
       isDevMode,
     };
@@ -166,9 +186,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       countries: [],
       paymentMethods: [],
       deliveryMethods: [],
+      customerTags: [],
+      orderTags: [],
       initialFilters: null,
       listId: null,
       listName: "",
+      exportProviders: [] as ExportProvider[],
+      partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES,
     };
   }
 };
@@ -355,10 +379,14 @@ export default function FilterAudiencePage() {
                 countries={data.countries}
                 paymentMethods={data.paymentMethods}
                 deliveryMethods={data.deliveryMethods}
+                customerTags={data.customerTags}
+                orderTags={data.orderTags}
                 isLoading={isLoading}
                 initialFilters={data.initialFilters}
                 listId={data.listId}
                 listName={data.listName}
+                exportProviders={data.exportProviders}
+                partOfDay={data.partOfDay}
               />
             </BlockStack>
           </div>
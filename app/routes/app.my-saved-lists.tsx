@@ -31,6 +31,11 @@ import {
   updateSavedList,
 } from "../services/saved-lists.server";
 import { mapToSavedLists } from "../services/saved-lists-mapper.server";
+import { getAudienceDestination } from "../services/destinations/index.server";
+import {
+  getLatestListSyncJobs,
+  toListSyncStatus,
+} from "../services/audience-sync.server";
 import { getCurrentPlanName } from "../services/subscription.server";
 import { useState, useEffect } from "react";
 import { UpgradeBanner } from "../components/UpgradeBanner";
@@ -64,6 +69,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       (list) => list.status === "active",
     ).length;
 
+    // Mailchimp connection and the latest sync job of each list
+    const mailchimpConnected =
+      await getAudienceDestination("mailchimp").isConnected(shop);
+    const mailchimpSyncs: LoaderData["mailchimpSyncs"] = {};
+    if (mailchimpConnected) {
+      const jobs = await getLatestListSyncJobs(shop, "mailchimp");
+      for (const job of jobs) {
+        mailchimpSyncs[job.listId as string] = toListSyncStatus(job);
+      }
+    }
+
+    // Connected email providers for exports
+    const exportProviders: LoaderData["exportProviders"] = [];
+    for (const provider of ["klaviyo", "sendgrid"] as const) {
+      if (await getAudienceDestination(provider).isConnected(shop)) {
+        exportProviders.push(provider);
+      }
+    }
+
     const currentPlan = await getCurrentPlanName(admin);
 
     // Check if dev mode is enabled
@@ -79,6 +103,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     return {
       savedLists,
+      mailchimpConnected,
+      mailchimpSyncs,
+      exportProviders,
       totalLists: savedLists.length,
       recentActivity: {
         listsCreated: savedLists.length,
@@ -106,6 +133,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
     return {
       savedLists: [],
+      mailchimpConnected: false,
+      mailchimpSyncs: {},
+      exportProviders: [],
       totalLists: 0,
       recentActivity: {
         listsCreated: 0,
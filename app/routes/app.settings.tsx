@@ -6,6 +6,7 @@
  * - Plan selection and billing preferences
  * - Automated reporting schedules
  * - AI campaign suggestion preferences
+ * - Parts of day used by purchase timing analytics
  */
 
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
@@ -32,6 +33,9 @@ import {
 import { getShopInfo } from "../services/shop-info.server";
 import { getCurrentPlanName } from "../services/subscription.server";
 import { getMailchimpConfig } from "../services/mailchimp.server";
+import { getKlaviyoConfig } from "../services/klaviyo.server";
+import { getSendGridConfig } from "../services/sendgrid.server";
+import { isValidPartOfDayBoundaries } from "../utils/partOfDay";
 import { UpgradeBanner } from "../components/UpgradeBanner";
 
 // ==========================================
@@ -58,6 +62,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Fetch Mailchimp connection status
   const mailchimpConnection = await getMailchimpConfig(shop);
 
+  // Fetch Klaviyo connection status
+  const klaviyoConnection = await getKlaviyoConfig(shop);
+
+  // Fetch SendGrid connection status
+  const sendgridConnection = await getSendGridConfig(shop);
+
   // Fetch the merchant's current app subscription from Shopify
   const currentPlanName = await getCurrentPlanName(admin);
   const selectedPlan = currentPlanName || "Managed via Shopify billing";
@@ -94,6 +104,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           connectedAt: mailchimpConnection.connectedAt.toISOString(),
         }
       : undefined,
+    klaviyoConnection: klaviyoConnection
+      ? {
+          isConnected: true,
+          connectedAt: klaviyoConnection.connectedAt.toISOString(),
+        }
+      : undefined,
+    sendgridConnection: sendgridConnection
+      ? {
+          isConnected: true,
+          connectedAt: sendgridConnection.connectedAt.toISOString(),
+        }
+      : undefined,
     currentPlan: currentPlanName,
     isDevMode,
   };
@@ -114,7 +136,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   try {
     switch (actionType) {
-      case "saveSettings":
+      case "saveSettings": {
         // Save all settings to database
         const settings = {
           whatsappNumber: formData.get("whatsappNumber"),
@@ -131,11 +153,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
         // In a real app, save to database here (Prisma/Supabase/etc.)
         const language = (formData.get("language") as string) || "en";
+        const partOfDay = JSON.parse((formData.get("partOfDay") as string) || "null");
+        if (!isValidPartOfDayBoundaries(partOfDay)) {
+          return {
+            success: false,
+            message: "Parts of day must start in order: morning, afternoon, evening, then night",
+          };
+        }
         const userPreferences: UserPreferences = {
           language,
+          partOfDay,
         };
 
-        await saveUserPreferences(shop, userPreferences);
+        await saveUserPreferences(shop, { language, partOfDay });
 
         return {
           success: true,
@@ -143,6 +173,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           settings,
           userPreferences,
         };
+      }
 
       case "testWhatsApp":
         const whatsappNumber = formData.get("whatsappNumber");
@@ -258,7 +289,10 @@ export default function SettingsPage() {
         <Settings
           settings={loaderData.settings}
           initialLanguage={loaderData.userPreferences.language}
+          initialPartOfDay={loaderData.userPreferences.partOfDay}
           mailchimpConnection={loaderData.mailchimpConnection}
+          klaviyoConnection={loaderData.klaviyoConnection}
+          sendgridConnection={loaderData.sendgridConnection}
           actionData={actionData}
           onSubmit={handleSubmit}
           isLoading={isLoading}
@@ -0,0 +1,26 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { advanceWarehouseBackfill } from "../services/warehouse/backfill.server";
+
+/**
+ * bulk_operations/finish: ingest the finished warehouse backfill step right away
+ * instead of waiting for the sync status to be polled
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, admin } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // No offline session (app uninstalled): nothing to advance
+  if (!admin) {
+    return new Response();
+  }
+
+  try {
+    await advanceWarehouseBackfill(admin, shop);
+  } catch (error) {
+    console.error("[Warehouse] Error advancing backfill:", error);
+  }
+
+  return new Response();
+};
@@ -2,6 +2,10 @@ import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import crypto from "crypto";
+import {
+  redactWarehouseCustomer,
+  deleteWarehouseData,
+} from "../services/warehouse/ingest.server";
 
 /**
  * Compliance Webhooks Handler
@@ -248,6 +252,15 @@ async function handleCustomerRedact(payload: unknown, shop: string) {
       });
     }
 
+    // Remove the customer and the requested orders from the analytics warehouse
+    if (customer.id) {
+      await redactWarehouseCustomer(
+        shop_domain,
+        `gid://shopify/Customer/${customer.id}`,
+        (orders_to_redact || []).map((orderId) => `gid://shopify/Order/${orderId}`)
+      );
+    }
+
     console.log(`[Compliance] Redacted customer data: ${savedLists.length} lists updated`);
 
     // TODO: In production, also:
@@ -306,6 +319,28 @@ async function handleShopRedact(payload: unknown, shop: string) {
     where: { shopId: shop_domain },
   });
 
+  await db.klaviyoConnection.deleteMany({
+    where: { shopId: shop_domain },
+  });
+
+  await db.sendGridConnection.deleteMany({
+    where: { shopId: shop_domain },
+  });
+
+  await db.syncJob.deleteMany({
+    where: { shopId: shop_domain },
+  });
+
+  await db.bulkSegmentJob.deleteMany({
+    where: { shopId: shop_domain },
+  });
+
+  await deleteWarehouseData(shop_domain);
+
+  await db.warehouseSync.deleteMany({
+    where: { shopId: shop_domain },
+  });
+
   console.log(`[Compliance] Deleted shop data: ${deletedLists.count} lists and all related data`);
 
   // TODO: In production, also:
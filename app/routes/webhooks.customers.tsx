@@ -0,0 +1,25 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  customerFromWebhook,
+  upsertWarehouseCustomer,
+  type CustomerWebhookPayload,
+} from "../services/warehouse/ingest.server";
+
+/**
+ * customers/create and customers/update: keep the warehouse customers fresh
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    await upsertWarehouseCustomer(shop, customerFromWebhook(payload as CustomerWebhookPayload));
+  } catch (error) {
+    // Return 200 anyway; the next update or a re-sync will catch up
+    console.error("[Warehouse] Error storing customer:", error);
+  }
+
+  return new Response();
+};
@@ -0,0 +1,25 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  orderFromWebhook,
+  upsertWarehouseOrder,
+  type OrderWebhookPayload,
+} from "../services/warehouse/ingest.server";
+
+/**
+ * orders/create and orders/updated: keep the warehouse orders fresh
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, shop, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    await upsertWarehouseOrder(shop, orderFromWebhook(payload as OrderWebhookPayload));
+  } catch (error) {
+    // Return 200 anyway; the next update or a re-sync will catch up
+    console.error("[Warehouse] Error storing order:", error);
+  }
+
+  return new Response();
+};
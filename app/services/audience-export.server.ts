@@ -0,0 +1,182 @@
+/**
+ * Audience Export Service
+ *
+ * Shared building blocks for exporting customers to audience destinations
+ * (Mailchimp, Klaviyo, SendGrid, ...), used by services/audience-sync.server.ts:
+ * - Resolves the customers behind a saved list or a filter result
+ * - Normalizes them into provider-neutral contacts
+ * - Counts contacts without email marketing consent, so routes can warn before
+ *   exporting them (GDPR / CAN-SPAM) or leave them out
+ *
+ * Destinations only need to map ExportContact to their own API format.
+ */
+
+import type { AdminGraphQL } from "./dashboard.server";
+import type { FilterData } from "../components/filter-audience/types";
+import { filterCustomers } from "../components/filter-audience/query";
+import { getSavedListById, type SavedCustomerList } from "./saved-lists.server";
+import { fetchCustomersByIds, type CustomerDetails } from "./customers.server";
+import { isConsented } from "../utils/marketingConsent";
+
+/**
+ * What to export: a saved list or the result of a set of filters
+ */
+export type ExportSource = { listId: string } | { filters: FilterData };
+
+/**
+ * What to do with contacts that haven't consented to email marketing:
+ * - subscribedOnly: leave them out of the export
+ * - all: export them anyway (the merchant confirmed they have consent elsewhere)
+ */
+export type ExportConsentMode = "subscribedOnly" | "all";
+
+export interface ExportContact {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  country?: string;
+  shopifyCustomerId: string;
+  ordersCount: number;
+  totalSpent: number;
+  // ISO 8601
+  createdAt?: string;
+  // Shopify email marketing consent state, e.g. SUBSCRIBED
+  emailMarketingState: string | null;
+}
+
+export interface PreparedContacts {
+  contacts: ExportContact[];
+  // Customers that can't be exported (e.g. no email address)
+  skipped: number;
+  // Contacts without email marketing consent (left out when subscribedOnly)
+  nonConsented: number;
+}
+
+export interface ExportCustomers {
+  customers: CustomerDetails[];
+  // The saved list behind a list source
+  savedList: SavedCustomerList | null;
+}
+
+/**
+ * Thrown when contacts without email marketing consent would be exported
+ * before the merchant chose an ExportConsentMode
+ */
+export class NonConsentedContactsError extends Error {
+  constructor(
+    public nonConsented: number,
+    public total: number,
+  ) {
+    super("NON_CONSENTED_CONTACTS");
+  }
+}
+
+/**
+ * Read the export source from submitted form data
+ * Returns null when neither a list ID nor filters were provided
+ */
+export function getExportSourceFromFormData(
+  formData: FormData,
+): ExportSource | null {
+  const listId = formData.get("listId");
+  const filtersJson = formData.get("filters");
+
+  if (listId && typeof listId === "string") {
+    return { listId };
+  }
+
+  if (filtersJson && typeof filtersJson === "string") {
+    return { filters: JSON.parse(filtersJson) as FilterData };
+  }
+
+  return null;
+}
+
+/**
+ * Read the consent mode from submitted form data
+ * Returns null when the merchant hasn't chosen yet
+ */
+export function getExportConsentModeFromFormData(
+  formData: FormData,
+): ExportConsentMode | null {
+  const consentMode = formData.get("consentMode");
+
+  return consentMode === "subscribedOnly" || consentMode === "all"
+    ? consentMode
+    : null;
+}
+
+/**
+ * Fetch the Shopify customers behind an export source
+ */
+export async function resolveExportCustomers(
+  admin: AdminGraphQL,
+  shop: string,
+  source: ExportSource,
+): Promise<ExportCustomers> {
+  if ("listId" in source) {
+    const savedList = await getSavedListById(shop, source.listId);
+
+    if (!savedList) {
+      throw new Error("LIST_NOT_FOUND");
+    }
+
+    return {
+      customers: await fetchCustomersByIds(admin, savedList.customerIds || []),
+      savedList,
+    };
+  }
+
+  const result = await filterCustomers(admin, source.filters, shop);
+  return { customers: result.customers, savedList: null };
+}
+
+/**
+ * Normalize customers into provider-neutral contacts
+ * Customers without an email address are skipped; with subscribedOnly,
+ * customers without email marketing consent are left out too
+ */
+export function prepareExportContacts(
+  customers: CustomerDetails[],
+  consentMode: ExportConsentMode | null = null,
+): PreparedContacts {
+  const contacts: ExportContact[] = [];
+  let skipped = 0;
+  let nonConsented = 0;
+
+  for (const customer of customers) {
+    if (!customer.email || customer.email === "N/A") {
+      skipped++;
+      continue;
+    }
+
+    if (!isConsented(customer.emailMarketingState)) {
+      nonConsented++;
+      if (consentMode === "subscribedOnly") {
+        continue;
+      }
+    }
+
+    const [firstName, ...lastName] = (
+      customer.name === "N/A" ? "" : customer.name
+    ).split(" ");
+
+    contacts.push({
+      email: customer.email,
+      firstName: firstName || undefined,
+      lastName: lastName.join(" ") || undefined,
+      country:
+        customer.country && customer.country !== "Unknown"
+          ? customer.country
+          : undefined,
+      shopifyCustomerId: customer.id,
+      ordersCount: customer.numberOfOrders || 0,
+      // totalSpent is formatted as "12.34 USD"
+      totalSpent: parseFloat(customer.totalSpent) || 0,
+      createdAt: customer.createdAtIso || undefined,
+      emailMarketingState: customer.emailMarketingState || null,
+    });
+  }
+
+  return { contacts, skipped, nonConsented };
+}
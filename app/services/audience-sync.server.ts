@@ -0,0 +1,394 @@
+/**
+ * Audience Sync Service
+ *
+ * Single pipeline for pushing customers to any registered audience destination
+ * (Mailchimp, Klaviyo, SendGrid, ...). Every run is recorded as a SyncJob:
+ * - Saved lists: the list's customers are upserted and customers synced by the
+ *   previous run that left the list are removed. With "keep in sync", the cron
+ *   re-runs the list's filters and pushes the changes.
+ * - Filter results: the matching customers are upserted once
+ */
+
+import prisma from "../db.server";
+import type { SyncJob } from "@prisma/client";
+import { unauthenticated } from "../shopify.server";
+import type { AdminGraphQL } from "./dashboard.server";
+import { filterCustomers } from "../components/filter-audience/query";
+import { getSavedListById, updateSavedList } from "./saved-lists.server";
+import { fetchCustomersByIds } from "./customers.server";
+import {
+  resolveExportCustomers,
+  prepareExportContacts,
+  NonConsentedContactsError,
+  type ExportConsentMode,
+  type ExportSource,
+  type PreparedContacts,
+} from "./audience-export.server";
+import { getAudienceDestination } from "./destinations/index.server";
+import { pushContactsToDestination } from "./destinations/pipeline.server";
+import type {
+  AudienceDestination,
+  DestinationAudience,
+  DestinationTarget,
+} from "./destinations/types";
+import type { ListSyncStatus } from "../components/my-saved-lists/types";
+
+export interface SyncToDestinationOptions {
+  destinationId: string;
+  source: ExportSource;
+  // Existing audience to sync into
+  audienceId?: string;
+  audienceName?: string;
+  // Name of a new audience to create instead
+  newAudienceName?: string;
+  // Name of the segment inside the audience (e.g. the Mailchimp tag) for filter
+  // results, saved lists use their own name
+  segmentName?: string;
+  keepInSync?: boolean;
+  consentMode?: ExportConsentMode | null;
+}
+
+export interface KeepInSyncResult {
+  jobId: string;
+  listId: string | null;
+  status: string;
+  error?: string;
+}
+
+interface RunSyncJobOptions {
+  destination: AudienceDestination;
+  listId: string | null;
+  audience: { id: string; name?: string | null };
+  target: DestinationTarget;
+  prepared: PreparedContacts;
+  keepInSync: boolean;
+  consentMode: ExportConsentMode | null;
+  onlyNew: boolean;
+}
+
+/**
+ * Get the most recent sync jobs of a saved list
+ */
+export async function getSyncJobs(shop: string, listId: string, limit = 10) {
+  return await prisma.syncJob.findMany({
+    where: { shopId: shop, listId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Get the latest sync job of each saved list synced to a destination
+ */
+export async function getLatestListSyncJobs(shop: string, destinationId: string) {
+  return await prisma.syncJob.findMany({
+    where: { shopId: shop, destination: destinationId, listId: { not: null } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["listId"],
+  });
+}
+
+/**
+ * Map a saved list's sync job to the status shown in My Saved Lists
+ */
+export function toListSyncStatus(job: SyncJob): ListSyncStatus {
+  return {
+    listId: job.listId || "",
+    destination: job.destination,
+    audienceId: job.audienceId,
+    audienceName: job.audienceName,
+    status: job.status,
+    lastSyncedAt: (job.completedAt || job.createdAt).toISOString(),
+    upsertedCount: job.upsertedCount,
+    addedCount: job.addedCount,
+    updatedCount: job.updatedCount,
+    removedCount: job.removedCount,
+    failedCount: job.failedCount,
+    skippedCount: job.skippedCount,
+    keepInSync: job.keepInSync,
+  };
+}
+
+/**
+ * Use an existing audience or create a new one
+ */
+async function resolveAudience(
+  destination: AudienceDestination,
+  shop: string,
+  options: SyncToDestinationOptions,
+): Promise<{ id: string; name?: string | null }> {
+  if (options.audienceId) {
+    return { id: options.audienceId, name: options.audienceName };
+  }
+
+  if (options.newAudienceName && destination.createAudience) {
+    const audience: DestinationAudience = await destination.createAudience(
+      shop,
+      options.newAudienceName,
+    );
+    return audience;
+  }
+
+  throw new Error(
+    options.newAudienceName
+      ? `${destination.name} audiences can't be created from the app`
+      : "An audience is required",
+  );
+}
+
+/**
+ * Get the last completed run of a saved list to an audience
+ */
+async function getPreviousSyncJob(
+  shop: string,
+  listId: string,
+  destinationId: string,
+  audienceId: string,
+) {
+  return await prisma.syncJob.findFirst({
+    where: {
+      shopId: shop,
+      listId,
+      destination: destinationId,
+      audienceId,
+      status: "completed",
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Push prepared contacts to a destination and record the run as a SyncJob
+ * Failures are recorded on the job and rethrown.
+ */
+async function runSyncJob(
+  admin: AdminGraphQL,
+  shop: string,
+  options: RunSyncJobOptions,
+) {
+  const { destination, listId, audience } = options;
+
+  const previousJob = listId
+    ? await getPreviousSyncJob(shop, listId, destination.id, audience.id)
+    : null;
+
+  // Only the latest job of a list carries keepInSync, so the cron picks each list once
+  if (listId) {
+    await prisma.syncJob.updateMany({
+      where: { shopId: shop, listId, destination: destination.id, keepInSync: true },
+      data: { keepInSync: false },
+    });
+  }
+
+  const job = await prisma.syncJob.create({
+    data: {
+      shopId: shop,
+      listId,
+      destination: destination.id,
+      audienceId: audience.id,
+      audienceName: audience.name,
+      status: "running",
+      keepInSync: options.keepInSync,
+      consentMode: options.consentMode,
+    },
+  });
+
+  try {
+    const result = await pushContactsToDestination(
+      destination,
+      shop,
+      options.target,
+      {
+        contacts: options.prepared.contacts,
+        previousCustomerIds: previousJob?.syncedCustomerIds,
+        onlyNew: options.onlyNew,
+        // Customers deleted from Shopify can't be looked up and are skipped
+        resolveEmails: async (customerIds) =>
+          (await fetchCustomersByIds(admin, customerIds))
+            .map((customer) => customer.email)
+            .filter((email) => email && email !== "N/A"),
+      },
+    );
+
+    return await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        upsertedCount: result.upserted,
+        addedCount: result.added,
+        updatedCount: result.updated,
+        failedCount: result.failed,
+        removedCount: result.removed,
+        skippedCount: options.prepared.skipped,
+        syncedCustomerIds: result.syncedCustomerIds,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`[Audience Sync] Job ${job.id} failed:`, error);
+
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        error: (error instanceof Error && error.message) || "Sync failed",
+        completedAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Sync a saved list or export a filter result to a destination audience
+ * Throws "UNKNOWN_DESTINATION", "DESTINATION_NOT_CONNECTED", "LIST_NOT_FOUND" or
+ * NonConsentedContactsError before anything is written to the destination.
+ */
+export async function syncToDestination(
+  admin: AdminGraphQL,
+  shop: string,
+  options: SyncToDestinationOptions,
+) {
+  const destination = getAudienceDestination(options.destinationId);
+
+  if (!(await destination.isConnected(shop))) {
+    throw new Error("DESTINATION_NOT_CONNECTED");
+  }
+
+  const consentMode = options.consentMode ?? null;
+  const { customers, savedList } = await resolveExportCustomers(
+    admin,
+    shop,
+    options.source,
+  );
+  const prepared = prepareExportContacts(customers, consentMode);
+
+  if (prepared.nonConsented > 0 && !consentMode) {
+    throw new NonConsentedContactsError(
+      prepared.nonConsented,
+      prepared.contacts.length,
+    );
+  }
+
+  const audience = await resolveAudience(destination, shop, options);
+  const listName =
+    savedList?.listName || options.segmentName || audience.name || "Shopify";
+
+  const job = await runSyncJob(admin, shop, {
+    destination,
+    listId: savedList?.id ?? null,
+    audience,
+    target: { audienceId: audience.id, listName },
+    prepared,
+    // Re-running filters isn't possible for AI generated lists
+    keepInSync:
+      !!savedList && !!options.keepInSync && savedList.source !== "ai-search",
+    consentMode,
+    onlyNew: false,
+  });
+
+  return {
+    job,
+    excludedNonConsented: consentMode === "subscribedOnly" ? prepared.nonConsented : 0,
+  };
+}
+
+/**
+ * Re-run a kept-in-sync saved list's filters and push the changes
+ * New customers are upserted, customers who no longer match are removed.
+ */
+export async function refreshListSync(admin: AdminGraphQL, job: SyncJob) {
+  const shop = job.shopId;
+  const savedList = job.listId ? await getSavedListById(shop, job.listId) : null;
+
+  if (!savedList) {
+    throw new Error("LIST_NOT_FOUND");
+  }
+
+  // AI search lists don't store filters that can be re-run
+  if (savedList.source === "ai-search" || savedList.status === "archived") {
+    throw new Error(
+      `List is ${savedList.source === "ai-search" ? "AI generated" : "archived"}`,
+    );
+  }
+
+  const destination = getAudienceDestination(job.destination);
+  const { customers } = await filterCustomers(admin, savedList.queryData, shop);
+  // The merchant can't be asked during a refresh: customers who joined without
+  // consent are left out unless the merchant chose to sync everyone
+  const consentMode: ExportConsentMode =
+    job.consentMode === "all" ? "all" : "subscribedOnly";
+
+  await updateSavedList(shop, savedList.id, {
+    customerIds: customers.map((customer) => customer.id),
+  });
+
+  return await runSyncJob(admin, shop, {
+    destination,
+    listId: savedList.id,
+    audience: { id: job.audienceId, name: job.audienceName },
+    target: { audienceId: job.audienceId, listName: savedList.listName },
+    prepared: prepareExportContacts(customers, consentMode),
+    keepInSync: true,
+    consentMode,
+    onlyNew: true,
+  });
+}
+
+// Kept-in-sync lists are refreshed at most once per interval
+const KEEP_IN_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+// Lists refreshed per cron run, the rest are picked up by the next runs
+const KEEP_IN_SYNC_BATCH_SIZE = 20;
+
+/**
+ * Refresh the kept-in-sync saved lists that are due
+ * Called every few minutes by the cron route. Each run takes a bounded batch of
+ * the least recently refreshed lists, so a refresh moves a list to the back of
+ * the queue and no single run has to process every shop.
+ */
+export async function runKeepInSync(
+  limit = KEEP_IN_SYNC_BATCH_SIZE,
+): Promise<KeepInSyncResult[]> {
+  const jobs = await prisma.syncJob.findMany({
+    where: {
+      keepInSync: true,
+      createdAt: { lt: new Date(Date.now() - KEEP_IN_SYNC_INTERVAL_MS) },
+    },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+  const results: KeepInSyncResult[] = [];
+
+  for (const job of jobs) {
+    try {
+      const { admin } = await unauthenticated.admin(job.shopId);
+      const refreshed = await refreshListSync(admin, job);
+
+      results.push({ jobId: refreshed.id, listId: job.listId, status: refreshed.status });
+    } catch (error) {
+      console.error(
+        `[Keep In Sync] Error refreshing list ${job.listId} for shop ${job.shopId}:`,
+        error,
+      );
+      const message = (error instanceof Error && error.message) || "Refresh failed";
+
+      // Failed syncs are recorded on a new job that stays in the queue. When the
+      // list couldn't be refreshed at all (deleted, archived, app uninstalled),
+      // the job is still the latest one and would block the queue, so stop syncing it
+      await prisma.syncJob.updateMany({
+        where: { id: job.id, keepInSync: true },
+        data: { keepInSync: false, error: message },
+      });
+
+      results.push({
+        jobId: job.id,
+        listId: job.listId,
+        status: "failed",
+        error: message,
+      });
+    }
+  }
+
+  return results;
+}
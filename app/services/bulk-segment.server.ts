@@ -0,0 +1,378 @@
+/**
+ * Bulk Segment Service
+ *
+ * Generates filter-audience segments with Shopify Bulk Operations for large stores:
+ * 1. startBulkSegmentJob() runs the customers bulk operation and persists a BulkSegmentJob
+ * 2. getBulkSegmentJob() is polled by the UI; it refreshes the operation's progress.
+ *    Once the customers operation has finished, the orders operation is started
+ *    when the post-filters need the order history (see bulkQuery.ts)
+ * 3. Once the last operation has finished, the JSONL results are streamed, the
+ *    post-filters applied and the matching customers stored on the job
+ *
+ *   running (phase: customers → orders) → processing → completed
+ *                                                     ↘ failed
+ *
+ * A poll processing a result claims the job ("processing"); claims older than
+ * BULK_RESULT_CLAIM_TIMEOUT_MS (e.g. the process crashed) are released so the next
+ * poll processes the result again.
+ *
+ * Unlike the paginated query, bulk operations read every order of every customer
+ * (the last 60 days of orders without read_all_orders).
+ */
+
+import prisma from "../db.server";
+import type { BulkSegmentJob, Prisma } from "@prisma/client";
+import type { AdminGraphQL } from "./dashboard.server";
+import type {
+  FilterData,
+  SegmentCoverage,
+} from "../components/filter-audience/types";
+import {
+  getOrderWindowCoverage,
+  withShopTimezone,
+  type FilteredCustomer,
+} from "../components/filter-audience/query";
+import { getActiveCriteria } from "../components/filter-audience/filterExpression";
+import {
+  applyAllFilters,
+  formatCustomerData,
+} from "../components/filter-audience/queries/queryCompiler";
+import {
+  buildBulkCustomerQuery,
+  buildBulkOrderQuery,
+  assembleBulkCustomers,
+  type BulkRecord,
+} from "../components/filter-audience/queries/bulkQuery";
+import { parseJsonLines, decodeTextStream } from "../utils/jsonl";
+
+export type BulkSegmentJobStatus =
+  | "running"
+  | "processing"
+  | "completed"
+  | "failed";
+
+export type BulkSegmentPhase = "customers" | "orders";
+
+// Processing a result never takes this long unless the process died
+const BULK_RESULT_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface BulkSegmentJobResult {
+  id: string;
+  status: BulkSegmentJobStatus;
+  objectCount: number;
+  matchCount: number;
+  filters: FilterData;
+  customers?: FilteredCustomer[];
+  coverage?: SegmentCoverage;
+  error?: string | null;
+}
+
+/**
+ * Run a GraphQL request and throw on GraphQL errors
+ */
+async function runGraphQL(admin: AdminGraphQL, query: string) {
+  const response = await admin.graphql(query);
+  const json = await response.json();
+
+  if (json.errors && json.errors.length > 0) {
+    const accessError = json.errors.find(
+      (error: { message?: string }) =>
+        error.message?.includes("not approved") ||
+        error.message?.includes("protected customer data")
+    );
+    if (accessError) {
+      throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+    }
+    throw new Error(json.errors[0].message || "Unknown GraphQL error");
+  }
+
+  return json.data;
+}
+
+function toJobResult(job: BulkSegmentJob): BulkSegmentJobResult {
+  const completed = job.status === "completed";
+
+  return {
+    id: job.id,
+    status: job.status as BulkSegmentJobStatus,
+    objectCount: job.objectCount,
+    matchCount: job.matchCount,
+    filters: job.filters as unknown as FilterData,
+    customers: completed
+      ? ((job.customers || []) as unknown as FilteredCustomer[])
+      : undefined,
+    // Bulk operations read every customer and order, see getBulkSegmentJob
+    coverage: completed ? { exact: true, notes: [] } : undefined,
+    error: job.error,
+  };
+}
+
+/**
+ * Start a bulk operation and return its ID
+ */
+async function runBulkQuery(admin: AdminGraphQL, query: string): Promise<string> {
+  const data = await runGraphQL(
+    admin,
+    `
+      mutation {
+        bulkOperationRunQuery(query: ${JSON.stringify(query)}) {
+          bulkOperation {
+            id
+            status
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `
+  );
+
+  const userErrors = data?.bulkOperationRunQuery?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  return data.bulkOperationRunQuery.bulkOperation.id;
+}
+
+async function* readBulkResult(url: string | null): AsyncGenerator<BulkRecord> {
+  // Shopify returns no URL when the query matched nothing
+  if (!url) {
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result (${response.status})`);
+  }
+
+  yield* parseJsonLines<BulkRecord>(decodeTextStream(response.body));
+}
+
+/**
+ * Start the bulk operations generating the segment for a set of filters
+ */
+export async function startBulkSegmentJob(
+  admin: AdminGraphQL,
+  shop: string,
+  segmentFilters: FilterData
+): Promise<BulkSegmentJobResult> {
+  if (getActiveCriteria(segmentFilters).length === 0) {
+    throw new Error("Please select at least one filter to generate a segment.");
+  }
+
+  // Stored with the job, so the result is filtered in the same timezone
+  const filters = await withShopTimezone(admin, shop, segmentFilters);
+
+  const bulkOperationId = await runBulkQuery(admin, buildBulkCustomerQuery(filters));
+
+  const job = await prisma.bulkSegmentJob.create({
+    data: {
+      shopId: shop,
+      bulkOperationId,
+      phase: "customers",
+      filters: filters as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  return toJobResult(job);
+}
+
+/**
+ * Stream the bulk operation results and store the matching customers
+ */
+async function processBulkResult(
+  admin: AdminGraphQL,
+  jobId: string,
+  filters: FilterData,
+  customersUrl: string | null,
+  ordersUrl: string | null
+) {
+  let matches: FilteredCustomer[] = [];
+
+  if (customersUrl) {
+    const customers = await assembleBulkCustomers(
+      readBulkResult(customersUrl),
+      ordersUrl ? readBulkResult(ordersUrl) : null
+    );
+    const filteredCustomers = await applyAllFilters(customers, filters, admin);
+    matches = filteredCustomers.map(formatCustomerData);
+  }
+
+  return await prisma.bulkSegmentJob.update({
+    where: { id: jobId },
+    data: {
+      status: "completed",
+      matchCount: matches.length,
+      customers: matches as unknown as Prisma.InputJsonValue,
+      claimedAt: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Advance a job whose bulk operation has completed
+ * Starts the orders operation after the customers one when needed, otherwise
+ * processes the results.
+ */
+async function advanceBulkSegmentJob(
+  admin: AdminGraphQL,
+  job: BulkSegmentJob,
+  operationUrl: string | null
+) {
+  const filters = job.filters as unknown as FilterData;
+
+  if (job.phase === "orders") {
+    return await processBulkResult(admin, job.id, filters, job.customersUrl, operationUrl);
+  }
+
+  const orderQuery = buildBulkOrderQuery(filters);
+
+  // Without matching customers there are no orders to read
+  if (!orderQuery || !operationUrl) {
+    return await processBulkResult(admin, job.id, filters, operationUrl, null);
+  }
+
+  const bulkOperationId = await runBulkQuery(admin, orderQuery);
+
+  return await prisma.bulkSegmentJob.update({
+    where: { id: job.id },
+    data: {
+      status: "running",
+      phase: "orders",
+      bulkOperationId,
+      customersUrl: operationUrl,
+      claimedAt: null,
+    },
+  });
+}
+
+/**
+ * Get a bulk segment job, advancing it when the bulk operation has progressed
+ * Returns null if the job doesn't exist for this shop
+ */
+export async function getBulkSegmentJob(
+  admin: AdminGraphQL,
+  shop: string,
+  jobId: string
+): Promise<BulkSegmentJobResult | null> {
+  const result = await refreshBulkSegmentJob(admin, shop, jobId);
+
+  // Every order the app can read is included, which may only be the last 60 days
+  if (result?.status === "completed") {
+    result.coverage = await getOrderWindowCoverage(admin, result.filters);
+  }
+
+  return result;
+}
+
+/**
+ * Load a job and advance it when its bulk operation has progressed
+ */
+async function refreshBulkSegmentJob(
+  admin: AdminGraphQL,
+  shop: string,
+  jobId: string
+): Promise<BulkSegmentJobResult | null> {
+  let job = await prisma.bulkSegmentJob.findFirst({
+    where: { id: jobId, shopId: shop },
+  });
+
+  if (!job) {
+    return null;
+  }
+
+  // Release a claim left behind by a poll that died while processing the result
+  if (
+    job.status === "processing" &&
+    job.claimedAt &&
+    job.claimedAt.getTime() < Date.now() - BULK_RESULT_CLAIM_TIMEOUT_MS
+  ) {
+    const released = await prisma.bulkSegmentJob.updateMany({
+      where: { id: job.id, status: "processing", claimedAt: job.claimedAt },
+      data: { status: "running", claimedAt: null },
+    });
+
+    if (released.count > 0) {
+      job = { ...job, status: "running", claimedAt: null };
+    }
+  }
+
+  if (job.status !== "running") {
+    return toJobResult(job);
+  }
+
+  const data = await runGraphQL(
+    admin,
+    `
+      query {
+        node(id: "${job.bulkOperationId}") {
+          ... on BulkOperation {
+            status
+            errorCode
+            objectCount
+            url
+          }
+        }
+      }
+    `
+  );
+  const operation = data?.node;
+
+  if (!operation || ["FAILED", "CANCELED", "EXPIRED"].includes(operation.status)) {
+    const failedJob = await prisma.bulkSegmentJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        error: `Bulk operation ${operation?.status?.toLowerCase() || "not found"}${
+          operation?.errorCode ? ` (${operation.errorCode})` : ""
+        }`,
+        completedAt: new Date(),
+      },
+    });
+    return toJobResult(failedJob);
+  }
+
+  const objectCount = parseInt(operation.objectCount, 10) || 0;
+
+  if (operation.status !== "COMPLETED") {
+    const updatedJob = await prisma.bulkSegmentJob.update({
+      where: { id: job.id },
+      data: { objectCount },
+    });
+    return toJobResult(updatedJob);
+  }
+
+  // Claim the job so concurrent polls don't process the result twice
+  const claimed = await prisma.bulkSegmentJob.updateMany({
+    where: { id: job.id, status: "running", bulkOperationId: job.bulkOperationId },
+    data: { status: "processing", objectCount, claimedAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    return toJobResult({ ...job, status: "processing", objectCount });
+  }
+
+  try {
+    const advancedJob = await advanceBulkSegmentJob(admin, job, operation.url);
+    return toJobResult(advancedJob);
+  } catch (error) {
+    console.error(`[Bulk Segment] Error processing job ${job.id}:`, error);
+
+    const failedJob = await prisma.bulkSegmentJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        error:
+          (error instanceof Error && error.message) ||
+          "Failed to process bulk operation result",
+        claimedAt: null,
+        completedAt: new Date(),
+      },
+    });
+    return toJobResult(failedJob);
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Customers Service
+ *
+ * Fetches customer details from Shopify by customer ID.
+ * Used by saved lists to resolve stored customer IDs into displayable/exportable records.
+ */
+
+import type { AdminGraphQL } from "./dashboard.server";
+import { getCustomerPredictedClv } from "../components/filter-audience/queries/predictedClv";
+
+export interface CustomerDetails {
+  id: string;
+  name: string;
+  email: string;
+  country: string;
+  createdAt: string;
+  createdAtIso?: string | null; // ISO 8601, createdAt is formatted for display
+  numberOfOrders: number;
+  totalSpent: string;
+  predictedClv: string;
+  emailMarketingState?: string | null;
+}
+
+/**
+ * Fetch customers from Shopify by their IDs
+ * Uses the saved customer IDs from the database
+ */
+export async function fetchCustomersByIds(
+  admin: AdminGraphQL,
+  customerIds: string[]
+): Promise<CustomerDetails[]> {
+  const customers: CustomerDetails[] = [];
+
+  // Fetch customers in batches to avoid rate limits
+  const batchSize = 10;
+  
+  for (let i = 0; i < customerIds.length; i += batchSize) {
+    const batch = customerIds.slice(i, i + batchSize);
+    
+    // Fetch each customer in the batch
+    const customerPromises = batch.map(async (customerId) => {
+      try {
+        // Ensure the ID is in the correct format (gid://shopify/Customer/...)
+        const formattedId = customerId.startsWith("gid://")
+          ? customerId
+          : `gid://shopify/Customer/${customerId}`;
+
+        const query = `
+          query {
+            customer(id: "${formattedId}") {
+              id
+              displayName
+              email
+              createdAt
+              numberOfOrders
+              amountSpent {
+                amount
+                currencyCode
+              }
+              lastOrder {
+                createdAt
+              }
+              defaultAddress {
+                country
+              }
+              emailMarketingConsent {
+                marketingState
+              }
+            }
+          }
+        `;
+
+        const response = await admin.graphql(query);
+        const json = await response.json();
+
+        if (json.errors && json.errors.length > 0) {
+          const accessError = json.errors.find(
+            (error: { message?: string }) =>
+              error.message?.includes("not approved") ||
+              error.message?.includes("protected customer data") ||
+              error.message?.includes("Customer")
+          );
+          if (accessError) {
+            throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+          }
+          // Skip this customer if there's an error (might be deleted)
+          return null;
+        }
+
+        const customer = json.data?.customer;
+        if (customer) {
+          return {
+            id: customer.id,
+            name: customer.displayName || "N/A",
+            email: customer.email || "N/A",
+            country: customer.defaultAddress?.country || "Unknown",
+            createdAt: customer.createdAt
+              ? new Date(customer.createdAt).toLocaleDateString()
+              : "N/A",
+            createdAtIso: customer.createdAt
+              ? new Date(customer.createdAt).toISOString()
+              : null,
+            numberOfOrders: customer.numberOfOrders || 0,
+            totalSpent: customer.amountSpent
+              ? `${parseFloat(customer.amountSpent.amount).toFixed(2)} ${customer.amountSpent.currencyCode}`
+              : "0.00",
+            predictedClv: customer.amountSpent
+              ? `${getCustomerPredictedClv(customer).toFixed(2)} ${customer.amountSpent.currencyCode}`
+              : "0.00",
+            emailMarketingState: customer.emailMarketingConsent?.marketingState || null,
+          };
+        }
+        return null;
+      } catch (error) {
+        if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+          throw error;
+        }
+        // Skip this customer if there's an error (might be deleted)
+        console.error(`[Get Customers] Error fetching customer ${customerId}:`, error);
+        return null;
+      }
+    });
+
+    // Wait for batch to complete
+    try {
+      const batchResults = await Promise.all(customerPromises);
+      const validCustomers = batchResults.filter((c) => c !== null);
+      customers.push(...validCustomers);
+    } catch (error) {
+      if (error instanceof Error && error.message === "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED") {
+        throw error;
+      }
+      // Continue with next batch if there's an error
+      console.error(`[Get Customers] Error in batch ${i}:`, error);
+    }
+  }
+
+  return customers;
+}
@@ -159,7 +159,7 @@ function getDefaultPreferences(): DashboardVisibility {
         totalCustomers: true,
         newCustomers: true,
         returningCustomers: true,
-        inactiveCustomers: true,
+        churnRisk: true,
       },
     },
     purchaseOrderBehavior: {
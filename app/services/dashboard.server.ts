@@ -8,38 +8,204 @@
  * Instead, we derive customer metrics from Orders data.
  */
 
+import {
+  resolveDateRange,
+  getZonedDateParts,
+  getComparisonDateRange,
+  buildPeriodComparison,
+  DEFAULT_TIMEZONE,
+  type ComparisonMode,
+  type PeriodComparison,
+} from "../utils/dateRange";
+import {
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  getPartOfDay,
+  type PartOfDayBoundaries,
+} from "../utils/partOfDay";
+
 // Type for Shopify Admin GraphQL client
 export type AdminGraphQL = {
   graphql: (query: string) => Promise<Response>;
 };
 
+// Fields every node fetched by date range has; callers type the fields they select
+export interface CreatedNode {
+  id: string;
+  createdAt: string;
+}
+
+export interface MoneyNode {
+  amount: string;
+  currencyCode: string;
+}
+
+// Profile fields of the customers listed behind a card (only the selected ones are set)
+export interface DashboardCustomerNode {
+  id: string;
+  displayName?: string | null;
+  email?: string | null;
+  createdAt?: string;
+  numberOfOrders?: string | number;
+  amountSpent?: MoneyNode | null;
+  defaultAddress?: { country?: string | null } | null;
+}
+
 /**
- * Calculate date range for queries
+ * Fetch every record of a connection created in a date range, page by page
+ * `fields` is the node selection; access errors become PROTECTED_*_DATA_ACCESS_DENIED.
+ * Selections with nested connections need a smaller page to stay under the query cost limit.
  */
-export function calculateDateRange(dateRange: string): string {
-  const now = new Date();
-  let startDate: Date;
-
-  switch (dateRange) {
-    case 'today':
-      startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      break;
-    case '7days':
-    case 'last7Days':
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      break;
-    case '90days':
-    case 'last90Days':
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      break;
-    case '30days':
-    case 'last30Days':
-    default:
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      break;
+async function fetchCreatedInRange<T extends CreatedNode>(
+  admin: AdminGraphQL,
+  connection: "orders" | "customers",
+  startDate: Date,
+  endDate: Date,
+  fields: string,
+  pageSize: number = 250
+): Promise<T[]> {
+  const search = `created_at:>='${startDate.toISOString()}' created_at:<='${endDate.toISOString()}'`;
+  const accessDenied =
+    connection === "orders"
+      ? "PROTECTED_ORDER_DATA_ACCESS_DENIED"
+      : "PROTECTED_CUSTOMER_DATA_ACCESS_DENIED";
+  const nodes: T[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  try {
+    while (hasNextPage) {
+      const after: string = cursor ? `, after: "${cursor}"` : "";
+      const response = await admin.graphql(`
+        query {
+          ${connection}(first: ${pageSize}${after}, query: "${search}") {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+              createdAt
+              ${fields}
+            }
+          }
+        }
+      `);
+      const json = await response.json();
+
+      if (json.errors && json.errors.length > 0) {
+        const accessError = json.errors.find(
+          (error: { message?: string }) =>
+            error.message?.includes("not approved") ||
+            error.message?.includes("protected") ||
+            error.message?.includes(connection === "orders" ? "Order" : "Customer")
+        );
+        if (accessError) {
+          throw new Error(accessDenied);
+        }
+        throw new Error(json.errors[0].message || "Unknown GraphQL error");
+      }
+
+      nodes.push(...(json.data?.[connection]?.nodes || []));
+      hasNextPage = json.data?.[connection]?.pageInfo?.hasNextPage || false;
+      cursor = json.data?.[connection]?.pageInfo?.endCursor || null;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "";
+    if (
+      message === accessDenied ||
+      message.includes("not approved") ||
+      message.includes("protected")
+    ) {
+      throw new Error(accessDenied);
+    }
+    throw error;
   }
 
-  return startDate.toISOString();
+  return nodes;
+}
+
+/**
+ * Fetch all orders created in a date range (id and createdAt are always included)
+ * Card queries make this single pass and bucket the result for their charts.
+ */
+export function fetchOrdersInRange<T extends CreatedNode = CreatedNode>(
+  admin: AdminGraphQL,
+  startDate: Date,
+  endDate: Date,
+  fields: string = "",
+  pageSize?: number
+): Promise<T[]> {
+  return fetchCreatedInRange<T>(admin, "orders", startDate, endDate, fields, pageSize);
+}
+
+/**
+ * Fetch all customers created in a date range (id and createdAt are always included)
+ */
+export function fetchCustomersInRange<T extends CreatedNode = CreatedNode>(
+  admin: AdminGraphQL,
+  startDate: Date,
+  endDate: Date,
+  fields: string = ""
+): Promise<T[]> {
+  return fetchCreatedInRange<T>(admin, "customers", startDate, endDate, fields);
+}
+
+/**
+ * Calculate the start of a date range for queries (ISO string)
+ */
+export function calculateDateRange(
+  dateRange: string,
+  timezone: string = DEFAULT_TIMEZONE
+): string {
+  return resolveDateRange(dateRange, timezone).startDate.toISOString();
+}
+
+/**
+ * Build the created_at search filter for a date range
+ * Both bounds are resolved in the shop's timezone.
+ */
+export function buildCreatedAtSearch(
+  dateRange: string,
+  timezone: string = DEFAULT_TIMEZONE
+): string {
+  const { startDate, endDate } = resolveDateRange(dateRange, timezone);
+  return `created_at:>='${startDate.toISOString()}' created_at:<='${endDate.toISOString()}'`;
+}
+
+/**
+ * Load a card for its date range and for the comparison period
+ *
+ * The comparison period is loaded through the same function as a custom range,
+ * so warehouse and Shopify fallbacks apply to both. A failing comparison only
+ * drops the comparison; errors for the current period are thrown as before.
+ */
+export async function getCardDataWithComparison<T extends { count: number }>(
+  loadCard: (dateRange: string) => Promise<T>,
+  dateRange: string,
+  comparisonMode: ComparisonMode,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<T & { comparison: PeriodComparison | null }> {
+  const comparisonDateRange = getComparisonDateRange(dateRange, comparisonMode, timezone);
+
+  const [current, previous] = await Promise.all([
+    loadCard(dateRange),
+    comparisonDateRange
+      ? loadCard(comparisonDateRange).catch((error) => {
+          console.error(
+            "[Dashboard Comparison] Error loading comparison period:",
+            error instanceof Error ? error.message : error
+          );
+          return null;
+        })
+      : Promise.resolve(null),
+  ]);
+
+  const comparison =
+    previous && comparisonDateRange && comparisonMode !== "none"
+      ? buildPeriodComparison(current.count, previous.count, comparisonMode, comparisonDateRange)
+      : null;
+
+  return { ...current, comparison };
 }
 
 /**
@@ -49,10 +215,11 @@ export function calculateDateRange(dateRange: string): string {
  */
 export async function getTotalCustomers(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
   const { getTotalCustomersQuery } = await import("../components/dashboard/CustomersOverview/TotalCustomers/query");
-  return getTotalCustomersQuery(admin, dateRange);
+  return getTotalCustomersQuery(admin, dateRange, timezone);
 }
 
 /**
@@ -62,10 +229,11 @@ export async function getTotalCustomers(
  */
 export async function getNewCustomers(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
   const { getNewCustomersQuery } = await import("../components/dashboard/CustomersOverview/NewCustomers/query");
-  return getNewCustomersQuery(admin, dateRange);
+  return getNewCustomersQuery(admin, dateRange, timezone);
 }
 
 /**
@@ -75,10 +243,11 @@ export async function getNewCustomers(
  */
 export async function getReturningCustomers(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
   const { getReturningCustomersQuery } = await import("../components/dashboard/CustomersOverview/ReturningCustomers/query");
-  return getReturningCustomersQuery(admin, dateRange);
+  return getReturningCustomersQuery(admin, dateRange, timezone);
 }
 
 /**
@@ -88,10 +257,11 @@ export async function getReturningCustomers(
  */
 export async function getInactiveCustomers(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
   const { getInactiveCustomersQuery } = await import("../components/dashboard/CustomersOverview/InactiveCustomers/query");
-  return getInactiveCustomersQuery(admin, dateRange);
+  return getInactiveCustomersQuery(admin, dateRange, timezone);
 }
 
 /**
@@ -99,13 +269,14 @@ export async function getInactiveCustomers(
  */
 export async function getCustomerOverview(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
   const [totalCustomers, newCustomers, returningCustomers, inactiveCustomers] = await Promise.all([
-    getTotalCustomers(admin, dateRange),
-    getNewCustomers(admin, dateRange),
-    getReturningCustomers(admin, dateRange),
-    getInactiveCustomers(admin, dateRange)
+    getTotalCustomers(admin, dateRange, timezone),
+    getNewCustomers(admin, dateRange, timezone),
+    getReturningCustomers(admin, dateRange, timezone),
+    getInactiveCustomers(admin, dateRange, timezone)
   ]);
 
   return {
@@ -121,14 +292,15 @@ export async function getCustomerOverview(
  */
 export async function getOrderBehavior(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const startDateISO = calculateDateRange(dateRange);
+  const createdAtSearch = buildCreatedAtSearch(dateRange, timezone);
 
   try {
     const response = await admin.graphql(`
       query {
-        orders(first: 250, query: "created_at:>='${startDateISO}'") {
+        orders(first: 250, query: "${createdAtSearch}") {
           nodes {
             id
             cancelledAt
@@ -179,14 +351,15 @@ export async function getOrderBehavior(
  */
 export async function getEngagementPatterns(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const startDateISO = calculateDateRange(dateRange);
+  const createdAtSearch = buildCreatedAtSearch(dateRange, timezone);
 
   try {
     const response = await admin.graphql(`
       query {
-        orders(first: 250, query: "created_at:>='${startDateISO}'") {
+        orders(first: 250, query: "${createdAtSearch}") {
           nodes {
             id
             totalDiscountsSet {
@@ -227,17 +400,20 @@ export async function getEngagementPatterns(
 
 /**
  * Get Purchase Timing Data
+ * Orders are counted by the shop's part-of-day boundaries, like the Purchase Timing cards
  */
 export async function getPurchaseTiming(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE,
+  partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
 ) {
-  const startDateISO = calculateDateRange(dateRange);
+  const createdAtSearch = buildCreatedAtSearch(dateRange, timezone);
 
   try {
     const response = await admin.graphql(`
       query {
-        orders(first: 250, query: "created_at:>='${startDateISO}'") {
+        orders(first: 250, query: "${createdAtSearch}") {
           nodes {
             id
             createdAt
@@ -252,16 +428,20 @@ export async function getPurchaseTiming(
     let morningPurchases = 0;
     let afternoonPurchases = 0;
     let eveningPurchases = 0;
+    let nightPurchases = 0;
     let weekendPurchases = 0;
 
     orders.forEach((order: any) => {
-      const orderDate = new Date(order.createdAt);
-      const hour = orderDate.getUTCHours();
-      const day = orderDate.getUTCDay();
+      const { hour, weekday: day } = getZonedDateParts(
+        new Date(order.createdAt),
+        timezone
+      );
 
-      if (hour >= 6 && hour < 12) morningPurchases++;
-      else if (hour >= 12 && hour < 18) afternoonPurchases++;
-      else eveningPurchases++;
+      const part = getPartOfDay(hour, partOfDay);
+      if (part === "morning") morningPurchases++;
+      else if (part === "afternoon") afternoonPurchases++;
+      else if (part === "evening") eveningPurchases++;
+      else nightPurchases++;
 
       if (day === 0 || day === 6) weekendPurchases++;
     });
@@ -270,6 +450,7 @@ export async function getPurchaseTiming(
       morningPurchases: { count: morningPurchases },
       afternoonPurchases: { count: afternoonPurchases },
       eveningPurchases: { count: eveningPurchases },
+      nightPurchases: { count: nightPurchases },
       weekendPurchases: { count: weekendPurchases }
     };
   } catch (error: any) {
@@ -279,6 +460,7 @@ export async function getPurchaseTiming(
       morningPurchases: { count: 0 },
       afternoonPurchases: { count: 0 },
       eveningPurchases: { count: 0 },
+      nightPurchases: { count: 0 },
       weekendPurchases: { count: 0 }
     };
   }
@@ -289,9 +471,10 @@ export async function getPurchaseTiming(
  */
 export async function getCustomerSegmentation(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const orderBehavior = await getOrderBehavior(admin, dateRange);
+  const orderBehavior = await getOrderBehavior(admin, dateRange, timezone);
   
   return {
     codOrders: orderBehavior.codOrders.count,
@@ -306,9 +489,10 @@ export async function getCustomerSegmentation(
  */
 export async function getBehavioralBreakdown(
   admin: AdminGraphQL,
-  dateRange: string = "30days"
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
 ) {
-  const engagement = await getEngagementPatterns(admin, dateRange);
+  const engagement = await getEngagementPatterns(admin, dateRange, timezone);
   
   return {
     discountUsers: engagement.discountUsers.count,
@@ -321,15 +505,17 @@ export async function getBehavioralBreakdown(
 // Legacy function for backward compatibility
 export async function getDashboardData(
   admin: AdminGraphQL,
-  dateRange: string
+  dateRange: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
 ) {
   const [customerOverview, orderBehavior, engagementPatterns, purchaseTiming, customerSegmentation, behavioralBreakdown] = await Promise.all([
-    getCustomerOverview(admin, dateRange),
-    getOrderBehavior(admin, dateRange),
-    getEngagementPatterns(admin, dateRange),
-    getPurchaseTiming(admin, dateRange),
-    getCustomerSegmentation(admin, dateRange),
-    getBehavioralBreakdown(admin, dateRange)
+    getCustomerOverview(admin, dateRange, timezone),
+    getOrderBehavior(admin, dateRange, timezone),
+    getEngagementPatterns(admin, dateRange, timezone),
+    getPurchaseTiming(admin, dateRange, timezone, partOfDay),
+    getCustomerSegmentation(admin, dateRange, timezone),
+    getBehavioralBreakdown(admin, dateRange, timezone)
   ]);
 
   return {
@@ -0,0 +1,61 @@
+/**
+ * Audience Destination Registry
+ *
+ * Single entry point for looking up the provider a saved list is synced to.
+ * Each provider implements AudienceDestination on top of its own service.
+ *
+ * The in-memory destination is only registered outside production.
+ */
+
+import type { AudienceDestination, AudienceDestinationId } from "./types";
+import { mailchimpDestination } from "./mailchimp.server";
+import { klaviyoDestination } from "./klaviyo.server";
+import { sendGridDestination } from "./sendgrid.server";
+import { memoryDestination } from "./memory.server";
+
+const destinations = new Map<AudienceDestinationId, AudienceDestination>();
+
+/**
+ * Register a destination, replacing any destination with the same ID
+ */
+export function registerAudienceDestination(destination: AudienceDestination) {
+  destinations.set(destination.id, destination);
+}
+
+registerAudienceDestination(mailchimpDestination);
+registerAudienceDestination(klaviyoDestination);
+registerAudienceDestination(sendGridDestination);
+
+if (process.env.NODE_ENV !== "production") {
+  registerAudienceDestination(memoryDestination);
+}
+
+/**
+ * Get a registered destination by ID
+ * Throws "UNKNOWN_DESTINATION" for unregistered IDs
+ */
+export function getAudienceDestination(id: string): AudienceDestination {
+  const destination = destinations.get(id as AudienceDestinationId);
+
+  if (!destination) {
+    throw new Error("UNKNOWN_DESTINATION");
+  }
+
+  return destination;
+}
+
+/**
+ * Get all registered destinations
+ */
+export function getAudienceDestinations(): AudienceDestination[] {
+  return [...destinations.values()];
+}
+
+export type {
+  AudienceDestination,
+  AudienceDestinationId,
+  DestinationAudience,
+  DestinationCredentials,
+  DestinationTarget,
+  UpsertMembersResult,
+} from "./types";
@@ -0,0 +1,73 @@
+/**
+ * Klaviyo Audience Destination
+ *
+ * Members are imported into a Klaviyo list through bulk import jobs.
+ */
+
+import {
+  getKlaviyoConfig,
+  validateKlaviyoApiKey,
+  saveKlaviyoApiKey,
+  getKlaviyoLists,
+  createKlaviyoList,
+  exportContactsToKlaviyo,
+  removeEmailsFromKlaviyoList,
+} from "../klaviyo.server";
+import type { AudienceDestination } from "./types";
+
+export const klaviyoDestination: AudienceDestination = {
+  id: "klaviyo",
+  name: "Klaviyo",
+
+  async validate(credentials) {
+    if (!credentials.apiKey) {
+      return { valid: false, error: "Klaviyo API key is required." };
+    }
+
+    const valid = await validateKlaviyoApiKey(credentials.apiKey);
+    return valid ? { valid } : { valid, error: "Invalid Klaviyo API key." };
+  },
+
+  async connect(shopId, credentials) {
+    const validation = await this.validate(credentials);
+
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    await saveKlaviyoApiKey(shopId, credentials.apiKey);
+  },
+
+  async isConnected(shopId) {
+    return !!(await getKlaviyoConfig(shopId));
+  },
+
+  async listAudiences(shopId) {
+    return await getKlaviyoLists(shopId);
+  },
+
+  async createAudience(shopId, name) {
+    return await createKlaviyoList(shopId, name);
+  },
+
+  async upsertMembers(shopId, target, contacts) {
+    // Bulk imports are processed asynchronously, so every contact counts as submitted
+    const result = await exportContactsToKlaviyo(
+      shopId,
+      target.audienceId,
+      contacts,
+    );
+
+    return {
+      upserted: result.submitted,
+      added: null,
+      updated: null,
+      failed: 0,
+      failedEmails: [],
+    };
+  },
+
+  async removeMembers(shopId, target, emails) {
+    return await removeEmailsFromKlaviyoList(shopId, target.audienceId, emails);
+  },
+};
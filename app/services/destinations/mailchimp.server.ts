@@ -0,0 +1,83 @@
+/**
+ * Mailchimp Audience Destination
+ *
+ * Members are upserted into a Mailchimp audience and tagged with the saved
+ * list name. Removing members only removes the tag.
+ */
+
+import {
+  getMailchimpConfig,
+  saveMailchimpToken,
+  validateMailchimpToken,
+  getMailchimpAudiences,
+  syncContactsToMailchimp,
+  untagMailchimpMembers,
+} from "../mailchimp.server";
+import type { AudienceDestination } from "./types";
+
+export const mailchimpDestination: AudienceDestination = {
+  id: "mailchimp",
+  name: "Mailchimp",
+
+  async validate(credentials) {
+    const { accessToken, serverPrefix } = credentials;
+
+    if (!accessToken || !serverPrefix) {
+      return {
+        valid: false,
+        error: "Mailchimp access token and server prefix are required.",
+      };
+    }
+
+    const valid = await validateMailchimpToken(accessToken, serverPrefix);
+    return valid ? { valid } : { valid, error: "Invalid Mailchimp token." };
+  },
+
+  async connect(shopId, credentials) {
+    const validation = await this.validate(credentials);
+
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    await saveMailchimpToken(
+      shopId,
+      credentials.accessToken,
+      credentials.serverPrefix,
+    );
+  },
+
+  async isConnected(shopId) {
+    return !!(await getMailchimpConfig(shopId));
+  },
+
+  async listAudiences(shopId) {
+    return await getMailchimpAudiences(shopId);
+  },
+
+  async upsertMembers(shopId, target, contacts) {
+    const result = await syncContactsToMailchimp(
+      shopId,
+      target.audienceId,
+      target.listName,
+      contacts,
+    );
+
+    return {
+      upserted: result.added + result.updated,
+      added: result.added,
+      updated: result.updated,
+      failed: result.failed,
+      failedEmails: result.failedEmails,
+    };
+  },
+
+  async removeMembers(shopId, target, emails) {
+    return await untagMailchimpMembers(
+      shopId,
+      target.audienceId,
+      target.listName,
+      emails,
+    );
+  },
+};
@@ -0,0 +1,105 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  memoryDestination,
+  getMemoryAudienceMembers,
+  resetMemoryDestination,
+} from "./memory.server";
+import type { ExportContact } from "../audience-export.server";
+
+const SHOP = "test-shop.myshopify.com";
+
+function contact(email: string): ExportContact {
+  return {
+    email,
+    shopifyCustomerId: `gid://shopify/Customer/${email}`,
+    ordersCount: 1,
+    totalSpent: 10,
+    emailMarketingState: "SUBSCRIBED",
+  };
+}
+
+describe("memoryDestination", () => {
+  beforeEach(() => {
+    resetMemoryDestination();
+  });
+
+  it("rejects invalid API keys", async () => {
+    assert.equal((await memoryDestination.validate({ apiKey: "" })).valid, false);
+    assert.equal(
+      (await memoryDestination.validate({ apiKey: "invalid" })).valid,
+      false,
+    );
+    await assert.rejects(memoryDestination.connect(SHOP, { apiKey: "invalid" }));
+    assert.equal(await memoryDestination.isConnected(SHOP), false);
+  });
+
+  it("connects and lists created audiences", async () => {
+    await memoryDestination.connect(SHOP, { apiKey: "key" });
+    const audience = await memoryDestination.createAudience!(SHOP, "VIPs");
+
+    assert.equal(await memoryDestination.isConnected(SHOP), true);
+    assert.deepEqual(await memoryDestination.listAudiences(SHOP), [
+      { id: audience.id, name: "VIPs", memberCount: 0 },
+    ]);
+  });
+
+  it("upserts members by email and removes them case-insensitively", async () => {
+    await memoryDestination.connect(SHOP, { apiKey: "key" });
+    const { id } = await memoryDestination.createAudience!(SHOP, "VIPs");
+    const target = { audienceId: id, listName: "VIPs" };
+
+    const result = await memoryDestination.upsertMembers(SHOP, target, [
+      contact("a@example.com"),
+      contact("A@example.com"),
+      contact("b@example.com"),
+    ]);
+
+    assert.deepEqual(result, {
+      upserted: 3,
+      added: 2,
+      updated: 1,
+      failed: 0,
+      failedEmails: [],
+    });
+    assert.deepEqual(getMemoryAudienceMembers(SHOP, id).sort(), [
+      "a@example.com",
+      "b@example.com",
+    ]);
+
+    const removed = await memoryDestination.removeMembers(SHOP, target, [
+      "B@example.com",
+      "missing@example.com",
+    ]);
+
+    assert.equal(removed, 1);
+    assert.deepEqual(getMemoryAudienceMembers(SHOP, id), ["a@example.com"]);
+  });
+
+  it("rejects contacts whose email starts with reject", async () => {
+    await memoryDestination.connect(SHOP, { apiKey: "key" });
+    const { id } = await memoryDestination.createAudience!(SHOP, "VIPs");
+
+    const result = await memoryDestination.upsertMembers(
+      SHOP,
+      { audienceId: id, listName: "VIPs" },
+      [contact("a@example.com"), contact("rejected@example.com")],
+    );
+
+    assert.deepEqual(result, {
+      upserted: 1,
+      added: 1,
+      updated: 0,
+      failed: 1,
+      failedEmails: ["rejected@example.com"],
+    });
+    assert.deepEqual(getMemoryAudienceMembers(SHOP, id), ["a@example.com"]);
+  });
+
+  it("throws for shops that aren't connected", async () => {
+    await assert.rejects(
+      memoryDestination.listAudiences(SHOP),
+      /MEMORY_NOT_CONNECTED/,
+    );
+  });
+});
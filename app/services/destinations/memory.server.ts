@@ -0,0 +1,147 @@
+/**
+ * In-Memory Audience Destination
+ *
+ * Fake provider that keeps connections and audiences in process memory.
+ * Lets the sync pipeline run end to end without any external account.
+ * Any non-empty API key is accepted, except "invalid". Contacts whose email
+ * starts with "reject" are refused, like a provider rejecting an address.
+ */
+
+import { randomUUID } from "crypto";
+import type { ExportContact } from "../audience-export.server";
+import type { AudienceDestination, DestinationAudience } from "./types";
+
+interface MemoryAudience extends DestinationAudience {
+  members: Map<string, ExportContact>;
+}
+
+interface MemoryAccount {
+  apiKey: string;
+  audiences: Map<string, MemoryAudience>;
+}
+
+const accounts = new Map<string, MemoryAccount>();
+
+/**
+ * Get the fake account of a shop
+ * Throws if the shop hasn't connected the memory destination
+ */
+function getAccount(shopId: string): MemoryAccount {
+  const account = accounts.get(shopId);
+
+  if (!account) {
+    throw new Error("MEMORY_NOT_CONNECTED");
+  }
+
+  return account;
+}
+
+function getAudience(shopId: string, audienceId: string): MemoryAudience {
+  const audience = getAccount(shopId).audiences.get(audienceId);
+
+  if (!audience) {
+    throw new Error(`Audience ${audienceId} not found`);
+  }
+
+  return audience;
+}
+
+export const memoryDestination: AudienceDestination = {
+  id: "memory",
+  name: "In-memory (testing)",
+
+  async validate(credentials) {
+    if (!credentials.apiKey || credentials.apiKey === "invalid") {
+      return { valid: false, error: "Invalid API key." };
+    }
+
+    return { valid: true };
+  },
+
+  async connect(shopId, credentials) {
+    const validation = await this.validate(credentials);
+
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    accounts.set(shopId, {
+      apiKey: credentials.apiKey,
+      audiences: accounts.get(shopId)?.audiences || new Map(),
+    });
+  },
+
+  async isConnected(shopId) {
+    return accounts.has(shopId);
+  },
+
+  async listAudiences(shopId) {
+    return [...getAccount(shopId).audiences.values()].map((audience) => ({
+      id: audience.id,
+      name: audience.name,
+      memberCount: audience.members.size,
+    }));
+  },
+
+  async createAudience(shopId, name) {
+    const audience: MemoryAudience = {
+      id: randomUUID(),
+      name,
+      members: new Map(),
+    };
+    getAccount(shopId).audiences.set(audience.id, audience);
+
+    return { id: audience.id, name, memberCount: 0 };
+  },
+
+  async upsertMembers(shopId, target, contacts) {
+    const audience = getAudience(shopId, target.audienceId);
+    const failedEmails: string[] = [];
+    let added = 0;
+
+    for (const contact of contacts) {
+      if (contact.email.toLowerCase().startsWith("reject")) {
+        failedEmails.push(contact.email);
+        continue;
+      }
+
+      if (!audience.members.has(contact.email.toLowerCase())) {
+        added++;
+      }
+      audience.members.set(contact.email.toLowerCase(), contact);
+    }
+
+    const upserted = contacts.length - failedEmails.length;
+    return {
+      upserted,
+      added,
+      updated: upserted - added,
+      failed: failedEmails.length,
+      failedEmails,
+    };
+  },
+
+  async removeMembers(shopId, target, emails) {
+    const audience = getAudience(shopId, target.audienceId);
+
+    return emails.filter((email) => audience.members.delete(email.toLowerCase()))
+      .length;
+  },
+};
+
+/**
+ * Get the emails currently stored in a fake audience
+ */
+export function getMemoryAudienceMembers(
+  shopId: string,
+  audienceId: string,
+): string[] {
+  return [...getAudience(shopId, audienceId).members.keys()];
+}
+
+/**
+ * Clear all fake accounts and audiences
+ */
+export function resetMemoryDestination() {
+  accounts.clear();
+}
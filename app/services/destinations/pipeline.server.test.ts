@@ -0,0 +1,123 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { pushContactsToDestination } from "./pipeline.server";
+import {
+  memoryDestination,
+  getMemoryAudienceMembers,
+  resetMemoryDestination,
+} from "./memory.server";
+import type { ExportContact } from "../audience-export.server";
+import type { DestinationTarget } from "./types";
+
+const SHOP = "test-shop.myshopify.com";
+
+function contact(id: string): ExportContact {
+  return {
+    email: `${id}@example.com`,
+    shopifyCustomerId: id,
+    ordersCount: 1,
+    totalSpent: 10,
+    emailMarketingState: "SUBSCRIBED",
+  };
+}
+
+// Emails of customers that left the list, looked up from their IDs
+async function resolveEmails(customerIds: string[]) {
+  return customerIds.map((id) => `${id}@example.com`);
+}
+
+describe("pushContactsToDestination", () => {
+  let target: DestinationTarget;
+
+  beforeEach(async () => {
+    resetMemoryDestination();
+    await memoryDestination.connect(SHOP, { apiKey: "key" });
+    const audience = await memoryDestination.createAudience!(SHOP, "VIPs");
+    target = { audienceId: audience.id, listName: "VIPs" };
+  });
+
+  it("upserts every contact on the first run", async () => {
+    const result = await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [contact("1"), contact("2")],
+      resolveEmails,
+    });
+
+    assert.deepEqual(result, {
+      upserted: 2,
+      added: 2,
+      updated: 0,
+      failed: 0,
+      removed: 0,
+      syncedCustomerIds: ["1", "2"],
+    });
+    assert.deepEqual(getMemoryAudienceMembers(SHOP, target.audienceId).sort(), [
+      "1@example.com",
+      "2@example.com",
+    ]);
+  });
+
+  it("removes customers synced by the previous run that left the list", async () => {
+    await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [contact("1"), contact("2")],
+    });
+
+    const result = await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [contact("2"), contact("3")],
+      previousCustomerIds: ["1", "2"],
+      resolveEmails,
+    });
+
+    assert.equal(result.upserted, 2);
+    assert.equal(result.added, 1);
+    assert.equal(result.updated, 1);
+    assert.equal(result.removed, 1);
+    assert.deepEqual(result.syncedCustomerIds, ["2", "3"]);
+    assert.deepEqual(getMemoryAudienceMembers(SHOP, target.audienceId).sort(), [
+      "2@example.com",
+      "3@example.com",
+    ]);
+  });
+
+  it("only upserts new customers with onlyNew", async () => {
+    const result = await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [contact("1"), contact("2")],
+      previousCustomerIds: ["1"],
+      onlyNew: true,
+      resolveEmails,
+    });
+
+    assert.equal(result.upserted, 1);
+    assert.equal(result.removed, 0);
+    assert.deepEqual(result.syncedCustomerIds, ["1", "2"]);
+  });
+
+  it("leaves rejected new contacts out of the synced customers", async () => {
+    const result = await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [contact("1"), contact("reject-2"), contact("reject-3")],
+      previousCustomerIds: ["reject-3"],
+      onlyNew: true,
+      resolveEmails,
+    });
+
+    assert.equal(result.upserted, 1);
+    assert.equal(result.failed, 1);
+    // reject-3 was already synced, reject-2 is retried on the next run
+    assert.deepEqual(result.syncedCustomerIds, ["1", "reject-3"]);
+  });
+
+  it("skips removals when emails can't be resolved", async () => {
+    const result = await pushContactsToDestination(memoryDestination, SHOP, target, {
+      contacts: [],
+      previousCustomerIds: ["1"],
+    });
+
+    assert.deepEqual(result, {
+      upserted: 0,
+      added: 0,
+      updated: 0,
+      failed: 0,
+      removed: 0,
+      syncedCustomerIds: [],
+    });
+  });
+});
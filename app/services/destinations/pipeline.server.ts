@@ -0,0 +1,90 @@
+/**
+ * Audience Destination Pipeline
+ *
+ * Pushes prepared contacts to any AudienceDestination and works out which
+ * members to remove, without touching the database or Shopify. Persistence
+ * (SyncJob) lives in services/audience-sync.server.ts.
+ */
+
+import type { ExportContact } from "../audience-export.server";
+import type { AudienceDestination, DestinationTarget } from "./types";
+
+export interface PushContactsOptions {
+  contacts: ExportContact[];
+  // Customers pushed by the previous run of the same list
+  previousCustomerIds?: string[];
+  // Only upsert contacts the previous run didn't push (keep-in-sync refreshes)
+  onlyNew?: boolean;
+  // Look up the emails of customers that left the list, they're no longer in contacts
+  resolveEmails?: (customerIds: string[]) => Promise<string[]>;
+}
+
+export interface PushContactsResult {
+  upserted: number;
+  // null when the destination doesn't report added vs updated
+  added: number | null;
+  updated: number | null;
+  failed: number;
+  removed: number;
+  // Customers confirmed in the destination, stored for the next run's diff
+  // Rejected new contacts are left out so the next run retries them
+  syncedCustomerIds: string[];
+}
+
+/**
+ * Upsert contacts into a destination target and remove the members that left
+ */
+export async function pushContactsToDestination(
+  destination: AudienceDestination,
+  shopId: string,
+  target: DestinationTarget,
+  options: PushContactsOptions,
+): Promise<PushContactsResult> {
+  const previousIds = new Set(options.previousCustomerIds || []);
+  const contactsToUpsert = options.onlyNew
+    ? options.contacts.filter(
+        (contact) => !previousIds.has(contact.shopifyCustomerId),
+      )
+    : options.contacts;
+
+  const upsertResult =
+    contactsToUpsert.length > 0
+      ? await destination.upsertMembers(shopId, target, contactsToUpsert)
+      : { upserted: 0, added: 0, updated: 0, failed: 0, failedEmails: [] };
+
+  // Customers pushed last time that are no longer in the list
+  const currentIds = new Set(
+    options.contacts.map((contact) => contact.shopifyCustomerId),
+  );
+  const removedIds = [...previousIds].filter((id) => !currentIds.has(id));
+
+  let removed = 0;
+  if (removedIds.length > 0 && options.resolveEmails) {
+    const removedEmails = await options.resolveEmails(removedIds);
+
+    if (removedEmails.length > 0) {
+      removed = await destination.removeMembers(shopId, target, removedEmails);
+    }
+  }
+
+  // A failed update of an existing member leaves it in the destination
+  const failedEmails = new Set(
+    upsertResult.failedEmails.map((email) => email.toLowerCase()),
+  );
+  const syncedCustomerIds = options.contacts
+    .filter(
+      (contact) =>
+        !failedEmails.has(contact.email.toLowerCase()) ||
+        previousIds.has(contact.shopifyCustomerId),
+    )
+    .map((contact) => contact.shopifyCustomerId);
+
+  return {
+    upserted: upsertResult.upserted,
+    added: upsertResult.added,
+    updated: upsertResult.updated,
+    failed: upsertResult.failed,
+    removed,
+    syncedCustomerIds,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * SendGrid Audience Destination
+ *
+ * Members are upserted into SendGrid Marketing Contacts and added to a list.
+ */
+
+import {
+  getSendGridConfig,
+  validateSendGridApiKey,
+  saveSendGridApiKey,
+  getSendGridLists,
+  createSendGridList,
+  exportContactsToSendGrid,
+  removeEmailsFromSendGridList,
+} from "../sendgrid.server";
+import type { AudienceDestination } from "./types";
+
+export const sendGridDestination: AudienceDestination = {
+  id: "sendgrid",
+  name: "SendGrid",
+
+  async validate(credentials) {
+    if (!credentials.apiKey) {
+      return { valid: false, error: "SendGrid API key is required." };
+    }
+
+    return await validateSendGridApiKey(credentials.apiKey);
+  },
+
+  async connect(shopId, credentials) {
+    const validation = await this.validate(credentials);
+
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    await saveSendGridApiKey(shopId, credentials.apiKey);
+  },
+
+  async isConnected(shopId) {
+    return !!(await getSendGridConfig(shopId));
+  },
+
+  async listAudiences(shopId) {
+    const lists = await getSendGridLists(shopId);
+    return lists.map((list) => ({
+      id: list.id,
+      name: list.name,
+      memberCount: list.contactCount,
+    }));
+  },
+
+  async createAudience(shopId, name) {
+    return await createSendGridList(shopId, name);
+  },
+
+  async upsertMembers(shopId, target, contacts) {
+    // Upserts are processed asynchronously, so every contact counts as submitted
+    const result = await exportContactsToSendGrid(
+      shopId,
+      target.audienceId,
+      contacts,
+    );
+
+    return {
+      upserted: result.submitted,
+      added: null,
+      updated: null,
+      failed: 0,
+      failedEmails: [],
+    };
+  },
+
+  async removeMembers(shopId, target, emails) {
+    return await removeEmailsFromSendGridList(
+      shopId,
+      target.audienceId,
+      emails,
+    );
+  },
+};
@@ -0,0 +1,96 @@
+/**
+ * Types for Audience Destinations
+ *
+ * An audience destination is an external email/marketing provider that saved
+ * lists can be synced to (Mailchimp, Klaviyo, SendGrid, ...).
+ */
+
+import type { ExportContact } from "../audience-export.server";
+
+export type AudienceDestinationId =
+  | "mailchimp"
+  | "klaviyo"
+  | "sendgrid"
+  | "memory";
+
+/**
+ * Credentials submitted when connecting a destination
+ * API key providers use `apiKey`, Mailchimp uses `accessToken` + `serverPrefix`
+ */
+export type DestinationCredentials = Record<string, string>;
+
+export interface DestinationValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * A list/audience inside the destination account
+ */
+export interface DestinationAudience {
+  id: string;
+  name: string;
+  memberCount?: number;
+}
+
+/**
+ * Where members are written to
+ * listName identifies the saved list inside the audience (e.g. the Mailchimp tag)
+ */
+export interface DestinationTarget {
+  audienceId: string;
+  listName: string;
+}
+
+export interface UpsertMembersResult {
+  // Contacts accepted by the provider (created or updated)
+  upserted: number;
+  // Split of upserted, null when the provider imports asynchronously and doesn't report it
+  added: number | null;
+  updated: number | null;
+  failed: number;
+  // Emails of the contacts that weren't accepted, they aren't stored as synced
+  failedEmails: string[];
+}
+
+export interface AudienceDestination {
+  id: AudienceDestinationId;
+  name: string;
+
+  /**
+   * Validate and store credentials for a shop
+   * Throws when the credentials are invalid
+   */
+  connect(shopId: string, credentials: DestinationCredentials): Promise<void>;
+
+  /**
+   * Check credentials against the provider without storing them
+   */
+  validate(
+    credentials: DestinationCredentials,
+  ): Promise<DestinationValidationResult>;
+
+  isConnected(shopId: string): Promise<boolean>;
+
+  listAudiences(shopId: string): Promise<DestinationAudience[]>;
+
+  /**
+   * Create a new audience, not every provider supports this
+   */
+  createAudience?(shopId: string, name: string): Promise<DestinationAudience>;
+
+  upsertMembers(
+    shopId: string,
+    target: DestinationTarget,
+    contacts: ExportContact[],
+  ): Promise<UpsertMembersResult>;
+
+  /**
+   * Remove members from the target by email, returns how many were removed
+   */
+  removeMembers(
+    shopId: string,
+    target: DestinationTarget,
+    emails: string[],
+  ): Promise<number>;
+}
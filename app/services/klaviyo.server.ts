@@ -0,0 +1,281 @@
+/**
+ * Klaviyo Integration Service
+ *
+ * Connects a shop to Klaviyo using a private API key and exports customers
+ * into Klaviyo lists. The API key is stored encrypted per shop.
+ *
+ * Uses the Klaviyo REST API (JSON:API format):
+ * https://developers.klaviyo.com/en/reference/api_overview
+ */
+
+import prisma from "../db.server";
+import { encryptSecret, decryptSecret } from "../utils/encryption.server";
+import type { ExportContact } from "./audience-export.server";
+
+const KLAVIYO_API_URL = "https://a.klaviyo.com/api";
+const KLAVIYO_API_REVISION = "2024-10-15";
+
+// Klaviyo accepts at most 10,000 profiles per bulk import job
+const KLAVIYO_IMPORT_BATCH_SIZE = 10000;
+
+export interface KlaviyoList {
+    id: string;
+    name: string;
+}
+
+export interface KlaviyoExportResult {
+    submitted: number;
+    jobIds: string[];
+}
+
+// JSON:API resource collection, as returned by Klaviyo list endpoints
+interface KlaviyoCollectionResponse {
+    data?: { id: string; attributes?: { name?: string } }[];
+    links?: { next?: string | null };
+}
+
+/**
+ * Make an authenticated request to the Klaviyo API
+ */
+async function klaviyoRequest(
+    apiKey: string,
+    path: string,
+    init: RequestInit = {},
+) {
+    const response = await fetch(`${KLAVIYO_API_URL}${path}`, {
+        ...init,
+        headers: {
+            Authorization: `Klaviyo-API-Key ${apiKey}`,
+            revision: KLAVIYO_API_REVISION,
+            accept: "application/vnd.api+json",
+            "content-type": "application/vnd.api+json",
+            ...init.headers,
+        },
+    });
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const detail = body?.errors?.[0]?.detail || response.statusText;
+        throw new Error(`Klaviyo API error (${response.status}): ${detail}`);
+    }
+
+    return response.status === 204 ? null : await response.json();
+}
+
+/**
+ * Get Klaviyo configuration for a specific shop
+ */
+export async function getKlaviyoConfig(shopId: string) {
+    return await prisma.klaviyoConnection.findUnique({
+        where: { shopId },
+    });
+}
+
+/**
+ * Check that a private API key is valid by fetching the account it belongs to
+ */
+export async function validateKlaviyoApiKey(apiKey: string): Promise<boolean> {
+    try {
+        await klaviyoRequest(apiKey, "/accounts/");
+        return true;
+    } catch (error) {
+        console.error("[Klaviyo] API key validation failed:", error);
+        return false;
+    }
+}
+
+/**
+ * Save an encrypted Klaviyo private API key for a shop
+ */
+export async function saveKlaviyoApiKey(shopId: string, apiKey: string) {
+    const encryptedApiKey = encryptSecret(apiKey);
+
+    return await prisma.klaviyoConnection.upsert({
+        where: { shopId },
+        create: {
+            shopId,
+            encryptedApiKey,
+        },
+        update: {
+            encryptedApiKey,
+            connectedAt: new Date(),
+        },
+    });
+}
+
+/**
+ * Get the decrypted Klaviyo API key for a shop
+ * Throws if the shop hasn't connected Klaviyo
+ */
+async function getKlaviyoApiKey(shopId: string): Promise<string> {
+    const config = await getKlaviyoConfig(shopId);
+
+    if (!config) {
+        throw new Error("KLAVIYO_NOT_CONNECTED");
+    }
+
+    return decryptSecret(config.encryptedApiKey);
+}
+
+/**
+ * Disconnect Klaviyo for a shop
+ */
+export async function disconnectKlaviyo(shopId: string) {
+    return await prisma.klaviyoConnection.deleteMany({
+        where: { shopId },
+    });
+}
+
+/**
+ * Get all lists in the shop's connected Klaviyo account
+ */
+export async function getKlaviyoLists(shopId: string): Promise<KlaviyoList[]> {
+    const apiKey = await getKlaviyoApiKey(shopId);
+    const lists: KlaviyoList[] = [];
+    let path: string | null = "/lists/?fields[list]=name";
+
+    while (path) {
+        const json: KlaviyoCollectionResponse = await klaviyoRequest(apiKey, path);
+
+        lists.push(
+            ...(json.data || []).map((list) => ({
+                id: list.id,
+                name: list.attributes?.name || list.id,
+            })),
+        );
+
+        // Pagination links are absolute URLs
+        const next = json.links?.next;
+        path = next ? next.replace(KLAVIYO_API_URL, "") : null;
+    }
+
+    return lists;
+}
+
+/**
+ * Create a new list in the shop's Klaviyo account
+ */
+export async function createKlaviyoList(
+    shopId: string,
+    name: string,
+): Promise<KlaviyoList> {
+    const apiKey = await getKlaviyoApiKey(shopId);
+
+    const json = await klaviyoRequest(apiKey, "/lists/", {
+        method: "POST",
+        body: JSON.stringify({
+            data: {
+                type: "list",
+                attributes: { name },
+            },
+        }),
+    });
+
+    return {
+        id: json.data.id,
+        name: json.data.attributes?.name || name,
+    };
+}
+
+/**
+ * Export contacts into a Klaviyo list
+ * Profiles are created or updated via bulk import jobs and added to the list.
+ * Orders count, total spent and country are stored as profile properties.
+ */
+export async function exportContactsToKlaviyo(
+    shopId: string,
+    klaviyoListId: string,
+    contacts: ExportContact[],
+): Promise<KlaviyoExportResult> {
+    const apiKey = await getKlaviyoApiKey(shopId);
+
+    const profiles = contacts.map((contact) => ({
+        type: "profile",
+        attributes: {
+            email: contact.email,
+            first_name: contact.firstName,
+            last_name: contact.lastName,
+            location: contact.country ? { country: contact.country } : undefined,
+            properties: {
+                shopify_orders_count: contact.ordersCount,
+                shopify_total_spent: contact.totalSpent,
+                shopify_country: contact.country,
+            },
+        },
+    }));
+
+    const result: KlaviyoExportResult = { submitted: 0, jobIds: [] };
+
+    for (let i = 0; i < profiles.length; i += KLAVIYO_IMPORT_BATCH_SIZE) {
+        const batch = profiles.slice(i, i + KLAVIYO_IMPORT_BATCH_SIZE);
+
+        const json = await klaviyoRequest(apiKey, "/profile-bulk-import-jobs/", {
+            method: "POST",
+            body: JSON.stringify({
+                data: {
+                    type: "profile-bulk-import-job",
+                    attributes: {
+                        profiles: { data: batch },
+                    },
+                    relationships: {
+                        lists: {
+                            data: [{ type: "list", id: klaviyoListId }],
+                        },
+                    },
+                },
+            }),
+        });
+
+        result.submitted += batch.length;
+        result.jobIds.push(json.data.id);
+    }
+
+    return result;
+}
+
+// Klaviyo accepts at most 100 values in an any() filter
+const KLAVIYO_LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * Remove contacts from a Klaviyo list by email
+ * Profiles are kept in Klaviyo, only their list membership is removed.
+ * Emails without a Klaviyo profile are ignored.
+ */
+export async function removeEmailsFromKlaviyoList(
+    shopId: string,
+    klaviyoListId: string,
+    emails: string[],
+): Promise<number> {
+    const apiKey = await getKlaviyoApiKey(shopId);
+    let removed = 0;
+
+    for (let i = 0; i < emails.length; i += KLAVIYO_LOOKUP_BATCH_SIZE) {
+        const batch = emails.slice(i, i + KLAVIYO_LOOKUP_BATCH_SIZE);
+        const filter = `any(email,${JSON.stringify(batch)})`;
+
+        const json: KlaviyoCollectionResponse | null = await klaviyoRequest(
+            apiKey,
+            `/profiles/?filter=${encodeURIComponent(filter)}&page[size]=${KLAVIYO_LOOKUP_BATCH_SIZE}`,
+        );
+        const profileIds = (json?.data || []).map((profile) => profile.id);
+
+        if (profileIds.length === 0) {
+            continue;
+        }
+
+        await klaviyoRequest(
+            apiKey,
+            `/lists/${klaviyoListId}/relationships/profiles/`,
+            {
+                method: "DELETE",
+                body: JSON.stringify({
+                    data: profileIds.map((id) => ({ type: "profile", id })),
+                }),
+            },
+        );
+
+        removed += profileIds.length;
+    }
+
+    return removed;
+}
@@ -1,5 +1,7 @@
-import mailchimp from "@mailchimp/mailchimp_marketing";
+import MailchimpApiClient from "@mailchimp/mailchimp_marketing/src/ApiClient.js";
 import prisma from "../db.server";
+import type { ExportContact } from "./audience-export.server";
+import { isConsented } from "../utils/marketingConsent";
 
 /**
  * Get Mailchimp configuration for a specific shop
@@ -33,7 +35,21 @@ export async function saveMailchimpToken(
 }
 
 /**
- * Get configured Mailchimp client for a specific shop
+ * Create a Mailchimp client for one account
+ *
+ * The package's default export is a process-wide singleton: configuring it per shop
+ * would let concurrent requests of two shops run with each other's credentials.
+ */
+function createMailchimpClient(accessToken: string, serverPrefix: string) {
+    const client = new MailchimpApiClient();
+    client.setConfig({ accessToken, server: serverPrefix });
+    return client;
+}
+
+type MailchimpClient = ReturnType<typeof createMailchimpClient>;
+
+/**
+ * Get a Mailchimp client configured for a specific shop
  * Returns null if shop hasn't connected Mailchimp
  */
 export async function getMailchimpClient(shopId: string) {
@@ -43,19 +59,245 @@ export async function getMailchimpClient(shopId: string) {
         return null;
     }
 
-    mailchimp.setConfig({
-        accessToken: config.accessToken,
-        server: config.serverPrefix,
-    });
+    return createMailchimpClient(config.accessToken, config.serverPrefix);
+}
 
-    return mailchimp;
+/**
+ * Check that an OAuth token works by pinging the Mailchimp API
+ */
+export async function validateMailchimpToken(
+    accessToken: string,
+    serverPrefix: string,
+): Promise<boolean> {
+    try {
+        await createMailchimpClient(accessToken, serverPrefix).ping.get();
+        return true;
+    } catch (error) {
+        console.error("[Mailchimp] Token validation failed:", error);
+        return false;
+    }
 }
 
 /**
  * Disconnect Mailchimp for a shop
  */
 export async function disconnectMailchimp(shopId: string) {
-    return await prisma.mailchimpConnection.delete({
+    return await prisma.mailchimpConnection.deleteMany({
         where: { shopId },
     });
 }
+
+export interface MailchimpAudience {
+    id: string;
+    name: string;
+    memberCount: number;
+}
+
+export interface MailchimpSyncResult {
+    added: number;
+    updated: number;
+    failed: number;
+    // Emails Mailchimp rejected or that were in a failed batch
+    failedEmails: string[];
+}
+
+// Mailchimp accepts at most 500 members per batch request
+const MAILCHIMP_BATCH_SIZE = 500;
+
+// Fields read from Mailchimp API responses (the client package is untyped)
+interface MailchimpListResponse {
+    id: string;
+    name: string;
+    stats?: { member_count?: number };
+}
+
+interface MailchimpMemberError {
+    email_address: string;
+}
+
+interface MailchimpSegmentResponse {
+    id: number;
+    name: string;
+}
+
+/**
+ * Get all audiences (lists) in the shop's connected Mailchimp account
+ */
+export async function getMailchimpAudiences(
+    shopId: string,
+): Promise<MailchimpAudience[]> {
+    const client = await getMailchimpClient(shopId);
+
+    if (!client) {
+        throw new Error("MAILCHIMP_NOT_CONNECTED");
+    }
+
+    const response = await client.lists.getAllLists({
+        count: 100,
+        fields: ["lists.id", "lists.name", "lists.stats.member_count"],
+    });
+
+    return (response.lists || []).map((list: MailchimpListResponse) => ({
+        id: list.id,
+        name: list.name,
+        memberCount: list.stats?.member_count || 0,
+    }));
+}
+
+/**
+ * Upsert contacts into a Mailchimp audience and tag them with the list name
+ * Existing members are updated. New members are added as subscribed only when
+ * they consented to email marketing in Shopify, otherwise as transactional
+ * (they can't receive campaigns).
+ */
+export async function syncContactsToMailchimp(
+    shopId: string,
+    audienceId: string,
+    tagName: string,
+    contacts: ExportContact[],
+): Promise<MailchimpSyncResult> {
+    const client = await getMailchimpClient(shopId);
+
+    if (!client) {
+        throw new Error("MAILCHIMP_NOT_CONNECTED");
+    }
+
+    const result: MailchimpSyncResult = {
+        added: 0,
+        updated: 0,
+        failed: 0,
+        failedEmails: [],
+    };
+    const syncedEmails: string[] = [];
+
+    for (let i = 0; i < contacts.length; i += MAILCHIMP_BATCH_SIZE) {
+        const batch = contacts.slice(i, i + MAILCHIMP_BATCH_SIZE);
+
+        try {
+            const response = await client.lists.batchListMembers(audienceId, {
+                members: batch.map((contact) => ({
+                    email_address: contact.email,
+                    status_if_new: isConsented(contact.emailMarketingState)
+                        ? "subscribed"
+                        : "transactional",
+                })),
+                update_existing: true,
+            });
+
+            result.added += response.total_created || 0;
+            result.updated += response.total_updated || 0;
+            result.failed += response.error_count || 0;
+
+            const failedEmails = new Set(
+                (response.errors || []).map((error: MailchimpMemberError) =>
+                    String(error.email_address).toLowerCase(),
+                ),
+            );
+            for (const { email } of batch) {
+                if (failedEmails.has(email.toLowerCase())) {
+                    result.failedEmails.push(email);
+                } else {
+                    syncedEmails.push(email);
+                }
+            }
+        } catch (error) {
+            console.error(`[Mailchimp Sync] Error in batch ${i}:`, error);
+            result.failed += batch.length;
+            result.failedEmails.push(...batch.map((contact) => contact.email));
+        }
+    }
+
+    if (syncedEmails.length > 0) {
+        await tagMailchimpMembers(client, audienceId, tagName, syncedEmails);
+    }
+
+    return result;
+}
+
+/**
+ * Find the ID of a Mailchimp tag by name, optionally creating it
+ * Tags are static segments in the Mailchimp API
+ */
+async function getMailchimpTagId(
+    client: MailchimpClient,
+    audienceId: string,
+    tagName: string,
+    createIfMissing: boolean,
+): Promise<number | null> {
+    const segments = await client.lists.listSegments(audienceId, {
+        type: "static",
+        count: 1000,
+    });
+    const existing = (segments.segments || []).find(
+        (segment: MailchimpSegmentResponse) => segment.name === tagName,
+    );
+
+    if (existing) {
+        return existing.id;
+    }
+
+    if (!createIfMissing) {
+        return null;
+    }
+
+    const segment = await client.lists.createSegment(audienceId, {
+        name: tagName,
+        static_segment: [],
+    });
+    return segment.id;
+}
+
+/**
+ * Add members to a Mailchimp tag, creating the tag if it doesn't exist
+ */
+async function tagMailchimpMembers(
+    client: MailchimpClient,
+    audienceId: string,
+    tagName: string,
+    emails: string[],
+) {
+    const segmentId = await getMailchimpTagId(client, audienceId, tagName, true);
+
+    for (let i = 0; i < emails.length; i += MAILCHIMP_BATCH_SIZE) {
+        await client.lists.batchSegmentMembers(
+            { members_to_add: emails.slice(i, i + MAILCHIMP_BATCH_SIZE) },
+            audienceId,
+            segmentId,
+        );
+    }
+}
+
+/**
+ * Remove members from a Mailchimp tag
+ * Members stay in the audience, they just no longer carry the list's tag
+ */
+export async function untagMailchimpMembers(
+    shopId: string,
+    audienceId: string,
+    tagName: string,
+    emails: string[],
+): Promise<number> {
+    const client = await getMailchimpClient(shopId);
+
+    if (!client) {
+        throw new Error("MAILCHIMP_NOT_CONNECTED");
+    }
+
+    const segmentId = await getMailchimpTagId(client, audienceId, tagName, false);
+
+    if (!segmentId) {
+        return 0;
+    }
+
+    let removed = 0;
+    for (let i = 0; i < emails.length; i += MAILCHIMP_BATCH_SIZE) {
+        const response = await client.lists.batchSegmentMembers(
+            { members_to_remove: emails.slice(i, i + MAILCHIMP_BATCH_SIZE) },
+            audienceId,
+            segmentId,
+        );
+        removed += response.total_removed || 0;
+    }
+
+    return removed;
+}
@@ -485,3 +485,49 @@ export async function getUniqueCountries(
   }
 }
 
+
+/**
+ * Get the customer tags and order tags used in the shop
+ */
+export async function getShopTags(
+  admin: AdminGraphQL
+): Promise<{ customerTags: string[]; orderTags: string[] }> {
+  try {
+    const response = await admin.graphql(`
+      query {
+        shop {
+          customerTags(first: 250) {
+            edges {
+              node
+            }
+          }
+          orderTags(first: 250) {
+            edges {
+              node
+            }
+          }
+        }
+      }
+    `);
+    const json = await response.json();
+
+    if (json.errors && json.errors.length > 0) {
+      console.error("[Get Shop Tags] GraphQL errors:", json.errors);
+      throw new Error(json.errors[0].message || "Unknown GraphQL error");
+    }
+
+    const toTags = (connection?: { edges?: { node: string }[] }): string[] =>
+      (connection?.edges || [])
+        .map((edge) => edge.node)
+        .filter((tag) => tag && tag.trim() !== "")
+        .sort((a, b) => a.localeCompare(b));
+
+    return {
+      customerTags: toTags(json.data?.shop?.customerTags),
+      orderTags: toTags(json.data?.shop?.orderTags),
+    };
+  } catch (error) {
+    console.error("[Get Shop Tags] Error fetching tags:", error);
+    return { customerTags: [], orderTags: [] };
+  }
+}
@@ -7,6 +7,12 @@
 import type { SavedCustomerList } from "./saved-lists.server";
 import type { SavedList } from "../components/my-saved-lists/types";
 import type { FilterData } from "../components/filter-audience/types";
+import {
+  getFilterExpression,
+  describeFilterExpression,
+} from "../components/filter-audience/filterExpression";
+import { describeRelativeDate, isRelativeDateValid } from "../utils/relativeDate";
+import { getConsentStateLabel, OPT_IN_LEVEL_OPTIONS } from "../utils/marketingConsent";
 
 /**
  * Generate description from filter data
@@ -75,6 +81,14 @@ function generateTags(queryData: FilterData): string[] {
   return tags.slice(0, 5); // Limit to 5 tags
 }
 
+/**
+ * Describe an inclusive range where either bound may be open
+ */
+function describeRange(min: number | null, max: number | null): string {
+  if (min != null && max != null) return `${min} to ${max}`;
+  return min != null ? `${min} or more` : `up to ${max}`;
+}
+
 /**
  * Generate criteria string from filter data
  */
@@ -109,6 +123,68 @@ function generateCriteria(queryData: FilterData): string {
     criteria.push(`Delivery: ${queryData.delivery.join(", ")}`);
   }
 
+  if (queryData.tags && queryData.tags.customerTags.length > 0) {
+    criteria.push(`Customer tags (${queryData.tags.customerTagsMatch}): ${queryData.tags.customerTags.join(", ")}`);
+  }
+
+  if (queryData.tags && queryData.tags.orderTags.length > 0) {
+    criteria.push(`Order tags (${queryData.tags.orderTagsMatch}): ${queryData.tags.orderTags.join(", ")}`);
+  }
+
+  if (queryData.excludedTags && queryData.excludedTags.length > 0) {
+    criteria.push(`Excluding tags: ${queryData.excludedTags.join(", ")}`);
+  }
+
+  if (queryData.orderCount && (queryData.orderCount.min != null || queryData.orderCount.max != null)) {
+    criteria.push(`Number of orders: ${describeRange(queryData.orderCount.min, queryData.orderCount.max)}`);
+  }
+
+  if (queryData.averageOrderValue && (queryData.averageOrderValue.min != null || queryData.averageOrderValue.max != null)) {
+    criteria.push(`Average order value: ${describeRange(queryData.averageOrderValue.min, queryData.averageOrderValue.max)}`);
+  }
+
+  if (queryData.lastOrder?.mode === "relative" && isRelativeDateValid(queryData.lastOrder.relative)) {
+    criteria.push(`Last order: ${describeRelativeDate(queryData.lastOrder.relative)}`);
+  } else if (queryData.lastOrder?.mode === "notInLast" && queryData.lastOrder.days) {
+    criteria.push(`No order in the last ${queryData.lastOrder.days} days`);
+  } else if (queryData.lastOrder?.mode === "between" && (queryData.lastOrder.from || queryData.lastOrder.to)) {
+    const { from, to } = queryData.lastOrder;
+    criteria.push(`Last order: ${from && to ? `${from} to ${to}` : from ? `on or after ${from}` : `on or before ${to}`}`);
+  }
+
+  if (isRelativeDateValid(queryData.firstOrder)) {
+    criteria.push(`First order: ${describeRelativeDate(queryData.firstOrder)}`);
+  }
+
+  if (isRelativeDateValid(queryData.customerCreated)) {
+    criteria.push(`Customer created: ${describeRelativeDate(queryData.customerCreated)}`);
+  }
+
+  if (queryData.consent && queryData.consent.emailStates.length > 0) {
+    criteria.push(`Email marketing: ${queryData.consent.emailStates.map(getConsentStateLabel).join(", ")}`);
+  }
+
+  if (queryData.consent && queryData.consent.smsStates.length > 0) {
+    criteria.push(`SMS marketing: ${queryData.consent.smsStates.map(getConsentStateLabel).join(", ")}`);
+  }
+
+  if (
+    queryData.consent &&
+    (queryData.consent.emailStates.length > 0 || queryData.consent.smsStates.length > 0) &&
+    queryData.consent.optInLevels.length > 0
+  ) {
+    const levels = queryData.consent.optInLevels.map(
+      (level) => OPT_IN_LEVEL_OPTIONS.find((option) => option.value === level)?.label || level
+    );
+    criteria.push(`Opt-in level: ${levels.join(", ")}`);
+  }
+
+  // Show custom AND/OR/NOT logic, the default is all filters ANDed
+  const expression = queryData.expression && getFilterExpression(queryData);
+  if (expression) {
+    criteria.push(`Logic: ${describeFilterExpression(expression)}`);
+  }
+
   // Handle GraphQL query from AI Search
   if (criteria.length === 0 && queryData.graphqlQuery) {
     // Truncate query if too long for display
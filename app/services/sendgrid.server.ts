@@ -0,0 +1,341 @@
+/**
+ * SendGrid Integration Service
+ *
+ * Connects a shop to SendGrid Marketing Campaigns using an API key and
+ * exports customers into Marketing Contacts lists. The API key is validated
+ * on connect and stored encrypted per shop.
+ *
+ * Uses the SendGrid v3 Marketing API:
+ * https://www.twilio.com/docs/sendgrid/api-reference/contacts
+ */
+
+import prisma from "../db.server";
+import { encryptSecret, decryptSecret } from "../utils/encryption.server";
+import type { ExportContact } from "./audience-export.server";
+
+const SENDGRID_API_URL = "https://api.sendgrid.com/v3";
+
+// SendGrid accepts at most 30,000 contacts per upsert request
+const SENDGRID_UPSERT_BATCH_SIZE = 30000;
+
+// Scope required to upsert contacts and manage lists
+const SENDGRID_REQUIRED_SCOPE = "marketing.contacts.write";
+
+/**
+ * Custom fields created in SendGrid for exported Shopify data
+ */
+const SENDGRID_CUSTOM_FIELDS = {
+    shopify_customer_id: "Text",
+    shopify_orders_count: "Number",
+    shopify_total_spent: "Number",
+    shopify_created_at: "Date",
+} as const;
+
+type SendGridCustomFieldName = keyof typeof SENDGRID_CUSTOM_FIELDS;
+
+export interface SendGridList {
+    id: string;
+    name: string;
+    contactCount: number;
+}
+
+export interface SendGridExportResult {
+    submitted: number;
+    jobIds: string[];
+}
+
+// Page of Marketing Contacts lists
+interface SendGridListsResponse {
+    result?: { id: string; name: string; contact_count?: number }[];
+    _metadata?: { next?: string };
+}
+
+// Contacts found by email, keyed by email
+interface SendGridContactSearchResponse {
+    result?: Record<string, { contact?: { id: string } }>;
+}
+
+/**
+ * Make an authenticated request to the SendGrid API
+ */
+async function sendGridRequest(
+    apiKey: string,
+    path: string,
+    init: RequestInit = {},
+) {
+    const response = await fetch(`${SENDGRID_API_URL}${path}`, {
+        ...init,
+        headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+            ...init.headers,
+        },
+    });
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        const detail = body?.errors?.[0]?.message || response.statusText;
+        throw new Error(`SendGrid API error (${response.status}): ${detail}`);
+    }
+
+    return response.status === 204 ? null : await response.json();
+}
+
+/**
+ * Get SendGrid configuration for a specific shop
+ */
+export async function getSendGridConfig(shopId: string) {
+    return await prisma.sendGridConnection.findUnique({
+        where: { shopId },
+    });
+}
+
+/**
+ * Check that an API key is valid and allowed to write Marketing Contacts
+ */
+export async function validateSendGridApiKey(
+    apiKey: string,
+): Promise<{ valid: boolean; error?: string }> {
+    try {
+        const json = await sendGridRequest(apiKey, "/scopes");
+        const scopes: string[] = json?.scopes || [];
+
+        if (!scopes.includes(SENDGRID_REQUIRED_SCOPE)) {
+            return {
+                valid: false,
+                error: "This SendGrid API key doesn't have Marketing Contacts write access.",
+            };
+        }
+
+        return { valid: true };
+    } catch (error) {
+        console.error("[SendGrid] API key validation failed:", error);
+        return { valid: false, error: "Invalid SendGrid API key." };
+    }
+}
+
+/**
+ * Save an encrypted SendGrid API key for a shop
+ */
+export async function saveSendGridApiKey(shopId: string, apiKey: string) {
+    const encryptedApiKey = encryptSecret(apiKey);
+
+    return await prisma.sendGridConnection.upsert({
+        where: { shopId },
+        create: {
+            shopId,
+            encryptedApiKey,
+        },
+        update: {
+            encryptedApiKey,
+            connectedAt: new Date(),
+        },
+    });
+}
+
+/**
+ * Get the decrypted SendGrid API key for a shop
+ * Throws if the shop hasn't connected SendGrid
+ */
+async function getSendGridApiKey(shopId: string): Promise<string> {
+    const config = await getSendGridConfig(shopId);
+
+    if (!config) {
+        throw new Error("SENDGRID_NOT_CONNECTED");
+    }
+
+    return decryptSecret(config.encryptedApiKey);
+}
+
+/**
+ * Disconnect SendGrid for a shop
+ */
+export async function disconnectSendGrid(shopId: string) {
+    return await prisma.sendGridConnection.deleteMany({
+        where: { shopId },
+    });
+}
+
+/**
+ * Get all Marketing Contacts lists in the shop's SendGrid account
+ */
+export async function getSendGridLists(shopId: string): Promise<SendGridList[]> {
+    const apiKey = await getSendGridApiKey(shopId);
+    const lists: SendGridList[] = [];
+    let path: string | null = "/marketing/lists?page_size=1000";
+
+    while (path) {
+        const json: SendGridListsResponse = await sendGridRequest(apiKey, path);
+
+        lists.push(
+            ...(json.result || []).map((list) => ({
+                id: list.id,
+                name: list.name,
+                contactCount: list.contact_count || 0,
+            })),
+        );
+
+        // Pagination links are absolute URLs
+        const next = json._metadata?.next;
+        path = next ? next.replace(SENDGRID_API_URL, "") : null;
+    }
+
+    return lists;
+}
+
+/**
+ * Create a new Marketing Contacts list in the shop's SendGrid account
+ */
+export async function createSendGridList(
+    shopId: string,
+    name: string,
+): Promise<SendGridList> {
+    const apiKey = await getSendGridApiKey(shopId);
+
+    const json = await sendGridRequest(apiKey, "/marketing/lists", {
+        method: "POST",
+        body: JSON.stringify({ name }),
+    });
+
+    return { id: json.id, name: json.name, contactCount: 0 };
+}
+
+/**
+ * Get the IDs of our custom fields, creating any that don't exist yet
+ * SendGrid references custom fields by ID (e.g. "e1_N") when upserting contacts
+ */
+async function ensureSendGridCustomFields(
+    apiKey: string,
+): Promise<Record<SendGridCustomFieldName, string>> {
+    const json = await sendGridRequest(apiKey, "/marketing/field_definitions");
+    const existing: Array<{ id: string; name: string }> =
+        json?.custom_fields || [];
+
+    const fieldIds = {} as Record<SendGridCustomFieldName, string>;
+
+    for (const [name, fieldType] of Object.entries(SENDGRID_CUSTOM_FIELDS)) {
+        const field = existing.find((f) => f.name === name);
+
+        if (field) {
+            fieldIds[name as SendGridCustomFieldName] = field.id;
+            continue;
+        }
+
+        const created = await sendGridRequest(
+            apiKey,
+            "/marketing/field_definitions",
+            {
+                method: "POST",
+                body: JSON.stringify({ name, field_type: fieldType }),
+            },
+        );
+        fieldIds[name as SendGridCustomFieldName] = created.id;
+    }
+
+    return fieldIds;
+}
+
+/**
+ * Export contacts into a SendGrid Marketing Contacts list
+ * Contacts are upserted asynchronously by SendGrid (one job per batch).
+ * Shopify customer data is stored in custom fields.
+ */
+export async function exportContactsToSendGrid(
+    shopId: string,
+    sendGridListId: string,
+    contacts: ExportContact[],
+): Promise<SendGridExportResult> {
+    const apiKey = await getSendGridApiKey(shopId);
+    const fieldIds = await ensureSendGridCustomFields(apiKey);
+
+    const sendGridContacts = contacts.map((contact) => ({
+        email: contact.email,
+        first_name: contact.firstName,
+        last_name: contact.lastName,
+        country: contact.country,
+        custom_fields: {
+            [fieldIds.shopify_customer_id]: contact.shopifyCustomerId,
+            [fieldIds.shopify_orders_count]: contact.ordersCount,
+            [fieldIds.shopify_total_spent]: contact.totalSpent,
+            ...(contact.createdAt
+                ? { [fieldIds.shopify_created_at]: contact.createdAt }
+                : {}),
+        },
+    }));
+
+    const result: SendGridExportResult = { submitted: 0, jobIds: [] };
+
+    for (let i = 0; i < sendGridContacts.length; i += SENDGRID_UPSERT_BATCH_SIZE) {
+        const batch = sendGridContacts.slice(i, i + SENDGRID_UPSERT_BATCH_SIZE);
+
+        const json = await sendGridRequest(apiKey, "/marketing/contacts", {
+            method: "PUT",
+            body: JSON.stringify({
+                list_ids: [sendGridListId],
+                contacts: batch,
+            }),
+        });
+
+        result.submitted += batch.length;
+        result.jobIds.push(json.job_id);
+    }
+
+    return result;
+}
+
+// SendGrid accepts at most 100 emails per contact search and list removal
+const SENDGRID_LOOKUP_BATCH_SIZE = 100;
+
+/**
+ * Remove contacts from a SendGrid list by email
+ * Contacts are kept in Marketing Contacts, only their list membership is removed.
+ * Emails without a SendGrid contact are ignored.
+ */
+export async function removeEmailsFromSendGridList(
+    shopId: string,
+    sendGridListId: string,
+    emails: string[],
+): Promise<number> {
+    const apiKey = await getSendGridApiKey(shopId);
+    let removed = 0;
+
+    for (let i = 0; i < emails.length; i += SENDGRID_LOOKUP_BATCH_SIZE) {
+        const batch = emails.slice(i, i + SENDGRID_LOOKUP_BATCH_SIZE);
+
+        let json: SendGridContactSearchResponse;
+        try {
+            json = await sendGridRequest(
+                apiKey,
+                "/marketing/contacts/search/emails",
+                {
+                    method: "POST",
+                    body: JSON.stringify({ emails: batch }),
+                },
+            );
+        } catch (error) {
+            // SendGrid answers 404 when none of the emails are contacts
+            if (error instanceof Error && error.message.includes("(404)")) {
+                continue;
+            }
+            throw error;
+        }
+
+        const contactIds = Object.values(json?.result || {})
+            .map((entry) => entry.contact?.id)
+            .filter((id): id is string => !!id);
+
+        if (contactIds.length === 0) {
+            continue;
+        }
+
+        await sendGridRequest(
+            apiKey,
+            `/marketing/lists/${sendGridListId}/contacts?contact_ids=${contactIds.join(",")}`,
+            { method: "DELETE" },
+        );
+
+        removed += contactIds.length;
+    }
+
+    return removed;
+}
@@ -6,13 +6,18 @@
  */
 
 import type { AdminGraphQL } from "./dashboard.server";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "../utils/dateRange";
 
 export interface ShopInfo {
   name: string;
   email: string;
   shop: string; // Shop domain (e.g., "store.myshopify.com")
+  ianaTimezone: string; // e.g. "Australia/Sydney"
 }
 
+// Shop timezones rarely change, so they are fetched once per shop and process
+const timezoneCache = new Map<string, string>();
+
 /**
  * Fetch shop information (name and contact email) from Shopify
  * 
@@ -30,6 +35,7 @@ export async function getShopInfo(
         shop {
           name
           contactEmail
+          ianaTimezone
         }
       }
     `);
@@ -43,15 +49,22 @@ export async function getShopInfo(
         name: shop,
         email: "",
         shop,
+        ianaTimezone: DEFAULT_TIMEZONE,
       };
     }
 
     const shopData = json.data?.shop;
     
+    const ianaTimezone = isValidTimezone(shopData?.ianaTimezone)
+      ? shopData.ianaTimezone
+      : DEFAULT_TIMEZONE;
+    timezoneCache.set(shop, ianaTimezone);
+
     return {
       name: shopData?.name || shop,
       email: shopData?.contactEmail || "",
       shop,
+      ianaTimezone,
     };
   } catch (error) {
     console.error("[Shop Info] Error fetching shop info:", error);
@@ -60,7 +73,58 @@ export async function getShopInfo(
       name: shop,
       email: "",
       shop,
+      ianaTimezone: DEFAULT_TIMEZONE,
     };
   }
 }
 
+
+/**
+ * Get the shop's IANA timezone, used to resolve dashboard date ranges
+ * Cached per shop after the first lookup; falls back to UTC on errors.
+ *
+ * @param admin - Shopify Admin GraphQL client
+ * @param shop - Shop domain (e.g., "store.myshopify.com")
+ */
+export async function getShopTimezone(
+  admin: AdminGraphQL,
+  shop: string,
+): Promise<string> {
+  const cached = timezoneCache.get(shop);
+  if (cached) {
+    return cached;
+  }
+
+  const { ianaTimezone } = await getShopInfo(admin, shop);
+  return ianaTimezone;
+}
+
+/**
+ * Check whether the app was granted read_all_orders
+ * Without it Shopify only returns orders from the last 60 days; treated as
+ * missing on errors so results are never reported as more complete than they are.
+ *
+ * @param admin - Shopify Admin GraphQL client
+ */
+export async function hasAllOrdersAccess(admin: AdminGraphQL): Promise<boolean> {
+  try {
+    const response = await admin.graphql(`
+      query AppAccessScopes {
+        currentAppInstallation {
+          accessScopes {
+            handle
+          }
+        }
+      }
+    `);
+
+    const json = await response.json();
+    const scopes: { handle: string }[] =
+      json.data?.currentAppInstallation?.accessScopes || [];
+
+    return scopes.some((scope) => scope.handle === "read_all_orders");
+  } catch (error) {
+    console.error("[Shop Info] Error fetching access scopes:", error);
+    return false;
+  }
+}
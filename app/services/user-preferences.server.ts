@@ -1,7 +1,13 @@
 import { getSupabaseForShop } from "./supabase-jwt.server";
+import {
+  normalizePartOfDayBoundaries,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  type PartOfDayBoundaries,
+} from "../utils/partOfDay";
 
 export interface UserPreferences {
   language: string;
+  partOfDay: PartOfDayBoundaries; // Start hours of morning, afternoon, evening and night
 }
 
 interface UserPreferencesRow {
@@ -16,7 +22,9 @@ function normalizePreferences(
   row: UserPreferencesRow | null | undefined,
   defaultLanguage: string,
 ): UserPreferences {
-  if (!row || !row.preferences) return { language: defaultLanguage };
+  if (!row || !row.preferences) {
+    return { language: defaultLanguage, partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES };
+  }
 
   try {
     const prefs =
@@ -26,10 +34,11 @@ function normalizePreferences(
 
     return {
       language: prefs.language || defaultLanguage,
+      partOfDay: normalizePartOfDayBoundaries(prefs.partOfDay),
     };
   } catch (error) {
     console.error("[User Preferences] Error parsing preferences JSON:", error);
-    return { language: defaultLanguage };
+    return { language: defaultLanguage, partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES };
   }
 }
 
@@ -48,14 +57,14 @@ export async function getUserPreferences(
     if (error) {
       if (error.code === "PGRST116") {
         // No preferences yet - return default silently
-        return { language: defaultLanguage };
+        return { language: defaultLanguage, partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES };
       }
 
       console.error(
         `[User Preferences] Supabase error for shop ${shop}:`,
         error,
       );
-      return { language: defaultLanguage };
+      return { language: defaultLanguage, partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES };
     }
 
     return normalizePreferences(data as UserPreferencesRow, defaultLanguage);
@@ -64,7 +73,7 @@ export async function getUserPreferences(
       `[User Preferences] Error fetching preferences for shop ${shop}:`,
       error,
     );
-    return { language: defaultLanguage };
+    return { language: defaultLanguage, partOfDay: DEFAULT_PART_OF_DAY_BOUNDARIES };
   }
 }
 
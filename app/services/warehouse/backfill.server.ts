@@ -0,0 +1,492 @@
+/**
+ * Warehouse Backfill
+ *
+ * Fills the warehouse with every customer and order of a shop using two Shopify
+ * bulk operations run one after the other (customers, then orders with line items).
+ * The WarehouseSync row tracks progress:
+ *
+ *   idle → backfilling (phase: customers → orders) → ready
+ *                                                  ↘ failed
+ *
+ * advanceWarehouseBackfill() is called by the bulk_operations/finish webhook and
+ * when the UI polls the sync status; whichever comes first claims the result
+ * (claimedAt) and ingests it. The claim is refreshed after every inserted batch,
+ * so a claim that hasn't been refreshed for WAREHOUSE_CLAIM_TIMEOUT_MS belongs to
+ * a process that died and is released for the next call to ingest again.
+ * Webhooks keep the data fresh once the shop is ready.
+ *
+ * NOTE: Without the `read_all_orders` scope Shopify only returns the last 60 days of orders.
+ * Customers' order count and amount spent are still lifetime totals, read from
+ * the customers (see ingest.server.ts).
+ */
+
+import prisma from "../../db.server";
+import type { WarehouseSync } from "@prisma/client";
+import type { AdminGraphQL } from "../dashboard.server";
+import { parseJsonLines, decodeTextStream } from "../../utils/jsonl";
+import {
+  customerFromNode,
+  orderFromNode,
+  insertWarehouseCustomers,
+  insertWarehouseOrders,
+  deleteWarehouseData,
+  type CustomerNode,
+  type LineItemNode,
+  type OrderNode,
+  type WarehouseCustomerRecord,
+} from "./ingest.server";
+
+export type WarehouseSyncStatus = "idle" | "backfilling" | "ready" | "failed";
+export type WarehouseBackfillPhase = "customers" | "orders";
+
+export interface WarehouseSyncState {
+  status: WarehouseSyncStatus;
+  phase: WarehouseBackfillPhase | null;
+  customersSynced: number;
+  ordersSynced: number;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+// Orders bulk result records: each order is followed by its line items
+type BulkOrderRecord =
+  | (OrderNode & { __typename: "Order" })
+  | (LineItemNode & { __typename: "LineItem"; __parentId: string });
+
+const INSERT_BATCH_SIZE = 250;
+
+// Inserting a batch never takes this long unless the process died
+const WAREHOUSE_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+const CUSTOMERS_BULK_QUERY = `
+  {
+    customers {
+      edges {
+        node {
+          id
+          email
+          displayName
+          tags
+          createdAt
+          updatedAt
+          numberOfOrders
+          amountSpent {
+            amount
+            currencyCode
+          }
+          defaultAddress {
+            country
+            countryCodeV2
+          }
+          emailMarketingConsent {
+            marketingState
+            marketingOptInLevel
+          }
+          smsMarketingConsent {
+            marketingState
+            marketingOptInLevel
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ORDERS_BULK_QUERY = `
+  {
+    orders {
+      edges {
+        node {
+          __typename
+          id
+          name
+          email
+          customer {
+            id
+          }
+          displayFinancialStatus
+          paymentGatewayNames
+          totalPriceSet {
+            shopMoney {
+              amount
+              currencyCode
+            }
+          }
+          totalDiscountsSet {
+            shopMoney {
+              amount
+            }
+          }
+          tags
+          note
+          shippingLine {
+            title
+            originalPriceSet {
+              shopMoney {
+                amount
+              }
+            }
+          }
+          sourceName
+          customerJourneySummary {
+            lastVisit {
+              landingPage
+            }
+          }
+          createdAt
+          cancelledAt
+          updatedAt
+          lineItems {
+            edges {
+              node {
+                __typename
+                id
+                title
+                quantity
+                product {
+                  id
+                  title
+                  productType
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Run a GraphQL request and throw on GraphQL errors
+ */
+async function runGraphQL(admin: AdminGraphQL, query: string) {
+  const response = await admin.graphql(query);
+  const json = await response.json();
+
+  if (json.errors && json.errors.length > 0) {
+    const accessError = json.errors.find(
+      (error: { message?: string }) =>
+        error.message?.includes("not approved") ||
+        error.message?.includes("protected customer data")
+    );
+    if (accessError) {
+      throw new Error("PROTECTED_CUSTOMER_DATA_ACCESS_DENIED");
+    }
+    throw new Error(json.errors[0].message || "Unknown GraphQL error");
+  }
+
+  return json.data;
+}
+
+async function runBulkQuery(admin: AdminGraphQL, query: string): Promise<string> {
+  const data = await runGraphQL(
+    admin,
+    `
+      mutation {
+        bulkOperationRunQuery(query: ${JSON.stringify(query)}) {
+          bulkOperation {
+            id
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `
+  );
+
+  const userErrors = data?.bulkOperationRunQuery?.userErrors || [];
+  if (userErrors.length > 0) {
+    throw new Error(userErrors[0].message);
+  }
+
+  return data.bulkOperationRunQuery.bulkOperation.id;
+}
+
+async function* readBulkResult<T>(url: string | null): AsyncGenerator<T> {
+  // Shopify returns no URL when the query matched nothing
+  if (!url) {
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result (${response.status})`);
+  }
+
+  yield* parseJsonLines<T>(decodeTextStream(response.body));
+}
+
+/**
+ * Refresh the claim on the result being ingested, so it isn't released as stale
+ */
+async function refreshClaim(shop: string) {
+  await prisma.warehouseSync.update({
+    where: { shopId: shop },
+    data: { claimedAt: new Date() },
+  });
+}
+
+/**
+ * Insert the customers of the customers bulk result
+ * Their lifetime totals are as of totalsAt, when the bulk operation started.
+ */
+async function ingestCustomers(
+  shop: string,
+  url: string | null,
+  totalsAt: Date
+): Promise<number> {
+  let batch: WarehouseCustomerRecord[] = [];
+  let count = 0;
+
+  for await (const record of readBulkResult<CustomerNode>(url)) {
+    batch.push(customerFromNode(record, totalsAt));
+
+    if (batch.length >= INSERT_BATCH_SIZE) {
+      await insertWarehouseCustomers(shop, batch);
+      await refreshClaim(shop);
+      count += batch.length;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    await insertWarehouseCustomers(shop, batch);
+    count += batch.length;
+  }
+
+  return count;
+}
+
+/**
+ * Line items follow their order in the JSONL file, so a batch is only flushed
+ * when the next order starts.
+ */
+async function ingestOrders(shop: string, url: string | null): Promise<number> {
+  let batch: OrderNode[] = [];
+  let currentOrder: (OrderNode & { lineItems: { edges: { node: LineItemNode }[] } }) | null =
+    null;
+  let count = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    await insertWarehouseOrders(shop, batch.map(orderFromNode));
+    await refreshClaim(shop);
+    count += batch.length;
+    batch = [];
+  };
+
+  for await (const record of readBulkResult<BulkOrderRecord>(url)) {
+    if (record.__typename === "Order") {
+      if (batch.length >= INSERT_BATCH_SIZE) {
+        await flush();
+      }
+      currentOrder = { ...record, lineItems: { edges: [] } };
+      batch.push(currentOrder);
+    } else if (
+      record.__typename === "LineItem" &&
+      currentOrder?.id === record.__parentId
+    ) {
+      currentOrder.lineItems.edges.push({ node: record });
+    }
+  }
+
+  await flush();
+  return count;
+}
+
+function toSyncState(sync: WarehouseSync | null): WarehouseSyncState {
+  return {
+    status: (sync?.status as WarehouseSyncStatus) || "idle",
+    phase: (sync?.phase as WarehouseBackfillPhase) || null,
+    customersSynced: sync?.customersSynced || 0,
+    ordersSynced: sync?.ordersSynced || 0,
+    error: sync?.error || null,
+    startedAt: sync?.startedAt || null,
+    completedAt: sync?.completedAt || null,
+  };
+}
+
+/**
+ * Get the warehouse sync state of a shop
+ */
+export async function getWarehouseSync(shop: string): Promise<WarehouseSyncState> {
+  const sync = await prisma.warehouseSync.findUnique({
+    where: { shopId: shop },
+  });
+  return toSyncState(sync);
+}
+
+/**
+ * Check if dashboard and filter queries can read from the warehouse
+ */
+export async function isWarehouseReady(shop: string): Promise<boolean> {
+  const sync = await prisma.warehouseSync.findUnique({
+    where: { shopId: shop },
+    select: { status: true },
+  });
+  return sync?.status === "ready";
+}
+
+/**
+ * Start (or restart) the backfill of a shop
+ * Also recovers a backfill stuck on a result whose ingestion never finished.
+ */
+export async function startWarehouseBackfill(
+  admin: AdminGraphQL,
+  shop: string
+): Promise<WarehouseSyncState> {
+  const bulkOperationId = await runBulkQuery(admin, CUSTOMERS_BULK_QUERY);
+
+  const data = {
+    status: "backfilling",
+    phase: "customers",
+    bulkOperationId,
+    claimedAt: null,
+    customersSynced: 0,
+    ordersSynced: 0,
+    error: null,
+    startedAt: new Date(),
+    completedAt: null,
+  };
+
+  const sync = await prisma.warehouseSync.upsert({
+    where: { shopId: shop },
+    create: { ...data, shopId: shop },
+    update: data,
+  });
+
+  return toSyncState(sync);
+}
+
+async function failBackfill(shop: string, error: string) {
+  const sync = await prisma.warehouseSync.update({
+    where: { shopId: shop },
+    data: {
+      status: "failed",
+      phase: null,
+      bulkOperationId: null,
+      claimedAt: null,
+      error,
+      completedAt: new Date(),
+    },
+  });
+  return toSyncState(sync);
+}
+
+/**
+ * Advance a running backfill: ingest the finished bulk operation and start the next phase
+ */
+export async function advanceWarehouseBackfill(
+  admin: AdminGraphQL,
+  shop: string
+): Promise<WarehouseSyncState> {
+  let sync = await prisma.warehouseSync.findUnique({
+    where: { shopId: shop },
+  });
+
+  if (!sync || sync.status !== "backfilling" || !sync.bulkOperationId) {
+    return toSyncState(sync);
+  }
+
+  if (sync.claimedAt) {
+    // Another call is ingesting the result
+    if (sync.claimedAt.getTime() >= Date.now() - WAREHOUSE_CLAIM_TIMEOUT_MS) {
+      return toSyncState(sync);
+    }
+
+    // Release a claim left behind by a process that died while ingesting
+    const released = await prisma.warehouseSync.updateMany({
+      where: { shopId: shop, claimedAt: sync.claimedAt },
+      data: { claimedAt: null },
+    });
+
+    if (released.count === 0) {
+      return toSyncState(sync);
+    }
+    sync = { ...sync, claimedAt: null };
+  }
+
+  const data = await runGraphQL(
+    admin,
+    `
+      query {
+        node(id: "${sync.bulkOperationId}") {
+          ... on BulkOperation {
+            status
+            errorCode
+            url
+          }
+        }
+      }
+    `
+  );
+  const operation = data?.node;
+
+  if (!operation || ["FAILED", "CANCELED", "EXPIRED"].includes(operation.status)) {
+    return failBackfill(
+      shop,
+      `Bulk operation ${operation?.status?.toLowerCase() || "not found"}${
+        operation?.errorCode ? ` (${operation.errorCode})` : ""
+      }`
+    );
+  }
+
+  if (operation.status !== "COMPLETED") {
+    return toSyncState(sync);
+  }
+
+  // Claim the result so the webhook and a poll don't ingest it twice
+  const claimed = await prisma.warehouseSync.updateMany({
+    where: { shopId: shop, bulkOperationId: sync.bulkOperationId, claimedAt: null },
+    data: { claimedAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    return toSyncState(sync);
+  }
+
+  try {
+    if (sync.phase === "customers") {
+      await deleteWarehouseData(shop);
+      const customersSynced = await ingestCustomers(
+        shop,
+        operation.url,
+        sync.startedAt || new Date()
+      );
+      const bulkOperationId = await runBulkQuery(admin, ORDERS_BULK_QUERY);
+
+      const updated = await prisma.warehouseSync.update({
+        where: { shopId: shop },
+        data: { phase: "orders", bulkOperationId, claimedAt: null, customersSynced },
+      });
+      return toSyncState(updated);
+    }
+
+    const ordersSynced = await ingestOrders(shop, operation.url);
+
+    const updated = await prisma.warehouseSync.update({
+      where: { shopId: shop },
+      data: {
+        status: "ready",
+        phase: null,
+        bulkOperationId: null,
+        claimedAt: null,
+        ordersSynced,
+        completedAt: new Date(),
+      },
+    });
+    return toSyncState(updated);
+  } catch (error) {
+    console.error(`[Warehouse] Error ingesting ${sync.phase} for ${shop}:`, error);
+    return failBackfill(
+      shop,
+      (error instanceof Error && error.message) || "Failed to ingest bulk operation result"
+    );
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Warehouse Filter Customers
+ *
+ * Loads customers from the warehouse in the same shape as the GraphQL customer
+ * nodes the filter-audience post-filters work on (defaultAddress, amountSpent,
+ * firstOrder, lastOrder, orders.edges[].node.lineItems.edges[] ...), so every
+ * filter can run unchanged on the full customer base without paging Shopify.
+ *
+ * Criteria the database can evaluate narrow the customers read (see
+ * buildWarehouseCustomerWhere), the rest are applied batch by batch so only one
+ * batch of customers and their orders is held in memory at a time.
+ */
+
+import prisma from "../../db.server";
+import type {
+  Prisma,
+  WarehouseCustomer,
+  WarehouseLineItem,
+  WarehouseOrder,
+} from "@prisma/client";
+import type { AdminGraphQL } from "../dashboard.server";
+import type {
+  FilterCriterionKey,
+  FilterData,
+  FilterExpression,
+} from "../../components/filter-audience/types";
+import type { FilteredCustomer } from "../../components/filter-audience/query";
+import { getFilterExpression } from "../../components/filter-audience/filterExpression";
+import {
+  applyFilterExpression,
+  formatCustomerData,
+  getExpressionCriteria,
+  getFiltersTimezone,
+  needsOrderHistory,
+} from "../../components/filter-audience/queries/queryCompiler";
+import { normalizeCountries } from "../../components/filter-audience/queries/geographicLocation";
+import { resolveRelativeDate } from "../../utils/relativeDate";
+import { startOfZonedDay } from "../../utils/dateRange";
+
+// Customers loaded (with their orders) and filtered at a time
+const WAREHOUSE_FILTER_BATCH_SIZE = 1000;
+
+type WarehouseOrderRecord = WarehouseOrder & { lineItems?: WarehouseLineItem[] };
+
+function toCustomerNode(
+  customer: WarehouseCustomer,
+  orders: WarehouseOrderRecord[] | null,
+  firstOrderDate: Date | null,
+  lastOrderDate: Date | null
+) {
+  return {
+    id: customer.id,
+    displayName: customer.displayName,
+    email: customer.email,
+    createdAt: customer.createdAt.toISOString(),
+    tags: customer.tags,
+    numberOfOrders: customer.numberOfOrders,
+    amountSpent: {
+      amount: String(customer.amountSpent),
+      currencyCode: customer.currencyCode || "",
+    },
+    firstOrder: {
+      edges: firstOrderDate ? [{ node: { createdAt: firstOrderDate.toISOString() } }] : [],
+    },
+    lastOrder: lastOrderDate ? { createdAt: lastOrderDate.toISOString() } : null,
+    emailMarketingConsent: {
+      marketingState: customer.emailMarketingState,
+      marketingOptInLevel: customer.emailMarketingOptInLevel,
+    },
+    smsMarketingConsent: {
+      marketingState: customer.smsMarketingState,
+      marketingOptInLevel: customer.smsMarketingOptInLevel,
+    },
+    defaultAddress: customer.country
+      ? { country: customer.country, countryCodeV2: customer.countryCode }
+      : null,
+    ...(orders
+      ? {
+          orders: {
+            edges: orders.map((order) => ({ node: toOrderNode(order) })),
+            pageInfo: { hasNextPage: false, endCursor: null },
+          },
+        }
+      : {}),
+  };
+}
+
+function toOrderNode(order: WarehouseOrderRecord) {
+  const shippingLines = (
+    Array.isArray(order.shippingLines) ? order.shippingLines : []
+  ) as { title: string; amount: number }[];
+
+  return {
+    id: order.id,
+    createdAt: order.createdAt.toISOString(),
+    tags: order.tags,
+    paymentGatewayNames: order.paymentGatewayNames,
+    displayFinancialStatus: order.financialStatus,
+    shippingLines: shippingLines.map((line) => ({
+      title: line.title,
+      originalPriceSet: { shopMoney: { amount: String(line.amount) } },
+    })),
+    sourceName: order.sourceName,
+    customerJourneySummary: { lastVisit: { landingPage: order.landingSite } },
+    userAgent: order.userAgent,
+    lineItems: {
+      edges: (order.lineItems || []).map((item) => ({
+        node: {
+          product: item.productId
+            ? {
+                id: item.productId,
+                title: item.productTitle || item.title,
+                productType: item.productType || "",
+              }
+            : null,
+        },
+      })),
+      pageInfo: { hasNextPage: false, endCursor: null },
+    },
+  };
+}
+
+
+/**
+ * Build the condition of a criterion the database evaluates exactly like the
+ * post-filter does, or null when it can only be post-filtered
+ */
+function buildCriterionWhere(
+  filters: FilterData,
+  key: FilterCriterionKey
+): Prisma.WarehouseCustomerWhereInput | null {
+  switch (key) {
+    case "location": {
+      const countries = normalizeCountries(filters.location);
+      return countries.length > 0 ? { country: { in: countries } } : null;
+    }
+    case "amountSpent": {
+      const filter = filters.amountSpent;
+      if (!filter?.amount || !filter.operator) {
+        return null;
+      }
+      if (filter.operator === "min") {
+        return { amountSpent: { gte: filter.amount } };
+      }
+      if (filter.operator === "max") {
+        return { amountSpent: { lte: filter.amount } };
+      }
+      return {
+        amountSpent: {
+          gte: filter.amount,
+          ...(filter.maxAmount != null ? { lte: filter.maxAmount } : {}),
+        },
+      };
+    }
+    case "orderCount": {
+      const filter = filters.orderCount;
+      if (!filter || (filter.min == null && filter.max == null)) {
+        return null;
+      }
+      return {
+        numberOfOrders: {
+          ...(filter.min != null ? { gte: filter.min } : {}),
+          ...(filter.max != null ? { lte: filter.max } : {}),
+        },
+      };
+    }
+    case "customerCreated": {
+      if (!filters.customerCreated) {
+        return null;
+      }
+      // Resolved to days in the shop's timezone, like isDateInRange
+      const timezone = getFiltersTimezone(filters);
+      const { from, to } = resolveRelativeDate(filters.customerCreated, timezone);
+      if (!from && !to) {
+        return null;
+      }
+      // Start of the given day (offset 0) or of the day after it (offset 1)
+      const dayStart = (day: string, offset: number) => {
+        const [year, month, date] = day.split("-").map(Number);
+        return startOfZonedDay(year, month, date + offset, timezone);
+      };
+      return {
+        createdAt: {
+          ...(from ? { gte: dayStart(from, 0) } : {}),
+          ...(to ? { lt: dayStart(to, 1) } : {}),
+        },
+      };
+    }
+    // Tags match case-insensitively and the other criteria need orders or
+    // computed values, so they're only post-filtered
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a condition that every customer matching the expression satisfies
+ *
+ * It narrows the customers read, the full expression is still applied to them:
+ * - ANDed branches that can't be evaluated are left out (the condition is looser)
+ * - ORed branches are only kept when every branch can be evaluated
+ * - Negations are never pushed, NOT on a nullable column also drops NULLs
+ */
+function buildExpressionWhere(
+  filters: FilterData,
+  node: FilterExpression
+): Prisma.WarehouseCustomerWhereInput | null {
+  if (node.negate) {
+    return null;
+  }
+
+  if (node.type === "criterion") {
+    return buildCriterionWhere(filters, node.key);
+  }
+
+  const conditions = node.children.map((child) => buildExpressionWhere(filters, child));
+
+  if (node.combinator === "OR") {
+    return conditions.length > 0 && conditions.every((condition) => condition !== null)
+      ? { OR: conditions as Prisma.WarehouseCustomerWhereInput[] }
+      : null;
+  }
+
+  const pushed = conditions.filter(
+    (condition): condition is Prisma.WarehouseCustomerWhereInput => condition !== null
+  );
+  return pushed.length > 0 ? { AND: pushed } : null;
+}
+
+export function buildWarehouseCustomerWhere(
+  shop: string,
+  filters: FilterData
+): Prisma.WarehouseCustomerWhereInput {
+  const expression = getFilterExpression(filters);
+  const condition = expression ? buildExpressionWhere(filters, expression) : null;
+
+  return condition ? { shopId: shop, ...condition } : { shopId: shop };
+}
+
+/**
+ * Convert a batch of warehouse customers to customer nodes, with the order
+ * history the filters need
+ */
+async function loadCustomerNodes(
+  shop: string,
+  customers: WarehouseCustomer[],
+  withOrders: boolean,
+  withLineItems: boolean
+) {
+  const customerIds = customers.map((customer) => customer.id);
+
+  // Without order history, first and last order dates (for the predicted CLV and
+  // churn risk) are aggregated
+  if (!withOrders) {
+    const orderDates = await prisma.warehouseOrder.groupBy({
+      by: ["customerId"],
+      where: { shopId: shop, customerId: { in: customerIds } },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    });
+    const orderDatesByCustomer = new Map(
+      orderDates.map((dates) => [dates.customerId, dates])
+    );
+
+    return customers.map((customer) => {
+      const dates = orderDatesByCustomer.get(customer.id);
+      return toCustomerNode(
+        customer,
+        null,
+        dates?._min.createdAt || null,
+        dates?._max.createdAt || null
+      );
+    });
+  }
+
+  const orders: WarehouseOrderRecord[] = await prisma.warehouseOrder.findMany({
+    where: { shopId: shop, customerId: { in: customerIds } },
+    orderBy: { createdAt: "desc" },
+    include: withLineItems ? { lineItems: true } : undefined,
+  });
+
+  const ordersByCustomer = new Map<string, WarehouseOrderRecord[]>();
+  for (const order of orders) {
+    if (!order.customerId) {
+      continue;
+    }
+    const customerOrders = ordersByCustomer.get(order.customerId) || [];
+    customerOrders.push(order);
+    ordersByCustomer.set(order.customerId, customerOrders);
+  }
+
+  // Orders are newest first
+  return customers.map((customer) => {
+    const customerOrders = ordersByCustomer.get(customer.id) || [];
+    return toCustomerNode(
+      customer,
+      customerOrders,
+      customerOrders[customerOrders.length - 1]?.createdAt || null,
+      customerOrders[0]?.createdAt || null
+    );
+  });
+}
+
+/**
+ * Filter the warehouse customers of a shop, newest customers first
+ */
+export async function filterWarehouseCustomers(
+  shop: string,
+  filters: FilterData,
+  admin?: AdminGraphQL
+): Promise<FilteredCustomer[]> {
+  const expression = getFilterExpression(filters);
+  const criteria = getExpressionCriteria(expression);
+  const withOrders = needsOrderHistory(criteria, filters) || criteria.has("delivery");
+  const where = buildWarehouseCustomerWhere(shop, filters);
+
+  const matches: FilteredCustomer[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const customers: WarehouseCustomer[] = await prisma.warehouseCustomer.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: WAREHOUSE_FILTER_BATCH_SIZE,
+      ...(cursor ? { cursor: { shopId_id: { shopId: shop, id: cursor } }, skip: 1 } : {}),
+    });
+
+    if (customers.length > 0) {
+      const nodes = await loadCustomerNodes(
+        shop,
+        customers,
+        withOrders,
+        criteria.has("products")
+      );
+      const batchMatches = await applyFilterExpression(nodes, filters, expression, admin);
+      matches.push(...batchMatches.map(formatCustomerData));
+    }
+
+    // A short batch is the last one
+    cursor =
+      customers.length === WAREHOUSE_FILTER_BATCH_SIZE
+        ? customers[customers.length - 1].id
+        : null;
+  } while (cursor);
+
+  return matches;
+}
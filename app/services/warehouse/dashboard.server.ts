@@ -0,0 +1,707 @@
+/**
+ * Warehouse Dashboard Queries
+ *
+ * Computes the dashboard cards from the local warehouse instead of paging Shopify
+ * orders on every load. Each card keeps the definitions of its GraphQL query.ts
+ * (count for the date range + data points per day/week bucket), so the UI doesn't change.
+ *
+ * Every function returns null while the shop's warehouse isn't ready, so routes can
+ * fall back to the GraphQL queries.
+ */
+
+import prisma from "../../db.server";
+import { isWarehouseReady } from "./backfill.server";
+import {
+  resolveDateRange,
+  getZonedDateParts,
+  DEFAULT_TIMEZONE,
+} from "../../utils/dateRange";
+import {
+  getTimeBuckets,
+  getBucketIndex,
+  buildCountSeries,
+  toCumulativeSeries,
+  type DataPoint,
+} from "../../utils/timeSeries";
+import { getCohortWindow, type CohortOrder } from "../../utils/cohorts";
+import type { RfmCustomer } from "../../utils/rfm";
+import type { BasketOrder } from "../../utils/basket";
+import type { HeatmapOrder } from "../../utils/purchaseHeatmap";
+import {
+  isHourInPartOfDay,
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  type PartOfDay,
+  type PartOfDayBoundaries,
+} from "../../utils/partOfDay";
+
+export type WarehouseDashboardCard =
+  | "totalCustomers"
+  | "newCustomers"
+  | "returningCustomers"
+  | "inactiveCustomers"
+  | "codOrders"
+  | "prepaidOrders"
+  | "cancelledOrders"
+  | "morningPurchases"
+  | "afternoonPurchases"
+  | "eveningPurchases"
+  | "weekendPurchases"
+  | "discountUsers"
+  | "emailSubscribers"
+  | "wishlistUsers"
+  | "reviewers";
+
+export interface WarehouseCardData {
+  count: number;
+  dataPoints: DataPoint[];
+}
+
+interface WarehouseOrderRow {
+  customerId: string | null;
+  financialStatus: string | null;
+  totalDiscounts: number;
+  tags: string[];
+  note: string | null;
+  createdAt: Date;
+  cancelledAt: Date | null;
+}
+
+/**
+ * Resolve the card date range in the shop timezone, with the card's chart buckets
+ */
+function resolveCardDateRange(dateRange: string, timezone: string) {
+  const range = resolveDateRange(dateRange, timezone);
+  return { startDate: range.startDate, endDate: range.endDate, buckets: getTimeBuckets(range) };
+}
+
+function inRange(date: Date, start: Date, end: Date) {
+  return date >= start && date <= end;
+}
+
+// ==========================================
+// Order predicates (same definitions as the GraphQL cards)
+// ==========================================
+
+const isCODOrder = (order: WarehouseOrderRow) =>
+  order.financialStatus === "PENDING" ||
+  order.financialStatus === "PARTIALLY_PAID" ||
+  order.financialStatus === "AUTHORIZED";
+
+const isPrepaidOrder = (order: WarehouseOrderRow) =>
+  order.financialStatus === "PAID" ||
+  order.financialStatus === "PARTIALLY_REFUNDED";
+
+const isCancelledOrder = (order: WarehouseOrderRow) => order.cancelledAt !== null;
+
+// Hours and weekdays are taken in the shop timezone
+const inPartOfDay =
+  (part: PartOfDay) =>
+  (
+    order: WarehouseOrderRow,
+    timezone: string,
+    partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+  ) => {
+    const { hour } = getZonedDateParts(order.createdAt, timezone);
+    return isHourInPartOfDay(hour, part, partOfDay);
+  };
+
+const isWeekendOrder = (order: WarehouseOrderRow, timezone: string) => {
+  const { weekday } = getZonedDateParts(order.createdAt, timezone);
+  return weekday === 0 || weekday === 6;
+};
+
+const isDiscountOrder = (order: WarehouseOrderRow) => order.totalDiscounts > 0;
+
+const hasOrderIndicator = (keywords: string[], noteKeyword: string) =>
+  (order: WarehouseOrderRow) =>
+    order.tags.some((tag) =>
+      keywords.some((keyword) => tag.toLowerCase().includes(keyword))
+    ) || (order.note || "").toLowerCase().includes(noteKeyword);
+
+const isWishlistOrder = hasOrderIndicator(
+  ["wishlist", "from-wishlist", "wishlist-purchase"],
+  "wishlist"
+);
+
+const isReviewOrder = hasOrderIndicator(
+  ["review", "reviewed", "has-review", "review-submitted"],
+  "review"
+);
+
+type OrderPredicate = (
+  order: WarehouseOrderRow,
+  timezone: string,
+  partOfDay?: PartOfDayBoundaries
+) => boolean;
+
+const ORDER_COUNT_CARDS: Partial<Record<WarehouseDashboardCard, OrderPredicate>> = {
+  codOrders: isCODOrder,
+  prepaidOrders: isPrepaidOrder,
+  cancelledOrders: isCancelledOrder,
+  morningPurchases: inPartOfDay("morning"),
+  afternoonPurchases: inPartOfDay("afternoon"),
+  eveningPurchases: inPartOfDay("evening"),
+  weekendPurchases: isWeekendOrder,
+};
+
+const ORDER_CUSTOMER_CARDS: Partial<Record<WarehouseDashboardCard, OrderPredicate>> = {
+  discountUsers: isDiscountOrder,
+  wishlistUsers: isWishlistOrder,
+  reviewers: isReviewOrder,
+};
+
+async function getOrdersUpTo(shop: string, endDate: Date): Promise<WarehouseOrderRow[]> {
+  return prisma.warehouseOrder.findMany({
+    where: { shopId: shop, createdAt: { lte: endDate } },
+    select: {
+      customerId: true,
+      financialStatus: true,
+      totalDiscounts: true,
+      tags: true,
+      note: true,
+      createdAt: true,
+      cancelledAt: true,
+    },
+  });
+}
+
+function countDistinctCustomers(
+  orders: WarehouseOrderRow[],
+  start: Date,
+  end: Date,
+  predicate: OrderPredicate,
+  timezone: string
+) {
+  const customerIds = new Set<string>();
+  for (const order of orders) {
+    if (order.customerId && inRange(order.createdAt, start, end) && predicate(order, timezone)) {
+      customerIds.add(order.customerId);
+    }
+  }
+  return customerIds.size;
+}
+
+async function getCustomersCard(
+  shop: string,
+  card: WarehouseDashboardCard,
+  dateRange: string,
+  timezone: string
+): Promise<WarehouseCardData> {
+  const { startDate, endDate, buckets } = resolveCardDateRange(dateRange, timezone);
+
+  const getCustomersCreatedInRange = () =>
+    prisma.warehouseCustomer.findMany({
+      where: { shopId: shop, createdAt: { gte: startDate, lte: endDate } },
+      select: { createdAt: true },
+    });
+
+  // Customers that existed at the end of each bucket
+  const buildExistingSeries = (
+    createdBefore: number,
+    createdInRange: Array<{ createdAt: Date }>
+  ) =>
+    toCumulativeSeries(
+      buildCountSeries(buckets, createdInRange, (customer) => customer.createdAt),
+      createdBefore
+    );
+
+  const countCreatedBefore = () =>
+    prisma.warehouseCustomer.count({
+      where: { shopId: shop, createdAt: { lt: startDate } },
+    });
+
+  switch (card) {
+    case "totalCustomers": {
+      const [count, createdBefore, createdInRange] = await Promise.all([
+        prisma.warehouseCustomer.count({ where: { shopId: shop } }),
+        countCreatedBefore(),
+        getCustomersCreatedInRange(),
+      ]);
+      return { count, dataPoints: buildExistingSeries(createdBefore, createdInRange) };
+    }
+
+    case "newCustomers": {
+      const createdInRange = await getCustomersCreatedInRange();
+      return {
+        count: createdInRange.length,
+        dataPoints: buildCountSeries(
+          buckets,
+          createdInRange,
+          (customer: { createdAt: Date }) => customer.createdAt
+        ),
+      };
+    }
+
+    case "returningCustomers": {
+      const orders = await getOrdersUpTo(shop, endDate);
+      const firstOrderDates = new Map<string, Date>();
+      for (const order of orders) {
+        if (!order.customerId) continue;
+        const firstOrderDate = firstOrderDates.get(order.customerId);
+        if (!firstOrderDate || order.createdAt < firstOrderDate) {
+          firstOrderDates.set(order.customerId, order.createdAt);
+        }
+      }
+
+      // Customers who ordered in each bucket and had already ordered before it
+      const returningOrders = orders.filter((order) => {
+        const index = getBucketIndex(buckets, order.createdAt);
+        return (
+          index !== -1 &&
+          order.customerId !== null &&
+          firstOrderDates.get(order.customerId)! < buckets[index].startDate
+        );
+      });
+
+      // Customers who ordered in the range AND before it
+      const count = countDistinctCustomers(
+        orders,
+        startDate,
+        endDate,
+        (order) => firstOrderDates.get(order.customerId!)! < startDate,
+        timezone
+      );
+
+      return {
+        count,
+        dataPoints: buildCountSeries(
+          buckets,
+          returningOrders,
+          (order) => order.createdAt,
+          (order) => order.customerId
+        ),
+      };
+    }
+
+    case "inactiveCustomers":
+    default: {
+      // Customers who exist but did NOT place orders in the period
+      const [totalCustomers, createdBefore, createdInRange, orders] = await Promise.all([
+        prisma.warehouseCustomer.count({ where: { shopId: shop } }),
+        countCreatedBefore(),
+        getCustomersCreatedInRange(),
+        getOrdersUpTo(shop, endDate),
+      ]);
+
+      // Each active customer's first order in the range
+      const firstOrders = new Map<string, WarehouseOrderRow>();
+      for (const order of orders) {
+        if (!order.customerId || !inRange(order.createdAt, startDate, endDate)) continue;
+        const firstOrder = firstOrders.get(order.customerId);
+        if (!firstOrder || order.createdAt < firstOrder.createdAt) {
+          firstOrders.set(order.customerId, order);
+        }
+      }
+
+      const existingCustomers = buildExistingSeries(createdBefore, createdInRange);
+      const activeCustomers = toCumulativeSeries(
+        buildCountSeries(buckets, [...firstOrders.values()], (order) => order.createdAt)
+      );
+
+      return {
+        count: Math.max(0, totalCustomers - firstOrders.size),
+        dataPoints: existingCustomers.map((point, index) => ({
+          date: point.date,
+          count: Math.max(0, point.count - activeCustomers[index].count),
+        })),
+      };
+    }
+  }
+}
+
+async function getEmailSubscribersCard(
+  shop: string,
+  dateRange: string,
+  timezone: string
+): Promise<WarehouseCardData> {
+  const { startDate, endDate, buckets } = resolveCardDateRange(dateRange, timezone);
+
+  const customers = await prisma.warehouseCustomer.findMany({
+    where: {
+      shopId: shop,
+      email: { not: null },
+      createdAt: { gte: startDate, lte: endDate },
+    },
+    select: {
+      tags: true,
+      emailMarketingState: true,
+      emailMarketingOptInLevel: true,
+      createdAt: true,
+    },
+  });
+
+  const subscribers = customers.filter(
+    (customer: (typeof customers)[number]) =>
+      customer.tags.some((tag: string) =>
+        ["email-subscriber", "newsletter", "subscribed", "email-subscription"].some(
+          (keyword) => tag.toLowerCase().includes(keyword)
+        )
+      ) ||
+      customer.emailMarketingState === "SUBSCRIBED" ||
+      ["SINGLE_OPT_IN", "CONFIRMED_OPT_IN", "UNKNOWN"].includes(
+        customer.emailMarketingOptInLevel || ""
+      )
+  );
+
+  return {
+    count: subscribers.length,
+    dataPoints: buildCountSeries(
+      buckets,
+      subscribers,
+      (customer: (typeof subscribers)[number]) => customer.createdAt
+    ),
+  };
+}
+
+/**
+ * Get a dashboard card from the warehouse
+ * Returns null if the warehouse isn't ready for this shop
+ * Purchase timing cards count the hours of the shop's parts of day.
+ */
+export async function getWarehouseCardData(
+  shop: string,
+  card: WarehouseDashboardCard,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE,
+  partOfDay: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): Promise<WarehouseCardData | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const orderCountPredicate = ORDER_COUNT_CARDS[card];
+  if (orderCountPredicate) {
+    const { startDate, endDate, buckets } = resolveCardDateRange(dateRange, timezone);
+    const orders = await getOrdersUpTo(shop, endDate);
+    const matching = orders.filter(
+      (order) =>
+        inRange(order.createdAt, startDate, endDate) &&
+        orderCountPredicate(order, timezone, partOfDay)
+    );
+
+    return {
+      count: matching.length,
+      dataPoints: buildCountSeries(buckets, matching, (order) => order.createdAt),
+    };
+  }
+
+  const orderCustomerPredicate = ORDER_CUSTOMER_CARDS[card];
+  if (orderCustomerPredicate) {
+    const { startDate, endDate, buckets } = resolveCardDateRange(dateRange, timezone);
+    const orders = await getOrdersUpTo(shop, endDate);
+    const matching = orders.filter(
+      (order) =>
+        inRange(order.createdAt, startDate, endDate) && orderCustomerPredicate(order, timezone)
+    );
+
+    return {
+      count: countDistinctCustomers(orders, startDate, endDate, orderCustomerPredicate, timezone),
+      dataPoints: buildCountSeries(
+        buckets,
+        matching,
+        (order) => order.createdAt,
+        (order) => order.customerId
+      ),
+    };
+  }
+
+  if (card === "emailSubscribers") {
+    return getEmailSubscribersCard(shop, dateRange, timezone);
+  }
+
+  return getCustomersCard(shop, card, dateRange, timezone);
+}
+
+/**
+ * Get the order type distribution (Customer Segmentation chart) from the warehouse
+ * Abandoned carts are checkouts, which the warehouse doesn't store.
+ */
+export async function getWarehouseOrderTypeBreakdown(
+  shop: string,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<{ codOrders: number; prepaidOrders: number; cancelledOrders: number } | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const { startDate, endDate } = resolveCardDateRange(dateRange, timezone);
+  const orders = (await getOrdersUpTo(shop, endDate)).filter((order) =>
+    inRange(order.createdAt, startDate, endDate)
+  );
+
+  return {
+    codOrders: orders.filter(isCODOrder).length,
+    prepaidOrders: orders.filter(isPrepaidOrder).length,
+    cancelledOrders: orders.filter(isCancelledOrder).length,
+  };
+}
+
+/**
+ * Get the engagement metrics (Behavioral Breakdown chart) from the warehouse
+ */
+export async function getWarehouseBehavioralBreakdown(
+  shop: string,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<{
+  discountUsers: number;
+  wishlistUsers: number;
+  reviewers: number;
+  emailSubscribers: number;
+} | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const [discountUsers, wishlistUsers, reviewers, emailSubscribers] =
+    await Promise.all([
+      getWarehouseCardData(shop, "discountUsers", dateRange, timezone),
+      getWarehouseCardData(shop, "wishlistUsers", dateRange, timezone),
+      getWarehouseCardData(shop, "reviewers", dateRange, timezone),
+      getWarehouseCardData(shop, "emailSubscribers", dateRange, timezone),
+    ]);
+
+  return {
+    discountUsers: discountUsers?.count || 0,
+    wishlistUsers: wishlistUsers?.count || 0,
+    reviewers: reviewers?.count || 0,
+    emailSubscribers: emailSubscribers?.count || 0,
+  };
+}
+
+/**
+ * Get the orders of the customers whose first order falls in the cohort window
+ * Cancelled orders are left out; customers who ordered before the window are excluded.
+ */
+export async function getWarehouseCohortOrders(
+  shop: string,
+  months: number,
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<{ orders: CohortOrder[]; currencyCode: string | null } | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const { startDate, endDate } = getCohortWindow(months, timezone);
+  const [orders, previousCustomers] = await Promise.all([
+    prisma.warehouseOrder.findMany({
+      where: {
+        shopId: shop,
+        customerId: { not: null },
+        cancelledAt: null,
+        createdAt: { gte: startDate, lte: endDate },
+      },
+      select: { customerId: true, createdAt: true, totalPrice: true, currencyCode: true },
+    }),
+    prisma.warehouseOrder.findMany({
+      where: { shopId: shop, customerId: { not: null }, createdAt: { lt: startDate } },
+      select: { customerId: true },
+      distinct: ["customerId"],
+    }),
+  ]);
+
+  const previousCustomerIds = new Set(
+    previousCustomers.map((order) => order.customerId)
+  );
+  const cohortOrders = orders.filter(
+    (order): order is typeof order & { customerId: string } =>
+      order.customerId !== null && !previousCustomerIds.has(order.customerId)
+  );
+
+  return {
+    orders: cohortOrders.map((order) => ({
+      customerId: order.customerId,
+      createdAt: order.createdAt,
+      revenue: order.totalPrice,
+    })),
+    currencyCode: cohortOrders.find((order) => order.currencyCode)?.currencyCode ?? null,
+  };
+}
+
+export interface WarehouseRfmCustomer extends RfmCustomer {
+  firstOrderDate: Date;
+  displayName: string | null;
+  email: string | null;
+  country: string | null;
+  createdAt: Date;
+  currencyCode: string | null;
+}
+
+/**
+ * Get every customer with orders, with what RFM scoring needs (see utils/rfm)
+ * The first and last order dates come from the warehouse orders.
+ */
+export async function getWarehouseRfmCustomers(
+  shop: string
+): Promise<WarehouseRfmCustomer[] | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const [customers, orderDates] = await Promise.all([
+    prisma.warehouseCustomer.findMany({
+      where: { shopId: shop, numberOfOrders: { gt: 0 } },
+      select: {
+        id: true,
+        displayName: true,
+        email: true,
+        country: true,
+        numberOfOrders: true,
+        amountSpent: true,
+        currencyCode: true,
+        createdAt: true,
+      },
+    }),
+    prisma.warehouseOrder.groupBy({
+      by: ["customerId"],
+      where: { shopId: shop, customerId: { not: null } },
+      _min: { createdAt: true },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  // Grouped on orders with a customer, which always have a creation date
+  const firstOrderDates = new Map(
+    orderDates.map((order) => [order.customerId, order._min.createdAt as Date])
+  );
+  const lastOrderDates = new Map(
+    orderDates.map((order) => [order.customerId, order._max.createdAt as Date])
+  );
+
+  return customers
+    .filter((customer) => lastOrderDates.has(customer.id))
+    .map((customer) => ({
+      id: customer.id,
+      firstOrderDate: firstOrderDates.get(customer.id)!,
+      lastOrderDate: lastOrderDates.get(customer.id)!,
+      orderCount: customer.numberOfOrders,
+      totalSpent: customer.amountSpent,
+      displayName: customer.displayName,
+      email: customer.email,
+      country: customer.country,
+      createdAt: customer.createdAt,
+      currencyCode: customer.currencyCode,
+    }));
+}
+
+/**
+ * Get the orders of the date range as baskets of products (see utils/basket)
+ * Cancelled orders and line items without a product are left out.
+ */
+export async function getWarehouseBasketOrders(
+  shop: string,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<BasketOrder[] | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const { startDate, endDate } = resolveDateRange(dateRange, timezone);
+  const orders = await prisma.warehouseOrder.findMany({
+    where: {
+      shopId: shop,
+      cancelledAt: null,
+      createdAt: { gte: startDate, lte: endDate },
+    },
+    select: {
+      customerId: true,
+      lineItems: {
+        where: { productId: { not: null } },
+        select: { productId: true, productTitle: true, title: true },
+      },
+    },
+  });
+
+  return orders.map((order) => ({
+    customerId: order.customerId,
+    products: order.lineItems.map((lineItem) => ({
+      id: lineItem.productId!,
+      title: lineItem.productTitle || lineItem.title,
+    })),
+  }));
+}
+
+/**
+ * Get the orders of the date range for the purchase heatmap (see utils/purchaseHeatmap)
+ * Cancelled orders are left out.
+ */
+export async function getWarehouseHeatmapOrders(
+  shop: string,
+  dateRange: string = "30days",
+  timezone: string = DEFAULT_TIMEZONE
+): Promise<{ orders: HeatmapOrder[]; currencyCode: string | null } | null> {
+  if (!(await isWarehouseReady(shop))) {
+    return null;
+  }
+
+  const { startDate, endDate } = resolveDateRange(dateRange, timezone);
+  const orders = await prisma.warehouseOrder.findMany({
+    where: {
+      shopId: shop,
+      cancelledAt: null,
+      createdAt: { gte: startDate, lte: endDate },
+    },
+    select: { customerId: true, createdAt: true, totalPrice: true, currencyCode: true },
+  });
+
+  return {
+    orders: orders.map(
+      (order: { customerId: string | null; createdAt: Date; totalPrice: number }) => ({
+        customerId: order.customerId,
+        createdAt: order.createdAt,
+        revenue: order.totalPrice,
+      })
+    ),
+    currencyCode:
+      orders.find((order: { currencyCode: string | null }) => order.currencyCode)
+        ?.currencyCode ?? null,
+  };
+}
+
+/**
+ * Get the customers, among the given ones, who ever bought a product
+ * Unlike the basket orders, the whole order history counts. Cancelled orders are left out.
+ */
+export async function getWarehouseProductCustomerIds(
+  shop: string,
+  productId: string,
+  customerIds: string[]
+): Promise<Set<string>> {
+  const orders = await prisma.warehouseOrder.findMany({
+    where: {
+      shopId: shop,
+      customerId: { in: customerIds },
+      cancelledAt: null,
+      lineItems: { some: { productId } },
+    },
+    select: { customerId: true },
+    distinct: ["customerId"],
+  });
+
+  return new Set(
+    orders
+      .map((order) => order.customerId)
+      .filter((customerId): customerId is string => customerId !== null)
+  );
+}
+
+/**
+ * Get the profile fields of a list of customers, for drill-down tables
+ */
+export async function getWarehouseCustomersByIds(shop: string, customerIds: string[]) {
+  return prisma.warehouseCustomer.findMany({
+    where: { shopId: shop, id: { in: customerIds } },
+    select: {
+      id: true,
+      displayName: true,
+      email: true,
+      country: true,
+      numberOfOrders: true,
+      amountSpent: true,
+      currencyCode: true,
+      createdAt: true,
+    },
+  });
+}
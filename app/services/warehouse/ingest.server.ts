@@ -0,0 +1,593 @@
+/**
+ * Warehouse Ingestion
+ *
+ * Normalizes Shopify customers and orders into warehouse records and writes them:
+ * - *FromWebhook(): REST-shaped webhook payloads (orders/create, customers/update, ...)
+ * - *FromNode(): GraphQL nodes, as returned by the backfill bulk operations
+ *
+ * Both shapes map to the same records, so dashboard and filter queries don't care
+ * how a row got into the warehouse.
+ *
+ * Webhooks can arrive out of order: a single customer or order is only written
+ * when it isn't older than the stored row (updatedAt).
+ *
+ * A customer's order count and amount spent start from Shopify's lifetime totals
+ * (base totals, as of totalsAt): the warehouse only holds the orders Shopify lets us
+ * read, which is the last 60 days without `read_all_orders`. Orders created after
+ * totalsAt are added on top, cancelled orders excluded (like the dashboard's
+ * revenue), whenever orders are written. Customers without base totals (created by
+ * a webhook that doesn't carry them) are counted from their warehouse orders only.
+ */
+
+import prisma from "../../db.server";
+import type { Prisma } from "@prisma/client";
+
+export interface WarehouseCustomerRecord {
+  id: string;
+  email: string | null;
+  displayName: string | null;
+  country: string | null;
+  countryCode: string | null;
+  tags: string[];
+  emailMarketingState: string | null;
+  emailMarketingOptInLevel: string | null;
+  smsMarketingState: string | null;
+  smsMarketingOptInLevel: string | null;
+  // Shopify's lifetime totals; omitted when the source doesn't carry them (recent
+  // customer webhooks)
+  baseOrderCount?: number;
+  baseAmountSpent?: number;
+  totalsAt?: Date;
+  currencyCode: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WarehouseLineItemRecord {
+  id: string;
+  productId: string | null;
+  title: string;
+  productTitle: string | null;
+  productType: string | null;
+  quantity: number;
+}
+
+export interface WarehouseShippingLine {
+  title: string;
+  amount: number;
+}
+
+export interface WarehouseOrderRecord {
+  id: string;
+  name: string | null;
+  customerId: string | null;
+  email: string | null;
+  financialStatus: string | null;
+  paymentGatewayNames: string[];
+  totalPrice: number;
+  totalDiscounts: number;
+  currencyCode: string | null;
+  tags: string[];
+  note: string | null;
+  shippingLines: WarehouseShippingLine[];
+  // Client details, for the device filter
+  sourceName: string | null;
+  landingSite: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  cancelledAt: Date | null;
+  updatedAt: Date;
+  lineItems: WarehouseLineItemRecord[];
+}
+
+// Fields read from REST webhook payloads
+interface MarketingConsentPayload {
+  state?: string | null;
+  opt_in_level?: string | null;
+}
+
+export interface CustomerWebhookPayload {
+  admin_graphql_api_id: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  default_address?: { country?: string | null; country_code?: string | null } | null;
+  tags?: string | null;
+  email_marketing_consent?: MarketingConsentPayload | null;
+  sms_marketing_consent?: MarketingConsentPayload | null;
+  orders_count?: number | null;
+  total_spent?: string | null;
+  currency?: string | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface OrderWebhookPayload {
+  admin_graphql_api_id: string;
+  name?: string | null;
+  customer?: { admin_graphql_api_id?: string; email?: string | null } | null;
+  email?: string | null;
+  financial_status?: string | null;
+  payment_gateway_names?: string[] | null;
+  total_price?: string | null;
+  total_discounts?: string | null;
+  currency?: string | null;
+  tags?: string | null;
+  note?: string | null;
+  shipping_lines?: { title?: string | null; price?: string | null }[] | null;
+  source_name?: string | null;
+  landing_site?: string | null;
+  client_details?: { user_agent?: string | null } | null;
+  created_at: string;
+  cancelled_at?: string | null;
+  updated_at?: string | null;
+  line_items?: {
+    admin_graphql_api_id: string;
+    product_id?: number | string | null;
+    name?: string | null;
+    title?: string | null;
+    quantity?: number | null;
+  }[] | null;
+}
+
+// Fields read from the backfill's GraphQL nodes (see backfill.server.ts)
+interface MarketingConsentNode {
+  marketingState?: string | null;
+  marketingOptInLevel?: string | null;
+}
+
+export interface CustomerNode {
+  id: string;
+  email?: string | null;
+  displayName?: string | null;
+  defaultAddress?: { country?: string | null; countryCodeV2?: string | null } | null;
+  tags?: string[] | null;
+  emailMarketingConsent?: MarketingConsentNode | null;
+  smsMarketingConsent?: MarketingConsentNode | null;
+  numberOfOrders?: string | number | null;
+  amountSpent?: { amount?: string | null; currencyCode?: string | null } | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+interface MoneyBagNode {
+  shopMoney?: { amount?: string | null; currencyCode?: string | null } | null;
+}
+
+export interface LineItemNode {
+  id: string;
+  title?: string | null;
+  quantity?: number | null;
+  product?: { id: string; title?: string | null; productType?: string | null } | null;
+}
+
+export interface OrderNode {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  customer?: { id: string } | null;
+  displayFinancialStatus?: string | null;
+  paymentGatewayNames?: string[] | null;
+  totalPriceSet?: MoneyBagNode | null;
+  totalDiscountsSet?: MoneyBagNode | null;
+  tags?: string[] | null;
+  note?: string | null;
+  shippingLine?: { title?: string | null; originalPriceSet?: MoneyBagNode | null } | null;
+  sourceName?: string | null;
+  customerJourneySummary?: { lastVisit?: { landingPage?: string | null } | null } | null;
+  createdAt: string;
+  cancelledAt?: string | null;
+  updatedAt?: string | null;
+  lineItems?: { edges: { node: LineItemNode }[] } | null;
+}
+
+/**
+ * Parse REST comma-separated tags ("a, b") or GraphQL tag lists
+ */
+function parseTags(tags: string | string[] | null | undefined): string[] {
+  if (Array.isArray(tags)) {
+    return tags;
+  }
+  return (tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function parseAmount(amount: string | number | null | undefined): number {
+  const value = parseFloat(String(amount ?? "0"));
+  return isNaN(value) ? 0 : value;
+}
+
+// REST enums are lowercase ("partially_paid"), GraphQL ones uppercase ("PARTIALLY_PAID")
+function toGraphQLEnum(value: string | null | undefined): string | null {
+  return value ? value.toUpperCase() : null;
+}
+
+function toProductGid(productId: number | string | null | undefined): string | null {
+  if (productId == null) {
+    return null;
+  }
+  const id = String(productId);
+  return id.startsWith("gid://") ? id : `gid://shopify/Product/${id}`;
+}
+
+/**
+ * Map a customers/create or customers/update webhook payload
+ */
+export function customerFromWebhook(payload: CustomerWebhookPayload): WarehouseCustomerRecord {
+  const displayName = [payload.first_name, payload.last_name]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    id: payload.admin_graphql_api_id,
+    email: payload.email || null,
+    displayName: displayName || payload.email || null,
+    country: payload.default_address?.country || null,
+    countryCode: payload.default_address?.country_code || null,
+    tags: parseTags(payload.tags),
+    emailMarketingState: toGraphQLEnum(payload.email_marketing_consent?.state),
+    emailMarketingOptInLevel: toGraphQLEnum(
+      payload.email_marketing_consent?.opt_in_level
+    ),
+    smsMarketingState: toGraphQLEnum(payload.sms_marketing_consent?.state),
+    smsMarketingOptInLevel: toGraphQLEnum(
+      payload.sms_marketing_consent?.opt_in_level
+    ),
+    ...(payload.orders_count != null && {
+      baseOrderCount: Number(payload.orders_count),
+      baseAmountSpent: parseAmount(payload.total_spent),
+      totalsAt: new Date(payload.updated_at || payload.created_at),
+    }),
+    currencyCode: payload.currency || null,
+    createdAt: new Date(payload.created_at),
+    updatedAt: new Date(payload.updated_at || payload.created_at),
+  };
+}
+
+/**
+ * Map a GraphQL Customer node
+ * totalsAt is when its lifetime totals were read (the start of the bulk operation).
+ */
+export function customerFromNode(
+  node: CustomerNode,
+  totalsAt: Date
+): WarehouseCustomerRecord {
+  return {
+    id: node.id,
+    email: node.email || null,
+    displayName: node.displayName || null,
+    country: node.defaultAddress?.country || null,
+    countryCode: node.defaultAddress?.countryCodeV2 || null,
+    tags: parseTags(node.tags),
+    emailMarketingState: node.emailMarketingConsent?.marketingState || null,
+    emailMarketingOptInLevel:
+      node.emailMarketingConsent?.marketingOptInLevel || null,
+    smsMarketingState: node.smsMarketingConsent?.marketingState || null,
+    smsMarketingOptInLevel:
+      node.smsMarketingConsent?.marketingOptInLevel || null,
+    baseOrderCount: Number(node.numberOfOrders || 0),
+    baseAmountSpent: parseAmount(node.amountSpent?.amount),
+    totalsAt,
+    currencyCode: node.amountSpent?.currencyCode || null,
+    createdAt: new Date(node.createdAt),
+    updatedAt: new Date(node.updatedAt || node.createdAt),
+  };
+}
+
+/**
+ * Map an orders/create or orders/updated webhook payload
+ */
+export function orderFromWebhook(payload: OrderWebhookPayload): WarehouseOrderRecord {
+  return {
+    id: payload.admin_graphql_api_id,
+    name: payload.name || null,
+    customerId: payload.customer?.admin_graphql_api_id || null,
+    email: payload.email || payload.customer?.email || null,
+    financialStatus: toGraphQLEnum(payload.financial_status),
+    paymentGatewayNames: payload.payment_gateway_names || [],
+    totalPrice: parseAmount(payload.total_price),
+    totalDiscounts: parseAmount(payload.total_discounts),
+    currencyCode: payload.currency || null,
+    tags: parseTags(payload.tags),
+    note: payload.note || null,
+    shippingLines: (payload.shipping_lines || []).map((line) => ({
+      title: line.title || "",
+      amount: parseAmount(line.price),
+    })),
+    sourceName: payload.source_name || null,
+    landingSite: payload.landing_site || null,
+    userAgent: payload.client_details?.user_agent || null,
+    createdAt: new Date(payload.created_at),
+    cancelledAt: payload.cancelled_at ? new Date(payload.cancelled_at) : null,
+    updatedAt: new Date(payload.updated_at || payload.created_at),
+    lineItems: (payload.line_items || []).map((item) => ({
+      id: item.admin_graphql_api_id,
+      productId: toProductGid(item.product_id),
+      title: item.name || item.title || "",
+      productTitle: item.title || null,
+      productType: null, // Not part of REST line items; filled in by the backfill
+      quantity: item.quantity ?? 1,
+    })),
+  };
+}
+
+/**
+ * Map a GraphQL Order node (line items already nested as lineItems.edges)
+ */
+export function orderFromNode(node: OrderNode): WarehouseOrderRecord {
+  const shippingLine = node.shippingLine;
+
+  return {
+    id: node.id,
+    name: node.name || null,
+    customerId: node.customer?.id || null,
+    email: node.email || null,
+    financialStatus: node.displayFinancialStatus || null,
+    paymentGatewayNames: node.paymentGatewayNames || [],
+    totalPrice: parseAmount(node.totalPriceSet?.shopMoney?.amount),
+    totalDiscounts: parseAmount(node.totalDiscountsSet?.shopMoney?.amount),
+    currencyCode: node.totalPriceSet?.shopMoney?.currencyCode || null,
+    tags: parseTags(node.tags),
+    note: node.note || null,
+    shippingLines: shippingLine
+      ? [
+          {
+            title: shippingLine.title || "",
+            amount: parseAmount(shippingLine.originalPriceSet?.shopMoney?.amount),
+          },
+        ]
+      : [],
+    sourceName: node.sourceName || null,
+    landingSite: node.customerJourneySummary?.lastVisit?.landingPage || null,
+    userAgent: null, // Not exposed by the GraphQL Admin API
+    createdAt: new Date(node.createdAt),
+    cancelledAt: node.cancelledAt ? new Date(node.cancelledAt) : null,
+    updatedAt: new Date(node.updatedAt || node.createdAt),
+    lineItems: (node.lineItems?.edges || []).map((edge) => ({
+      id: edge.node.id,
+      productId: edge.node.product?.id || null,
+      title: edge.node.title || "",
+      productTitle: edge.node.product?.title || null,
+      productType: edge.node.product?.productType || null,
+      quantity: edge.node.quantity ?? 1,
+    })),
+  };
+}
+
+// Line items are stored in their own table
+function orderRow(shop: string, order: WarehouseOrderRecord) {
+  const fields: Partial<WarehouseOrderRecord> = { ...order };
+  delete fields.lineItems;
+  return {
+    ...(fields as Omit<WarehouseOrderRecord, "lineItems">),
+    shippingLines: order.shippingLines as unknown as Prisma.InputJsonValue,
+    shopId: shop,
+  };
+}
+
+function lineItemRows(shop: string, order: WarehouseOrderRecord) {
+  return order.lineItems.map((item) => ({
+    ...item,
+    shopId: shop,
+    orderId: order.id,
+  }));
+}
+
+/**
+ * Recompute customers' order count and amount spent: their base totals plus the
+ * warehouse orders created after totalsAt
+ */
+async function refreshCustomerTotals(shop: string, customerIds: string[]) {
+  if (customerIds.length === 0) {
+    return;
+  }
+
+  const customers = await prisma.warehouseCustomer.findMany({
+    where: { shopId: shop, id: { in: customerIds } },
+    select: { id: true, baseOrderCount: true, baseAmountSpent: true, totalsAt: true },
+  });
+
+  // Backfilled customers share their totalsAt, so this is one query per backfill
+  const customersByTotalsAt = new Map<number | null, typeof customers>();
+  customers.forEach((customer) => {
+    const key = customer.totalsAt?.getTime() ?? null;
+    customersByTotalsAt.set(key, [...(customersByTotalsAt.get(key) || []), customer]);
+  });
+
+  const updates = await Promise.all(
+    [...customersByTotalsAt].map(async ([totalsAt, group]) => {
+      const totals = await prisma.warehouseOrder.groupBy({
+        by: ["customerId"],
+        where: {
+          shopId: shop,
+          customerId: { in: group.map((customer) => customer.id) },
+          cancelledAt: null,
+          ...(totalsAt !== null && { createdAt: { gt: new Date(totalsAt) } }),
+        },
+        _count: { _all: true },
+        _sum: { totalPrice: true },
+      });
+      const totalsByCustomer = new Map(totals.map((total) => [total.customerId, total]));
+
+      return group.map((customer) => {
+        const total = totalsByCustomer.get(customer.id);
+        return prisma.warehouseCustomer.updateMany({
+          where: { shopId: shop, id: customer.id },
+          data: {
+            numberOfOrders: customer.baseOrderCount + (total?._count._all || 0),
+            amountSpent: customer.baseAmountSpent + (total?._sum.totalPrice || 0),
+          },
+        });
+      });
+    })
+  );
+
+  await prisma.$transaction(updates.flat());
+}
+
+/**
+ * Insert or update a single customer (webhooks)
+ * An update older than the stored customer is ignored.
+ */
+export async function upsertWarehouseCustomer(
+  shop: string,
+  customer: WarehouseCustomerRecord
+) {
+  const { id, ...fields } = customer;
+
+  const updated = await prisma.warehouseCustomer.updateMany({
+    where: { shopId: shop, id, updatedAt: { lte: customer.updatedAt } },
+    data: fields,
+  });
+
+  if (updated.count > 0) {
+    // New base totals replace the stored ones
+    if (customer.totalsAt) {
+      await refreshCustomerTotals(shop, [id]);
+    }
+    return;
+  }
+
+  // Either the customer is new or a newer version is stored (left untouched)
+  const created = await prisma.warehouseCustomer.createMany({
+    data: [{ ...fields, id, shopId: shop }],
+    skipDuplicates: true,
+  });
+
+  // Orders received before the customer count towards its totals
+  if (created.count > 0) {
+    await refreshCustomerTotals(shop, [id]);
+  }
+}
+
+/**
+ * Insert or update a single order and replace its line items (webhooks)
+ * An update older than the stored order is ignored.
+ */
+export async function upsertWarehouseOrder(
+  shop: string,
+  order: WarehouseOrderRecord
+) {
+  const { shopId, id, ...fields } = orderRow(shop, order);
+
+  const previousCustomerId = await prisma.$transaction(async (tx) => {
+    const stored = await tx.warehouseOrder.findUnique({
+      where: { shopId_id: { shopId, id } },
+      select: { customerId: true },
+    });
+
+    const updated = await tx.warehouseOrder.updateMany({
+      where: { shopId, id, updatedAt: { lte: order.updatedAt } },
+      data: fields,
+    });
+
+    if (updated.count === 0) {
+      const created = await tx.warehouseOrder.createMany({
+        data: [{ ...fields, id, shopId }],
+        skipDuplicates: true,
+      });
+
+      // A newer version of the order is stored
+      if (created.count === 0) {
+        return undefined;
+      }
+    }
+
+    await tx.warehouseLineItem.deleteMany({
+      where: { shopId, orderId: id },
+    });
+    await tx.warehouseLineItem.createMany({
+      data: lineItemRows(shop, order),
+      skipDuplicates: true,
+    });
+
+    return stored?.customerId ?? null;
+  });
+
+  if (previousCustomerId === undefined) {
+    return;
+  }
+
+  // An order moved to another customer also changes the previous customer's totals
+  await refreshCustomerTotals(
+    shop,
+    [...new Set([order.customerId, previousCustomerId])].filter(
+      (customerId): customerId is string => !!customerId
+    )
+  );
+}
+
+/**
+ * Insert a batch of customers (backfill); existing rows are left untouched
+ * Their totals start at the base totals, the orders inserted next add to them.
+ */
+export async function insertWarehouseCustomers(
+  shop: string,
+  customers: WarehouseCustomerRecord[]
+) {
+  await prisma.warehouseCustomer.createMany({
+    data: customers.map((customer) => ({
+      ...customer,
+      numberOfOrders: customer.baseOrderCount || 0,
+      amountSpent: customer.baseAmountSpent || 0,
+      shopId: shop,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Insert a batch of orders with their line items (backfill) and recompute
+ * their customers' totals
+ */
+export async function insertWarehouseOrders(
+  shop: string,
+  orders: WarehouseOrderRecord[]
+) {
+  await prisma.warehouseOrder.createMany({
+    data: orders.map((order) => orderRow(shop, order)),
+    skipDuplicates: true,
+  });
+
+  await prisma.warehouseLineItem.createMany({
+    data: orders.flatMap((order) => lineItemRows(shop, order)),
+    skipDuplicates: true,
+  });
+
+  await refreshCustomerTotals(
+    shop,
+    [...new Set(orders.map((order) => order.customerId))].filter(
+      (customerId): customerId is string => !!customerId
+    )
+  );
+}
+
+/**
+ * Delete a customer and the given orders (customers/redact)
+ */
+export async function redactWarehouseCustomer(
+  shop: string,
+  customerId: string,
+  orderIds: string[]
+) {
+  await prisma.warehouseOrder.deleteMany({
+    where: {
+      shopId: shop,
+      OR: [{ customerId }, { id: { in: orderIds } }],
+    },
+  });
+
+  await prisma.warehouseCustomer.deleteMany({
+    where: { shopId: shop, id: customerId },
+  });
+}
+
+/**
+ * Delete everything stored for a shop (shop/redact, re-backfill)
+ */
+export async function deleteWarehouseData(shop: string) {
+  await prisma.warehouseOrder.deleteMany({ where: { shopId: shop } });
+  await prisma.warehouseCustomer.deleteMany({ where: { shopId: shop } });
+}
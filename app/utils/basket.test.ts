@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeProductAffinity,
+  getBoughtANotBCustomerIds,
+  type BasketOrder,
+} from "./basket";
+
+const a = { id: "gid://shopify/Product/1", title: "A" };
+const b = { id: "gid://shopify/Product/2", title: "B" };
+const c = { id: "gid://shopify/Product/3", title: "C" };
+
+const orders: BasketOrder[] = [
+  { customerId: "c1", products: [a, b] },
+  { customerId: "c2", products: [a, b] },
+  { customerId: "c3", products: [a] },
+  // A product bought twice counts once
+  { customerId: "c4", products: [a, a] },
+  { customerId: "c5", products: [c] },
+  { customerId: "c6", products: [c] },
+  { customerId: "c7", products: [b] },
+  { customerId: "c1", products: [a, c] },
+  { customerId: null, products: [c] },
+  { customerId: "c8", products: [c] },
+];
+
+describe("computeProductAffinity", () => {
+  it("computes support, confidence and lift both ways", () => {
+    const affinity = computeProductAffinity(orders);
+
+    assert.equal(affinity.totalOrders, 10);
+    assert.equal(affinity.rules.length, 2);
+
+    const aToB = affinity.rules.find((rule) => rule.productA.id === a.id)!;
+    assert.equal(aToB.productB.id, b.id);
+    assert.equal(aToB.orders, 2);
+    assert.equal(aToB.support, 20);
+    assert.equal(aToB.confidence, 40);
+    assert.ok(Math.abs(aToB.lift - 4 / 3) < 1e-9);
+
+    const bToA = affinity.rules.find((rule) => rule.productA.id === b.id)!;
+    assert.ok(Math.abs(bToA.confidence - 200 / 3) < 1e-9);
+    assert.ok(Math.abs(bToA.lift - 4 / 3) < 1e-9);
+  });
+
+  it("leaves out pairs seen together in too few orders", () => {
+    const pairs = (minPairOrders: number) =>
+      computeProductAffinity(orders, minPairOrders).rules.map(
+        (rule) => `${rule.productA.title}>${rule.productB.title}`
+      );
+
+    assert.equal(pairs(2).includes("A>C"), false);
+    assert.equal(pairs(1).includes("A>C"), true);
+  });
+
+  it("lists the strongest lift first, up to the limit", () => {
+    const affinity = computeProductAffinity(orders, 1, 3);
+
+    assert.equal(affinity.rules.length, 3);
+    affinity.rules.slice(1).forEach((rule, index) => {
+      assert.ok(affinity.rules[index].lift >= rule.lift);
+    });
+  });
+
+  it("handles stores without orders", () => {
+    assert.deepEqual(computeProductAffinity([]), { totalOrders: 0, rules: [] });
+  });
+});
+
+describe("getBoughtANotBCustomerIds", () => {
+  it("returns the customers who bought A but never B in the orders", () => {
+    assert.deepEqual(getBoughtANotBCustomerIds(orders, a.id, b.id), ["c3", "c4"]);
+  });
+
+  it("counts B bought in another order", () => {
+    assert.deepEqual(getBoughtANotBCustomerIds(orders, c.id, a.id), ["c5", "c6", "c8"]);
+  });
+});
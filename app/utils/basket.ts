@@ -0,0 +1,140 @@
+/**
+ * Market Basket Analysis
+ *
+ * Finds products that are bought together, from the products of each order:
+ *   support    = orders with A and B / all orders
+ *   confidence = orders with A and B / orders with A   (how often A leads to B)
+ *   lift       = confidence / (orders with B / all orders)
+ * A lift above 1 means buying A makes B more likely than it is on its own.
+ *
+ * Confidence and lift are directional, so each pair is listed both ways (A → B and
+ * B → A). Pairs seen together in fewer than MIN_PAIR_ORDERS orders are left out, as
+ * their lift is mostly noise.
+ *
+ * Pure and client-safe: orders are loaded by the caller (GraphQL or warehouse).
+ */
+
+// Orders a pair needs in common to be listed
+export const MIN_PAIR_ORDERS = 2;
+
+// Rules returned, strongest lift first
+export const MAX_AFFINITY_RULES = 100;
+
+export interface BasketProduct {
+  id: string;
+  title: string;
+}
+
+export interface BasketOrder {
+  customerId: string | null;
+  products: BasketProduct[];
+}
+
+export interface ProductAffinityRule {
+  productA: BasketProduct;
+  productB: BasketProduct;
+  orders: number; // orders with both products
+  support: number; // % of all orders
+  confidence: number; // % of orders with A that also have B
+  lift: number;
+}
+
+export interface ProductAffinity {
+  totalOrders: number;
+  rules: ProductAffinityRule[];
+}
+
+/**
+ * Get the distinct products of an order (a product bought twice counts once)
+ */
+function getOrderProducts(order: BasketOrder): BasketProduct[] {
+  const products = new Map<string, BasketProduct>();
+  order.products.forEach((product) => {
+    if (!products.has(product.id)) {
+      products.set(product.id, product);
+    }
+  });
+  return Array.from(products.values());
+}
+
+/**
+ * Compute support, confidence and lift of every product pair bought together
+ */
+export function computeProductAffinity(
+  orders: BasketOrder[],
+  minPairOrders: number = MIN_PAIR_ORDERS,
+  limit: number = MAX_AFFINITY_RULES
+): ProductAffinity {
+  const products = new Map<string, BasketProduct>();
+  const productOrders = new Map<string, number>();
+  const pairOrders = new Map<string, number>();
+
+  orders.forEach((order) => {
+    const orderProducts = getOrderProducts(order);
+    orderProducts.forEach((product, index) => {
+      products.set(product.id, product);
+      productOrders.set(product.id, (productOrders.get(product.id) || 0) + 1);
+
+      // Each pair is counted once per order, keyed by its sorted ids
+      orderProducts.slice(index + 1).forEach((other) => {
+        const key = JSON.stringify([product.id, other.id].sort());
+        pairOrders.set(key, (pairOrders.get(key) || 0) + 1);
+      });
+    });
+  });
+
+  const totalOrders = orders.length;
+  const rules: ProductAffinityRule[] = [];
+
+  pairOrders.forEach((together, key) => {
+    if (together < minPairOrders) return;
+
+    const [firstId, secondId] = JSON.parse(key) as [string, string];
+    [
+      [firstId, secondId],
+      [secondId, firstId],
+    ].forEach(([idA, idB]) => {
+      const confidence = together / productOrders.get(idA)!;
+      const shareB = productOrders.get(idB)! / totalOrders;
+      rules.push({
+        productA: products.get(idA)!,
+        productB: products.get(idB)!,
+        orders: together,
+        support: (together / totalOrders) * 100,
+        confidence: confidence * 100,
+        lift: confidence / shareB,
+      });
+    });
+  });
+
+  rules.sort((a, b) => b.lift - a.lift || b.orders - a.orders);
+
+  return { totalOrders, rules: rules.slice(0, limit) };
+}
+
+/**
+ * Get the ids of the customers who bought product A but not product B
+ * Only the orders passed in are considered (the analysed date range): callers that
+ * can read the whole order history should also drop the customers who bought B
+ * outside it.
+ */
+export function getBoughtANotBCustomerIds(
+  orders: BasketOrder[],
+  productAId: string,
+  productBId: string
+): string[] {
+  const boughtA = new Set<string>();
+  const boughtB = new Set<string>();
+
+  orders.forEach((order) => {
+    if (!order.customerId) return;
+    if (order.products.some((product) => product.id === productAId)) {
+      boughtA.add(order.customerId);
+    }
+    if (order.products.some((product) => product.id === productBId)) {
+      boughtB.add(order.customerId);
+    }
+  });
+
+  return Array.from(boughtA).filter((customerId) => !boughtB.has(customerId));
+}
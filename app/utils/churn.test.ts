@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ONE_TIME_BUYER_INTERVAL_DAYS,
+  getChurnRiskBand,
+  getChurnRiskCustomerIds,
+  scoreChurnRisk,
+  summarizeChurnRisk,
+  type ChurnCustomer,
+} from "./churn";
+
+const now = new Date("2024-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+// Orders every 10 days, last one 25 days ago
+const frequentBuyer: ChurnCustomer = {
+  id: "frequent",
+  orderCount: 5,
+  firstOrderDate: daysAgo(65),
+  lastOrderDate: daysAgo(25),
+};
+
+// Orders yearly, last one 6 months ago
+const yearlyBuyer: ChurnCustomer = {
+  id: "yearly",
+  orderCount: 3,
+  firstOrderDate: daysAgo(910),
+  lastOrderDate: daysAgo(180),
+};
+
+describe("scoreChurnRisk", () => {
+  it("compares the time since the last order with the customer's own rhythm", () => {
+    const frequent = scoreChurnRisk(frequentBuyer, now)!;
+    assert.equal(frequent.intervalDays, 10);
+    assert.equal(frequent.daysSinceLastOrder, 25);
+    assert.equal(frequent.score, 2.5);
+    assert.equal(frequent.band, "high");
+
+    const yearly = scoreChurnRisk(yearlyBuyer, now)!;
+    assert.equal(yearly.intervalDays, 365);
+    assert.equal(yearly.band, "low");
+  });
+
+  it("uses the default interval for one-time and same-day buyers", () => {
+    const oneTime = scoreChurnRisk(
+      { id: "once", orderCount: 1, firstOrderDate: daysAgo(135), lastOrderDate: daysAgo(135) },
+      now
+    )!;
+    assert.equal(oneTime.intervalDays, ONE_TIME_BUYER_INTERVAL_DAYS);
+    assert.equal(oneTime.band, "medium");
+
+    const sameDay = scoreChurnRisk(
+      { id: "same-day", orderCount: 2, firstOrderDate: daysAgo(10), lastOrderDate: daysAgo(10) },
+      now
+    )!;
+    assert.equal(sameDay.intervalDays, ONE_TIME_BUYER_INTERVAL_DAYS);
+  });
+
+  it("doesn't score customers without orders", () => {
+    assert.equal(
+      scoreChurnRisk({ id: "none", orderCount: 0, firstOrderDate: null, lastOrderDate: null }, now),
+      null
+    );
+  });
+});
+
+describe("getChurnRiskBand", () => {
+  it("puts the thresholds in the higher band", () => {
+    assert.equal(getChurnRiskBand(1.49), "low");
+    assert.equal(getChurnRiskBand(1.5), "medium");
+    assert.equal(getChurnRiskBand(2.5), "high");
+  });
+});
+
+describe("summarizeChurnRisk", () => {
+  const customers = [
+    frequentBuyer,
+    yearlyBuyer,
+    { id: "none", orderCount: 0, firstOrderDate: null, lastOrderDate: null },
+  ];
+
+  it("counts scored customers by band", () => {
+    assert.deepEqual(
+      summarizeChurnRisk(customers, now).map((band) => [band.id, band.customers, band.share]),
+      [
+        ["low", 1, 50],
+        ["medium", 0, 0],
+        ["high", 1, 50],
+      ]
+    );
+  });
+
+  it("lists the customers of a band", () => {
+    assert.deepEqual(getChurnRiskCustomerIds(customers, "high", now), ["frequent"]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Churn Risk
+ *
+ * Scores how overdue a customer's next order is, relative to their own buying rhythm:
+ *   score = days since last order / usual days between orders
+ * where the usual interval is the average gap between their first and last order.
+ * Someone who buys every 10 days is high risk after 25 days without an order, while
+ * a yearly buyer is still low risk after 6 months.
+ *
+ * One-time buyers have no rhythm of their own, so they are compared against
+ * ONE_TIME_BUYER_INTERVAL_DAYS. Customers without orders aren't scored.
+ *
+ * Bands:
+ * - Low: ordered within 1.5x their usual interval
+ * - Medium: 1.5x to 2.5x their usual interval without an order
+ * - High: 2.5x their usual interval or more without an order
+ *
+ * Pure and client-safe: customers are loaded by the caller (GraphQL or warehouse).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Expected interval of customers with a single order
+export const ONE_TIME_BUYER_INTERVAL_DAYS = 90;
+
+// Score thresholds of the Medium and High bands
+export const MEDIUM_CHURN_RISK_SCORE = 1.5;
+export const HIGH_CHURN_RISK_SCORE = 2.5;
+
+export type ChurnRiskBand = "low" | "medium" | "high";
+
+export interface ChurnCustomer {
+  id: string;
+  orderCount: number;
+  firstOrderDate: Date | string | null;
+  lastOrderDate: Date | string | null;
+}
+
+export interface ChurnRiskBandDefinition {
+  id: ChurnRiskBand;
+  label: string;
+  description: string;
+  tone: "success" | "warning" | "critical";
+}
+
+export interface ChurnRiskScore {
+  customerId: string;
+  intervalDays: number;
+  daysSinceLastOrder: number;
+  score: number;
+  band: ChurnRiskBand;
+}
+
+export interface ChurnRiskSummary extends ChurnRiskBandDefinition {
+  customers: number;
+  share: number; // % of scored customers
+}
+
+export const CHURN_RISK_BANDS: ChurnRiskBandDefinition[] = [
+  {
+    id: "low",
+    label: "Low",
+    description: "Ordering on their usual rhythm",
+    tone: "success",
+  },
+  {
+    id: "medium",
+    label: "Medium",
+    description: `${MEDIUM_CHURN_RISK_SCORE}x to ${HIGH_CHURN_RISK_SCORE}x their usual interval without an order`,
+    tone: "warning",
+  },
+  {
+    id: "high",
+    label: "High",
+    description: `${HIGH_CHURN_RISK_SCORE}x their usual interval or more without an order`,
+    tone: "critical",
+  },
+];
+
+/**
+ * Check if a value is a known churn risk band
+ */
+export function isChurnRiskBand(value: string | null | undefined): value is ChurnRiskBand {
+  return CHURN_RISK_BANDS.some((band) => band.id === value);
+}
+
+/**
+ * Get the band of a churn risk score
+ */
+export function getChurnRiskBand(score: number): ChurnRiskBand {
+  if (score >= HIGH_CHURN_RISK_SCORE) return "high";
+  if (score >= MEDIUM_CHURN_RISK_SCORE) return "medium";
+  return "low";
+}
+
+/**
+ * Score a customer's churn risk
+ * Returns null for customers without orders.
+ */
+export function scoreChurnRisk(
+  customer: ChurnCustomer,
+  now: Date = new Date()
+): ChurnRiskScore | null {
+  if (customer.orderCount <= 0 || !customer.lastOrderDate) {
+    return null;
+  }
+
+  const lastOrderTime = new Date(customer.lastOrderDate).getTime();
+  const firstOrderTime = customer.firstOrderDate
+    ? new Date(customer.firstOrderDate).getTime()
+    : lastOrderTime;
+  const daysSinceLastOrder = Math.max(0, (now.getTime() - lastOrderTime) / DAY_MS);
+
+  // Orders on the same day (or a missing first order) don't make a rhythm
+  const intervalDays =
+    customer.orderCount > 1 && lastOrderTime - firstOrderTime >= DAY_MS
+      ? (lastOrderTime - firstOrderTime) / DAY_MS / (customer.orderCount - 1)
+      : ONE_TIME_BUYER_INTERVAL_DAYS;
+  const score = daysSinceLastOrder / intervalDays;
+
+  return {
+    customerId: customer.id,
+    intervalDays,
+    daysSinceLastOrder,
+    score,
+    band: getChurnRiskBand(score),
+  };
+}
+
+/**
+ * Count scored customers by band (every band is listed, even when empty)
+ */
+export function summarizeChurnRisk(
+  customers: ChurnCustomer[],
+  now: Date = new Date()
+): ChurnRiskSummary[] {
+  const scores = customers
+    .map((customer) => scoreChurnRisk(customer, now))
+    .filter((score): score is ChurnRiskScore => score !== null);
+
+  return CHURN_RISK_BANDS.map((band) => {
+    const members = scores.filter((score) => score.band === band.id).length;
+    return {
+      ...band,
+      customers: members,
+      share: scores.length === 0 ? 0 : (members / scores.length) * 100,
+    };
+  });
+}
+
+/**
+ * Get the ids of the customers in a band
+ */
+export function getChurnRiskCustomerIds(
+  customers: ChurnCustomer[],
+  band: ChurnRiskBand,
+  now: Date = new Date()
+): string[] {
+  return customers
+    .filter((customer) => scoreChurnRisk(customer, now)?.band === band)
+    .map((customer) => customer.id);
+}
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CLV_BUCKET_BOUNDS,
+  estimateClv,
+  predictClv,
+  summarizeClvDistribution,
+  type ClvCustomer,
+} from "./clv";
+
+const now = new Date("2024-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const newBuyer: ClvCustomer = {
+  orderCount: 1,
+  totalSpent: 100,
+  customerSince: now,
+  lastOrderDate: now,
+};
+
+const repeatBuyer: ClvCustomer = {
+  orderCount: 5,
+  totalSpent: 500,
+  customerSince: daysAgo(365),
+  lastOrderDate: now,
+};
+
+describe("estimateClv", () => {
+  it("predicts one repeat order a year for new customers (the prior)", () => {
+    const estimate = estimateClv(newBuyer, now);
+
+    assert.equal(estimate.averageOrderValue, 100);
+    assert.equal(estimate.probabilityActive, 1);
+    assert.equal(estimate.expectedOrders, 1);
+    assert.equal(estimate.predictedClv, 100);
+  });
+
+  it("projects the repeat purchase rate over the next year", () => {
+    // 5 orders over 365 days, smoothed: 5 / 730 per day
+    assert.equal(predictClv(repeatBuyer, now), 250);
+  });
+
+  it("decays once the customer is overdue", () => {
+    // Expected interval 146 days, one interval overdue
+    const estimate = estimateClv({ ...repeatBuyer, lastOrderDate: daysAgo(292) }, now);
+
+    assert.ok(Math.abs(estimate.probabilityActive - Math.exp(-1)) < 1e-9);
+    assert.equal(estimate.predictedClv, 91.97);
+  });
+
+  it("uses the order history when it's older than the customer record", () => {
+    const imported = { ...newBuyer, customerSince: now, lastOrderDate: daysAgo(730) };
+    const longStanding = { ...newBuyer, customerSince: daysAgo(730), lastOrderDate: daysAgo(730) };
+
+    assert.equal(predictClv(imported, now), predictClv(longStanding, now));
+    assert.equal(predictClv(longStanding, now), 33.33);
+  });
+
+  it("has no prediction without orders", () => {
+    assert.deepEqual(estimateClv({ ...newBuyer, orderCount: 0, lastOrderDate: null }, now), {
+      averageOrderValue: 0,
+      expectedOrders: 0,
+      probabilityActive: 0,
+      predictedClv: 0,
+    });
+  });
+});
+
+describe("summarizeClvDistribution", () => {
+  it("buckets customers with orders by predicted CLV", () => {
+    const distribution = summarizeClvDistribution(
+      [
+        newBuyer,
+        repeatBuyer,
+        { ...newBuyer, customerSince: daysAgo(730), lastOrderDate: daysAgo(730) },
+        { ...newBuyer, orderCount: 0, lastOrderDate: null },
+      ],
+      now
+    );
+
+    assert.equal(distribution.buckets.length, CLV_BUCKET_BOUNDS.length);
+    assert.equal(distribution.buckets[distribution.buckets.length - 1].label, "2500+");
+    assert.deepEqual(
+      distribution.buckets
+        .filter((bucket) => bucket.customers > 0)
+        .map((bucket) => [bucket.label, bucket.customers]),
+      [
+        ["25-50", 1],
+        ["100-250", 1],
+        ["250-500", 1],
+      ]
+    );
+    assert.equal(distribution.customers, 3);
+    assert.equal(distribution.totalPredictedClv, 383.33);
+    assert.ok(Math.abs(distribution.averagePredictedClv - 383.33 / 3) < 1e-9);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Predicted CLV
+ *
+ * Estimate of what a customer will spend over the next 12 months, computed
+ * locally from their order history. It is a simplified take on BG/NBD + Gamma-Gamma
+ * that only needs fields every customer record has:
+ *
+ * 1. Purchase rate: repeat orders over the time since the customer was created,
+ *    smoothed with a prior of 1 repeat order per year so one-time buyers and new
+ *    customers don't get extreme rates:
+ *      rate = (orders - 1 + 1) / (tenure days + 365)
+ * 2. Probability still active: 1 while the time since the last order is within the
+ *    expected interval between orders (1 / rate), then decaying exponentially
+ *    for each further interval without an order.
+ * 3. Predicted CLV = average order value x rate x 365 days x probability active
+ *
+ * Customers without orders have no prediction (0).
+ *
+ * Pure and client-safe: customers are loaded by the caller (GraphQL or warehouse).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Prediction horizon
+export const CLV_HORIZON_DAYS = 365;
+
+// Prior purchase rate: PRIOR_ORDERS repeat orders every PRIOR_DAYS
+const PRIOR_ORDERS = 1;
+const PRIOR_DAYS = 365;
+
+export interface ClvCustomer {
+  orderCount: number;
+  totalSpent: number;
+  customerSince: Date | string; // When the customer was created
+  lastOrderDate: Date | string | null;
+}
+
+export interface ClvEstimate {
+  averageOrderValue: number;
+  expectedOrders: number; // Orders expected over the horizon
+  probabilityActive: number; // 0-1
+  predictedClv: number;
+}
+
+export interface ClvBucket {
+  label: string;
+  min: number;
+  max: number | null; // null for the open-ended last bucket
+  customers: number;
+  predictedClv: number;
+}
+
+export interface ClvDistribution {
+  buckets: ClvBucket[];
+  customers: number; // Customers with orders
+  totalPredictedClv: number;
+  averagePredictedClv: number;
+}
+
+// Lower bounds of the distribution buckets (in the shop currency)
+export const CLV_BUCKET_BOUNDS = [0, 25, 50, 100, 250, 500, 1000, 2500];
+
+/**
+ * Estimate a customer's CLV over the next CLV_HORIZON_DAYS
+ */
+export function estimateClv(
+  customer: ClvCustomer,
+  now: Date = new Date()
+): ClvEstimate {
+  if (customer.orderCount <= 0 || !customer.lastOrderDate) {
+    return { averageOrderValue: 0, expectedOrders: 0, probabilityActive: 0, predictedClv: 0 };
+  }
+
+  const lastOrderTime = new Date(customer.lastOrderDate).getTime();
+  const daysSinceLastOrder = Math.max(0, (now.getTime() - lastOrderTime) / DAY_MS);
+  // Imported customers can have orders older than their customer record
+  const tenureDays = Math.max(
+    daysSinceLastOrder,
+    (now.getTime() - new Date(customer.customerSince).getTime()) / DAY_MS,
+    0
+  );
+
+  const averageOrderValue = customer.totalSpent / customer.orderCount;
+  const dailyRate = (customer.orderCount - 1 + PRIOR_ORDERS) / (tenureDays + PRIOR_DAYS);
+  const expectedIntervalDays = 1 / dailyRate;
+  const probabilityActive =
+    daysSinceLastOrder <= expectedIntervalDays
+      ? 1
+      : Math.exp(-(daysSinceLastOrder - expectedIntervalDays) / expectedIntervalDays);
+  const expectedOrders = dailyRate * CLV_HORIZON_DAYS * probabilityActive;
+
+  return {
+    averageOrderValue,
+    expectedOrders,
+    probabilityActive,
+    predictedClv: Math.round(averageOrderValue * expectedOrders * 100) / 100,
+  };
+}
+
+/**
+ * Get a customer's predicted CLV over the next CLV_HORIZON_DAYS
+ */
+export function predictClv(customer: ClvCustomer, now: Date = new Date()): number {
+  return estimateClv(customer, now).predictedClv;
+}
+
+/**
+ * Label of a distribution bucket, e.g. "100-250" or "2500+"
+ */
+function formatBucketLabel(min: number, max: number | null): string {
+  return max === null ? `${min}+` : `${min}-${max}`;
+}
+
+/**
+ * Group customers with orders by predicted CLV (every bucket is listed, even when empty)
+ */
+export function summarizeClvDistribution(
+  customers: ClvCustomer[],
+  now: Date = new Date()
+): ClvDistribution {
+  const buckets: ClvBucket[] = CLV_BUCKET_BOUNDS.map((min, index) => {
+    const max = CLV_BUCKET_BOUNDS[index + 1] ?? null;
+    return { label: formatBucketLabel(min, max), min, max, customers: 0, predictedClv: 0 };
+  });
+
+  let scored = 0;
+  let totalPredictedClv = 0;
+  for (const customer of customers) {
+    if (customer.orderCount <= 0) continue;
+
+    const predictedClv = predictClv(customer, now);
+    const bucket = buckets.find(
+      (candidate) => candidate.max === null || predictedClv < candidate.max
+    )!;
+    bucket.customers += 1;
+    bucket.predictedClv += predictedClv;
+    scored += 1;
+    totalPredictedClv += predictedClv;
+  }
+
+  return {
+    buckets,
+    customers: scored,
+    totalPredictedClv,
+    averagePredictedClv: scored === 0 ? 0 : totalPredictedClv / scored,
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildCohortRetention,
+  formatCohortMonthLabel,
+  getCohortCellCustomerIds,
+  getCohortWindow,
+  parseCohortMonths,
+  type CohortOrder,
+} from "./cohorts";
+
+const now = new Date("2024-06-15T12:00:00Z");
+
+const orders: CohortOrder[] = [
+  { customerId: "c1", createdAt: "2024-04-10T10:00:00Z", revenue: 100 },
+  { customerId: "c1", createdAt: "2024-05-05T10:00:00Z", revenue: 50 },
+  { customerId: "c1", createdAt: "2024-06-01T10:00:00Z", revenue: 25 },
+  { customerId: "c2", createdAt: "2024-04-20T10:00:00Z", revenue: 100 },
+  // June 1st in Paris
+  { customerId: "c3", createdAt: "2024-05-31T23:30:00Z", revenue: 40 },
+  { customerId: "c4", createdAt: "2024-06-02T10:00:00Z", revenue: 10 },
+];
+
+describe("getCohortWindow", () => {
+  it("starts on the first day of the oldest cohort month", () => {
+    assert.deepEqual(getCohortWindow(3, "UTC", now), {
+      startDate: new Date("2024-04-01T00:00:00Z"),
+      endDate: now,
+    });
+    assert.equal(
+      getCohortWindow(12, "America/New_York", now).startDate.toISOString(),
+      "2023-07-01T04:00:00.000Z"
+    );
+  });
+
+  it("only accepts the offered window sizes", () => {
+    assert.equal(parseCohortMonths("24"), 24);
+    assert.equal(parseCohortMonths("5"), 12);
+    assert.equal(parseCohortMonths(null), 12);
+  });
+});
+
+describe("buildCohortRetention", () => {
+  it("measures retention and revenue retention per elapsed month", () => {
+    const { cohorts } = buildCohortRetention(orders, 3, "UTC", "USD", now);
+
+    assert.deepEqual(
+      cohorts.map((cohort) => [cohort.month, cohort.size, cohort.cells.length]),
+      [
+        ["2024-04", 2, 3],
+        ["2024-05", 1, 2],
+        ["2024-06", 1, 1],
+      ]
+    );
+    assert.deepEqual(cohorts[0].cells, [
+      { offset: 0, customers: 2, revenue: 200, retention: 100, revenueRetention: 100 },
+      { offset: 1, customers: 1, revenue: 50, retention: 50, revenueRetention: 25 },
+      { offset: 2, customers: 1, revenue: 25, retention: 50, revenueRetention: 12.5 },
+    ]);
+    assert.deepEqual(cohorts[1].cells[1], {
+      offset: 1,
+      customers: 0,
+      revenue: 0,
+      retention: 0,
+      revenueRetention: 0,
+    });
+  });
+
+  it("groups customers by their first month in the shop's timezone", () => {
+    const { cohorts } = buildCohortRetention(orders, 3, "Europe/Paris", null, now);
+
+    assert.deepEqual(
+      cohorts.map((cohort) => cohort.size),
+      [2, 0, 2]
+    );
+    assert.deepEqual(cohorts[1].cells[0], {
+      offset: 0,
+      customers: 0,
+      revenue: 0,
+      retention: 0,
+      revenueRetention: null,
+    });
+  });
+});
+
+describe("getCohortCellCustomerIds", () => {
+  it("returns the cohort's customers who ordered in the cell's month", () => {
+    assert.deepEqual(getCohortCellCustomerIds(orders, "2024-04", 0), ["c1", "c2"]);
+    assert.deepEqual(getCohortCellCustomerIds(orders, "2024-04", 2), ["c1"]);
+    assert.deepEqual(getCohortCellCustomerIds(orders, "2024-06", 0, "Europe/Paris"), [
+      "c3",
+      "c4",
+    ]);
+  });
+});
+
+describe("formatCohortMonthLabel", () => {
+  it("labels cohort months", () => {
+    assert.equal(formatCohortMonthLabel("2024-03"), "Mar 2024");
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Cohorts
+ *
+ * Groups customers by the month of their first order (in the shop's timezone) and
+ * measures how each cohort comes back in the months after:
+ * - retention: % of the cohort placing an order in month N after their first
+ * - revenue retention: the cohort's revenue in month N as a % of its first month's revenue
+ *
+ * Pure and client-safe: the orders are loaded by the caller (GraphQL or warehouse).
+ * Orders must only include customers whose first order falls in the window, so
+ * customers who ordered before it don't end up in a cohort.
+ */
+
+import { getZonedDateParts, startOfZonedDay, DEFAULT_TIMEZONE } from "./dateRange";
+
+export type CohortMetric = "retention" | "revenueRetention";
+
+export interface CohortOrder {
+  customerId: string;
+  createdAt: Date | string;
+  revenue: number;
+}
+
+export interface CohortCell {
+  offset: number; // Months after the cohort's first month (0 = first month)
+  customers: number;
+  revenue: number;
+  retention: number; // % of the cohort
+  revenueRetention: number | null; // % of the first month's revenue (null when that was 0)
+}
+
+export interface Cohort {
+  month: string; // YYYY-MM
+  size: number;
+  cells: CohortCell[]; // One per elapsed month, the current month included
+}
+
+export interface CohortRetention {
+  months: number;
+  cohorts: Cohort[];
+  currencyCode: string | null;
+}
+
+export const COHORT_MONTH_OPTIONS = [6, 12, 24];
+
+export const DEFAULT_COHORT_MONTHS = 12;
+
+/**
+ * Parse a `months` query param, falling back to the default window
+ */
+export function parseCohortMonths(value: string | null | undefined): number {
+  const months = Number(value);
+  return COHORT_MONTH_OPTIONS.includes(months) ? months : DEFAULT_COHORT_MONTHS;
+}
+
+/**
+ * Get the cohort window: from the first day of the oldest cohort month until now
+ */
+export function getCohortWindow(
+  months: number,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  const { year, month } = getZonedDateParts(now, timezone);
+  return {
+    startDate: startOfZonedDay(year, month - (months - 1), 1, timezone),
+    endDate: now,
+  };
+}
+
+/**
+ * Format a date as the YYYY-MM month it falls in, in a timezone
+ */
+export function formatCohortMonth(date: Date, timezone: string): string {
+  const { year, month } = getZonedDateParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+/**
+ * Format a YYYY-MM cohort month for display, e.g. "Mar 2026"
+ */
+export function formatCohortMonthLabel(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function getMonthIndex(month: string): number {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return year * 12 + monthNumber - 1;
+}
+
+/**
+ * Get each customer's cohort month (the month of their first order)
+ */
+function getCustomerCohorts(orders: CohortOrder[], timezone: string): Map<string, string> {
+  const firstOrderDates = new Map<string, Date>();
+  for (const order of orders) {
+    const createdAt = new Date(order.createdAt);
+    const firstOrderDate = firstOrderDates.get(order.customerId);
+    if (!firstOrderDate || createdAt < firstOrderDate) {
+      firstOrderDates.set(order.customerId, createdAt);
+    }
+  }
+
+  const cohorts = new Map<string, string>();
+  firstOrderDates.forEach((date, customerId) => {
+    cohorts.set(customerId, formatCohortMonth(date, timezone));
+  });
+  return cohorts;
+}
+
+/**
+ * Build the cohort table for the window ending now
+ */
+export function buildCohortRetention(
+  orders: CohortOrder[],
+  months: number,
+  timezone: string = DEFAULT_TIMEZONE,
+  currencyCode: string | null = null,
+  now: Date = new Date()
+): CohortRetention {
+  const customerCohorts = getCustomerCohorts(orders, timezone);
+  const currentMonthIndex = getMonthIndex(formatCohortMonth(now, timezone));
+
+  // Customers and revenue per cohort month and offset
+  const activeCustomers = new Map<string, Array<Set<string>>>();
+  const revenues = new Map<string, number[]>();
+  const cohortSizes = new Map<string, number>();
+
+  for (let index = currentMonthIndex - (months - 1); index <= currentMonthIndex; index++) {
+    const month = `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+    const elapsedMonths = currentMonthIndex - index + 1;
+    activeCustomers.set(month, Array.from({ length: elapsedMonths }, () => new Set<string>()));
+    revenues.set(month, Array.from({ length: elapsedMonths }, () => 0));
+    cohortSizes.set(month, 0);
+  }
+
+  customerCohorts.forEach((month) => {
+    if (cohortSizes.has(month)) {
+      cohortSizes.set(month, cohortSizes.get(month)! + 1);
+    }
+  });
+
+  for (const order of orders) {
+    const cohortMonth = customerCohorts.get(order.customerId)!;
+    const offset =
+      getMonthIndex(formatCohortMonth(new Date(order.createdAt), timezone)) -
+      getMonthIndex(cohortMonth);
+    const customers = activeCustomers.get(cohortMonth);
+    if (!customers || offset >= customers.length) {
+      continue;
+    }
+    customers[offset].add(order.customerId);
+    revenues.get(cohortMonth)![offset] += order.revenue;
+  }
+
+  const cohorts: Cohort[] = [];
+  cohortSizes.forEach((size, month) => {
+    const monthRevenues = revenues.get(month)!;
+    cohorts.push({
+      month,
+      size,
+      cells: activeCustomers.get(month)!.map((customers, offset) => ({
+        offset,
+        customers: customers.size,
+        revenue: monthRevenues[offset],
+        retention: size === 0 ? 0 : (customers.size / size) * 100,
+        revenueRetention:
+          monthRevenues[0] === 0 ? null : (monthRevenues[offset] / monthRevenues[0]) * 100,
+      })),
+    });
+  });
+
+  return { months, cohorts, currencyCode };
+}
+
+/**
+ * Get the customers behind a cohort table cell: the cohort's customers who ordered
+ * `offset` months after their first month (offset 0 = the whole cohort)
+ */
+export function getCohortCellCustomerIds(
+  orders: CohortOrder[],
+  cohortMonth: string,
+  offset: number,
+  timezone: string = DEFAULT_TIMEZONE
+): string[] {
+  const customerCohorts = getCustomerCohorts(orders, timezone);
+  const targetMonthIndex = getMonthIndex(cohortMonth) + offset;
+  const customerIds = new Set<string>();
+
+  for (const order of orders) {
+    if (
+      customerCohorts.get(order.customerId) === cohortMonth &&
+      getMonthIndex(formatCohortMonth(new Date(order.createdAt), timezone)) === targetMonthIndex
+    ) {
+      customerIds.add(order.customerId);
+    }
+  }
+
+  return Array.from(customerIds);
+}
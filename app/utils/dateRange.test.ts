@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildPeriodComparison,
+  endOfZonedDay,
+  getComparisonDateRange,
+  getDateRangeDays,
+  parseCustomDateRangeDays,
+  resolveDateRange,
+  startOfZonedDay,
+} from "./dateRange";
+
+describe("startOfZonedDay / endOfZonedDay", () => {
+  it("starts days at the merchant's midnight", () => {
+    assert.equal(
+      startOfZonedDay(2024, 1, 15, "America/New_York").toISOString(),
+      "2024-01-15T05:00:00.000Z"
+    );
+    assert.equal(
+      startOfZonedDay(2024, 1, 15, "Asia/Tokyo").toISOString(),
+      "2024-01-14T15:00:00.000Z"
+    );
+  });
+
+  it("handles the days clocks change", () => {
+    // Spring forward: 23 hour day
+    assert.equal(
+      startOfZonedDay(2024, 3, 10, "America/New_York").toISOString(),
+      "2024-03-10T05:00:00.000Z"
+    );
+    assert.equal(
+      endOfZonedDay(2024, 3, 10, "America/New_York").toISOString(),
+      "2024-03-11T03:59:59.999Z"
+    );
+
+    // Fall back: 25 hour day
+    assert.equal(
+      startOfZonedDay(2024, 10, 27, "Europe/London").toISOString(),
+      "2024-10-26T23:00:00.000Z"
+    );
+    assert.equal(
+      endOfZonedDay(2024, 10, 27, "Europe/London").toISOString(),
+      "2024-10-27T23:59:59.999Z"
+    );
+  });
+
+  it("rolls out-of-range days over", () => {
+    assert.equal(
+      startOfZonedDay(2024, 3, 0, "UTC").toISOString(),
+      "2024-02-29T00:00:00.000Z"
+    );
+  });
+});
+
+describe("resolveDateRange", () => {
+  it("resolves rolling presets in the shop's timezone", () => {
+    const range = resolveDateRange(
+      "7days",
+      "America/New_York",
+      new Date("2024-03-12T12:00:00Z")
+    );
+
+    assert.equal(range.preset, "7days");
+    assert.equal(range.startDate.toISOString(), "2024-03-05T05:00:00.000Z");
+    assert.equal(range.endDate.toISOString(), "2024-03-13T03:59:59.999Z");
+    // Counted in calendar days, although the range is an hour short (DST)
+    assert.equal(getDateRangeDays(range), 8);
+  });
+
+  it("uses the shop's day, not the server's", () => {
+    const range = resolveDateRange(
+      "yesterday",
+      "Asia/Tokyo",
+      new Date("2024-01-01T15:30:00Z")
+    );
+
+    assert.equal(range.startDate.toISOString(), "2023-12-31T15:00:00.000Z");
+    assert.equal(range.endDate.toISOString(), "2024-01-01T14:59:59.999Z");
+  });
+
+  it("resolves calendar months and the previous period", () => {
+    const range = resolveDateRange("lastMonth", "UTC", new Date("2024-03-15T10:00:00Z"));
+
+    assert.equal(range.startDate.toISOString(), "2024-02-01T00:00:00.000Z");
+    assert.equal(range.endDate.toISOString(), "2024-02-29T23:59:59.999Z");
+    assert.equal(range.previousEndDate.toISOString(), "2024-01-31T23:59:59.999Z");
+    assert.equal(range.previousStartDate.toISOString(), "2024-01-03T00:00:00.000Z");
+  });
+
+  it("resolves custom ranges inclusively", () => {
+    const range = resolveDateRange("custom:2024-05-01:2024-05-31", "Europe/Paris");
+
+    assert.equal(range.preset, "custom");
+    assert.equal(range.startDate.toISOString(), "2024-04-30T22:00:00.000Z");
+    assert.equal(range.endDate.toISOString(), "2024-05-31T21:59:59.999Z");
+    assert.equal(getDateRangeDays(range), 31);
+  });
+
+  it("falls back on unknown presets and timezones", () => {
+    const now = new Date("2024-03-31T12:00:00Z");
+    const range = resolveDateRange("last2Weeks", "Mars/Olympus_Mons", now);
+
+    assert.equal(range.preset, "30days");
+    assert.equal(range.timezone, "UTC");
+    assert.equal(range.startDate.toISOString(), "2024-03-01T00:00:00.000Z");
+  });
+});
+
+describe("parseCustomDateRangeDays", () => {
+  it("rejects presets, malformed and reversed ranges", () => {
+    assert.deepEqual(parseCustomDateRangeDays("custom:2024-01-01:2024-01-31"), {
+      startDay: "2024-01-01",
+      endDay: "2024-01-31",
+    });
+    assert.equal(parseCustomDateRangeDays("30days"), null);
+    assert.equal(parseCustomDateRangeDays("custom:2024-1-1:2024-01-31"), null);
+    assert.equal(parseCustomDateRangeDays("custom:2024-02-01:2024-01-31"), null);
+  });
+});
+
+describe("getComparisonDateRange", () => {
+  const now = new Date("2024-03-31T12:00:00Z");
+
+  it("compares rolling ranges with the days right before", () => {
+    assert.equal(
+      getComparisonDateRange("7days", "previousPeriod", "UTC", now),
+      "custom:2024-03-16:2024-03-23"
+    );
+  });
+
+  it("compares months with the previous calendar month, clamping the last day", () => {
+    assert.equal(
+      getComparisonDateRange("thisMonth", "previousPeriod", "UTC", now),
+      "custom:2024-02-01:2024-02-29"
+    );
+    assert.equal(
+      getComparisonDateRange("lastMonth", "previousPeriod", "UTC", now),
+      "custom:2024-01-01:2024-01-31"
+    );
+  });
+
+  it("compares with the same days a year earlier", () => {
+    assert.equal(
+      getComparisonDateRange("custom:2024-02-01:2024-02-29", "previousYear", "UTC", now),
+      "custom:2023-02-01:2023-02-28"
+    );
+  });
+
+  it("returns null when comparison is off", () => {
+    assert.equal(getComparisonDateRange("7days", "none", "UTC", now), null);
+  });
+});
+
+describe("buildPeriodComparison", () => {
+  it("computes the change against the comparison period", () => {
+    assert.deepEqual(
+      buildPeriodComparison(15, 10, "previousPeriod", "custom:2024-03-01:2024-03-07"),
+      {
+        mode: "previousPeriod",
+        previousCount: 10,
+        delta: 5,
+        percentChange: 50,
+        previousStartDay: "2024-03-01",
+        previousEndDay: "2024-03-07",
+      }
+    );
+  });
+
+  it("has no percentage when the comparison period is empty", () => {
+    assert.equal(
+      buildPeriodComparison(3, 0, "previousYear", "custom:2023-03-01:2023-03-07")
+        .percentChange,
+      null
+    );
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Date Ranges
+ *
+ * Resolves the dashboard `dateRange` values into exact boundaries in the shop's
+ * timezone (Shop.ianaTimezone). Days start at midnight where the merchant is,
+ * not where the server runs (Vercel runs in UTC).
+ *
+ * Accepted values:
+ * - Presets: "today", "yesterday", "7days", "30days", "90days" (or "last7Days", ...),
+ *   "thisMonth", "lastMonth". Unknown values fall back to "30days".
+ * - Custom ranges: "custom:YYYY-MM-DD:YYYY-MM-DD" (start and end day, inclusive)
+ *
+ * Pure and client-safe: the timezone is passed in (see getShopTimezone() on the server).
+ */
+
+export type DateRangePreset =
+  | "today"
+  | "yesterday"
+  | "7days"
+  | "30days"
+  | "90days"
+  | "thisMonth"
+  | "lastMonth"
+  | "custom";
+
+export interface DateRange {
+  preset: DateRangePreset;
+  timezone: string;
+  startDate: Date;
+  endDate: Date;
+  // Period of the same length right before startDate
+  previousStartDate: Date;
+  previousEndDate: Date;
+}
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  weekday: number; // 0 (Sunday) - 6 (Saturday)
+}
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CUSTOM_DATE_RANGE_PATTERN = /^custom:(\d{4}-\d{2}-\d{2}):(\d{4}-\d{2}-\d{2})$/;
+
+const PRESET_ALIASES: Record<string, DateRangePreset> = {
+  today: "today",
+  yesterday: "yesterday",
+  "7days": "7days",
+  last7Days: "7days",
+  "30days": "30days",
+  last30Days: "30days",
+  "90days": "90days",
+  last90Days: "90days",
+  thisMonth: "thisMonth",
+  lastMonth: "lastMonth",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Intl formatters are expensive to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check if a timezone is a valid IANA timezone name
+ */
+export function isValidTimezone(timezone: string | null | undefined): boolean {
+  if (!timezone) {
+    return false;
+  }
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the calendar parts of a date in a timezone
+ */
+export function getZonedDateParts(date: Date, timezone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute } = getZonedDateParts(date, timezone);
+  const seconds = date.getUTCSeconds();
+  const asUTC = Date.UTC(year, month - 1, day, hour, minute, seconds);
+  return asUTC - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Get the instant a calendar day starts in a timezone
+ * Out-of-range days/months roll over (day 0 = last day of the previous month).
+ */
+export function startOfZonedDay(
+  year: number,
+  month: number,
+  day: number,
+  timezone: string
+): Date {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - getTimezoneOffset(new Date(utcMidnight), timezone);
+  // Re-check the offset at the guess in case a DST change happens in between
+  return new Date(utcMidnight - getTimezoneOffset(new Date(guess), timezone));
+}
+
+/**
+ * Get the last millisecond of a calendar day in a timezone
+ */
+export function endOfZonedDay(
+  year: number,
+  month: number,
+  day: number,
+  timezone: string
+): Date {
+  return new Date(startOfZonedDay(year, month, day + 1, timezone).getTime() - 1);
+}
+
+/**
+ * Format a date as the YYYY-MM-DD day it falls on in a timezone
+ */
+export function formatZonedDay(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Get the start and end day (YYYY-MM-DD) of a custom dateRange value
+ * Returns null for presets and malformed values.
+ */
+export function parseCustomDateRangeDays(
+  dateRange: string
+): { startDay: string; endDay: string } | null {
+  const match = CUSTOM_DATE_RANGE_PATTERN.exec(dateRange);
+  if (!match || match[1] > match[2]) {
+    return null;
+  }
+  return { startDay: match[1], endDay: match[2] };
+}
+
+function parseDay(day: string): [number, number, number] {
+  const [year, month, date] = day.split("-").map(Number);
+  return [year, month, date];
+}
+
+/**
+ * Resolve a dateRange value into start/end boundaries in the given timezone
+ * endDate is the last millisecond of the range's last day (today for rolling presets).
+ */
+export function resolveDateRange(
+  dateRange: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): DateRange {
+  const zone = isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  const today = getZonedDateParts(now, zone);
+
+  // Start/end of a day relative to today (0 = today, -1 = yesterday, ...)
+  const dayStart = (offset: number) =>
+    startOfZonedDay(today.year, today.month, today.day + offset, zone);
+  const dayEnd = (offset: number) =>
+    endOfZonedDay(today.year, today.month, today.day + offset, zone);
+
+  const customDays = parseCustomDateRangeDays(dateRange);
+  const preset: DateRangePreset = customDays
+    ? "custom"
+    : PRESET_ALIASES[dateRange] || "30days";
+
+  let startDate: Date;
+  let endDate = dayEnd(0);
+
+  switch (preset) {
+    case "custom": {
+      const [startYear, startMonth, startDay] = parseDay(customDays!.startDay);
+      const [endYear, endMonth, endDay] = parseDay(customDays!.endDay);
+      startDate = startOfZonedDay(startYear, startMonth, startDay, zone);
+      endDate = endOfZonedDay(endYear, endMonth, endDay, zone);
+      break;
+    }
+    case "today":
+      startDate = dayStart(0);
+      break;
+    case "yesterday":
+      startDate = dayStart(-1);
+      endDate = dayEnd(-1);
+      break;
+    case "7days":
+      startDate = dayStart(-7);
+      break;
+    case "90days":
+      startDate = dayStart(-90);
+      break;
+    case "thisMonth":
+      startDate = startOfZonedDay(today.year, today.month, 1, zone);
+      break;
+    case "lastMonth":
+      startDate = startOfZonedDay(today.year, today.month - 1, 1, zone);
+      endDate = endOfZonedDay(today.year, today.month, 0, zone);
+      break;
+    case "30days":
+    default:
+      startDate = dayStart(-30);
+      break;
+  }
+
+  const length = endDate.getTime() - startDate.getTime() + 1;
+  const previousEndDate = new Date(startDate.getTime() - 1);
+  const previousStartDate = new Date(startDate.getTime() - length);
+
+  return {
+    preset,
+    timezone: zone,
+    startDate,
+    endDate,
+    previousStartDate,
+    previousEndDate,
+  };
+}
+
+/**
+ * Number of calendar days covered by a range (rounded, so DST days count as one)
+ */
+export function getDateRangeDays(range: Pick<DateRange, "startDate" | "endDate">): number {
+  return Math.round((range.endDate.getTime() + 1 - range.startDate.getTime()) / DAY_MS);
+}
+
+/**
+ * Period a card's count is compared against
+ * - previousPeriod: same length, immediately before the range
+ * - previousYear: same days one year earlier
+ */
+export type ComparisonMode = "previousPeriod" | "previousYear" | "none";
+
+export const DEFAULT_COMPARISON_MODE: ComparisonMode = "previousPeriod";
+
+export interface PeriodComparison {
+  mode: Exclude<ComparisonMode, "none">;
+  previousCount: number;
+  delta: number;
+  // null when the previous period is 0 (no meaningful percentage)
+  percentChange: number | null;
+  previousStartDay: string;
+  previousEndDay: string;
+}
+
+/**
+ * Parse a `compare` query param, falling back to the default mode
+ */
+export function parseComparisonMode(value: string | null | undefined): ComparisonMode {
+  return value === "previousPeriod" || value === "previousYear" || value === "none"
+    ? value
+    : DEFAULT_COMPARISON_MODE;
+}
+
+/**
+ * Shift a YYYY-MM-DD day back by whole months, clamping to the month's last day
+ * (Mar 31 minus one month is Feb 28/29, Feb 29 minus a year is Feb 28)
+ */
+function shiftDayBack(day: string, months: number): string {
+  const [year, month, date] = parseDay(day);
+  const target = new Date(Date.UTC(year, month - 1 - months, 1));
+  const lastDayOfMonth = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date, lastDayOfMonth));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the comparison period of a dateRange as a custom dateRange value
+ * Month presets compare against the previous calendar month; other ranges against
+ * the same number of days right before. Returns null when comparison is off.
+ * Query functions take the result like any other range.
+ */
+export function getComparisonDateRange(
+  dateRange: string,
+  mode: ComparisonMode,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  if (mode === "none") {
+    return null;
+  }
+
+  const range = resolveDateRange(dateRange, timezone, now);
+  const startDay = formatZonedDay(range.startDate, range.timezone);
+  const endDay = formatZonedDay(range.endDate, range.timezone);
+
+  if (mode === "previousYear") {
+    return `custom:${shiftDayBack(startDay, 12)}:${shiftDayBack(endDay, 12)}`;
+  }
+
+  if (range.preset === "thisMonth") {
+    return `custom:${shiftDayBack(startDay, 1)}:${shiftDayBack(endDay, 1)}`;
+  }
+
+  if (range.preset === "lastMonth") {
+    // Whole month before, whatever its length
+    const previousEndDay = formatZonedDay(range.previousEndDate, range.timezone);
+    return `custom:${shiftDayBack(startDay, 1)}:${previousEndDay}`;
+  }
+
+  const previousStartDay = formatZonedDay(range.previousStartDate, range.timezone);
+  const previousEndDay = formatZonedDay(range.previousEndDate, range.timezone);
+  return `custom:${previousStartDay}:${previousEndDay}`;
+}
+
+/**
+ * Build the comparison between a card's count and its count in the comparison period
+ */
+export function buildPeriodComparison(
+  currentCount: number,
+  previousCount: number,
+  mode: Exclude<ComparisonMode, "none">,
+  comparisonDateRange: string
+): PeriodComparison {
+  const days = parseCustomDateRangeDays(comparisonDateRange);
+  const delta = currentCount - previousCount;
+
+  return {
+    mode,
+    previousCount,
+    delta,
+    percentChange: previousCount === 0 ? null : (delta / previousCount) * 100,
+    previousStartDay: days?.startDay || "",
+    previousEndDay: days?.endDay || "",
+  };
+}
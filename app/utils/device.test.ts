@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { classifyOrderDevice, classifyUserAgent, matchesDeviceOptions } from "./device";
+
+const iPhoneSafari =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1";
+const androidChrome =
+  "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36";
+const androidTablet =
+  "Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+const windowsEdge =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0";
+const instagram =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Instagram 330.0.0.0";
+
+describe("classifyUserAgent", () => {
+  it("classifies device type, operating system and browser", () => {
+    assert.deepEqual(classifyUserAgent(iPhoneSafari), {
+      deviceType: "Mobile",
+      os: "iOS",
+      browser: "Safari",
+    });
+    assert.deepEqual(classifyUserAgent(androidChrome), {
+      deviceType: "Mobile",
+      os: "Android",
+      browser: "Chrome",
+    });
+    assert.deepEqual(classifyUserAgent(windowsEdge), {
+      deviceType: "Desktop",
+      os: "Windows",
+      browser: "Edge",
+    });
+  });
+
+  it("tells tablets and in-app browsers apart", () => {
+    assert.equal(classifyUserAgent(androidTablet).deviceType, "Tablet");
+    assert.equal(classifyUserAgent(instagram).browser, "In-app browser");
+  });
+});
+
+describe("classifyOrderDevice", () => {
+  it("prefers the user agent", () => {
+    assert.deepEqual(
+      classifyOrderDevice({ userAgent: windowsEdge, sourceName: "iphone" }),
+      classifyUserAgent(windowsEdge)
+    );
+  });
+
+  it("falls back to the source name and landing site", () => {
+    assert.deepEqual(classifyOrderDevice({ sourceName: "iphone" }), {
+      deviceType: "Mobile",
+      os: "iOS",
+      browser: null,
+    });
+    assert.deepEqual(classifyOrderDevice({ landingSite: "/products/shirt?amp=1" }), {
+      deviceType: "Mobile",
+      os: null,
+      browser: null,
+    });
+    assert.deepEqual(classifyOrderDevice({ sourceName: "web", landingSite: "/" }), {
+      deviceType: null,
+      os: null,
+      browser: null,
+    });
+  });
+});
+
+describe("matchesDeviceOptions", () => {
+  const iPhone = classifyUserAgent(iPhoneSafari);
+
+  it("treats options of the same dimension as alternatives", () => {
+    assert.equal(matchesDeviceOptions(iPhone, ["Mobile", "Tablet"]), true);
+    assert.equal(matchesDeviceOptions(iPhone, ["Desktop", "Tablet"]), false);
+  });
+
+  it("requires every selected dimension to match", () => {
+    assert.equal(matchesDeviceOptions(iPhone, ["Mobile", "iOS", "Safari"]), true);
+    assert.equal(matchesDeviceOptions(iPhone, ["Mobile", "Android"]), false);
+    assert.equal(
+      matchesDeviceOptions({ deviceType: "Mobile", os: null, browser: null }, ["Chrome"]),
+      false
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Device Classification
+ *
+ * Classifies the device type, operating system and browser an order was placed
+ * from, using the order's client details:
+ * - User agent (client_details.user_agent on order webhooks, stored in the warehouse)
+ * - Source name ("iphone" / "android" for orders placed in a mobile app, "pos", ...)
+ * - Landing site (AMP pages are only served to mobile browsers)
+ *
+ * The user agent is not exposed by the GraphQL Admin API, so orders read from
+ * Shopify directly are classified from the source name and landing site only.
+ *
+ * Pure and client-safe.
+ */
+
+export type DeviceDimension = "deviceType" | "os" | "browser";
+
+export interface DeviceClassification {
+  deviceType: string | null;
+  os: string | null;
+  browser: string | null;
+}
+
+export interface OrderDeviceSignals {
+  userAgent?: string | null;
+  sourceName?: string | null;
+  landingSite?: string | null;
+}
+
+// Filter options, grouped by dimension (values are unique across dimensions)
+export const DEVICE_OPTIONS: Record<DeviceDimension, string[]> = {
+  deviceType: ["Mobile", "Tablet", "Desktop"],
+  os: ["iOS", "Android", "Windows", "macOS", "Linux"],
+  browser: ["Chrome", "Safari", "Firefox", "Edge", "Samsung Internet", "In-app browser"],
+};
+
+const DEVICE_DIMENSIONS = Object.keys(DEVICE_OPTIONS) as DeviceDimension[];
+
+function getOs(userAgent: string): string | null {
+  if (/iPhone|iPad|iPod/i.test(userAgent)) return "iOS";
+  if (/Android/i.test(userAgent)) return "Android";
+  if (/Windows/i.test(userAgent)) return "Windows";
+  if (/Macintosh|Mac OS X/i.test(userAgent)) return "macOS";
+  if (/Linux|CrOS/i.test(userAgent)) return "Linux";
+  return null;
+}
+
+function getDeviceType(userAgent: string): string {
+  if (/iPad|Tablet/i.test(userAgent) || (/Android/i.test(userAgent) && !/Mobile/i.test(userAgent))) {
+    return "Tablet";
+  }
+  if (/Mobi|iPhone|iPod|Android/i.test(userAgent)) {
+    return "Mobile";
+  }
+  return "Desktop";
+}
+
+// Order matters: most browsers also mention "Chrome" and "Safari" in their user agent
+function getBrowser(userAgent: string): string | null {
+  if (/FBAN|FBAV|Instagram|TikTok|Pinterest|Snapchat|; wv\)/i.test(userAgent)) return "In-app browser";
+  if (/SamsungBrowser/i.test(userAgent)) return "Samsung Internet";
+  if (/Edg(e|A|iOS)?\//i.test(userAgent)) return "Edge";
+  if (/Firefox|FxiOS/i.test(userAgent)) return "Firefox";
+  if (/Chrome|CriOS|Chromium/i.test(userAgent)) return "Chrome";
+  if (/Safari/i.test(userAgent)) return "Safari";
+  return null;
+}
+
+/**
+ * Classify a user agent string
+ */
+export function classifyUserAgent(userAgent: string): DeviceClassification {
+  return {
+    deviceType: getDeviceType(userAgent),
+    os: getOs(userAgent),
+    browser: getBrowser(userAgent),
+  };
+}
+
+/**
+ * Classify the device of an order from whichever client details it has
+ * Unknown dimensions are null, so the order doesn't match filters on them.
+ */
+export function classifyOrderDevice(signals: OrderDeviceSignals): DeviceClassification {
+  if (signals.userAgent) {
+    return classifyUserAgent(signals.userAgent);
+  }
+
+  const sourceName = (signals.sourceName || "").toLowerCase();
+  if (sourceName === "iphone" || sourceName === "android") {
+    return {
+      deviceType: "Mobile",
+      os: sourceName === "iphone" ? "iOS" : "Android",
+      browser: null,
+    };
+  }
+
+  if (/(\/amp\/|[?&]amp=|\.amp\b)/i.test(signals.landingSite || "")) {
+    return { deviceType: "Mobile", os: null, browser: null };
+  }
+
+  return { deviceType: null, os: null, browser: null };
+}
+
+/**
+ * Check if a classification matches the selected device options
+ * Options of the same dimension are alternatives (Mobile or Tablet), different
+ * dimensions must all match (Mobile and iOS).
+ */
+export function matchesDeviceOptions(
+  classification: DeviceClassification,
+  options: string[]
+): boolean {
+  return DEVICE_DIMENSIONS.every((dimension) => {
+    const selected = options.filter((option) => DEVICE_OPTIONS[dimension].includes(option));
+    return selected.length === 0 || selected.includes(classification[dimension] || "");
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Encryption Utilities
+ *
+ * Encrypts third-party secrets (e.g. provider API keys) before they are stored
+ * in the database. Uses AES-256-GCM with a key derived from ENCRYPTION_KEY.
+ *
+ * Stored format: base64(iv):base64(authTag):base64(ciphertext)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+/**
+ * Derive the 32-byte encryption key from the ENCRYPTION_KEY env variable
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY;
+
+  if (!secret) {
+    throw new Error("ENCRYPTION_KEY is not configured");
+  }
+
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a plain text secret
+ */
+export function encryptSecret(plainText: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plainText, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ */
+export function decryptSecret(encryptedText: string): string {
+  const [iv, authTag, encrypted] = encryptedText.split(":");
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error("Invalid encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseJsonLines, decodeTextStream } from "./jsonl";
+
+async function* chunksOf(...chunks: string[]) {
+  yield* chunks;
+}
+
+async function collect<T>(records: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const record of records) {
+    result.push(record);
+  }
+  return result;
+}
+
+function byteStream(...chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("parseJsonLines", () => {
+  it("parses one record per line, skipping blank lines", async () => {
+    const records = await collect(
+      parseJsonLines(chunksOf('{"id":1}\n\n{"id":2}\r\n')),
+    );
+
+    assert.deepEqual(records, [{ id: 1 }, { id: 2 }]);
+  });
+
+  it("joins lines split across chunks and parses a trailing line", async () => {
+    const records = await collect(
+      parseJsonLines(chunksOf('{"id":', '1}\n{"na', 'me":"a"}\n{"id":3}')),
+    );
+
+    assert.deepEqual(records, [{ id: 1 }, { name: "a" }, { id: 3 }]);
+  });
+
+  it("reports the line number of invalid JSON", async () => {
+    await assert.rejects(
+      collect(parseJsonLines(chunksOf('{"id":1}\n{oops}\n'))),
+      /Invalid JSONL at line 2/,
+    );
+  });
+});
+
+describe("decodeTextStream", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('{"name":"Zoë ✓"}\n');
+    // Split inside the two-byte "ë" and the three-byte "✓"
+    const splitAt = [10, 14];
+    const stream = byteStream(
+      bytes.slice(0, splitAt[0]),
+      bytes.slice(splitAt[0], splitAt[1]),
+      bytes.slice(splitAt[1]),
+    );
+
+    const records = await collect(parseJsonLines(decodeTextStream(stream)));
+
+    assert.deepEqual(records, [{ name: "Zoë ✓" }]);
+  });
+});
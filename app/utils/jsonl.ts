@@ -0,0 +1,78 @@
+/**
+ * JSONL (JSON Lines) Parser
+ *
+ * Streams records out of newline-delimited JSON, as returned by Shopify
+ * bulk operations, without loading the whole file into memory.
+ *
+ * Accepts any async iterable of text chunks, e.g. a decoded fetch body or
+ * fs.createReadStream(path, "utf8") for fixture files.
+ */
+
+/**
+ * Parse JSON Lines from text chunks, yielding one record per non-empty line
+ * Chunks may split lines anywhere; a trailing line without newline is parsed too.
+ */
+export async function* parseJsonLines<T = unknown>(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<T> {
+  let buffer = "";
+  let lineNumber = 0;
+
+  const parseLine = (line: string): T => {
+    try {
+      return JSON.parse(line) as T;
+    } catch {
+      throw new Error(`Invalid JSONL at line ${lineNumber}`);
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+
+    let newlineIndex = buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      lineNumber++;
+
+      if (line) {
+        yield parseLine(line);
+      }
+
+      newlineIndex = buffer.indexOf("\n");
+    }
+  }
+
+  const lastLine = buffer.trim();
+  if (lastLine) {
+    lineNumber++;
+    yield parseLine(lastLine);
+  }
+}
+
+/**
+ * Decode a byte stream (e.g. a fetch Response body) into text chunks
+ */
+export async function* decodeTextStream(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      yield decoder.decode(value, { stream: true });
+    }
+
+    const rest = decoder.decode();
+    if (rest) {
+      yield rest;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getMarketingConsent,
+  isConsented,
+  matchesConsent,
+} from "./marketingConsent";
+
+const subscribed = { state: "SUBSCRIBED", optInLevel: "CONFIRMED_OPT_IN" };
+const pending = { state: "PENDING", optInLevel: null };
+const missing = { state: null, optInLevel: null };
+
+describe("getMarketingConsent", () => {
+  it("reads the consent of the requested channel", () => {
+    const customer = {
+      emailMarketingConsent: { marketingState: "SUBSCRIBED", marketingOptInLevel: "SINGLE_OPT_IN" },
+      smsMarketingConsent: { marketingState: "UNSUBSCRIBED" },
+    };
+
+    assert.deepEqual(getMarketingConsent(customer, "email"), {
+      state: "SUBSCRIBED",
+      optInLevel: "SINGLE_OPT_IN",
+    });
+    assert.deepEqual(getMarketingConsent(customer, "sms"), {
+      state: "UNSUBSCRIBED",
+      optInLevel: null,
+    });
+    assert.deepEqual(getMarketingConsent({}, "email"), missing);
+  });
+});
+
+describe("isConsented", () => {
+  it("only treats SUBSCRIBED as consent", () => {
+    assert.equal(isConsented("SUBSCRIBED"), true);
+    assert.equal(isConsented("PENDING"), false);
+    assert.equal(isConsented(null), false);
+  });
+});
+
+describe("matchesConsent", () => {
+  it("matches anything without selections", () => {
+    assert.equal(matchesConsent(pending, [], []), true);
+  });
+
+  it("treats a missing state as NOT_SUBSCRIBED", () => {
+    assert.equal(matchesConsent(missing, ["NOT_SUBSCRIBED"], []), true);
+    assert.equal(matchesConsent(missing, ["SUBSCRIBED"], []), false);
+  });
+
+  it("requires a subscribed consent when opt-in levels are selected", () => {
+    assert.equal(matchesConsent(subscribed, [], ["CONFIRMED_OPT_IN"]), true);
+    assert.equal(matchesConsent(subscribed, [], ["SINGLE_OPT_IN"]), false);
+    assert.equal(matchesConsent(pending, [], ["CONFIRMED_OPT_IN"]), false);
+    assert.equal(
+      matchesConsent(pending, ["SUBSCRIBED", "PENDING"], ["CONFIRMED_OPT_IN"]),
+      false,
+    );
+  });
+
+  it("treats a missing opt-in level as UNKNOWN", () => {
+    assert.equal(
+      matchesConsent({ state: "SUBSCRIBED", optInLevel: null }, ["SUBSCRIBED"], ["UNKNOWN"]),
+      true,
+    );
+  });
+});
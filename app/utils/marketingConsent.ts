@@ -0,0 +1,93 @@
+/**
+ * Marketing Consent
+ *
+ * Email and SMS marketing consent of a customer, as Shopify records it
+ * (emailMarketingConsent / smsMarketingConsent):
+ * - State: SUBSCRIBED, UNSUBSCRIBED, PENDING (double opt-in not confirmed yet),
+ *   NOT_SUBSCRIBED (never asked)
+ * - Opt-in level: SINGLE_OPT_IN, CONFIRMED_OPT_IN (double opt-in), UNKNOWN
+ *
+ * Only SUBSCRIBED counts as consent for sending marketing (GDPR / CAN-SPAM);
+ * a missing state is treated as not consented.
+ *
+ * Pure and client-safe.
+ */
+
+export type MarketingChannel = "email" | "sms";
+
+export interface MarketingConsent {
+  state: string | null;
+  optInLevel: string | null;
+}
+
+export const CONSENT_STATE_OPTIONS = [
+  { label: "Subscribed", value: "SUBSCRIBED" },
+  { label: "Pending confirmation", value: "PENDING" },
+  { label: "Unsubscribed", value: "UNSUBSCRIBED" },
+  { label: "Not subscribed", value: "NOT_SUBSCRIBED" },
+];
+
+export const OPT_IN_LEVEL_OPTIONS = [
+  { label: "Single opt-in", value: "SINGLE_OPT_IN" },
+  { label: "Confirmed opt-in (double)", value: "CONFIRMED_OPT_IN" },
+  { label: "Unknown", value: "UNKNOWN" },
+];
+
+export interface ConsentNode {
+  marketingState?: string | null;
+  marketingOptInLevel?: string | null;
+}
+
+/**
+ * Get a customer's consent for a channel (GraphQL customer node or warehouse node)
+ */
+export function getMarketingConsent(
+  customer: { emailMarketingConsent?: ConsentNode | null; smsMarketingConsent?: ConsentNode | null },
+  channel: MarketingChannel
+): MarketingConsent {
+  const consent =
+    channel === "email" ? customer?.emailMarketingConsent : customer?.smsMarketingConsent;
+  return {
+    state: consent?.marketingState || null,
+    optInLevel: consent?.marketingOptInLevel || null,
+  };
+}
+
+/**
+ * Check if a consent state allows sending marketing
+ */
+export function isConsented(state: string | null | undefined): boolean {
+  return state === "SUBSCRIBED";
+}
+
+/**
+ * Check a consent against the selected states and opt-in levels
+ * Empty selections match anything. Only subscribed consents carry a meaningful
+ * opt-in level, so selecting a level implies SUBSCRIBED.
+ */
+export function matchesConsent(
+  consent: MarketingConsent,
+  states: string[],
+  optInLevels: string[]
+): boolean {
+  if (states.length > 0 && !states.includes(consent.state || "NOT_SUBSCRIBED")) {
+    return false;
+  }
+  if (optInLevels.length > 0) {
+    return (
+      isConsented(consent.state) &&
+      optInLevels.includes(consent.optInLevel || "UNKNOWN")
+    );
+  }
+  return true;
+}
+
+/**
+ * Describe a consent state, e.g. "Subscribed"
+ */
+export function getConsentStateLabel(state: string | null | undefined): string {
+  return (
+    CONSENT_STATE_OPTIONS.find((option) => option.value === state)?.label ||
+    "Not subscribed"
+  );
+}
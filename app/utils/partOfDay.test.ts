@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_PART_OF_DAY_BOUNDARIES,
+  formatHour,
+  getPartOfDay,
+  getPartOfDayLabel,
+  isHourInPartOfDay,
+  isValidPartOfDayBoundaries,
+  normalizePartOfDayBoundaries,
+  parsePartOfDay,
+} from "./partOfDay";
+
+// Night runs from 10pm to 5am
+const lateNight = { morning: 5, afternoon: 12, evening: 17, night: 22 };
+
+describe("getPartOfDay", () => {
+  it("splits the day at the default boundaries", () => {
+    assert.equal(getPartOfDay(0), "night");
+    assert.equal(getPartOfDay(5), "night");
+    assert.equal(getPartOfDay(6), "morning");
+    assert.equal(getPartOfDay(12), "afternoon");
+    assert.equal(getPartOfDay(18), "evening");
+    assert.equal(getPartOfDay(23), "evening");
+  });
+
+  it("wraps night past midnight", () => {
+    assert.equal(getPartOfDay(21, lateNight), "evening");
+    assert.equal(getPartOfDay(22, lateNight), "night");
+    assert.equal(getPartOfDay(2, lateNight), "night");
+    assert.equal(getPartOfDay(5, lateNight), "morning");
+    assert.equal(isHourInPartOfDay(23, "night", lateNight), true);
+    assert.equal(isHourInPartOfDay(12, "night", lateNight), false);
+  });
+});
+
+describe("isValidPartOfDayBoundaries", () => {
+  it("accepts whole hours in order around the clock", () => {
+    assert.equal(isValidPartOfDayBoundaries(DEFAULT_PART_OF_DAY_BOUNDARIES), true);
+    assert.equal(isValidPartOfDayBoundaries(lateNight), true);
+  });
+
+  it("rejects parts out of order, overlapping or out of range", () => {
+    assert.equal(
+      isValidPartOfDayBoundaries({ morning: 6, afternoon: 18, evening: 12, night: 0 }),
+      false
+    );
+    assert.equal(
+      isValidPartOfDayBoundaries({ morning: 6, afternoon: 6, evening: 18, night: 0 }),
+      false
+    );
+    assert.equal(
+      isValidPartOfDayBoundaries({ morning: 6, afternoon: 12, evening: 18, night: 24 }),
+      false
+    );
+    assert.equal(
+      isValidPartOfDayBoundaries({ morning: 6.5, afternoon: 12, evening: 18, night: 0 }),
+      false
+    );
+    assert.equal(isValidPartOfDayBoundaries(null), false);
+  });
+
+  it("falls back to the defaults for invalid saved boundaries", () => {
+    assert.deepEqual(normalizePartOfDayBoundaries({ morning: 6 }), DEFAULT_PART_OF_DAY_BOUNDARIES);
+    assert.deepEqual(normalizePartOfDayBoundaries({ ...lateNight, extra: 1 }), lateNight);
+  });
+});
+
+describe("labels", () => {
+  it("formats hours and labels", () => {
+    assert.equal(formatHour(0), "12 AM");
+    assert.equal(formatHour(12), "12 PM");
+    assert.equal(formatHour(17), "5 PM");
+    assert.equal(getPartOfDayLabel("night", lateNight), "Night (10 PM - 5 AM)");
+  });
+
+  it("parses labels with or without their hours", () => {
+    assert.equal(parsePartOfDay("Morning"), "morning");
+    assert.equal(parsePartOfDay("Evening (6pm-12am)"), "evening");
+    assert.equal(parsePartOfDay("Night (10 PM - 5 AM)"), "night");
+    assert.equal(parsePartOfDay("Weekend"), null);
+  });
+});
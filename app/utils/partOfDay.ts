@@ -0,0 +1,133 @@
+/**
+ * Parts of Day
+ *
+ * Splits the day into morning, afternoon, evening and night by the hour each part
+ * starts at, in that order around the clock. A part runs until the next one starts,
+ * so night can wrap past midnight (e.g. 10pm-6am).
+ *
+ * The boundaries are a shop preference, shared by the Purchase Timing cards, the
+ * purchase heatmap and the Shopping Timing filter.
+ *
+ * Pure and client-safe.
+ */
+
+export type PartOfDay = "morning" | "afternoon" | "evening" | "night";
+
+// Start hour (0-23) of each part of the day
+export type PartOfDayBoundaries = Record<PartOfDay, number>;
+
+export const PARTS_OF_DAY: { id: PartOfDay; label: string }[] = [
+  { id: "morning", label: "Morning" },
+  { id: "afternoon", label: "Afternoon" },
+  { id: "evening", label: "Evening" },
+  { id: "night", label: "Night" },
+];
+
+export const DEFAULT_PART_OF_DAY_BOUNDARIES: PartOfDayBoundaries = {
+  morning: 6,
+  afternoon: 12,
+  evening: 18,
+  night: 0,
+};
+
+/**
+ * Check if boundaries are whole hours that go around the clock in order
+ * (morning, afternoon, evening, night), every part at least an hour long
+ */
+export function isValidPartOfDayBoundaries(value: unknown): value is PartOfDayBoundaries {
+  if (!value || typeof value !== "object") return false;
+
+  const boundaries = value as Record<string, unknown>;
+  const hours = PARTS_OF_DAY.map((part) => boundaries[part.id]);
+  if (!hours.every((hour) => Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) <= 23)) {
+    return false;
+  }
+
+  // Hours after the morning start must increase around the clock
+  const offsets = (hours as number[]).map((hour) => (hour - (hours[0] as number) + 24) % 24);
+  return offsets.every((offset, index) => index === 0 || offset > offsets[index - 1]);
+}
+
+/**
+ * Use saved boundaries when they are valid, otherwise the defaults
+ */
+export function normalizePartOfDayBoundaries(value: unknown): PartOfDayBoundaries {
+  return isValidPartOfDayBoundaries(value)
+    ? { morning: value.morning, afternoon: value.afternoon, evening: value.evening, night: value.night }
+    : DEFAULT_PART_OF_DAY_BOUNDARIES;
+}
+
+/**
+ * Get the start and end hour of a part of the day (the end hour is excluded)
+ */
+export function getPartOfDayHours(
+  part: PartOfDay,
+  boundaries: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): { startHour: number; endHour: number } {
+  const index = PARTS_OF_DAY.findIndex((definition) => definition.id === part);
+  const next = PARTS_OF_DAY[(index + 1) % PARTS_OF_DAY.length];
+  return { startHour: boundaries[part], endHour: boundaries[next.id] };
+}
+
+/**
+ * Check if an hour (0-23) falls in a part of the day
+ */
+export function isHourInPartOfDay(
+  hour: number,
+  part: PartOfDay,
+  boundaries: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): boolean {
+  const { startHour, endHour } = getPartOfDayHours(part, boundaries);
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour; // Wraps around midnight
+}
+
+/**
+ * Get the part of the day an hour (0-23) falls in
+ */
+export function getPartOfDay(
+  hour: number,
+  boundaries: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): PartOfDay {
+  return PARTS_OF_DAY.find((part) => isHourInPartOfDay(hour, part.id, boundaries))!.id;
+}
+
+/**
+ * Format an hour (0-23) as "6 AM", "12 PM", ...
+ */
+export function formatHour(hour: number): string {
+  const period = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${period}`;
+}
+
+/**
+ * Format the hours of a part of the day, e.g. "6 AM - 12 PM"
+ */
+export function formatPartOfDayHours(
+  part: PartOfDay,
+  boundaries: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): string {
+  const { startHour, endHour } = getPartOfDayHours(part, boundaries);
+  return `${formatHour(startHour)} - ${formatHour(endHour)}`;
+}
+
+/**
+ * Get a part of the day's label with its hours, e.g. "Morning (6 AM - 12 PM)"
+ */
+export function getPartOfDayLabel(
+  part: PartOfDay,
+  boundaries: PartOfDayBoundaries = DEFAULT_PART_OF_DAY_BOUNDARIES
+): string {
+  const label = PARTS_OF_DAY.find((definition) => definition.id === part)!.label;
+  return `${label} (${formatPartOfDayHours(part, boundaries)})`;
+}
+
+/**
+ * Read the part of the day from a label, with or without its hours
+ * ("Morning", or "Morning (6am-12pm)" as saved before the hours were configurable)
+ */
+export function parsePartOfDay(value: string): PartOfDay | null {
+  const name = value.trim().split(/\s/)[0].toLowerCase();
+  return PARTS_OF_DAY.find((part) => part.id === name)?.id ?? null;
+}
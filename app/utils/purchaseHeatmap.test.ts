@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildPurchaseHeatmap,
+  getHeatmapCellCustomerIds,
+  type HeatmapOrder,
+} from "./purchaseHeatmap";
+
+// 2024-06-03 is a Monday
+const orders: HeatmapOrder[] = [
+  { customerId: "c1", createdAt: "2024-06-03T09:15:00Z", revenue: 10.1 },
+  { customerId: "c2", createdAt: "2024-06-03T09:45:00Z", revenue: 20.2 },
+  { customerId: "c1", createdAt: "2024-06-03T09:50:00Z", revenue: 5 },
+  { customerId: null, createdAt: "2024-06-09T23:30:00Z", revenue: 7 },
+];
+
+describe("buildPurchaseHeatmap", () => {
+  it("counts orders and revenue per weekday and hour", () => {
+    const heatmap = buildPurchaseHeatmap(orders, "UTC", "EUR");
+
+    assert.equal(heatmap.cells.length, 7);
+    assert.equal(heatmap.cells[0].length, 24);
+    assert.deepEqual(heatmap.cells[1][9], { orders: 3, revenue: 35.3 });
+    assert.deepEqual(heatmap.cells[0][23], { orders: 1, revenue: 7 });
+    assert.equal(heatmap.totalOrders, 4);
+    assert.equal(heatmap.totalRevenue, 42.3);
+    assert.equal(heatmap.maxOrders, 3);
+    assert.equal(heatmap.maxRevenue, 35.3);
+    assert.equal(heatmap.currencyCode, "EUR");
+  });
+
+  it("places orders in the shop timezone", () => {
+    // Sunday 11:30pm UTC is Monday 1:30am in Paris (summer time)
+    const heatmap = buildPurchaseHeatmap(orders, "Europe/Paris");
+
+    assert.equal(heatmap.cells[0][23].orders, 0);
+    assert.equal(heatmap.cells[1][1].orders, 1);
+    assert.equal(heatmap.cells[1][11].orders, 3);
+  });
+});
+
+describe("getHeatmapCellCustomerIds", () => {
+  it("returns each customer who ordered in the cell once", () => {
+    assert.deepEqual(getHeatmapCellCustomerIds(orders, 1, 9), ["c1", "c2"]);
+    assert.deepEqual(getHeatmapCellCustomerIds(orders, 0, 23), []);
+  });
+});
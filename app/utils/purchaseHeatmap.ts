@@ -0,0 +1,105 @@
+/**
+ * Purchase Heatmap
+ *
+ * Counts orders and revenue by day of week and hour of day (7 x 24 cells), in the
+ * shop timezone, to show when customers buy. Rows are weekdays as returned by
+ * getZonedDateParts (0 = Sunday), columns are hours 0-23.
+ *
+ * Pure and client-safe: orders are loaded by the caller (GraphQL or warehouse).
+ */
+
+import { getZonedDateParts, DEFAULT_TIMEZONE } from "./dateRange";
+
+export type HeatmapMetric = "orders" | "revenue";
+
+// Display order of the rows, Monday first
+export const HEATMAP_WEEKDAYS: { weekday: number; label: string }[] = [
+  { weekday: 1, label: "Mon" },
+  { weekday: 2, label: "Tue" },
+  { weekday: 3, label: "Wed" },
+  { weekday: 4, label: "Thu" },
+  { weekday: 5, label: "Fri" },
+  { weekday: 6, label: "Sat" },
+  { weekday: 0, label: "Sun" },
+];
+
+export interface HeatmapOrder {
+  customerId: string | null;
+  createdAt: Date | string;
+  revenue: number;
+}
+
+export interface HeatmapCell {
+  orders: number;
+  revenue: number;
+}
+
+export interface PurchaseHeatmap {
+  cells: HeatmapCell[][]; // [weekday][hour]
+  totalOrders: number;
+  totalRevenue: number;
+  maxOrders: number;
+  maxRevenue: number;
+  currencyCode: string | null;
+}
+
+/**
+ * Get the weekday (0 = Sunday) and hour of an order in the shop timezone
+ */
+function getOrderSlot(order: HeatmapOrder, timezone: string) {
+  const { weekday, hour } = getZonedDateParts(new Date(order.createdAt), timezone);
+  return { weekday, hour };
+}
+
+/**
+ * Count orders and revenue per weekday and hour
+ */
+export function buildPurchaseHeatmap(
+  orders: HeatmapOrder[],
+  timezone: string = DEFAULT_TIMEZONE,
+  currencyCode: string | null = null
+): PurchaseHeatmap {
+  const cells: HeatmapCell[][] = Array.from({ length: 7 }, () =>
+    Array.from({ length: 24 }, () => ({ orders: 0, revenue: 0 }))
+  );
+
+  orders.forEach((order) => {
+    const { weekday, hour } = getOrderSlot(order, timezone);
+    cells[weekday][hour].orders += 1;
+    cells[weekday][hour].revenue += order.revenue;
+  });
+
+  const roundedCells = cells.map((row) =>
+    row.map((cell) => ({ orders: cell.orders, revenue: Math.round(cell.revenue * 100) / 100 }))
+  );
+  const allCells = roundedCells.flat();
+
+  return {
+    cells: roundedCells,
+    totalOrders: orders.length,
+    totalRevenue:
+      Math.round(allCells.reduce((sum, cell) => sum + cell.revenue, 0) * 100) / 100,
+    maxOrders: Math.max(...allCells.map((cell) => cell.orders)),
+    maxRevenue: Math.max(...allCells.map((cell) => cell.revenue)),
+    currencyCode,
+  };
+}
+
+/**
+ * Get the ids of the customers who ordered in a heatmap cell
+ */
+export function getHeatmapCellCustomerIds(
+  orders: HeatmapOrder[],
+  weekday: number,
+  hour: number,
+  timezone: string = DEFAULT_TIMEZONE
+): string[] {
+  const customerIds = new Set<string>();
+  orders.forEach((order) => {
+    const slot = getOrderSlot(order, timezone);
+    if (order.customerId && slot.weekday === weekday && slot.hour === hour) {
+      customerIds.add(order.customerId);
+    }
+  });
+  return Array.from(customerIds);
+}
@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  describeRelativeDate,
+  isDateInRange,
+  isRelativeDateValid,
+  resolveRelativeDate,
+  type RelativeDate,
+} from "./relativeDate";
+
+// A Friday
+const now = new Date("2024-05-31T18:00:00Z");
+
+describe("resolveRelativeDate", () => {
+  it("resolves 'in the last' and 'more than ... ago' as complements", () => {
+    assert.deepEqual(resolveRelativeDate({ type: "inLast", amount: 30, unit: "days" }, "UTC", now), {
+      from: "2024-05-01",
+      to: null,
+    });
+    assert.deepEqual(resolveRelativeDate({ type: "moreThan", amount: 30, unit: "days" }, "UTC", now), {
+      from: null,
+      to: "2024-04-30",
+    });
+    assert.deepEqual(resolveRelativeDate({ type: "inLast", amount: 2, unit: "weeks" }, "UTC", now), {
+      from: "2024-05-17",
+      to: null,
+    });
+  });
+
+  it("clamps months to the end of shorter months", () => {
+    assert.deepEqual(resolveRelativeDate({ type: "inLast", amount: 3, unit: "months" }, "UTC", now), {
+      from: "2024-02-29",
+      to: null,
+    });
+  });
+
+  it("resolves calendar periods, weeks starting on Monday", () => {
+    const period = (value: RelativeDate & { type: "period" }, date = now) =>
+      resolveRelativeDate(value, "UTC", date);
+
+    assert.deepEqual(period({ type: "period", period: "today" }), {
+      from: "2024-05-31",
+      to: "2024-05-31",
+    });
+    assert.deepEqual(period({ type: "period", period: "thisWeek" }), {
+      from: "2024-05-27",
+      to: "2024-06-02",
+    });
+    assert.deepEqual(period({ type: "period", period: "lastWeek" }), {
+      from: "2024-05-20",
+      to: "2024-05-26",
+    });
+    assert.deepEqual(period({ type: "period", period: "thisQuarter" }), {
+      from: "2024-04-01",
+      to: "2024-06-30",
+    });
+    assert.deepEqual(period({ type: "period", period: "lastMonth" }), {
+      from: "2024-04-01",
+      to: "2024-04-30",
+    });
+  });
+
+  it("resolves against today in the shop's timezone", () => {
+    // Already Saturday June 1 in Sydney, still Friday May 31 in UTC
+    assert.deepEqual(
+      resolveRelativeDate({ type: "period", period: "today" }, "Australia/Sydney", now),
+      { from: "2024-06-01", to: "2024-06-01" }
+    );
+    assert.deepEqual(
+      resolveRelativeDate({ type: "period", period: "thisMonth" }, "Australia/Sydney", now),
+      { from: "2024-06-01", to: "2024-06-30" }
+    );
+  });
+
+  it("crosses year boundaries", () => {
+    const january = new Date("2024-01-15T00:00:00Z");
+
+    assert.deepEqual(
+      resolveRelativeDate({ type: "period", period: "lastQuarter" }, "UTC", january),
+      { from: "2023-10-01", to: "2023-12-31" }
+    );
+    assert.deepEqual(
+      resolveRelativeDate({ type: "period", period: "lastMonth" }, "UTC", january),
+      { from: "2023-12-01", to: "2023-12-31" }
+    );
+    assert.deepEqual(
+      resolveRelativeDate({ type: "period", period: "lastYear" }, "UTC", january),
+      { from: "2023-01-01", to: "2023-12-31" }
+    );
+  });
+});
+
+describe("isDateInRange", () => {
+  it("compares calendar days, bounds included", () => {
+    const range = { from: "2024-05-01", to: "2024-05-31" };
+
+    assert.equal(isDateInRange("2024-05-01T00:00:00Z", range), true);
+    assert.equal(isDateInRange(new Date("2024-05-31T23:59:59Z"), range), true);
+    assert.equal(isDateInRange("2024-04-30T23:59:59Z", range), false);
+    assert.equal(isDateInRange("2024-01-01", { from: null, to: "2024-04-30" }), true);
+  });
+
+  it("compares the day a date falls on in the shop's timezone", () => {
+    const range = { from: "2024-06-01", to: null };
+
+    assert.equal(isDateInRange("2024-05-31T18:00:00Z", range), false);
+    assert.equal(isDateInRange("2024-05-31T18:00:00Z", range, "Australia/Sydney"), true);
+  });
+
+  it("never matches missing dates", () => {
+    assert.equal(isDateInRange(null, { from: null, to: null }), false);
+    assert.equal(isDateInRange(undefined, { from: "2024-01-01", to: null }), false);
+  });
+});
+
+describe("isRelativeDateValid", () => {
+  it("requires a positive whole amount or a known period", () => {
+    assert.equal(isRelativeDateValid({ type: "inLast", amount: 7, unit: "days" }), true);
+    assert.equal(isRelativeDateValid({ type: "inLast", amount: 0, unit: "days" }), false);
+    assert.equal(isRelativeDateValid({ type: "moreThan", amount: 1.5, unit: "weeks" }), false);
+    assert.equal(
+      isRelativeDateValid({ type: "period", period: "nextWeek" } as unknown as RelativeDate),
+      false
+    );
+    assert.equal(isRelativeDateValid(null), false);
+  });
+});
+
+describe("describeRelativeDate", () => {
+  it("describes relative dates in words", () => {
+    assert.equal(
+      describeRelativeDate({ type: "inLast", amount: 1, unit: "days" }),
+      "in the last 1 day"
+    );
+    assert.equal(
+      describeRelativeDate({ type: "moreThan", amount: 90, unit: "days" }),
+      "more than 90 days ago"
+    );
+    assert.equal(describeRelativeDate({ type: "period", period: "thisQuarter" }), "this quarter");
+  });
+});
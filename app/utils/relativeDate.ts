@@ -0,0 +1,191 @@
+/**
+ * Relative Dates
+ *
+ * Date conditions stored symbolically ("in the last 30 days", "more than 90 days
+ * ago", "this quarter") and resolved against the current date when a filter is
+ * evaluated, so saved segments keep rolling forward instead of sticking to the
+ * date they were created.
+ *
+ * Dates are compared as calendar days (YYYY-MM-DD) in the shop's timezone, like the
+ * dashboard date ranges (see utils/dateRange): "today" starts at the merchant's midnight.
+ *
+ * Pure and client-safe: the timezone is passed in (see getShopTimezone() on the server).
+ */
+
+import {
+  DEFAULT_TIMEZONE,
+  formatZonedDay,
+  getZonedDateParts,
+  isValidTimezone,
+} from "./dateRange";
+
+export type RelativeDateUnit = "days" | "weeks" | "months";
+
+export type RelativeDatePeriod =
+  | "today"
+  | "thisWeek"
+  | "thisMonth"
+  | "thisQuarter"
+  | "thisYear"
+  | "lastWeek"
+  | "lastMonth"
+  | "lastQuarter"
+  | "lastYear";
+
+export type RelativeDate =
+  | { type: "inLast"; amount: number; unit: RelativeDateUnit }
+  | { type: "moreThan"; amount: number; unit: RelativeDateUnit } // more than N units ago
+  | { type: "period"; period: RelativeDatePeriod };
+
+// Inclusive calendar day range (YYYY-MM-DD), either bound may be open
+export interface ResolvedDateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export const RELATIVE_DATE_TYPES: { label: string; value: RelativeDate["type"] }[] = [
+  { label: "In the last", value: "inLast" },
+  { label: "More than ... ago", value: "moreThan" },
+  { label: "During", value: "period" },
+];
+
+export const RELATIVE_DATE_UNITS: { label: string; value: RelativeDateUnit }[] = [
+  { label: "Days", value: "days" },
+  { label: "Weeks", value: "weeks" },
+  { label: "Months", value: "months" },
+];
+
+export const RELATIVE_DATE_PERIODS: { label: string; value: RelativeDatePeriod }[] = [
+  { label: "Today", value: "today" },
+  { label: "This week", value: "thisWeek" },
+  { label: "This month", value: "thisMonth" },
+  { label: "This quarter", value: "thisQuarter" },
+  { label: "This year", value: "thisYear" },
+  { label: "Last week", value: "lastWeek" },
+  { label: "Last month", value: "lastMonth" },
+  { label: "Last quarter", value: "lastQuarter" },
+  { label: "Last year", value: "lastYear" },
+];
+
+/**
+ * Format a date as a UTC calendar day (YYYY-MM-DD)
+ */
+export function toIsoDate(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+// Month arithmetic clamps to the end of shorter months (Mar 31 - 1 month = Feb 28)
+function subtractUnits(date: Date, amount: number, unit: RelativeDateUnit): Date {
+  if (unit === "months") {
+    const target = utcDate(date.getUTCFullYear(), date.getUTCMonth() - amount, 1);
+    const lastDay = utcDate(target.getUTCFullYear(), target.getUTCMonth() + 1, 0).getUTCDate();
+    return utcDate(target.getUTCFullYear(), target.getUTCMonth(), Math.min(date.getUTCDate(), lastDay));
+  }
+  return addDays(date, -amount * (unit === "weeks" ? 7 : 1));
+}
+
+function resolvePeriod(period: RelativeDatePeriod, today: Date): { from: Date; to: Date } {
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const quarterStart = month - (month % 3);
+  const weekStart = addDays(today, -((today.getUTCDay() + 6) % 7)); // Weeks start on Monday
+
+  switch (period) {
+    case "today":
+      return { from: today, to: today };
+    case "thisWeek":
+      return { from: weekStart, to: addDays(weekStart, 6) };
+    case "thisMonth":
+      return { from: utcDate(year, month, 1), to: utcDate(year, month + 1, 0) };
+    case "thisQuarter":
+      return { from: utcDate(year, quarterStart, 1), to: utcDate(year, quarterStart + 3, 0) };
+    case "thisYear":
+      return { from: utcDate(year, 0, 1), to: utcDate(year, 11, 31) };
+    case "lastWeek":
+      return { from: addDays(weekStart, -7), to: addDays(weekStart, -1) };
+    case "lastMonth":
+      return { from: utcDate(year, month - 1, 1), to: utcDate(year, month, 0) };
+    case "lastQuarter":
+      return { from: utcDate(year, quarterStart - 3, 1), to: utcDate(year, quarterStart, 0) };
+    case "lastYear":
+      return { from: utcDate(year - 1, 0, 1), to: utcDate(year - 1, 11, 31) };
+  }
+}
+
+/**
+ * Check that a relative date is complete (a positive whole amount, or a known period)
+ */
+export function isRelativeDateValid(relative: RelativeDate | null | undefined): relative is RelativeDate {
+  if (!relative) {
+    return false;
+  }
+  if (relative.type === "period") {
+    return RELATIVE_DATE_PERIODS.some((option) => option.value === relative.period);
+  }
+  return Number.isInteger(relative.amount) && relative.amount > 0;
+}
+
+/**
+ * Resolve a relative date against the current date in the given timezone
+ *
+ * "In the last N days" and "more than N days ago" are complements: the first starts
+ * N days before today, the second ends the day before that.
+ */
+export function resolveRelativeDate(
+  relative: RelativeDate,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): ResolvedDateRange {
+  // Calendar arithmetic runs on UTC dates holding the shop's day
+  const zoned = getZonedDateParts(now, isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE);
+  const today = utcDate(zoned.year, zoned.month - 1, zoned.day);
+
+  if (relative.type === "period") {
+    const { from, to } = resolvePeriod(relative.period, today);
+    return { from: toIsoDate(from), to: toIsoDate(to) };
+  }
+
+  const start = subtractUnits(today, relative.amount, relative.unit);
+  return relative.type === "inLast"
+    ? { from: toIsoDate(start), to: null }
+    : { from: null, to: toIsoDate(addDays(start, -1)) };
+}
+
+/**
+ * Check if a date falls within a resolved range, by the day it falls on in the
+ * given timezone (missing dates never match)
+ */
+export function isDateInRange(
+  date: Date | string | null | undefined,
+  range: ResolvedDateRange,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean {
+  if (!date) {
+    return false;
+  }
+  const day = formatZonedDay(new Date(date), isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE);
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+}
+
+/**
+ * Describe a relative date, e.g. "in the last 30 days" or "this quarter"
+ */
+export function describeRelativeDate(relative: RelativeDate): string {
+  if (relative.type === "period") {
+    const label = RELATIVE_DATE_PERIODS.find((option) => option.value === relative.period)?.label || relative.period;
+    return label.toLowerCase();
+  }
+
+  const unit = relative.amount === 1 ? relative.unit.slice(0, -1) : relative.unit;
+  return relative.type === "inLast"
+    ? `in the last ${relative.amount} ${unit}`
+    : `more than ${relative.amount} ${unit} ago`;
+}
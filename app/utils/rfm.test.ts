@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RFM_SEGMENTS,
+  getRfmSegment,
+  getRfmSegmentCustomerIds,
+  scoreRfmCustomers,
+  summarizeRfmSegments,
+  type RfmCustomer,
+} from "./rfm";
+
+const now = new Date("2024-06-01T12:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const customers: RfmCustomer[] = [
+  { id: "a", lastOrderDate: daysAgo(1), orderCount: 10, totalSpent: 1000 },
+  { id: "b", lastOrderDate: daysAgo(10), orderCount: 6, totalSpent: 600 },
+  { id: "c", lastOrderDate: daysAgo(50), orderCount: 4, totalSpent: 300 },
+  { id: "d", lastOrderDate: daysAgo(100), orderCount: 2, totalSpent: 100 },
+  { id: "e", lastOrderDate: daysAgo(400), orderCount: 1, totalSpent: 10 },
+];
+
+describe("scoreRfmCustomers", () => {
+  it("scores each dimension in quintiles", () => {
+    const scores = scoreRfmCustomers(customers, now);
+
+    assert.deepEqual(
+      scores.map(({ customerId, recency, frequency, monetary }) => [
+        customerId,
+        recency,
+        frequency,
+        monetary,
+      ]),
+      [
+        ["a", 5, 5, 5],
+        ["b", 4, 4, 4],
+        ["c", 3, 3, 3],
+        ["d", 2, 2, 2],
+        ["e", 1, 1, 1],
+      ]
+    );
+    assert.equal(scores[0].recencyDays, 1);
+    assert.equal(scores[0].segment, "champions");
+    assert.equal(scores[4].segment, "hibernating");
+  });
+
+  it("gives equal values the same score", () => {
+    const oneTimeBuyers = customers.map((customer) => ({ ...customer, orderCount: 1 }));
+    const scores = scoreRfmCustomers(oneTimeBuyers, now);
+
+    assert.deepEqual(
+      scores.map((score) => score.frequency),
+      [1, 1, 1, 1, 1]
+    );
+  });
+
+  it("leaves out customers without orders", () => {
+    const scores = scoreRfmCustomers(
+      [...customers, { id: "f", lastOrderDate: now, orderCount: 0, totalSpent: 0 }],
+      now
+    );
+
+    assert.equal(scores.length, customers.length);
+    assert.equal(scoreRfmCustomers([], now).length, 0);
+  });
+});
+
+describe("getRfmSegment", () => {
+  it("places recent customers by frequency and spend", () => {
+    assert.equal(getRfmSegment(5, 5), "champions");
+    assert.equal(getRfmSegment(4, 4), "loyalCustomers");
+    assert.equal(getRfmSegment(4, 2), "potentialLoyalists");
+    assert.equal(getRfmSegment(5, 1), "newCustomers");
+    assert.equal(getRfmSegment(4, 1), "promising");
+  });
+
+  it("places lapsing customers by what they're worth", () => {
+    assert.equal(getRfmSegment(3, 4), "loyalCustomers");
+    assert.equal(getRfmSegment(3, 3), "needAttention");
+    assert.equal(getRfmSegment(3, 2), "aboutToSleep");
+    assert.equal(getRfmSegment(1, 5), "cantLoseThem");
+    assert.equal(getRfmSegment(2, 3), "atRisk");
+    assert.equal(getRfmSegment(1, 2), "hibernating");
+  });
+});
+
+describe("summarizeRfmSegments", () => {
+  it("lists every segment with its share and spend", () => {
+    const summary = summarizeRfmSegments(customers, now);
+
+    assert.deepEqual(
+      summary.map((segment) => segment.id),
+      RFM_SEGMENTS.map((segment) => segment.id)
+    );
+    assert.equal(
+      summary.reduce((sum, segment) => sum + segment.customers, 0),
+      customers.length
+    );
+
+    const champions = summary.find((segment) => segment.id === "champions")!;
+    assert.equal(champions.customers, 1);
+    assert.equal(champions.share, 20);
+    assert.equal(champions.totalSpent, 1000);
+    assert.equal(champions.averageRecencyDays, 1);
+
+    const empty = summary.find((segment) => segment.id === "newCustomers")!;
+    assert.equal(empty.customers, 0);
+    assert.equal(empty.averageRecencyDays, null);
+  });
+});
+
+describe("getRfmSegmentCustomerIds", () => {
+  it("returns the customers of a segment", () => {
+    assert.deepEqual(getRfmSegmentCustomerIds(customers, "hibernating", now), ["d", "e"]);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * RFM
+ *
+ * Recency / frequency / monetary scoring of customers from their order history.
+ * Each dimension is a quintile score from 1 (worst fifth of customers) to 5 (best):
+ * - Recency: days since the last order (fewer is better)
+ * - Frequency: number of orders
+ * - Monetary: total spent
+ * Equal values share a score, so a store where most customers ordered once puts
+ * them all in the same frequency quintile.
+ *
+ * Customers are then placed in the classic named segments from their recency score
+ * and the average of their frequency and monetary scores.
+ *
+ * Pure and client-safe: customers are loaded by the caller (GraphQL or warehouse).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RfmCustomer {
+  id: string;
+  lastOrderDate: Date | string;
+  orderCount: number;
+  totalSpent: number;
+}
+
+export type RfmSegmentId =
+  | "champions"
+  | "loyalCustomers"
+  | "potentialLoyalists"
+  | "newCustomers"
+  | "promising"
+  | "needAttention"
+  | "aboutToSleep"
+  | "atRisk"
+  | "cantLoseThem"
+  | "hibernating";
+
+export interface RfmSegmentDefinition {
+  id: RfmSegmentId;
+  label: string;
+  description: string;
+  color: string;
+}
+
+export interface RfmScore {
+  customerId: string;
+  recencyDays: number;
+  recency: number;
+  frequency: number;
+  monetary: number;
+  segment: RfmSegmentId;
+}
+
+export interface RfmSegmentSummary extends RfmSegmentDefinition {
+  customers: number;
+  share: number; // % of scored customers
+  totalSpent: number;
+  averageRecencyDays: number | null;
+}
+
+export const RFM_SEGMENTS: RfmSegmentDefinition[] = [
+  {
+    id: "champions",
+    label: "Champions",
+    description: "Bought recently, buy often and spend the most",
+    color: "rgba(0, 128, 96, 0.85)",
+  },
+  {
+    id: "loyalCustomers",
+    label: "Loyal Customers",
+    description: "Buy regularly and spend well",
+    color: "rgba(0, 128, 96, 0.6)",
+  },
+  {
+    id: "potentialLoyalists",
+    label: "Potential Loyalists",
+    description: "Recent customers with a few orders",
+    color: "rgba(54, 162, 235, 0.7)",
+  },
+  {
+    id: "newCustomers",
+    label: "New Customers",
+    description: "Bought very recently, only once",
+    color: "rgba(54, 162, 235, 0.5)",
+  },
+  {
+    id: "promising",
+    label: "Promising",
+    description: "Recent one-time buyers who haven't spent much",
+    color: "rgba(75, 192, 192, 0.6)",
+  },
+  {
+    id: "needAttention",
+    label: "Need Attention",
+    description: "Average recency, frequency and spend",
+    color: "rgba(255, 206, 86, 0.7)",
+  },
+  {
+    id: "aboutToSleep",
+    label: "About To Sleep",
+    description: "Below average recency and frequency",
+    color: "rgba(255, 159, 64, 0.6)",
+  },
+  {
+    id: "atRisk",
+    label: "At Risk",
+    description: "Used to buy often but haven't in a long time",
+    color: "rgba(255, 99, 132, 0.6)",
+  },
+  {
+    id: "cantLoseThem",
+    label: "Can't Lose Them",
+    description: "Top customers who haven't come back in a long time",
+    color: "rgba(255, 99, 132, 0.85)",
+  },
+  {
+    id: "hibernating",
+    label: "Hibernating",
+    description: "Last ordered long ago, rarely and with low spend",
+    color: "rgba(128, 128, 128, 0.5)",
+  },
+];
+
+/**
+ * Check if a value is a known RFM segment id
+ */
+export function isRfmSegmentId(value: string | null | undefined): value is RfmSegmentId {
+  return RFM_SEGMENTS.some((segment) => segment.id === value);
+}
+
+/**
+ * Get the named segment of a recency score and a frequency/monetary score
+ */
+export function getRfmSegment(recency: number, frequencyMonetary: number): RfmSegmentId {
+  if (recency <= 2) {
+    if (frequencyMonetary === 5) return "cantLoseThem";
+    return frequencyMonetary >= 3 ? "atRisk" : "hibernating";
+  }
+  if (recency === 3) {
+    if (frequencyMonetary >= 4) return "loyalCustomers";
+    return frequencyMonetary === 3 ? "needAttention" : "aboutToSleep";
+  }
+  if (frequencyMonetary >= 4) {
+    return recency === 5 ? "champions" : "loyalCustomers";
+  }
+  if (frequencyMonetary >= 2) {
+    return "potentialLoyalists";
+  }
+  return recency === 5 ? "newCustomers" : "promising";
+}
+
+/**
+ * Quintile score (1-5) of each value; higherIsBetter=false scores low values highest
+ * Equal values get the score of their first position in the sorted order.
+ */
+function getQuintileScores(values: number[], higherIsBetter: boolean): number[] {
+  const sorted = [...values].sort((a, b) => (higherIsBetter ? a - b : b - a));
+  const firstPositions = new Map<number, number>();
+  sorted.forEach((value, index) => {
+    if (!firstPositions.has(value)) {
+      firstPositions.set(value, index);
+    }
+  });
+
+  return values.map(
+    (value) => Math.floor((firstPositions.get(value)! * 5) / sorted.length) + 1
+  );
+}
+
+/**
+ * Score customers who have ordered at least once
+ */
+export function scoreRfmCustomers(
+  customers: RfmCustomer[],
+  now: Date = new Date()
+): RfmScore[] {
+  const scored = customers.filter((customer) => customer.orderCount > 0);
+  const recencyDays = scored.map((customer) =>
+    Math.max(0, Math.floor((now.getTime() - new Date(customer.lastOrderDate).getTime()) / DAY_MS))
+  );
+  const recencyScores = getQuintileScores(recencyDays, false);
+  const frequencyScores = getQuintileScores(
+    scored.map((customer) => customer.orderCount),
+    true
+  );
+  const monetaryScores = getQuintileScores(
+    scored.map((customer) => customer.totalSpent),
+    true
+  );
+
+  return scored.map((customer, index) => ({
+    customerId: customer.id,
+    recencyDays: recencyDays[index],
+    recency: recencyScores[index],
+    frequency: frequencyScores[index],
+    monetary: monetaryScores[index],
+    segment: getRfmSegment(
+      recencyScores[index],
+      Math.round((frequencyScores[index] + monetaryScores[index]) / 2)
+    ),
+  }));
+}
+
+/**
+ * Summarize scored customers by segment (every segment is listed, even when empty)
+ */
+export function summarizeRfmSegments(
+  customers: RfmCustomer[],
+  now: Date = new Date()
+): RfmSegmentSummary[] {
+  const scores = scoreRfmCustomers(customers, now);
+  const spent = new Map(customers.map((customer) => [customer.id, customer.totalSpent]));
+
+  return RFM_SEGMENTS.map((segment) => {
+    const members = scores.filter((score) => score.segment === segment.id);
+    return {
+      ...segment,
+      customers: members.length,
+      share: scores.length === 0 ? 0 : (members.length / scores.length) * 100,
+      totalSpent: members.reduce((sum, score) => sum + (spent.get(score.customerId) || 0), 0),
+      averageRecencyDays:
+        members.length === 0
+          ? null
+          : members.reduce((sum, score) => sum + score.recencyDays, 0) / members.length,
+    };
+  });
+}
+
+/**
+ * Get the ids of the customers in a segment
+ */
+export function getRfmSegmentCustomerIds(
+  customers: RfmCustomer[],
+  segment: RfmSegmentId,
+  now: Date = new Date()
+): string[] {
+  return scoreRfmCustomers(customers, now)
+    .filter((score) => score.segment === segment)
+    .map((score) => score.customerId);
+}
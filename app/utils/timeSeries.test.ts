@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { endOfZonedDay, startOfZonedDay } from "./dateRange";
+import {
+  buildCountSeries,
+  getBucketIndex,
+  getTimeBuckets,
+  getTimeSeriesInterval,
+  toCumulativeSeries,
+} from "./timeSeries";
+
+function range(from: [number, number, number], to: [number, number, number], timezone = "UTC") {
+  return {
+    startDate: startOfZonedDay(...from, timezone),
+    endDate: endOfZonedDay(...to, timezone),
+    timezone,
+  };
+}
+
+describe("getTimeBuckets", () => {
+  it("buckets by day up to 90 days, by week beyond", () => {
+    assert.equal(getTimeSeriesInterval(range([2024, 3, 1], [2024, 5, 30])), "day");
+    assert.equal(getTimeSeriesInterval(range([2024, 3, 1], [2024, 5, 31])), "week");
+  });
+
+  it("follows the shop's calendar days across clock changes", () => {
+    const buckets = getTimeBuckets(range([2024, 3, 9], [2024, 3, 11], "America/New_York"));
+
+    assert.deepEqual(
+      buckets.map((bucket) => bucket.date),
+      ["2024-03-09", "2024-03-10", "2024-03-11"]
+    );
+    assert.equal(buckets[1].startDate.toISOString(), "2024-03-10T05:00:00.000Z");
+    assert.equal(buckets[1].endDate.toISOString(), "2024-03-11T03:59:59.999Z");
+  });
+
+  it("cuts the last week off at the end of the range", () => {
+    const weekly = range([2024, 1, 1], [2024, 6, 30]);
+    const buckets = getTimeBuckets(weekly);
+
+    assert.equal(buckets.length, 26);
+    assert.equal(buckets[1].date, "2024-01-08");
+    assert.equal(buckets[25].date, "2024-06-24");
+    assert.equal(buckets[25].endDate.getTime(), weekly.endDate.getTime());
+  });
+});
+
+describe("buildCountSeries", () => {
+  const buckets = getTimeBuckets(range([2024, 6, 1], [2024, 6, 3]));
+  const orders = [
+    { customerId: "c1", createdAt: "2024-06-01T10:00:00Z" },
+    { customerId: "c1", createdAt: "2024-06-01T12:00:00Z" },
+    { customerId: null, createdAt: "2024-06-01T13:00:00Z" },
+    { customerId: "c2", createdAt: "2024-06-03T23:59:59Z" },
+    { customerId: "c3", createdAt: "2024-06-04T00:00:00Z" },
+  ];
+
+  it("finds the bucket of a date", () => {
+    assert.equal(getBucketIndex(buckets, new Date("2024-06-02T00:00:00Z")), 1);
+    assert.equal(getBucketIndex(buckets, new Date("2024-05-31T23:59:59Z")), -1);
+  });
+
+  it("counts records, or distinct keys, per bucket", () => {
+    assert.deepEqual(
+      buildCountSeries(buckets, orders, (order) => order.createdAt).map((point) => point.count),
+      [3, 0, 1]
+    );
+    assert.deepEqual(
+      buildCountSeries(
+        buckets,
+        orders,
+        (order) => order.createdAt,
+        (order) => order.customerId
+      ).map((point) => point.count),
+      [1, 0, 1]
+    );
+  });
+
+  it("accumulates from a base count", () => {
+    const series = buildCountSeries(buckets, orders, (order) => order.createdAt);
+
+    assert.deepEqual(toCumulativeSeries(series, 10), [
+      { date: "2024-06-01", count: 13 },
+      { date: "2024-06-02", count: 13 },
+      { date: "2024-06-03", count: 14 },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Time Series
+ *
+ * Buckets records into the evenly spaced data points the dashboard card charts draw.
+ * Buckets are calendar days in the shop's timezone, or weeks once a range is longer
+ * than 90 days. Each bucket is labelled with the YYYY-MM-DD day it starts on.
+ *
+ * Pure and client-safe: build the range with resolveDateRange() first.
+ */
+
+import {
+  getDateRangeDays,
+  getZonedDateParts,
+  startOfZonedDay,
+  formatZonedDay,
+  type DateRange,
+} from "./dateRange";
+
+export type TimeSeriesInterval = "day" | "week";
+
+export interface TimeBucket {
+  date: string; // YYYY-MM-DD the bucket starts on, in the shop's timezone
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface DataPoint {
+  date: string;
+  count: number;
+}
+
+// The "90days" preset covers 91 calendar days (it includes today)
+const DAILY_SERIES_MAX_DAYS = 91;
+
+/**
+ * Get the bucket size for a range: daily up to 90 days, weekly beyond
+ */
+export function getTimeSeriesInterval(
+  range: Pick<DateRange, "startDate" | "endDate">
+): TimeSeriesInterval {
+  return getDateRangeDays(range) <= DAILY_SERIES_MAX_DAYS ? "day" : "week";
+}
+
+/**
+ * Split a range into consecutive day or week buckets
+ * The last bucket is cut off at the end of the range.
+ */
+export function getTimeBuckets(
+  range: Pick<DateRange, "startDate" | "endDate" | "timezone">
+): TimeBucket[] {
+  const { timezone } = range;
+  const step = getTimeSeriesInterval(range) === "day" ? 1 : 7;
+  const { year, month, day } = getZonedDateParts(range.startDate, timezone);
+  const buckets: TimeBucket[] = [];
+
+  for (let offset = 0; ; offset += step) {
+    const startDate = startOfZonedDay(year, month, day + offset, timezone);
+    if (startDate > range.endDate) {
+      break;
+    }
+
+    const nextStart = startOfZonedDay(year, month, day + offset + step, timezone);
+    const endDate = new Date(
+      Math.min(nextStart.getTime() - 1, range.endDate.getTime())
+    );
+
+    buckets.push({ date: formatZonedDay(startDate, timezone), startDate, endDate });
+  }
+
+  return buckets;
+}
+
+/**
+ * Find the bucket a date falls in (-1 when outside every bucket)
+ */
+export function getBucketIndex(buckets: TimeBucket[], date: Date): number {
+  let low = 0;
+  let high = buckets.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (date < buckets[middle].startDate) {
+      high = middle - 1;
+    } else if (date > buckets[middle].endDate) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Count records per bucket
+ * With getKey, each bucket counts distinct keys instead (e.g. customers rather than orders);
+ * records without a key are skipped.
+ */
+export function buildCountSeries<T>(
+  buckets: TimeBucket[],
+  records: T[],
+  getDate: (record: T) => Date | string,
+  getKey?: (record: T) => string | null | undefined
+): DataPoint[] {
+  const counts = buckets.map(() => 0);
+  const seen = buckets.map(() => new Set<string>());
+
+  for (const record of records) {
+    const index = getBucketIndex(buckets, new Date(getDate(record)));
+    if (index === -1) {
+      continue;
+    }
+
+    if (!getKey) {
+      counts[index]++;
+      continue;
+    }
+
+    const key = getKey(record);
+    if (key && !seen[index].has(key)) {
+      seen[index].add(key);
+      counts[index]++;
+    }
+  }
+
+  return buckets.map((bucket, index) => ({ date: bucket.date, count: counts[index] }));
+}
+
+/**
+ * Running total of a series, starting from a base count
+ */
+export function toCumulativeSeries(series: DataPoint[], base: number = 0): DataPoint[] {
+  let total = base;
+  return series.map((point) => {
+    total += point.count;
+    return { date: point.date, count: total };
+  });
+}
+
+/**
+ * Series of zeros, for when the records can't be loaded
+ */
+export function getEmptySeries(buckets: TimeBucket[]): DataPoint[] {
+  return buckets.map((bucket) => ({ date: bucket.date, count: 0 }));
+}
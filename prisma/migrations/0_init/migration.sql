@@ -0,0 +1,200 @@
+-- CreateTable
+CREATE TABLE "onboardingtaskdata" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "completedSteps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "autoCompletedSteps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    CONSTRAINT "onboardingtaskdata_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dashboard_preferences" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "visibilityConfig" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dashboard_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "saved_customer_lists" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "listName" TEXT NOT NULL,
+    "queryData" TEXT NOT NULL,
+    "customerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'filter-audience',
+    "status" TEXT NOT NULL DEFAULT 'active',
+
+    CONSTRAINT "saved_customer_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_preferences" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "preferences" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subscription_plans" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" TEXT NOT NULL,
+    "priceNote" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "badgeTone" TEXT,
+    "badgeLabel" TEXT,
+    "primaryCtaLabel" TEXT NOT NULL,
+    "primaryCtaVariant" TEXT NOT NULL,
+    "isCurrentDefault" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "subscription_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subscription_plan_benefits" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+
+    CONSTRAINT "subscription_plan_benefits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chat_sessions" (
+    "session_id" TEXT NOT NULL,
+    "shop_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chat_sessions_pkey" PRIMARY KEY ("session_id")
+);
+
+-- CreateTable
+CREATE TABLE "n8n_chat_histories" (
+    "id" SERIAL NOT NULL,
+    "session_id" VARCHAR(255) NOT NULL,
+    "message" JSONB NOT NULL,
+
+    CONSTRAINT "n8n_chat_histories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mailchimp_connections" (
+    "shop_id" TEXT NOT NULL,
+    "access_token" TEXT NOT NULL,
+    "server_prefix" TEXT NOT NULL,
+    "connected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mailchimp_connections_pkey" PRIMARY KEY ("shop_id")
+);
+
+-- CreateTable
+CREATE TABLE "onboarding_progress" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "email" TEXT,
+    "contact" TEXT,
+    "completedSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "onboarding_progress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "usage_tracking" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "totalChatsCreated" INTEGER NOT NULL DEFAULT 0,
+    "totalListsGenerated" INTEGER NOT NULL DEFAULT 0,
+    "totalListsSaved" INTEGER NOT NULL DEFAULT 0,
+    "totalExports" INTEGER NOT NULL DEFAULT 0,
+    "isBlocked" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "usage_tracking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "usage_limits" (
+    "id" TEXT NOT NULL,
+    "maxChats" INTEGER NOT NULL DEFAULT 10,
+    "maxListsGenerated" INTEGER NOT NULL DEFAULT 20,
+    "maxListsSaved" INTEGER NOT NULL DEFAULT 15,
+    "maxExports" INTEGER NOT NULL DEFAULT 10,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "usage_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "session" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "isOnline" BOOLEAN NOT NULL DEFAULT false,
+    "scope" TEXT,
+    "expires" TIMESTAMP(3),
+    "accessToken" TEXT NOT NULL,
+    "userId" TEXT,
+    "firstName" TEXT,
+    "lastName" TEXT,
+    "email" TEXT,
+    "accountOwner" BOOLEAN NOT NULL DEFAULT false,
+    "locale" TEXT,
+    "collaborator" BOOLEAN NOT NULL DEFAULT false,
+    "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "onboardingtaskdata_shop_key" ON "onboardingtaskdata"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dashboard_preferences_shop_key" ON "dashboard_preferences"("shop");
+
+-- CreateIndex
+CREATE INDEX "saved_customer_lists_shop_idx" ON "saved_customer_lists"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_preferences_shop_key" ON "user_preferences"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_plans_code_key" ON "subscription_plans"("code");
+
+-- CreateIndex
+CREATE INDEX "subscription_plan_benefits_planId_sortOrder_idx" ON "subscription_plan_benefits"("planId", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "onboarding_progress_shop_key" ON "onboarding_progress"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "usage_tracking_shop_key" ON "usage_tracking"("shop");
+
+-- CreateIndex
+CREATE INDEX "usage_tracking_shop_idx" ON "usage_tracking"("shop");
+
+-- AddForeignKey
+ALTER TABLE "subscription_plan_benefits" ADD CONSTRAINT "subscription_plan_benefits_planId_fkey" FOREIGN KEY ("planId") REFERENCES "subscription_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "n8n_chat_histories" ADD CONSTRAINT "n8n_chat_histories_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "chat_sessions"("session_id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "klaviyo_connections" (
+    "shop_id" TEXT NOT NULL,
+    "encrypted_api_key" TEXT NOT NULL,
+    "connected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "klaviyo_connections_pkey" PRIMARY KEY ("shop_id")
+);
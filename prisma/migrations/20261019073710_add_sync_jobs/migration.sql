@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "sync_jobs" (
+    "id" TEXT NOT NULL,
+    "shop_id" TEXT NOT NULL,
+    "list_id" TEXT,
+    "destination" TEXT NOT NULL,
+    "audience_id" TEXT NOT NULL,
+    "audience_name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "keep_in_sync" BOOLEAN NOT NULL DEFAULT false,
+    "upserted_count" INTEGER NOT NULL DEFAULT 0,
+    "removed_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "synced_customer_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_shop_id_list_id_idx" ON "sync_jobs"("shop_id", "list_id");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_keep_in_sync_created_at_idx" ON "sync_jobs"("keep_in_sync", "created_at");
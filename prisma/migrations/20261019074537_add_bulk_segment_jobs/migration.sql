@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "bulk_segment_jobs" (
+    "id" TEXT NOT NULL,
+    "shop_id" TEXT NOT NULL,
+    "bulk_operation_id" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "phase" TEXT,
+    "customers_url" TEXT,
+    "claimed_at" TIMESTAMP(3),
+    "filters" JSONB NOT NULL,
+    "object_count" INTEGER NOT NULL DEFAULT 0,
+    "match_count" INTEGER NOT NULL DEFAULT 0,
+    "customers" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "bulk_segment_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bulk_segment_jobs_shop_id_idx" ON "bulk_segment_jobs"("shop_id");
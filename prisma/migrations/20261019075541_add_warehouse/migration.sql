@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "warehouse_syncs" (
+    "shop_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'idle',
+    "phase" TEXT,
+    "bulk_operation_id" TEXT,
+    "claimed_at" TIMESTAMP(3),
+    "customers_synced" INTEGER NOT NULL DEFAULT 0,
+    "orders_synced" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "warehouse_syncs_pkey" PRIMARY KEY ("shop_id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_customers" (
+    "shop_id" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "email" TEXT,
+    "display_name" TEXT,
+    "country" TEXT,
+    "country_code" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "email_marketing_state" TEXT,
+    "email_marketing_opt_in_level" TEXT,
+    "number_of_orders" INTEGER NOT NULL DEFAULT 0,
+    "amount_spent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "currency_code" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "warehouse_customers_pkey" PRIMARY KEY ("shop_id","id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_orders" (
+    "shop_id" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "customer_id" TEXT,
+    "email" TEXT,
+    "financial_status" TEXT,
+    "payment_gateway_names" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "total_price" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "total_discounts" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "currency_code" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "note" TEXT,
+    "shipping_lines" JSONB NOT NULL DEFAULT '[]',
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "cancelled_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "warehouse_orders_pkey" PRIMARY KEY ("shop_id","id")
+);
+
+-- CreateTable
+CREATE TABLE "warehouse_line_items" (
+    "shop_id" TEXT NOT NULL,
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "product_id" TEXT,
+    "title" TEXT NOT NULL,
+    "product_title" TEXT,
+    "product_type" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "warehouse_line_items_pkey" PRIMARY KEY ("shop_id","id")
+);
+
+-- CreateIndex
+CREATE INDEX "warehouse_customers_shop_id_created_at_idx" ON "warehouse_customers"("shop_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "warehouse_orders_shop_id_created_at_idx" ON "warehouse_orders"("shop_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "warehouse_orders_shop_id_customer_id_idx" ON "warehouse_orders"("shop_id", "customer_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_line_items_shop_id_order_id_idx" ON "warehouse_line_items"("shop_id", "order_id");
+
+-- CreateIndex
+CREATE INDEX "warehouse_line_items_shop_id_product_id_idx" ON "warehouse_line_items"("shop_id", "product_id");
+
+-- AddForeignKey
+ALTER TABLE "warehouse_line_items" ADD CONSTRAINT "warehouse_line_items_shop_id_order_id_fkey" FOREIGN KEY ("shop_id", "order_id") REFERENCES "warehouse_orders"("shop_id", "id") ON DELETE CASCADE ON UPDATE CASCADE;
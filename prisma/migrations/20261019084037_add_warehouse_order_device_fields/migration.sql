@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "warehouse_orders" ADD COLUMN     "landing_site" TEXT,
+ADD COLUMN     "source_name" TEXT,
+ADD COLUMN     "user_agent" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "consent_mode" TEXT;
+
+-- AlterTable
+ALTER TABLE "warehouse_customers" ADD COLUMN     "sms_marketing_opt_in_level" TEXT,
+ADD COLUMN     "sms_marketing_state" TEXT;
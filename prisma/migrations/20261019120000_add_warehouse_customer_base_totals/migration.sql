@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "warehouse_customers" ADD COLUMN     "base_amount_spent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "base_order_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "totals_at" TIMESTAMP(3);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "added_count" INTEGER,
+ADD COLUMN     "updated_count" INTEGER;